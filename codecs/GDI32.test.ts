@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test';
+
+import * as Structs from './GDI32';
+import type { Struct } from './struct';
+
+/** `sizeof` and selected `offsetof` values from MSVC x64 builds of `wingdi.h`. */
+const Layouts: Record<string, [sizeof: number, offsets?: Record<string, number>]> = {
+  ABC: [12],
+  BITMAP: [32, { bmBits: 24 }],
+  BITMAPFILEHEADER: [14, { bfSize: 2, bfOffBits: 10 }],
+  BITMAPINFOHEADER: [40, { biSizeImage: 20, biClrImportant: 36 }],
+  BITMAPV5HEADER: [124, { bV5Endpoints: 60, bV5Intent: 108, bV5Reserved: 120 }],
+  BLEND_FUNCTION: [4, { SourceConstantAlpha: 2, AlphaFormat: 3 }],
+  DEVMODEA: [156, { dmFields: 40, dmOrientation: 44, dmPosition: 44, dmDisplayOrientation: 52, dmColor: 60, dmFormName: 70, dmLogPixels: 102, dmBitsPerPel: 104, dmDisplayFlags: 116, dmNup: 116, dmPanningHeight: 152 }],
+  DEVMODEW: [
+    220,
+    { dmFields: 72, dmOrientation: 76, dmPosition: 76, dmDisplayOrientation: 84, dmDisplayFixedOutput: 88, dmColor: 92, dmFormName: 102, dmLogPixels: 166, dmBitsPerPel: 168, dmDisplayFlags: 180, dmNup: 180, dmPanningHeight: 216 },
+  ],
+  DOCINFOA: [40, { lpszDocName: 8, fwType: 32 }],
+  DOCINFOW: [40, { lpszDocName: 8, fwType: 32 }],
+  ENHMETAHEADER: [108, { nDescription: 60, szlMillimeters: 80, szlMicrometers: 100 }],
+  ENUMLOGFONTEXA: [188, { elfFullName: 60, elfStyle: 124, elfScript: 156 }],
+  ENUMLOGFONTEXW: [348, { elfFullName: 92, elfStyle: 220, elfScript: 284 }],
+  EXTLOGPEN: [32, { elpHatch: 16, elpNumEntries: 24, elpStyleEntry: 28 }],
+  GCP_RESULTSA: [64, { lpOutString: 8, nGlyphs: 56, nMaxFit: 60 }],
+  GCP_RESULTSW: [64, { lpOutString: 8, nGlyphs: 56, nMaxFit: 60 }],
+  GLYPHMETRICS: [20, { gmCellIncX: 16 }],
+  GLYPHSET: [20, { cRanges: 12, ranges: 16 }],
+  LOGBRUSH: [16, { lbHatch: 8 }],
+  LOGCOLORSPACEA: [328, { lcsEndpoints: 20, lcsFilename: 68 }],
+  LOGCOLORSPACEW: [588, { lcsEndpoints: 20, lcsFilename: 68 }],
+  LOGFONTA: [60, { lfFaceName: 28 }],
+  LOGFONTW: [92, { lfFaceName: 28 }],
+  LOGPALETTE: [8, { palNumEntries: 2, palPalEntry: 4 }],
+  LOGPEN: [16, { lopnWidth: 4, lopnColor: 12 }],
+  METAHEADER: [18, { mtSize: 6, mtNoParameters: 16 }],
+  NEWTEXTMETRICA: [72, { ntmFlags: 56 }],
+  NEWTEXTMETRICEXA: [96, { ntmFontSig: 72 }],
+  NEWTEXTMETRICEXW: [100, { ntmFontSig: 76 }],
+  NEWTEXTMETRICW: [76, { ntmFlags: 60 }],
+  OUTLINETEXTMETRICA: [232, { otmTextMetrics: 4, otmFiller: 60, otmPanoseNumber: 61, otmfsSelection: 72, otmrcFontBox: 116, otmsUnderscorePosition: 192, otmpFamilyName: 200, otmpFullName: 224 }],
+  OUTLINETEXTMETRICW: [232, { otmTextMetrics: 4, otmFiller: 64, otmPanoseNumber: 65, otmfsSelection: 76, otmrcFontBox: 120, otmsUnderscorePosition: 196, otmpFamilyName: 200, otmpFullName: 224 }],
+  PANOSE: [10, { bXHeight: 9 }],
+  PIXELFORMATDESCRIPTOR: [40, { dwLayerMask: 28 }],
+  POLYTEXTA: [56, { lpstr: 16, rcl: 28, pdx: 48 }],
+  POLYTEXTW: [56, { lpstr: 16, rcl: 28, pdx: 48 }],
+  RGNDATAHEADER: [32, { rcBound: 16 }],
+  TEXTMETRICA: [56, { tmFirstChar: 44, tmCharSet: 52 }],
+  TEXTMETRICW: [60, { tmFirstChar: 44, tmCharSet: 56 }],
+  WCRANGE: [4, { cGlyphs: 2 }],
+  XFORM: [24, { eDy: 20 }],
+};
+
+describe('struct layouts', () => {
+  for (const [name, [sizeof, offsets = {}]] of Object.entries(Layouts)) {
+    test(name, () => {
+      const struct = (Structs as Record<string, unknown>)[name] as Struct<Record<string, unknown>>;
+
+      expect(struct.sizeof).toBe(sizeof);
+
+      for (const [field, offset] of Object.entries(offsets)) {
+        expect([field, struct.offsetof(field)]).toEqual([field, offset]);
+      }
+    });
+  }
+});
+
+describe('DEVMODEW', () => {
+  test('overlays the printer and display union members', () => {
+    const buffer = Structs.DEVMODEW.encode({ dmDeviceName: 'DISPLAY1', dmSize: Structs.DEVMODEW.sizeof, dmPosition: { x: -1920, y: 0 }, dmNup: 2 });
+    const devmode = Structs.DEVMODEW.decode(buffer);
+
+    expect(devmode.dmDeviceName).toBe('DISPLAY1');
+    expect(devmode.dmSize).toBe(220);
+    expect(devmode.dmPosition).toEqual({ x: -1920, y: 0 });
+    expect(devmode.dmOrientation).toBe(-1920);
+    expect(devmode.dmDisplayFlags).toBe(2);
+  });
+});
+
+describe('LOGPALETTE', () => {
+  test('encodes the header and first entry', () => {
+    const buffer = Structs.LOGPALETTE.encode({ palVersion: 0x300, palNumEntries: 1, palPalEntry: [{ peRed: 1, peGreen: 2, peBlue: 3 }] });
+
+    expect([...buffer]).toEqual([0x00, 0x03, 0x01, 0x00, 1, 2, 3, 0]);
+  });
+});
@@ -0,0 +1,736 @@
+import { type StructValue, defineStruct } from './struct';
+
+/**
+ * Struct codecs for the Win32 structures passed to and returned from `gdi32.dll` (x64 layout).
+ *
+ * Each codec pairs with a same-named type describing its decoded shape, so `RECT` is both
+ * `RECT.encode({ ... })` and the `RECT` object type. Building blocks used by other
+ * structures are declared first; the rest follow alphabetically.
+ */
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-ciexyz
+export const CIEXYZ = defineStruct({ ciexyzX: 'i32', ciexyzY: 'i32', ciexyzZ: 'i32' });
+export type CIEXYZ = StructValue<typeof CIEXYZ>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-ciexyztriple
+export const CIEXYZTRIPLE = defineStruct({ ciexyzRed: CIEXYZ, ciexyzGreen: CIEXYZ, ciexyzBlue: CIEXYZ });
+export type CIEXYZTRIPLE = StructValue<typeof CIEXYZTRIPLE>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-fixed
+export const FIXED = defineStruct({ fract: 'u16', value: 'i16' });
+export type FIXED = StructValue<typeof FIXED>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-fontsignature
+export const FONTSIGNATURE = defineStruct({ fsUsb: { type: 'u32', length: 4 }, fsCsb: { type: 'u32', length: 2 } });
+export type FONTSIGNATURE = StructValue<typeof FONTSIGNATURE>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-paletteentry
+export const PALETTEENTRY = defineStruct({ peRed: 'u8', peGreen: 'u8', peBlue: 'u8', peFlags: 'u8' });
+export type PALETTEENTRY = StructValue<typeof PALETTEENTRY>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-panose
+export const PANOSE = defineStruct({
+  bFamilyType: 'u8',
+  bSerifStyle: 'u8',
+  bWeight: 'u8',
+  bProportion: 'u8',
+  bContrast: 'u8',
+  bStrokeVariation: 'u8',
+  bArmStyle: 'u8',
+  bLetterform: 'u8',
+  bMidline: 'u8',
+  bXHeight: 'u8',
+});
+export type PANOSE = StructValue<typeof PANOSE>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/windef/ns-windef-point
+export const POINT = defineStruct({ x: 'i32', y: 'i32' });
+export type POINT = StructValue<typeof POINT>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/windef/ns-windef-rect
+export const RECT = defineStruct({ left: 'i32', top: 'i32', right: 'i32', bottom: 'i32' });
+export type RECT = StructValue<typeof RECT>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/windef/ns-windef-size
+export const SIZE = defineStruct({ cx: 'i32', cy: 'i32' });
+export type SIZE = StructValue<typeof SIZE>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-wcrange
+export const WCRANGE = defineStruct({ wcLow: 'u16', cGlyphs: 'u16' });
+export type WCRANGE = StructValue<typeof WCRANGE>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-logfonta
+export const LOGFONTA = defineStruct({
+  lfHeight: 'i32',
+  lfWidth: 'i32',
+  lfEscapement: 'i32',
+  lfOrientation: 'i32',
+  lfWeight: 'i32',
+  lfItalic: 'u8',
+  lfUnderline: 'u8',
+  lfStrikeOut: 'u8',
+  lfCharSet: 'u8',
+  lfOutPrecision: 'u8',
+  lfClipPrecision: 'u8',
+  lfQuality: 'u8',
+  lfPitchAndFamily: 'u8',
+  lfFaceName: { type: 'char', length: 32 },
+});
+export type LOGFONTA = StructValue<typeof LOGFONTA>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-logfontw
+export const LOGFONTW = defineStruct({
+  lfHeight: 'i32',
+  lfWidth: 'i32',
+  lfEscapement: 'i32',
+  lfOrientation: 'i32',
+  lfWeight: 'i32',
+  lfItalic: 'u8',
+  lfUnderline: 'u8',
+  lfStrikeOut: 'u8',
+  lfCharSet: 'u8',
+  lfOutPrecision: 'u8',
+  lfClipPrecision: 'u8',
+  lfQuality: 'u8',
+  lfPitchAndFamily: 'u8',
+  lfFaceName: { type: 'wchar', length: 32 },
+});
+export type LOGFONTW = StructValue<typeof LOGFONTW>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-textmetrica
+export const TEXTMETRICA = defineStruct({
+  tmHeight: 'i32',
+  tmAscent: 'i32',
+  tmDescent: 'i32',
+  tmInternalLeading: 'i32',
+  tmExternalLeading: 'i32',
+  tmAveCharWidth: 'i32',
+  tmMaxCharWidth: 'i32',
+  tmWeight: 'i32',
+  tmOverhang: 'i32',
+  tmDigitizedAspectX: 'i32',
+  tmDigitizedAspectY: 'i32',
+  tmFirstChar: 'u8',
+  tmLastChar: 'u8',
+  tmDefaultChar: 'u8',
+  tmBreakChar: 'u8',
+  tmItalic: 'u8',
+  tmUnderlined: 'u8',
+  tmStruckOut: 'u8',
+  tmPitchAndFamily: 'u8',
+  tmCharSet: 'u8',
+});
+export type TEXTMETRICA = StructValue<typeof TEXTMETRICA>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-textmetricw
+export const TEXTMETRICW = defineStruct({
+  tmHeight: 'i32',
+  tmAscent: 'i32',
+  tmDescent: 'i32',
+  tmInternalLeading: 'i32',
+  tmExternalLeading: 'i32',
+  tmAveCharWidth: 'i32',
+  tmMaxCharWidth: 'i32',
+  tmWeight: 'i32',
+  tmOverhang: 'i32',
+  tmDigitizedAspectX: 'i32',
+  tmDigitizedAspectY: 'i32',
+  tmFirstChar: 'u16',
+  tmLastChar: 'u16',
+  tmDefaultChar: 'u16',
+  tmBreakChar: 'u16',
+  tmItalic: 'u8',
+  tmUnderlined: 'u8',
+  tmStruckOut: 'u8',
+  tmPitchAndFamily: 'u8',
+  tmCharSet: 'u8',
+});
+export type TEXTMETRICW = StructValue<typeof TEXTMETRICW>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-abc
+export const ABC = defineStruct({ abcA: 'i32', abcB: 'u32', abcC: 'i32' });
+export type ABC = StructValue<typeof ABC>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-abcfloat
+export const ABCFLOAT = defineStruct({ abcfA: 'f32', abcfB: 'f32', abcfC: 'f32' });
+export type ABCFLOAT = StructValue<typeof ABCFLOAT>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-bitmap
+export const BITMAP = defineStruct({ bmType: 'i32', bmWidth: 'i32', bmHeight: 'i32', bmWidthBytes: 'i32', bmPlanes: 'u16', bmBitsPixel: 'u16', bmBits: 'ptr' });
+export type BITMAP = StructValue<typeof BITMAP>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-bitmapfileheader
+export const BITMAPFILEHEADER = defineStruct({ bfType: 'u16', bfSize: 'u32', bfReserved1: 'u16', bfReserved2: 'u16', bfOffBits: 'u32' }, { pack: 2 });
+export type BITMAPFILEHEADER = StructValue<typeof BITMAPFILEHEADER>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-bitmapinfoheader
+export const BITMAPINFOHEADER = defineStruct({
+  biSize: 'u32',
+  biWidth: 'i32',
+  biHeight: 'i32',
+  biPlanes: 'u16',
+  biBitCount: 'u16',
+  biCompression: 'u32',
+  biSizeImage: 'u32',
+  biXPelsPerMeter: 'i32',
+  biYPelsPerMeter: 'i32',
+  biClrUsed: 'u32',
+  biClrImportant: 'u32',
+});
+export type BITMAPINFOHEADER = StructValue<typeof BITMAPINFOHEADER>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-bitmapv4header
+export const BITMAPV4HEADER = defineStruct({
+  bV4Size: 'u32',
+  bV4Width: 'i32',
+  bV4Height: 'i32',
+  bV4Planes: 'u16',
+  bV4BitCount: 'u16',
+  bV4V4Compression: 'u32',
+  bV4SizeImage: 'u32',
+  bV4XPelsPerMeter: 'i32',
+  bV4YPelsPerMeter: 'i32',
+  bV4ClrUsed: 'u32',
+  bV4ClrImportant: 'u32',
+  bV4RedMask: 'u32',
+  bV4GreenMask: 'u32',
+  bV4BlueMask: 'u32',
+  bV4AlphaMask: 'u32',
+  bV4CSType: 'u32',
+  bV4Endpoints: CIEXYZTRIPLE,
+  bV4GammaRed: 'u32',
+  bV4GammaGreen: 'u32',
+  bV4GammaBlue: 'u32',
+});
+export type BITMAPV4HEADER = StructValue<typeof BITMAPV4HEADER>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-bitmapv5header
+export const BITMAPV5HEADER = defineStruct({
+  bV5Size: 'u32',
+  bV5Width: 'i32',
+  bV5Height: 'i32',
+  bV5Planes: 'u16',
+  bV5BitCount: 'u16',
+  bV5Compression: 'u32',
+  bV5SizeImage: 'u32',
+  bV5XPelsPerMeter: 'i32',
+  bV5YPelsPerMeter: 'i32',
+  bV5ClrUsed: 'u32',
+  bV5ClrImportant: 'u32',
+  bV5RedMask: 'u32',
+  bV5GreenMask: 'u32',
+  bV5BlueMask: 'u32',
+  bV5AlphaMask: 'u32',
+  bV5CSType: 'u32',
+  bV5Endpoints: CIEXYZTRIPLE,
+  bV5GammaRed: 'u32',
+  bV5GammaGreen: 'u32',
+  bV5GammaBlue: 'u32',
+  bV5Intent: 'u32',
+  bV5ProfileData: 'u32',
+  bV5ProfileSize: 'u32',
+  bV5Reserved: 'u32',
+});
+export type BITMAPV5HEADER = StructValue<typeof BITMAPV5HEADER>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-blendfunction
+// Named apart from the `BLENDFUNCTION` type in `types/GDI32.ts`, which both export through `index.ts`.
+export const BLEND_FUNCTION = defineStruct({ BlendOp: 'u8', BlendFlags: 'u8', SourceConstantAlpha: 'u8', AlphaFormat: 'u8' });
+export type BLEND_FUNCTION = StructValue<typeof BLEND_FUNCTION>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-charsetinfo
+export const CHARSETINFO = defineStruct({ ciCharset: 'u32', ciACP: 'u32', fs: FONTSIGNATURE });
+export type CHARSETINFO = StructValue<typeof CHARSETINFO>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-coloradjustment
+export const COLORADJUSTMENT = defineStruct({
+  caSize: 'u16',
+  caFlags: 'u16',
+  caIlluminantIndex: 'u16',
+  caRedGamma: 'u16',
+  caGreenGamma: 'u16',
+  caBlueGamma: 'u16',
+  caReferenceBlack: 'u16',
+  caReferenceWhite: 'u16',
+  caContrast: 'i16',
+  caBrightness: 'i16',
+  caColorfulness: 'i16',
+  caRedGreenTint: 'i16',
+});
+export type COLORADJUSTMENT = StructValue<typeof COLORADJUSTMENT>;
+
+/*
+ * DEVMODE unions: the printer fields (`dmOrientation` … `dmPrintQuality`) share their bytes
+ * with the display fields (`dmPosition`, `dmDisplayOrientation`, `dmDisplayFixedOutput`), and
+ * `dmDisplayFlags` with `dmNup`. The second member of each union carries an explicit `offset`;
+ * write only the members `dmFields` selects.
+ */
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-devmodea
+export const DEVMODEA = defineStruct({
+  dmDeviceName: { type: 'char', length: 32 },
+  dmSpecVersion: 'u16',
+  dmDriverVersion: 'u16',
+  dmSize: 'u16',
+  dmDriverExtra: 'u16',
+  dmFields: 'u32',
+  dmOrientation: 'i16',
+  dmPaperSize: 'i16',
+  dmPaperLength: 'i16',
+  dmPaperWidth: 'i16',
+  dmScale: 'i16',
+  dmCopies: 'i16',
+  dmDefaultSource: 'i16',
+  dmPrintQuality: 'i16',
+  dmPosition: { type: POINT, offset: 44 },
+  dmDisplayOrientation: { type: 'u32', offset: 52 },
+  dmDisplayFixedOutput: { type: 'u32', offset: 56 },
+  dmColor: 'i16',
+  dmDuplex: 'i16',
+  dmYResolution: 'i16',
+  dmTTOption: 'i16',
+  dmCollate: 'i16',
+  dmFormName: { type: 'char', length: 32 },
+  dmLogPixels: 'u16',
+  dmBitsPerPel: 'u32',
+  dmPelsWidth: 'u32',
+  dmPelsHeight: 'u32',
+  dmDisplayFlags: 'u32',
+  dmNup: { type: 'u32', offset: 116 },
+  dmDisplayFrequency: 'u32',
+  dmICMMethod: 'u32',
+  dmICMIntent: 'u32',
+  dmMediaType: 'u32',
+  dmDitherType: 'u32',
+  dmReserved1: 'u32',
+  dmReserved2: 'u32',
+  dmPanningWidth: 'u32',
+  dmPanningHeight: 'u32',
+});
+export type DEVMODEA = StructValue<typeof DEVMODEA>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-devmodew
+export const DEVMODEW = defineStruct({
+  dmDeviceName: { type: 'wchar', length: 32 },
+  dmSpecVersion: 'u16',
+  dmDriverVersion: 'u16',
+  dmSize: 'u16',
+  dmDriverExtra: 'u16',
+  dmFields: 'u32',
+  dmOrientation: 'i16',
+  dmPaperSize: 'i16',
+  dmPaperLength: 'i16',
+  dmPaperWidth: 'i16',
+  dmScale: 'i16',
+  dmCopies: 'i16',
+  dmDefaultSource: 'i16',
+  dmPrintQuality: 'i16',
+  dmPosition: { type: POINT, offset: 76 },
+  dmDisplayOrientation: { type: 'u32', offset: 84 },
+  dmDisplayFixedOutput: { type: 'u32', offset: 88 },
+  dmColor: 'i16',
+  dmDuplex: 'i16',
+  dmYResolution: 'i16',
+  dmTTOption: 'i16',
+  dmCollate: 'i16',
+  dmFormName: { type: 'wchar', length: 32 },
+  dmLogPixels: 'u16',
+  dmBitsPerPel: 'u32',
+  dmPelsWidth: 'u32',
+  dmPelsHeight: 'u32',
+  dmDisplayFlags: 'u32',
+  dmNup: { type: 'u32', offset: 180 },
+  dmDisplayFrequency: 'u32',
+  dmICMMethod: 'u32',
+  dmICMIntent: 'u32',
+  dmMediaType: 'u32',
+  dmDitherType: 'u32',
+  dmReserved1: 'u32',
+  dmReserved2: 'u32',
+  dmPanningWidth: 'u32',
+  dmPanningHeight: 'u32',
+});
+export type DEVMODEW = StructValue<typeof DEVMODEW>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-docinfoa
+export const DOCINFOA = defineStruct({ cbSize: 'i32', lpszDocName: 'ptr', lpszOutput: 'ptr', lpszDatatype: 'ptr', fwType: 'u32' });
+export type DOCINFOA = StructValue<typeof DOCINFOA>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-docinfow
+export const DOCINFOW = defineStruct({ cbSize: 'i32', lpszDocName: 'ptr', lpszOutput: 'ptr', lpszDatatype: 'ptr', fwType: 'u32' });
+export type DOCINFOW = StructValue<typeof DOCINFOW>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-emr
+export const EMR = defineStruct({ iType: 'u32', nSize: 'u32' });
+export type EMR = StructValue<typeof EMR>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-enhmetaheader
+export const ENHMETAHEADER = defineStruct({
+  iType: 'u32',
+  nSize: 'u32',
+  rclBounds: RECT,
+  rclFrame: RECT,
+  dSignature: 'u32',
+  nVersion: 'u32',
+  nBytes: 'u32',
+  nRecords: 'u32',
+  nHandles: 'u16',
+  sReserved: 'u16',
+  nDescription: 'u32',
+  offDescription: 'u32',
+  nPalEntries: 'u32',
+  szlDevice: SIZE,
+  szlMillimeters: SIZE,
+  cbPixelFormat: 'u32',
+  offPixelFormat: 'u32',
+  bOpenGL: 'u32',
+  szlMicrometers: SIZE,
+});
+export type ENHMETAHEADER = StructValue<typeof ENHMETAHEADER>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-enumlogfontexa
+export const ENUMLOGFONTEXA = defineStruct({
+  elfLogFont: LOGFONTA,
+  elfFullName: { type: 'char', length: 64 },
+  elfStyle: { type: 'char', length: 32 },
+  elfScript: { type: 'char', length: 32 },
+});
+export type ENUMLOGFONTEXA = StructValue<typeof ENUMLOGFONTEXA>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-enumlogfontexw
+export const ENUMLOGFONTEXW = defineStruct({
+  elfLogFont: LOGFONTW,
+  elfFullName: { type: 'wchar', length: 64 },
+  elfStyle: { type: 'wchar', length: 32 },
+  elfScript: { type: 'wchar', length: 32 },
+});
+export type ENUMLOGFONTEXW = StructValue<typeof ENUMLOGFONTEXW>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-extlogpen
+// `elpStyleEntry` holds `elpNumEntries` entries; the codec covers the one declared in `wingdi.h`.
+export const EXTLOGPEN = defineStruct({
+  elpPenStyle: 'u32',
+  elpWidth: 'u32',
+  elpBrushStyle: 'u32',
+  elpColor: 'u32',
+  elpHatch: 'u64',
+  elpNumEntries: 'u32',
+  elpStyleEntry: { type: 'u32', length: 1 },
+});
+export type EXTLOGPEN = StructValue<typeof EXTLOGPEN>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-gcp_resultsa
+export const GCP_RESULTSA = defineStruct({
+  lStructSize: 'u32',
+  lpOutString: 'ptr',
+  lpOrder: 'ptr',
+  lpDx: 'ptr',
+  lpCaretPos: 'ptr',
+  lpClass: 'ptr',
+  lpGlyphs: 'ptr',
+  nGlyphs: 'u32',
+  nMaxFit: 'i32',
+});
+export type GCP_RESULTSA = StructValue<typeof GCP_RESULTSA>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-gcp_resultsw
+export const GCP_RESULTSW = defineStruct({
+  lStructSize: 'u32',
+  lpOutString: 'ptr',
+  lpOrder: 'ptr',
+  lpDx: 'ptr',
+  lpCaretPos: 'ptr',
+  lpClass: 'ptr',
+  lpGlyphs: 'ptr',
+  nGlyphs: 'u32',
+  nMaxFit: 'i32',
+});
+export type GCP_RESULTSW = StructValue<typeof GCP_RESULTSW>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-glyphmetrics
+export const GLYPHMETRICS = defineStruct({ gmBlackBoxX: 'u32', gmBlackBoxY: 'u32', gmptGlyphOrigin: POINT, gmCellIncX: 'i16', gmCellIncY: 'i16' });
+export type GLYPHMETRICS = StructValue<typeof GLYPHMETRICS>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-glyphset
+// `ranges` holds `cRanges` entries; the codec covers the one declared in `wingdi.h`.
+export const GLYPHSET = defineStruct({ cbThis: 'u32', flAccel: 'u32', cGlyphsSupported: 'u32', cRanges: 'u32', ranges: { type: WCRANGE, length: 1 } });
+export type GLYPHSET = StructValue<typeof GLYPHSET>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-gradient_rect
+export const GRADIENT_RECT = defineStruct({ UpperLeft: 'u32', LowerRight: 'u32' });
+export type GRADIENT_RECT = StructValue<typeof GRADIENT_RECT>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-gradient_triangle
+export const GRADIENT_TRIANGLE = defineStruct({ Vertex1: 'u32', Vertex2: 'u32', Vertex3: 'u32' });
+export type GRADIENT_TRIANGLE = StructValue<typeof GRADIENT_TRIANGLE>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-kerningpair
+export const KERNINGPAIR = defineStruct({ wFirst: 'u16', wSecond: 'u16', iKernAmount: 'i32' });
+export type KERNINGPAIR = StructValue<typeof KERNINGPAIR>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-logbrush
+export const LOGBRUSH = defineStruct({ lbStyle: 'u32', lbColor: 'u32', lbHatch: 'u64' });
+export type LOGBRUSH = StructValue<typeof LOGBRUSH>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-logcolorspacea
+export const LOGCOLORSPACEA = defineStruct({
+  lcsSignature: 'u32',
+  lcsVersion: 'u32',
+  lcsSize: 'u32',
+  lcsCSType: 'i32',
+  lcsIntent: 'i32',
+  lcsEndpoints: CIEXYZTRIPLE,
+  lcsGammaRed: 'u32',
+  lcsGammaGreen: 'u32',
+  lcsGammaBlue: 'u32',
+  lcsFilename: { type: 'char', length: 260 },
+});
+export type LOGCOLORSPACEA = StructValue<typeof LOGCOLORSPACEA>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-logcolorspacew
+export const LOGCOLORSPACEW = defineStruct({
+  lcsSignature: 'u32',
+  lcsVersion: 'u32',
+  lcsSize: 'u32',
+  lcsCSType: 'i32',
+  lcsIntent: 'i32',
+  lcsEndpoints: CIEXYZTRIPLE,
+  lcsGammaRed: 'u32',
+  lcsGammaGreen: 'u32',
+  lcsGammaBlue: 'u32',
+  lcsFilename: { type: 'wchar', length: 260 },
+});
+export type LOGCOLORSPACEW = StructValue<typeof LOGCOLORSPACEW>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-logpalette
+// `palPalEntry` holds `palNumEntries` entries; the codec covers the one declared in `wingdi.h`.
+export const LOGPALETTE = defineStruct({ palVersion: 'u16', palNumEntries: 'u16', palPalEntry: { type: PALETTEENTRY, length: 1 } });
+export type LOGPALETTE = StructValue<typeof LOGPALETTE>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-logpen
+export const LOGPEN = defineStruct({ lopnStyle: 'u32', lopnWidth: POINT, lopnColor: 'u32' });
+export type LOGPEN = StructValue<typeof LOGPEN>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-mat2
+export const MAT2 = defineStruct({ eM11: FIXED, eM12: FIXED, eM21: FIXED, eM22: FIXED });
+export type MAT2 = StructValue<typeof MAT2>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-metafilepict
+export const METAFILEPICT = defineStruct({ mm: 'i32', xExt: 'i32', yExt: 'i32', hMF: 'u64' });
+export type METAFILEPICT = StructValue<typeof METAFILEPICT>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-metaheader
+export const METAHEADER = defineStruct({ mtType: 'u16', mtHeaderSize: 'u16', mtVersion: 'u16', mtSize: 'u32', mtNoObjects: 'u16', mtMaxRecord: 'u32', mtNoParameters: 'u16' }, { pack: 2 });
+export type METAHEADER = StructValue<typeof METAHEADER>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-newtextmetrica
+export const NEWTEXTMETRICA = defineStruct({
+  tmHeight: 'i32',
+  tmAscent: 'i32',
+  tmDescent: 'i32',
+  tmInternalLeading: 'i32',
+  tmExternalLeading: 'i32',
+  tmAveCharWidth: 'i32',
+  tmMaxCharWidth: 'i32',
+  tmWeight: 'i32',
+  tmOverhang: 'i32',
+  tmDigitizedAspectX: 'i32',
+  tmDigitizedAspectY: 'i32',
+  tmFirstChar: 'u8',
+  tmLastChar: 'u8',
+  tmDefaultChar: 'u8',
+  tmBreakChar: 'u8',
+  tmItalic: 'u8',
+  tmUnderlined: 'u8',
+  tmStruckOut: 'u8',
+  tmPitchAndFamily: 'u8',
+  tmCharSet: 'u8',
+  ntmFlags: 'u32',
+  ntmSizeEM: 'u32',
+  ntmCellHeight: 'u32',
+  ntmAvgWidth: 'u32',
+});
+export type NEWTEXTMETRICA = StructValue<typeof NEWTEXTMETRICA>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-newtextmetricw
+export const NEWTEXTMETRICW = defineStruct({
+  tmHeight: 'i32',
+  tmAscent: 'i32',
+  tmDescent: 'i32',
+  tmInternalLeading: 'i32',
+  tmExternalLeading: 'i32',
+  tmAveCharWidth: 'i32',
+  tmMaxCharWidth: 'i32',
+  tmWeight: 'i32',
+  tmOverhang: 'i32',
+  tmDigitizedAspectX: 'i32',
+  tmDigitizedAspectY: 'i32',
+  tmFirstChar: 'u16',
+  tmLastChar: 'u16',
+  tmDefaultChar: 'u16',
+  tmBreakChar: 'u16',
+  tmItalic: 'u8',
+  tmUnderlined: 'u8',
+  tmStruckOut: 'u8',
+  tmPitchAndFamily: 'u8',
+  tmCharSet: 'u8',
+  ntmFlags: 'u32',
+  ntmSizeEM: 'u32',
+  ntmCellHeight: 'u32',
+  ntmAvgWidth: 'u32',
+});
+export type NEWTEXTMETRICW = StructValue<typeof NEWTEXTMETRICW>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-newtextmetricexa
+export const NEWTEXTMETRICEXA = defineStruct({ ntmTm: NEWTEXTMETRICA, ntmFontSig: FONTSIGNATURE });
+export type NEWTEXTMETRICEXA = StructValue<typeof NEWTEXTMETRICEXA>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-newtextmetricexw
+export const NEWTEXTMETRICEXW = defineStruct({ ntmTm: NEWTEXTMETRICW, ntmFontSig: FONTSIGNATURE });
+export type NEWTEXTMETRICEXW = StructValue<typeof NEWTEXTMETRICEXW>;
+
+/*
+ * OUTLINETEXTMETRIC: `GetOutlineTextMetrics` stores the four `otmp*Name` members as byte
+ * offsets from the start of the structure to strings that follow it, not as pointers.
+ */
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-outlinetextmetrica
+export const OUTLINETEXTMETRICA = defineStruct({
+  otmSize: 'u32',
+  otmTextMetrics: TEXTMETRICA,
+  otmFiller: 'u8',
+  otmPanoseNumber: PANOSE,
+  otmfsSelection: 'u32',
+  otmfsType: 'u32',
+  otmsCharSlopeRise: 'i32',
+  otmsCharSlopeRun: 'i32',
+  otmItalicAngle: 'i32',
+  otmEMSquare: 'u32',
+  otmAscent: 'i32',
+  otmDescent: 'i32',
+  otmLineGap: 'u32',
+  otmsCapEmHeight: 'u32',
+  otmsXHeight: 'u32',
+  otmrcFontBox: RECT,
+  otmMacAscent: 'i32',
+  otmMacDescent: 'i32',
+  otmMacLineGap: 'u32',
+  otmusMinimumPPEM: 'u32',
+  otmptSubscriptSize: POINT,
+  otmptSubscriptOffset: POINT,
+  otmptSuperscriptSize: POINT,
+  otmptSuperscriptOffset: POINT,
+  otmsStrikeoutSize: 'u32',
+  otmsStrikeoutPosition: 'i32',
+  otmsUnderscoreSize: 'i32',
+  otmsUnderscorePosition: 'i32',
+  otmpFamilyName: 'ptr',
+  otmpFaceName: 'ptr',
+  otmpStyleName: 'ptr',
+  otmpFullName: 'ptr',
+});
+export type OUTLINETEXTMETRICA = StructValue<typeof OUTLINETEXTMETRICA>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-outlinetextmetricw
+export const OUTLINETEXTMETRICW = defineStruct({
+  otmSize: 'u32',
+  otmTextMetrics: TEXTMETRICW,
+  otmFiller: 'u8',
+  otmPanoseNumber: PANOSE,
+  otmfsSelection: 'u32',
+  otmfsType: 'u32',
+  otmsCharSlopeRise: 'i32',
+  otmsCharSlopeRun: 'i32',
+  otmItalicAngle: 'i32',
+  otmEMSquare: 'u32',
+  otmAscent: 'i32',
+  otmDescent: 'i32',
+  otmLineGap: 'u32',
+  otmsCapEmHeight: 'u32',
+  otmsXHeight: 'u32',
+  otmrcFontBox: RECT,
+  otmMacAscent: 'i32',
+  otmMacDescent: 'i32',
+  otmMacLineGap: 'u32',
+  otmusMinimumPPEM: 'u32',
+  otmptSubscriptSize: POINT,
+  otmptSubscriptOffset: POINT,
+  otmptSuperscriptSize: POINT,
+  otmptSuperscriptOffset: POINT,
+  otmsStrikeoutSize: 'u32',
+  otmsStrikeoutPosition: 'i32',
+  otmsUnderscoreSize: 'i32',
+  otmsUnderscorePosition: 'i32',
+  otmpFamilyName: 'ptr',
+  otmpFaceName: 'ptr',
+  otmpStyleName: 'ptr',
+  otmpFullName: 'ptr',
+});
+export type OUTLINETEXTMETRICW = StructValue<typeof OUTLINETEXTMETRICW>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-pixelformatdescriptor
+export const PIXELFORMATDESCRIPTOR = defineStruct({
+  nSize: 'u16',
+  nVersion: 'u16',
+  dwFlags: 'u32',
+  iPixelType: 'u8',
+  cColorBits: 'u8',
+  cRedBits: 'u8',
+  cRedShift: 'u8',
+  cGreenBits: 'u8',
+  cGreenShift: 'u8',
+  cBlueBits: 'u8',
+  cBlueShift: 'u8',
+  cAlphaBits: 'u8',
+  cAlphaShift: 'u8',
+  cAccumBits: 'u8',
+  cAccumRedBits: 'u8',
+  cAccumGreenBits: 'u8',
+  cAccumBlueBits: 'u8',
+  cAccumAlphaBits: 'u8',
+  cDepthBits: 'u8',
+  cStencilBits: 'u8',
+  cAuxBuffers: 'u8',
+  iLayerType: 'u8',
+  bReserved: 'u8',
+  dwLayerMask: 'u32',
+  dwVisibleMask: 'u32',
+  dwDamageMask: 'u32',
+});
+export type PIXELFORMATDESCRIPTOR = StructValue<typeof PIXELFORMATDESCRIPTOR>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-pointfx
+export const POINTFX = defineStruct({ x: FIXED, y: FIXED });
+export type POINTFX = StructValue<typeof POINTFX>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-polytexta
+export const POLYTEXTA = defineStruct({ x: 'i32', y: 'i32', n: 'u32', lpstr: 'ptr', uiFlags: 'u32', rcl: RECT, pdx: 'ptr' });
+export type POLYTEXTA = StructValue<typeof POLYTEXTA>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-polytextw
+export const POLYTEXTW = defineStruct({ x: 'i32', y: 'i32', n: 'u32', lpstr: 'ptr', uiFlags: 'u32', rcl: RECT, pdx: 'ptr' });
+export type POLYTEXTW = StructValue<typeof POLYTEXTW>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-rgbquad
+export const RGBQUAD = defineStruct({ rgbBlue: 'u8', rgbGreen: 'u8', rgbRed: 'u8', rgbReserved: 'u8' });
+export type RGBQUAD = StructValue<typeof RGBQUAD>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-rgbtriple
+export const RGBTRIPLE = defineStruct({ rgbtBlue: 'u8', rgbtGreen: 'u8', rgbtRed: 'u8' });
+export type RGBTRIPLE = StructValue<typeof RGBTRIPLE>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-rgndataheader
+export const RGNDATAHEADER = defineStruct({ dwSize: 'u32', iType: 'u32', nCount: 'u32', nRgnSize: 'u32', rcBound: RECT });
+export type RGNDATAHEADER = StructValue<typeof RGNDATAHEADER>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-trivertex
+export const TRIVERTEX = defineStruct({ x: 'i32', y: 'i32', Red: 'u16', Green: 'u16', Blue: 'u16', Alpha: 'u16' });
+export type TRIVERTEX = StructValue<typeof TRIVERTEX>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-ttpolygonheader
+export const TTPOLYGONHEADER = defineStruct({ cb: 'u32', dwType: 'u32', pfxStart: POINTFX });
+export type TTPOLYGONHEADER = StructValue<typeof TTPOLYGONHEADER>;
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-xform
+export const XFORM = defineStruct({ eM11: 'f32', eM12: 'f32', eM21: 'f32', eM22: 'f32', eDx: 'f32', eDy: 'f32' });
+export type XFORM = StructValue<typeof XFORM>;
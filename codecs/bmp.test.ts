@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test';
+
+import { BitmapCompression } from '../constants/GDI32';
+import { createDIB, decodeRLE, dibStride, encodeRLE, fromRGBA, readBMP, readDIB, toRGBA, writeBMP } from './bmp';
+
+/** 3×2 RGBA pixels, top-down: red, green, blue / white, black, half-transparent gray. */
+const RGBA = new Uint8Array([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 255, 255, 255, 255, 0, 0, 0, 255, 128, 128, 128, 128]);
+
+describe('dibStride', () => {
+  test('pads rows to a DWORD', () => {
+    expect(dibStride(1, 1)).toBe(4);
+    expect(dibStride(3, 24)).toBe(12);
+    expect(dibStride(5, 8)).toBe(8);
+    expect(dibStride(33, 1)).toBe(8);
+  });
+});
+
+describe('BMP files', () => {
+  for (const bitCount of [24, 32] as const) {
+    for (const topDown of [false, true]) {
+      test(`round-trips ${bitCount} bpp ${topDown ? 'top-down' : 'bottom-up'} pixels`, () => {
+        const file = writeBMP(fromRGBA(3, 2, RGBA, { bitCount, topDown }));
+        const dib = readBMP(file);
+
+        expect(file.readUInt16LE(0)).toBe(0x4d42);
+        expect(file.readUInt32LE(2)).toBe(file.length);
+        expect([dib.width, dib.height, dib.bitCount, dib.topDown]).toEqual([3, 2, bitCount, topDown]);
+
+        const expected = bitCount === 24 ? RGBA.map((value, index) => ((index & 3) === 3 ? 255 : value)) : RGBA;
+
+        expect([...toRGBA(dib)]).toEqual([...expected]);
+      });
+    }
+  }
+
+  test('rejects files without the BM signature', () => {
+    expect(() => readBMP(new Uint8Array(64))).toThrow(TypeError);
+  });
+});
+
+describe('readDIB', () => {
+  test('reads back the color table and bitfield masks createDIB writes', () => {
+    const indexed = readDIB(createDIB({ bitCount: 8, colors: [{ rgbBlue: 1, rgbGreen: 2, rgbRed: 3, rgbReserved: 0 }], height: 1, width: 1 }).info);
+    const bitfields = readDIB(createDIB({ bitCount: 16, height: 1, masks: { alpha: 0, blue: 0x1f, green: 0x7e0, red: 0xf800 }, width: 1 }).info);
+
+    expect(indexed.colors).toEqual([{ rgbBlue: 1, rgbGreen: 2, rgbRed: 3, rgbReserved: 0 }]);
+    expect(bitfields.compression).toBe(BitmapCompression.BI_BITFIELDS);
+    expect(bitfields.masks).toEqual({ alpha: 0, blue: 0x1f, green: 0x7e0, red: 0xf800 });
+  });
+
+  test('expands 565 pixels to 8-bit channels', () => {
+    const dib = createDIB({ bitCount: 16, bits: new Uint16Array([0xf800, 0x07e0]), height: 1, masks: { alpha: 0, blue: 0x1f, green: 0x7e0, red: 0xf800 }, width: 2 });
+
+    expect([...toRGBA(dib)]).toEqual([255, 0, 0, 255, 0, 255, 0, 255]);
+  });
+});
+
+describe('RLE', () => {
+  const indices = new Uint8Array([1, 1, 1, 2, 3, 3, 0, 0, 5, 5, 5, 5]);
+
+  test('round-trips RLE8', () => {
+    expect([...decodeRLE(encodeRLE(indices, 6, 2, 8), 6, 2, 8)]).toEqual([...indices]);
+  });
+
+  test('round-trips RLE4', () => {
+    expect([...decodeRLE(encodeRLE(indices, 6, 2, 4), 6, 2, 4)]).toEqual([...indices]);
+  });
+
+  test('decodes absolute runs and deltas', () => {
+    // Absolute run of 3, delta (1, 1), run of 2 × 9, end of bitmap.
+    const bits = new Uint8Array([0, 3, 4, 5, 6, 0, 0, 2, 1, 1, 2, 9, 0, 1]);
+
+    expect([...decodeRLE(bits, 6, 2, 8)]).toEqual([4, 5, 6, 0, 0, 0, 0, 0, 0, 0, 9, 9]);
+  });
+
+  test('decodes RLE8 DIBs through toRGBA', () => {
+    const colors = [0, 1, 2].map((value) => ({ rgbBlue: value * 100, rgbGreen: 0, rgbRed: 0, rgbReserved: 0 }));
+    const dib = createDIB({ bitCount: 8, bits: encodeRLE(new Uint8Array([0, 1, 2, 2]), 2, 2, 8), colors, compression: BitmapCompression.BI_RLE8, height: 2, width: 2 });
+
+    // Bottom-up: the first stored row is the last RGBA row.
+    expect([...toRGBA(dib)]).toEqual([0, 0, 200, 255, 0, 0, 200, 255, 0, 0, 0, 255, 0, 0, 100, 255]);
+  });
+
+  test('rejects top-down RLE bitmaps', () => {
+    expect(() => createDIB({ bitCount: 8, compression: BitmapCompression.BI_RLE8, height: 1, topDown: true, width: 1 })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,448 @@
+import type { Pointer } from 'bun:ffi';
+
+import { BitmapCompression } from '../constants/GDI32';
+import { BITMAPFILEHEADER, BITMAPINFOHEADER, BITMAPV4HEADER, BITMAPV5HEADER, RGBQUAD } from './GDI32';
+import { toDataView } from './struct';
+
+/**
+ * `'BM'`, the `bfType` of every bitmap file.
+ */
+export const BMP_SIGNATURE = 0x4d42;
+
+/**
+ * Channel masks of a `BI_BITFIELDS` bitmap (or the implied masks of a 16/32 bpp `BI_RGB` one).
+ */
+export interface BitfieldMasks {
+  alpha: number;
+  blue: number;
+  green: number;
+  red: number;
+}
+
+/**
+ * A device-independent bitmap split into the two pieces GDI consumes.
+ *
+ * `info` is a complete `BITMAPINFO` (header, bitfield masks and color table) and `bits` holds
+ * the pixel data exactly as the DIB stores it (padded rows or an RLE stream), so both can be
+ * passed straight to `StretchDIBits`, `SetDIBits`, `SetDIBitsToDevice` or `CreateDIBitmap`.
+ */
+export interface DIB {
+  bitCount: number;
+  bits: Buffer;
+  colors: RGBQUAD[];
+  compression: BitmapCompression;
+  headerSize: number;
+  height: number;
+  info: Buffer;
+  masks: BitfieldMasks | undefined;
+  stride: number;
+  topDown: boolean;
+  width: number;
+}
+
+/**
+ * Options for `createDIB`.
+ *
+ * `bits` must already be in DIB layout; when omitted a zero-filled buffer is allocated.
+ * `headerSize` selects `BITMAPINFOHEADER` (40), `BITMAPV4HEADER` (108) or `BITMAPV5HEADER` (124).
+ */
+export interface DIBOptions {
+  bitCount: 1 | 4 | 8 | 16 | 24 | 32;
+  bits?: ArrayBufferView;
+  colors?: RGBQUAD[];
+  compression?: BitmapCompression;
+  headerSize?: 40 | 108 | 124;
+  height: number;
+  masks?: BitfieldMasks;
+  topDown?: boolean;
+  width: number;
+}
+
+const DefaultMasks: Record<number, BitfieldMasks> = {
+  16: { alpha: 0, blue: 0x001f, green: 0x03e0, red: 0x7c00 },
+  32: { alpha: 0, blue: 0x000000ff, green: 0x0000ff00, red: 0x00ff0000 },
+};
+
+/**
+ * Returns the byte length of one DIB scan line; rows are padded to a `DWORD` boundary.
+ *
+ * @param width Width in pixels.
+ * @param bitCount Bits per pixel.
+ */
+export function dibStride(width: number, bitCount: number): number {
+  return (((width * bitCount + 31) >>> 5) << 2) >>> 0;
+}
+
+/**
+ * Builds a DIB from its dimensions and format.
+ *
+ * @param options Format, dimensions and optional pixel data.
+ * @returns The DIB with a freshly encoded `BITMAPINFO`.
+ * @example
+ * ```ts
+ * const dib = createDIB({ bitCount: 32, height: 64, topDown: true, width: 64 });
+ *
+ * GDI32.StretchDIBits(hdc, 0, 0, 64, 64, 0, 0, 64, 64, dib.bits.ptr, dib.info.ptr, DIBUsage.DIB_RGB_COLORS, RasterOperation.SRCCOPY);
+ * ```
+ */
+export function createDIB(options: DIBOptions): DIB {
+  const { bitCount, headerSize = 40, height, topDown = false, width } = options;
+
+  const compression = options.compression ?? (options.masks ? BitmapCompression.BI_BITFIELDS : BitmapCompression.BI_RGB);
+  const colors = options.colors ?? (bitCount <= 8 ? grayscale(bitCount) : []);
+  const masks = compression === BitmapCompression.BI_BITFIELDS ? options.masks ?? DefaultMasks[bitCount] : undefined;
+  const stride = dibStride(width, bitCount);
+  const rle = compression === BitmapCompression.BI_RLE4 || compression === BitmapCompression.BI_RLE8;
+
+  if (rle && topDown) {
+    throw new RangeError('RLE-compressed bitmaps must be bottom-up.');
+  }
+
+  if (compression === BitmapCompression.BI_BITFIELDS && !masks) {
+    throw new RangeError(`BI_BITFIELDS requires masks for ${bitCount} bpp.`);
+  }
+
+  const bits = options.bits ? Buffer.from(options.bits.buffer, options.bits.byteOffset, options.bits.byteLength) : Buffer.alloc(stride * height);
+  const sizeImage = rle ? bits.length : stride * height;
+
+  const maskBytes = masks && headerSize === 40 ? 12 : 0;
+  const info = Buffer.alloc(headerSize + maskBytes + colors.length * RGBQUAD.sizeof);
+  const view = new DataView(info.buffer, info.byteOffset, info.byteLength);
+
+  BITMAPINFOHEADER.write(view, 0, {
+    biBitCount: bitCount,
+    biClrUsed: bitCount <= 8 && colors.length === 1 << bitCount ? 0 : colors.length,
+    biCompression: compression,
+    biHeight: topDown ? -height : height,
+    biPlanes: 1,
+    biSize: headerSize,
+    biSizeImage: sizeImage,
+    biWidth: width,
+  });
+
+  if (headerSize >= BITMAPV4HEADER.sizeof) {
+    BITMAPV4HEADER.write(view, 0, {
+      bV4AlphaMask: masks?.alpha ?? 0,
+      bV4BlueMask: masks?.blue ?? 0,
+      bV4CSType: 0x73524742 /* LCS_sRGB */,
+      bV4GreenMask: masks?.green ?? 0,
+      bV4RedMask: masks?.red ?? 0,
+    });
+  }
+
+  if (headerSize >= BITMAPV5HEADER.sizeof) {
+    BITMAPV5HEADER.write(view, 0, { bV5Intent: 4 /* LCS_GM_IMAGES */ });
+  }
+
+  if (maskBytes) {
+    view.setUint32(headerSize, masks!.red, true);
+    view.setUint32(headerSize + 4, masks!.green, true);
+    view.setUint32(headerSize + 8, masks!.blue, true);
+  }
+
+  colors.forEach((color, index) => RGBQUAD.write(view, headerSize + maskBytes + index * RGBQUAD.sizeof, color));
+
+  return { bitCount, bits, colors, compression, headerSize, height, info, masks: masks ?? (compression === BitmapCompression.BI_RGB ? DefaultMasks[bitCount] : undefined), stride, topDown, width };
+}
+
+/**
+ * Parses a `BITMAPINFO` (for example the one filled by `GetDIBits`) and pairs it with pixel bits.
+ *
+ * @param info Bytes of, or a pointer to, the `BITMAPINFO`.
+ * @param bits Pixel data; when omitted, a zero-filled buffer of the right size is allocated.
+ * @returns The parsed DIB; `info` is a copy, `bits` shares memory with the argument.
+ */
+export function readDIB(info: ArrayBuffer | ArrayBufferView | Pointer, bits?: ArrayBufferView): DIB {
+  const header = BITMAPINFOHEADER.decode(info);
+  const { biBitCount: bitCount, biCompression, biHeight, biSize: headerSize, biWidth: width } = header;
+
+  if (headerSize < BITMAPINFOHEADER.sizeof) {
+    throw new RangeError(`Unsupported bitmap header size ${headerSize}.`);
+  }
+
+  if (![1, 4, 8, 16, 24, 32].includes(bitCount)) {
+    throw new RangeError(`Unsupported bit count ${bitCount}.`);
+  }
+
+  const compression = biCompression as BitmapCompression;
+
+  if (compression === BitmapCompression.BI_JPEG || compression === BitmapCompression.BI_PNG) {
+    throw new RangeError('JPEG/PNG-compressed DIBs are not supported.');
+  }
+
+  const maskBytes = compression === BitmapCompression.BI_BITFIELDS && headerSize === BITMAPINFOHEADER.sizeof ? 12 : 0;
+  const colorCount = header.biClrUsed || (bitCount <= 8 ? 1 << bitCount : 0);
+  const length = headerSize + maskBytes + colorCount * RGBQUAD.sizeof;
+  const view = toDataView(info, 0, length);
+
+  let masks: BitfieldMasks | undefined;
+
+  if (compression === BitmapCompression.BI_BITFIELDS) {
+    const base = maskBytes ? headerSize : BITMAPINFOHEADER.sizeof;
+    const alpha = headerSize >= 56 ? view.getUint32(BITMAPINFOHEADER.sizeof + 12, true) : 0;
+
+    masks = { alpha, blue: view.getUint32(base + 8, true), green: view.getUint32(base + 4, true), red: view.getUint32(base, true) };
+  } else if (compression === BitmapCompression.BI_RGB) {
+    masks = DefaultMasks[bitCount];
+  }
+
+  const colors = Array.from({ length: colorCount }, (_, index) => RGBQUAD.read(view, headerSize + maskBytes + index * RGBQUAD.sizeof));
+  const height = Math.abs(biHeight);
+  const stride = dibStride(width, bitCount);
+  const rle = compression === BitmapCompression.BI_RLE4 || compression === BitmapCompression.BI_RLE8;
+  const size = rle ? header.biSizeImage || (bits?.byteLength ?? 0) : stride * height;
+
+  return {
+    bitCount,
+    bits: bits ? Buffer.from(bits.buffer, bits.byteOffset, Math.min(bits.byteLength, size)) : Buffer.alloc(size),
+    colors,
+    compression,
+    headerSize,
+    height,
+    info: Buffer.from(new Uint8Array(view.buffer, view.byteOffset, length)),
+    masks,
+    stride,
+    topDown: biHeight < 0,
+    width,
+  };
+}
+
+/**
+ * Parses a `.bmp` file (`BITMAPFILEHEADER` followed by a `BITMAPINFO` and the pixel bits).
+ *
+ * @param data File contents.
+ * @returns The parsed DIB; `info` and `bits` are copies independent of `data`.
+ * @example
+ * ```ts
+ * const dib = readBMP(await Bun.file('logo.bmp').bytes());
+ *
+ * GDI32.SetDIBits(hdc, hbm, 0, dib.height, dib.bits.ptr, dib.info.ptr, DIBUsage.DIB_RGB_COLORS);
+ * ```
+ */
+export function readBMP(data: ArrayBuffer | ArrayBufferView): DIB {
+  const bytes = ArrayBuffer.isView(data) ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : new Uint8Array(data);
+  const file = BITMAPFILEHEADER.decode(bytes);
+
+  if (file.bfType !== BMP_SIGNATURE) {
+    throw new TypeError('Not a bitmap file (missing BM signature).');
+  }
+
+  const dib = readDIB(bytes.subarray(BITMAPFILEHEADER.sizeof), bytes.subarray(file.bfOffBits));
+
+  return { ...dib, bits: Buffer.from(dib.bits) };
+}
+
+/**
+ * Serializes a DIB as a `.bmp` file.
+ *
+ * @param dib Bitmap to write; `info` is written verbatim, followed by `bits`.
+ * @returns The file contents.
+ */
+export function writeBMP(dib: Pick<DIB, 'bits' | 'info'>): Buffer {
+  const offset = BITMAPFILEHEADER.sizeof + dib.info.length;
+  const file = BITMAPFILEHEADER.encode({ bfOffBits: offset, bfSize: offset + dib.bits.length, bfType: BMP_SIGNATURE });
+
+  return Buffer.concat([file, dib.info, dib.bits]);
+}
+
+/**
+ * Expands an RLE8/RLE4 stream into one palette index per byte, rows in DIB (bottom-up) order.
+ *
+ * Pixels skipped by delta escapes or left undefined by an early end-of-bitmap stay 0.
+ *
+ * @param bits Compressed stream.
+ * @param width Width in pixels.
+ * @param height Height in rows.
+ * @param bitCount `8` for `BI_RLE8`, `4` for `BI_RLE4`.
+ * @returns `width * height` palette indices.
+ */
+export function decodeRLE(bits: Uint8Array, width: number, height: number, bitCount: 4 | 8): Uint8Array {
+  const indices = new Uint8Array(width * height);
+  const put = (value: number) => {
+    if (x < width && y < height) {
+      indices[y * width + x] = value;
+    }
+
+    x++;
+  };
+
+  let position = 0;
+  let x = 0;
+  let y = 0;
+
+  while (position + 1 < bits.length && y < height) {
+    const count = bits[position++]!;
+    const value = bits[position++]!;
+
+    if (count > 0) {
+      for (let index = 0; index < count; index++) {
+        put(bitCount === 8 ? value : index & 1 ? value & 0x0f : value >>> 4);
+      }
+    } else if (value === 0) {
+      x = 0;
+      y++;
+    } else if (value === 1) {
+      break;
+    } else if (value === 2) {
+      x += bits[position++] ?? 0;
+      y += bits[position++] ?? 0;
+    } else {
+      const byteCount = bitCount === 8 ? value : (value + 1) >>> 1;
+
+      for (let index = 0; index < value; index++) {
+        const byte = bits[position + (bitCount === 8 ? index : index >>> 1)] ?? 0;
+
+        put(bitCount === 8 ? byte : index & 1 ? byte & 0x0f : byte >>> 4);
+      }
+
+      position += byteCount + (byteCount & 1);
+    }
+  }
+
+  return indices;
+}
+
+/**
+ * Compresses palette indices (one per byte, rows in DIB order) into an RLE8/RLE4 stream.
+ *
+ * Uses encoded runs only, terminating each row with an end-of-line escape and the image
+ * with end-of-bitmap, which every GDI reader accepts.
+ *
+ * @param indices `width * height` palette indices.
+ * @param width Width in pixels.
+ * @param height Height in rows.
+ * @param bitCount `8` for `BI_RLE8`, `4` for `BI_RLE4`.
+ * @returns The compressed stream, suitable as `bits` for `createDIB` with the matching compression.
+ */
+export function encodeRLE(indices: Uint8Array, width: number, height: number, bitCount: 4 | 8): Buffer {
+  const output: number[] = [];
+
+  for (let y = 0; y < height; y++) {
+    const row = indices.subarray(y * width, (y + 1) * width);
+
+    for (let x = 0; x < width; ) {
+      const first = row[x]!;
+      const second = bitCount === 4 ? row[x + 1] ?? first : first;
+
+      let count = 1;
+
+      while (count < 255 && x + count < width && row[x + count] === (bitCount === 4 && count & 1 ? second : first)) {
+        count++;
+      }
+
+      output.push(count, bitCount === 8 ? first : ((first & 0x0f) << 4) | (second & 0x0f));
+
+      x += count;
+    }
+
+    output.push(0, y === height - 1 ? 1 : 0);
+  }
+
+  return Buffer.from(output);
+}
+
+/**
+ * Converts a DIB to top-down, tightly packed RGBA (the layout of `ImageData`).
+ *
+ * Handles every supported bit depth and compression. 32 bpp `BI_RGB` bitmaps keep their
+ * alpha byte unless it is zero for every pixel, in which case they are treated as opaque.
+ *
+ * @param dib Bitmap to convert.
+ * @returns `width * height * 4` bytes.
+ */
+export function toRGBA(dib: DIB): Uint8Array {
+  const { bitCount, bits, colors, compression, height, stride, topDown, width } = dib;
+
+  const rgba = new Uint8Array(width * height * 4);
+  const view = new DataView(bits.buffer, bits.byteOffset, bits.byteLength);
+  const rle = compression === BitmapCompression.BI_RLE4 || compression === BitmapCompression.BI_RLE8;
+  const indices = rle ? decodeRLE(bits, width, height, compression === BitmapCompression.BI_RLE8 ? 8 : 4) : undefined;
+  const channels = dib.masks ? ([dib.masks.red, dib.masks.green, dib.masks.blue, dib.masks.alpha] as const).map(channel) : undefined;
+
+  const ignoreAlpha = bitCount === 32 && compression === BitmapCompression.BI_RGB && !bits.some((byte, index) => (index & 3) === 3 && byte !== 0);
+
+  for (let y = 0; y < height; y++) {
+    const row = topDown ? y : height - 1 - y;
+    const base = row * stride;
+
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+
+      if (bitCount <= 8) {
+        const index = indices ? indices[row * width + x]! : (bits[base + ((x * bitCount) >>> 3)]! >>> (8 - bitCount - ((x * bitCount) & 7))) & ((1 << bitCount) - 1);
+        const color = colors[index];
+
+        rgba.set(color ? [color.rgbRed, color.rgbGreen, color.rgbBlue, 255] : [0, 0, 0, 255], target);
+      } else if (bitCount === 24) {
+        rgba.set([bits[base + x * 3 + 2]!, bits[base + x * 3 + 1]!, bits[base + x * 3]!, 255], target);
+      } else {
+        const pixel = bitCount === 16 ? view.getUint16(base + x * 2, true) : view.getUint32(base + x * 4, true);
+        const [red, green, blue, alpha] = channels!.map((extract) => extract(pixel)) as [number, number, number, number | undefined];
+
+        rgba.set([red, green, blue, ignoreAlpha ? 255 : alpha ?? (bitCount === 32 && compression === BitmapCompression.BI_RGB ? pixel >>> 24 : 255)], target);
+      }
+    }
+  }
+
+  return rgba;
+}
+
+/**
+ * Builds a 24 or 32 bpp `BI_RGB` DIB from top-down RGBA pixels.
+ *
+ * @param width Width in pixels.
+ * @param height Height in rows.
+ * @param rgba `width * height * 4` bytes, top-down.
+ * @param options Output depth (alpha is only kept at 32 bpp) and row order.
+ * @returns The DIB.
+ */
+export function fromRGBA(width: number, height: number, rgba: Uint8Array, options: { bitCount?: 24 | 32; topDown?: boolean } = {}): DIB {
+  const { bitCount = 32, topDown = false } = options;
+  const dib = createDIB({ bitCount, height, topDown, width });
+
+  for (let y = 0; y < height; y++) {
+    const base = (topDown ? y : height - 1 - y) * dib.stride;
+
+    for (let x = 0; x < width; x++) {
+      const source = (y * width + x) * 4;
+      const target = base + (x * bitCount) / 8;
+
+      dib.bits[target] = rgba[source + 2]!;
+      dib.bits[target + 1] = rgba[source + 1]!;
+      dib.bits[target + 2] = rgba[source]!;
+
+      if (bitCount === 32) {
+        dib.bits[target + 3] = rgba[source + 3]!;
+      }
+    }
+  }
+
+  return dib;
+}
+
+/**
+ * Returns an extractor that scales the masked channel of a pixel to 0–255, or `undefined` for an empty mask.
+ */
+function channel(mask: number): (pixel: number) => number | undefined {
+  if (!mask) {
+    return () => undefined;
+  }
+
+  const shift = 31 - Math.clz32(mask & -mask);
+  const maximum = (mask >>> 0) / 2 ** shift;
+
+  return (pixel) => Math.round(((((pixel & mask) >>> 0) / 2 ** shift) * 255) / maximum);
+}
+
+/**
+ * Default color table for indexed bitmaps: an even grayscale ramp.
+ */
+function grayscale(bitCount: number): RGBQUAD[] {
+  const count = 1 << bitCount;
+
+  return Array.from({ length: count }, (_, index) => {
+    const level = Math.round((index * 255) / (count - 1));
+
+    return { rgbBlue: level, rgbGreen: level, rgbRed: level, rgbReserved: 0 };
+  });
+}
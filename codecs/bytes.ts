@@ -0,0 +1,192 @@
+import type { Struct, StructInit } from './struct';
+
+/**
+ * Sequential reader over a `DataView`, little-endian unless told otherwise (sfnt data is
+ * big-endian).
+ *
+ * `offset` is the cursor relative to the start of the view; the `*At` helpers read at an
+ * absolute position without moving it.
+ */
+export class ByteReader {
+  public offset: number;
+
+  constructor(public readonly view: DataView, offset: number = 0, private readonly littleEndian: boolean = true) {
+    this.offset = offset;
+  }
+
+  public get remaining(): number {
+    return this.view.byteLength - this.offset;
+  }
+
+  public bytes(length: number): Uint8Array {
+    const bytes = this.bytesAt(this.offset, length);
+
+    this.offset += length;
+
+    return bytes;
+  }
+
+  public bytesAt(offset: number, length: number): Uint8Array {
+    if (offset < 0 || length < 0 || offset + length > this.view.byteLength) {
+      throw new RangeError(`Read of ${length} bytes at ${offset} is out of bounds (${this.view.byteLength}).`);
+    }
+
+    return new Uint8Array(this.view.buffer, this.view.byteOffset + offset, length).slice();
+  }
+
+  public f32(): number {
+    return this.advance(4, this.view.getFloat32(this.offset, this.littleEndian));
+  }
+
+  public i8(): number {
+    return this.advance(1, this.view.getInt8(this.offset));
+  }
+
+  public i16(): number {
+    return this.advance(2, this.view.getInt16(this.offset, this.littleEndian));
+  }
+
+  public i32(): number {
+    return this.advance(4, this.view.getInt32(this.offset, this.littleEndian));
+  }
+
+  public struct<T>(struct: Struct<T>): T {
+    return this.advance(struct.sizeof, struct.read(this.view, this.offset));
+  }
+
+  public u16(): number {
+    return this.advance(2, this.view.getUint16(this.offset, this.littleEndian));
+  }
+
+  public u32(): number {
+    return this.advance(4, this.view.getUint32(this.offset, this.littleEndian));
+  }
+
+  public u8(): number {
+    return this.advance(1, this.view.getUint8(this.offset));
+  }
+
+  private advance<T>(length: number, value: T): T {
+    this.offset += length;
+
+    return value;
+  }
+}
+
+/**
+ * Append-only little-endian writer that grows as needed.
+ */
+export class ByteWriter {
+  private buffer = new Uint8Array(64);
+  private view = new DataView(this.buffer.buffer);
+
+  public length = 0;
+
+  public bytes(bytes: ArrayLike<number>): this {
+    this.reserve(bytes.length).buffer.set(bytes, this.length - bytes.length);
+
+    return this;
+  }
+
+  public f32(value: number): this {
+    const offset = this.reserve(4).length - 4;
+
+    this.view.setFloat32(offset, value, true);
+
+    return this;
+  }
+
+  public i16(value: number): this {
+    const offset = this.reserve(2).length - 2;
+
+    this.view.setInt16(offset, value, true);
+
+    return this;
+  }
+
+  public i32(value: number): this {
+    const offset = this.reserve(4).length - 4;
+
+    this.view.setInt32(offset, value, true);
+
+    return this;
+  }
+
+  /**
+   * Zero-fills up to the next multiple of `alignment` bytes.
+   */
+  public pad(alignment: number): this {
+    this.reserve((alignment - (this.length % alignment)) % alignment);
+
+    return this;
+  }
+
+  /**
+   * Overwrites a previously written `DWORD`, e.g. to patch a size once it is known.
+   */
+  public patchU32(offset: number, value: number): this {
+    this.view.setUint32(offset, value, true);
+
+    return this;
+  }
+
+  public struct<T>(struct: Struct<T>, value: StructInit<T>): this {
+    const offset = this.reserve(struct.sizeof).length - struct.sizeof;
+
+    struct.write(this.view, offset, value);
+
+    return this;
+  }
+
+  public toBuffer(): Buffer {
+    return Buffer.from(this.buffer.slice(0, this.length));
+  }
+
+  public u16(value: number): this {
+    const offset = this.reserve(2).length - 2;
+
+    this.view.setUint16(offset, value, true);
+
+    return this;
+  }
+
+  public u32(value: number): this {
+    const offset = this.reserve(4).length - 4;
+
+    this.view.setUint32(offset, value >>> 0, true);
+
+    return this;
+  }
+
+  public u8(value: number): this {
+    const offset = this.reserve(1).length - 1;
+
+    this.view.setUint8(offset, value);
+
+    return this;
+  }
+
+  /**
+   * Zero-fills until the writer is `offset` bytes long (no-op when already past it).
+   */
+  public zeroTo(offset: number): this {
+    this.reserve(Math.max(0, offset - this.length));
+
+    return this;
+  }
+
+  private reserve(length: number): this {
+    if (this.length + length > this.buffer.length) {
+      const buffer = new Uint8Array(Math.max(this.buffer.length * 2, this.length + length));
+
+      buffer.set(this.buffer.subarray(0, this.length));
+
+      this.buffer = buffer;
+      this.view = new DataView(buffer.buffer);
+    }
+
+    this.length += length;
+
+    return this;
+  }
+}
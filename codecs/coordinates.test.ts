@@ -0,0 +1,122 @@
+import { describe, expect, test } from 'bun:test';
+
+import { GraphicsMode, MapMode, WorldTransformMode } from '../constants/GDI32';
+import { CoordinateSpace } from './coordinates';
+import { XForm } from './xform';
+
+/** 800×600 pixels on 200×150 mm: square pixels, 4 per millimetre. */
+const Device = { horzRes: 800, horzSize: 200, vertRes: 600, vertSize: 150 };
+
+describe('CoordinateSpace', () => {
+  test('starts as an MM_TEXT identity mapping', () => {
+    const space = new CoordinateSpace();
+
+    expect(space.mapMode).toBe(MapMode.MM_TEXT);
+    expect(space.deviceTransform.isIdentity).toBe(true);
+    expect(space.lpToDp([{ x: 12, y: -7 }])).toEqual([{ x: 12, y: -7 }]);
+  });
+
+  test('derives metric extents from the device size', () => {
+    const space = new CoordinateSpace();
+
+    expect(space.setMapMode(MapMode.MM_LOMETRIC)).toBe(MapMode.MM_TEXT);
+    expect(space.windowExtent).toEqual({ cx: 5080, cy: 2860 });
+    expect(space.viewportExtent).toEqual({ cx: 1920, cy: -1080 });
+    expect(space.lpToDp([{ x: 100, y: 100 }])).toEqual([{ x: 38, y: -38 }]);
+  });
+
+  test('ignores extents outside the scalable modes and rejects unknown modes', () => {
+    const space = new CoordinateSpace(Device);
+
+    space.setMapMode(MapMode.MM_TWIPS);
+
+    expect(space.setWindowExtEx(1, 1)).toBe(true);
+    expect(space.windowExtent).toEqual({ cx: 11339, cy: 8504 });
+    expect(space.setMapMode(99 as MapMode)).toBe(0);
+    expect(space.mapMode).toBe(MapMode.MM_TWIPS);
+  });
+
+  test('keeps MM_ANISOTROPIC extents as given and rejects zero', () => {
+    const space = new CoordinateSpace(Device);
+
+    space.setMapMode(MapMode.MM_ANISOTROPIC);
+
+    expect(space.setWindowExtEx(100, 100)).toBe(true);
+    expect(space.setViewportExtEx(0, 10)).toBe(false);
+    expect(space.setViewportExtEx(200, -300)).toBe(true);
+    expect(space.viewportExtent).toEqual({ cx: 200, cy: -300 });
+    expect(space.scaleWindowExtEx(1, 2, 1, 0)).toBe(false);
+    expect(space.scaleWindowExtEx(1, 2, 3, 1)).toBe(true);
+    expect(space.windowExtent).toEqual({ cx: 50, cy: 300 });
+  });
+
+  test('shrinks one MM_ISOTROPIC viewport extent', () => {
+    const space = new CoordinateSpace(Device);
+
+    space.setMapMode(MapMode.MM_ISOTROPIC);
+    space.setWindowExtEx(1000, 1000);
+    space.setViewportExtEx(800, -600);
+    space.setViewportOrgEx(400, 300);
+
+    expect(space.viewportExtent).toEqual({ cx: 600, cy: -600 });
+    expect(space.lpToDp([{ x: 500, y: 500 }])).toEqual([{ x: 700, y: 0 }]);
+  });
+
+  test('maps window and viewport origins onto each other', () => {
+    const space = new CoordinateSpace(Device);
+
+    space.setWindowOrgEx(10, 20);
+    space.offsetViewportOrgEx(5, 5);
+    space.offsetViewportOrgEx(5, 0);
+
+    expect(space.viewportOrigin).toEqual({ x: 10, y: 5 });
+    expect(space.lpToDp([{ x: 10, y: 20 }])).toEqual([{ x: 10, y: 5 }]);
+  });
+
+  test('changes the world transform only in GM_ADVANCED', () => {
+    const space = new CoordinateSpace(Device);
+
+    expect(space.setWorldTransform(XForm.scaling(2))).toBe(false);
+    expect(space.setGraphicsMode(GraphicsMode.GM_ADVANCED)).toBe(GraphicsMode.GM_COMPATIBLE);
+    expect(space.setWorldTransform(XForm.scaling(0, 1))).toBe(false);
+    expect(space.setWorldTransform(XForm.scaling(2))).toBe(true);
+    expect(space.modifyWorldTransform(XForm.translation(1, 0), WorldTransformMode.MWT_RIGHTMULTIPLY)).toBe(true);
+    expect(space.lpToDp([{ x: 3, y: 4 }])).toEqual([{ x: 7, y: 8 }]);
+    expect(space.setGraphicsMode(GraphicsMode.GM_COMPATIBLE)).toBe(0);
+
+    space.modifyWorldTransform(XForm.identity, WorldTransformMode.MWT_IDENTITY);
+
+    expect(space.setGraphicsMode(GraphicsMode.GM_COMPATIBLE)).toBe(GraphicsMode.GM_ADVANCED);
+  });
+
+  test('converts device points back to logical points', () => {
+    const space = new CoordinateSpace(Device);
+
+    space.setMapMode(MapMode.MM_ANISOTROPIC);
+    space.setWindowExtEx(100, 100);
+    space.setViewportExtEx(200, -300);
+    space.setWindowOrgEx(-10, 5);
+
+    const points = [
+      { x: 0, y: 0 },
+      { x: 17, y: -23 },
+    ];
+
+    expect(space.lpToDp(points)).toEqual([
+      { x: 20, y: 15 },
+      { x: 54, y: 84 },
+    ]);
+    expect(space.dpToLp(space.lpToDp(points))).toEqual(points);
+  });
+
+  test('clones independent state', () => {
+    const space = new CoordinateSpace(Device);
+    const copy = space.clone();
+
+    space.setMapMode(MapMode.MM_HIMETRIC);
+
+    expect(copy.mapMode).toBe(MapMode.MM_TEXT);
+    expect(copy.device).toBe(space.device);
+    expect(new CoordinateSpace(Device, space.state).state).toEqual(space.state);
+  });
+});
@@ -0,0 +1,384 @@
+import { GraphicsMode, MapMode, WorldTransformMode } from '../constants/GDI32';
+import type { POINT, SIZE, XFORM } from './GDI32';
+import { XForm } from './xform';
+
+/**
+ * The `GetDeviceCaps` values the metric map modes depend on.
+ */
+export interface DeviceMetrics {
+  /** `HORZRES`: width in pixels. */
+  horzRes: number;
+  /** `HORZSIZE`: width in millimetres. */
+  horzSize: number;
+  /** `VERTRES`: height in pixels. */
+  vertRes: number;
+  /** `VERTSIZE`: height in millimetres. */
+  vertSize: number;
+}
+
+/**
+ * Everything `GetMapMode`, `Get{Window,Viewport}{Org,Ext}Ex`, `GetGraphicsMode` and
+ * `GetWorldTransform` report for a DC.
+ */
+export interface CoordinateState {
+  graphicsMode: GraphicsMode;
+  mapMode: MapMode;
+  viewportExt: SIZE;
+  viewportOrg: POINT;
+  windowExt: SIZE;
+  windowOrg: POINT;
+  world: XFORM;
+}
+
+/**
+ * A 1920×1080 display at 96 DPI, as reported by a default Windows 10/11 setup.
+ */
+export const DefaultDeviceMetrics: Readonly<DeviceMetrics> = Object.freeze({ horzRes: 1920, horzSize: 508, vertRes: 1080, vertSize: 286 });
+
+/** Window extent per 25.4 mm of device size, by map mode: `MulDiv(units, HORZSIZE, 254)` (`MM_ISOTROPIC` starts like `MM_LOMETRIC`). */
+const MetricUnits: Partial<Record<number, number>> = {
+  [MapMode.MM_LOMETRIC]: 2540,
+  [MapMode.MM_HIMETRIC]: 25400,
+  [MapMode.MM_LOENGLISH]: 1000,
+  [MapMode.MM_HIENGLISH]: 10000,
+  [MapMode.MM_TWIPS]: 14400,
+  [MapMode.MM_ISOTROPIC]: 2540,
+};
+
+/** `MulDiv`: `a * b / c` rounded half away from zero. */
+const mulDiv = (a: number, b: number, c: number): number => {
+  const value = (a * b) / c;
+
+  return Math.sign(value) * Math.round(Math.abs(value));
+};
+
+/** `GDI_ROUND`. */
+const round = (value: number): number => Math.floor(value + 0.5);
+
+/**
+ * A JS model of a DC's coordinate pipeline: world space → (world transform) → page space →
+ * (window/viewport mapping) → device space.
+ *
+ * Methods mirror the GDI calls of the same name, including their quirks: extents only change in
+ * `MM_ISOTROPIC`/`MM_ANISOTROPIC` (other modes accept and ignore them), zero extents and
+ * denominators fail, `MM_ISOTROPIC` shrinks one viewport extent so a logical unit is equally long
+ * in both directions on the device (taking the pixel aspect ratio from `DeviceMetrics`), and the
+ * world transform can only change in `GM_ADVANCED`. Conversions round like `LPtoDP`/`DPtoLP`.
+ *
+ * `readCoordinateSpace` captures a real DC's state so results can be compared with GDI's.
+ *
+ * @example
+ * ```ts
+ * const space = new CoordinateSpace({ horzRes: 800, horzSize: 200, vertRes: 600, vertSize: 150 });
+ * space.setMapMode(MapMode.MM_ISOTROPIC);
+ * space.setWindowExtEx(1000, 1000);
+ * space.setViewportExtEx(800, -600); // adjusted to (600, -600)
+ * space.setViewportOrgEx(400, 300);
+ * space.lpToDp([{ x: 500, y: 500 }]); // [{ x: 700, y: 0 }]
+ * ```
+ */
+export class CoordinateSpace {
+  private graphics: GraphicsMode = GraphicsMode.GM_COMPATIBLE;
+  private mode: MapMode = MapMode.MM_TEXT;
+  private viewportExt: SIZE = { cx: 1, cy: 1 };
+  private viewportOrg: POINT = { x: 0, y: 0 };
+  private windowExt: SIZE = { cx: 1, cy: 1 };
+  private windowOrg: POINT = { x: 0, y: 0 };
+  private world: XForm = XForm.identity;
+
+  /**
+   * @param device Device size in pixels and millimetres; defaults to `DefaultDeviceMetrics`.
+   * @param state Initial state, taken verbatim (no isotropic adjustment); defaults to a new DC's
+   * (`MM_TEXT`, `GM_COMPATIBLE`, identity world transform).
+   */
+  constructor(public readonly device: Readonly<DeviceMetrics> = DefaultDeviceMetrics, state: Partial<CoordinateState> = {}) {
+    this.graphics = state.graphicsMode ?? this.graphics;
+    this.mode = state.mapMode ?? this.mode;
+    this.viewportExt = { ...(state.viewportExt ?? this.viewportExt) };
+    this.viewportOrg = { ...(state.viewportOrg ?? this.viewportOrg) };
+    this.windowExt = { ...(state.windowExt ?? this.windowExt) };
+    this.windowOrg = { ...(state.windowOrg ?? this.windowOrg) };
+    this.world = state.world ? XForm.from(state.world) : this.world;
+  }
+
+  /** A snapshot of the current state, e.g. for `new CoordinateSpace(device, state)`. */
+  public get state(): CoordinateState {
+    return { graphicsMode: this.graphics, mapMode: this.mode, viewportExt: this.viewportExtent, viewportOrg: this.viewportOrigin, windowExt: this.windowExtent, windowOrg: this.windowOrigin, world: this.world };
+  }
+
+  public get graphicsMode(): GraphicsMode {
+    return this.graphics;
+  }
+
+  public get mapMode(): MapMode {
+    return this.mode;
+  }
+
+  /** `GetViewportExtEx`. */
+  public get viewportExtent(): SIZE {
+    return { ...this.viewportExt };
+  }
+
+  /** `GetViewportOrgEx`. */
+  public get viewportOrigin(): POINT {
+    return { ...this.viewportOrg };
+  }
+
+  /** `GetWindowExtEx`. */
+  public get windowExtent(): SIZE {
+    return { ...this.windowExt };
+  }
+
+  /** `GetWindowOrgEx`. */
+  public get windowOrigin(): POINT {
+    return { ...this.windowOrg };
+  }
+
+  /** `GetWorldTransform`. */
+  public get worldTransform(): XForm {
+    return this.world;
+  }
+
+  /**
+   * Page space → device space: `x' = x * vpExt / wndExt + (vpOrg - wndOrg * vpExt / wndExt)`.
+   */
+  public get pageTransform(): XForm {
+    const sx = this.viewportExt.cx / this.windowExt.cx;
+    const sy = this.viewportExt.cy / this.windowExt.cy;
+
+    return new XForm(sx, 0, 0, sy, this.viewportOrg.x - sx * this.windowOrg.x, this.viewportOrg.y - sy * this.windowOrg.y);
+  }
+
+  /**
+   * World space → device space: the world transform followed by the page transform.
+   */
+  public get deviceTransform(): XForm {
+    return this.world.multiply(this.pageTransform);
+  }
+
+  /**
+   * `SetMapMode`. Fixed modes and `MM_ISOTROPIC` reset both extents; `MM_ANISOTROPIC` (and
+   * re-selecting the current scalable mode) keeps the current ones. Origins are left alone.
+   *
+   * @returns The previous map mode, or 0 for an unknown mode.
+   */
+  public setMapMode(mode: MapMode): number {
+    const previous = this.mode;
+
+    if (mode === previous && this.scalable()) {
+      return previous;
+    }
+
+    const units = MetricUnits[mode];
+    const { horzRes, horzSize, vertRes, vertSize } = this.device;
+
+    if (mode === MapMode.MM_TEXT) {
+      this.windowExt = { cx: 1, cy: 1 };
+      this.viewportExt = { cx: 1, cy: 1 };
+    } else if (units) {
+      this.windowExt = { cx: mulDiv(units, horzSize, 254), cy: mulDiv(units, vertSize, 254) };
+      this.viewportExt = { cx: horzRes, cy: -vertRes };
+    } else if (mode !== MapMode.MM_ANISOTROPIC) {
+      return 0;
+    }
+
+    this.mode = mode;
+
+    return previous;
+  }
+
+  /** `SetWindowExtEx`. */
+  public setWindowExtEx(cx: number, cy: number): boolean {
+    if (!this.scalable()) {
+      return true;
+    }
+
+    if (!cx || !cy) {
+      return false;
+    }
+
+    this.windowExt = { cx, cy };
+    this.fixIsotropic();
+
+    return true;
+  }
+
+  /** `SetViewportExtEx`. */
+  public setViewportExtEx(cx: number, cy: number): boolean {
+    if (!this.scalable()) {
+      return true;
+    }
+
+    if (!cx || !cy) {
+      return false;
+    }
+
+    this.viewportExt = { cx, cy };
+    this.fixIsotropic();
+
+    return true;
+  }
+
+  /** `ScaleWindowExtEx`: each extent becomes `extent * num / denom` (truncated, never 0). */
+  public scaleWindowExtEx(xNum: number, xDenom: number, yNum: number, yDenom: number): boolean {
+    if (!this.scalable()) {
+      return true;
+    }
+
+    if (!xDenom || !yDenom) {
+      return false;
+    }
+
+    this.windowExt = { cx: Math.trunc((this.windowExt.cx * xNum) / xDenom) || 1, cy: Math.trunc((this.windowExt.cy * yNum) / yDenom) || 1 };
+    this.fixIsotropic();
+
+    return true;
+  }
+
+  /** `ScaleViewportExtEx`: each extent becomes `extent * num / denom` (truncated, never 0). */
+  public scaleViewportExtEx(xNum: number, xDenom: number, yNum: number, yDenom: number): boolean {
+    if (!this.scalable()) {
+      return true;
+    }
+
+    if (!xDenom || !yDenom) {
+      return false;
+    }
+
+    this.viewportExt = { cx: Math.trunc((this.viewportExt.cx * xNum) / xDenom) || 1, cy: Math.trunc((this.viewportExt.cy * yNum) / yDenom) || 1 };
+    this.fixIsotropic();
+
+    return true;
+  }
+
+  /** `SetWindowOrgEx`. */
+  public setWindowOrgEx(x: number, y: number): boolean {
+    this.windowOrg = { x, y };
+
+    return true;
+  }
+
+  /** `SetViewportOrgEx`. */
+  public setViewportOrgEx(x: number, y: number): boolean {
+    this.viewportOrg = { x, y };
+
+    return true;
+  }
+
+  /** `OffsetWindowOrgEx`. */
+  public offsetWindowOrgEx(dx: number, dy: number): boolean {
+    return this.setWindowOrgEx(this.windowOrg.x + dx, this.windowOrg.y + dy);
+  }
+
+  /** `OffsetViewportOrgEx`. */
+  public offsetViewportOrgEx(dx: number, dy: number): boolean {
+    return this.setViewportOrgEx(this.viewportOrg.x + dx, this.viewportOrg.y + dy);
+  }
+
+  /**
+   * `SetGraphicsMode`. Returning to `GM_COMPATIBLE` fails while the world transform is not the
+   * identity.
+   *
+   * @returns The previous mode, or 0 on failure.
+   */
+  public setGraphicsMode(mode: GraphicsMode): number {
+    const previous = this.graphics;
+
+    if ((mode !== GraphicsMode.GM_ADVANCED && mode !== GraphicsMode.GM_COMPATIBLE) || (mode === GraphicsMode.GM_COMPATIBLE && !this.world.isIdentity)) {
+      return 0;
+    }
+
+    this.graphics = mode;
+
+    return previous;
+  }
+
+  /** `SetWorldTransform`; fails outside `GM_ADVANCED` and for singular matrices. */
+  public setWorldTransform(xform: XFORM): boolean {
+    const next = XForm.from(xform);
+
+    if (this.graphics !== GraphicsMode.GM_ADVANCED || !next.determinant) {
+      return false;
+    }
+
+    this.world = next;
+
+    return true;
+  }
+
+  /** `ModifyWorldTransform`; fails outside `GM_ADVANCED` and when the result is singular. */
+  public modifyWorldTransform(xform: XFORM, mode: WorldTransformMode): boolean {
+    if (this.graphics !== GraphicsMode.GM_ADVANCED) {
+      return false;
+    }
+
+    const next = this.world.modify(xform, mode);
+
+    if (!next.determinant) {
+      return false;
+    }
+
+    this.world = next;
+
+    return true;
+  }
+
+  /**
+   * `LPtoDP`: logical (world) points to device points.
+   */
+  public lpToDp(points: readonly POINT[]): POINT[] {
+    const xform = this.deviceTransform;
+
+    return points.map((point) => {
+      const { x, y } = xform.transformPoint(point);
+
+      return { x: round(x), y: round(y) };
+    });
+  }
+
+  /**
+   * `DPtoLP`: device points to logical (world) points.
+   *
+   * @throws RangeError when the combined transformation is singular (`DPtoLP` fails).
+   */
+  public dpToLp(points: readonly POINT[]): POINT[] {
+    const xform = this.deviceTransform.invert();
+
+    return points.map((point) => {
+      const { x, y } = xform.transformPoint(point);
+
+      return { x: round(x), y: round(y) };
+    });
+  }
+
+  /**
+   * An independent copy with the same state.
+   */
+  public clone(): CoordinateSpace {
+    return new CoordinateSpace(this.device, this.state);
+  }
+
+  private scalable(): boolean {
+    return this.mode === MapMode.MM_ISOTROPIC || this.mode === MapMode.MM_ANISOTROPIC;
+  }
+
+  /**
+   * Shrinks the viewport extent on the axis where a logical unit is longer, so it spans the same
+   * physical distance on both axes.
+   */
+  private fixIsotropic(): void {
+    if (this.mode !== MapMode.MM_ISOTROPIC) {
+      return;
+    }
+
+    const { horzRes, horzSize, vertRes, vertSize } = this.device;
+    const xdim = Math.abs((this.viewportExt.cx * horzSize) / (horzRes * this.windowExt.cx));
+    const ydim = Math.abs((this.viewportExt.cy * vertSize) / (vertRes * this.windowExt.cy));
+
+    if (xdim > ydim) {
+      this.viewportExt = { ...this.viewportExt, cx: round((this.viewportExt.cx * ydim) / xdim) || (this.viewportExt.cx >= 0 ? 1 : -1) };
+    } else {
+      this.viewportExt = { ...this.viewportExt, cy: round((this.viewportExt.cy * xdim) / ydim) || (this.viewportExt.cy >= 0 ? 1 : -1) };
+    }
+  }
+}
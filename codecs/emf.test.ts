@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test';
+
+import { EnhancedMetaRecordType } from '../constants/GDI32';
+import { ENHMETA_SIGNATURE, type EMFRecord, decodeEMFRecord, encodeEMFRecord, parseEMF, readEnhMetaHeader, serializeEMF } from './emf';
+import { ENHMETAHEADER } from './GDI32';
+
+const bounds = { left: 0, top: 0, right: 100, bottom: 50 };
+
+const Records: EMFRecord[] = [
+  {
+    description: 'bun-gdi32\0test\0\0',
+    header: ENHMETAHEADER.decode(
+      ENHMETAHEADER.encode({
+        iType: EnhancedMetaRecordType.EMR_HEADER,
+        rclBounds: bounds,
+        rclFrame: { right: 2646, bottom: 1323 },
+        dSignature: ENHMETA_SIGNATURE,
+        nVersion: 0x10000,
+        nHandles: 2,
+        szlDevice: { cx: 1920, cy: 1080 },
+        szlMillimeters: { cx: 508, cy: 286 },
+      })
+    ),
+    headerSize: 108,
+    pixelFormat: new Uint8Array(0),
+    type: 'EMR_HEADER',
+  },
+  { handle: 1, style: 0, width: { x: 2, y: 0 }, color: 0x0000ff, type: 'EMR_CREATEPEN' },
+  { type: 'EMR_SELECTOBJECT', value: 1 },
+  { type: 'EMR_SETMITERLIMIT', value: 10.5 },
+  { type: 'EMR_MOVETOEX', x: 10, y: 10 },
+  { type: 'EMR_LINETO', x: 90, y: 40 },
+  {
+    bounds,
+    points: [
+      { x: 0, y: 0 },
+      { x: 100, y: 50 },
+      { x: -3, y: 7 },
+    ],
+    type: 'EMR_POLYLINE16',
+  },
+  { bounds, dx: [8, 8, 8], exScale: 0, eyScale: 0, graphicsMode: 1, options: 0, rect: { left: 0, top: 0, right: 0, bottom: 0 }, reference: { x: 5, y: 20 }, text: 'Hi!', type: 'EMR_EXTTEXTOUTW' },
+  { type: 'EMR_DELETEOBJECT', value: 1 },
+  { palette: [], type: 'EMR_EOF' },
+];
+
+describe('EMF', () => {
+  test('round-trips a metafile byte for byte', () => {
+    const data = serializeEMF(Records);
+    const { header, records } = parseEMF(data);
+
+    expect(header.nBytes).toBe(data.length);
+    expect(header.nRecords).toBe(Records.length);
+    expect(records.map((record) => record.type)).toEqual(Records.map((record) => record.type));
+    expect(records.slice(1)).toEqual(Records.slice(1));
+    expect(serializeEMF(records).equals(data)).toBe(true);
+  });
+
+  test('reads the header description', () => {
+    const { description, header } = readEnhMetaHeader(serializeEMF(Records));
+
+    expect(description).toBe('bun-gdi32\0test\0\0');
+    expect(header.szlDevice).toEqual({ cx: 1920, cy: 1080 });
+  });
+
+  test('decodes EMR_SETMITERLIMIT as a FLOAT', () => {
+    const record = encodeEMFRecord({ type: 'EMR_SETMITERLIMIT', value: 10.5 });
+
+    expect(record.readFloatLE(8)).toBe(10.5);
+    expect(decodeEMFRecord(record)).toEqual({ type: 'EMR_SETMITERLIMIT', value: 10.5 });
+  });
+
+  test('keeps unknown and non-canonical records verbatim', () => {
+    const unknown = Buffer.from([0xff, 0x7f, 0, 0, 12, 0, 0, 0, 1, 2, 3, 4]);
+    // EMR_SAVEDC with a trailing DWORD it does not define.
+    const padded = Buffer.from([33, 0, 0, 0, 12, 0, 0, 0, 9, 9, 9, 9]);
+
+    expect(decodeEMFRecord(unknown)).toEqual({ data: new Uint8Array([1, 2, 3, 4]), type: 0x7fff });
+    expect(decodeEMFRecord(padded)).toEqual({ data: new Uint8Array([9, 9, 9, 9]), type: EnhancedMetaRecordType.EMR_SAVEDC });
+    expect(encodeEMFRecord(decodeEMFRecord(padded)).equals(padded)).toBe(true);
+  });
+
+  test('rejects streams without an EMR_HEADER', () => {
+    expect(() => parseEMF(encodeEMFRecord({ type: 'EMR_SAVEDC' }))).toThrow(TypeError);
+  });
+
+  test('rejects records that overrun the stream', () => {
+    const data = serializeEMF(Records);
+
+    data.writeUInt32LE(0x1000, data.readUInt32LE(4) + 4);
+
+    expect(() => parseEMF(data)).toThrow(RangeError);
+  });
+});
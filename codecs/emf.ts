@@ -0,0 +1,971 @@
+import type { Pointer } from 'bun:ffi';
+
+import { EnhancedMetaRecordType, ExtTextOutOption } from '../constants/GDI32';
+import { ByteReader, ByteWriter } from './bytes';
+import { ENHMETAHEADER, LOGFONTW, PALETTEENTRY, POINT, RECT, SIZE, XFORM } from './GDI32';
+import { toDataView } from './struct';
+
+/**
+ * `' EMF'`, the `dSignature` of every enhanced metafile header.
+ */
+export const ENHMETA_SIGNATURE = 0x464d4520;
+
+type RecordName = keyof typeof EnhancedMetaRecordType;
+
+export interface EMRArc {
+  box: RECT;
+  end: POINT;
+  start: POINT;
+  type: 'EMR_ARC' | 'EMR_ARCTO' | 'EMR_CHORD' | 'EMR_PIE';
+}
+
+export interface EMRAngleArc {
+  center: POINT;
+  radius: number;
+  startAngle: number;
+  sweepAngle: number;
+  type: 'EMR_ANGLEARC';
+}
+
+export interface EMRBitBlt {
+  bits: Uint8Array;
+  bkColorSrc: number;
+  bmi: Uint8Array;
+  bounds: RECT;
+  cxDest: number;
+  cyDest: number;
+  rop: number;
+  type: 'EMR_BITBLT';
+  usageSrc: number;
+  xDest: number;
+  xSrc: number;
+  xformSrc: XFORM;
+  yDest: number;
+  ySrc: number;
+}
+
+export interface EMRBoundsOnly {
+  bounds: RECT;
+  type: 'EMR_FILLPATH' | 'EMR_STROKEANDFILLPATH' | 'EMR_STROKEPATH';
+}
+
+export interface EMRBox {
+  box: RECT;
+  type: 'EMR_ELLIPSE' | 'EMR_EXCLUDECLIPRECT' | 'EMR_INTERSECTCLIPRECT' | 'EMR_RECTANGLE';
+}
+
+export interface EMRCreateBrushIndirect {
+  color: number;
+  handle: number;
+  hatch: number;
+  style: number;
+  type: 'EMR_CREATEBRUSHINDIRECT';
+}
+
+export interface EMRCreateDIBBrush {
+  bits: Uint8Array;
+  bmi: Uint8Array;
+  handle: number;
+  type: 'EMR_CREATEDIBPATTERNBRUSHPT' | 'EMR_CREATEMONOBRUSH';
+  usage: number;
+}
+
+export interface EMRCreatePalette {
+  entries: PALETTEENTRY[];
+  handle: number;
+  type: 'EMR_CREATEPALETTE';
+  version: number;
+}
+
+export interface EMRCreatePen {
+  color: number;
+  handle: number;
+  style: number;
+  type: 'EMR_CREATEPEN';
+  width: POINT;
+}
+
+export interface EMREmpty {
+  type: 'EMR_ABORTPATH' | 'EMR_BEGINPATH' | 'EMR_CLOSEFIGURE' | 'EMR_ENDPATH' | 'EMR_FLATTENPATH' | 'EMR_REALIZEPALETTE' | 'EMR_SAVEDC' | 'EMR_SETMETARGN' | 'EMR_WIDENPATH';
+}
+
+export interface EMREOF {
+  palette: PALETTEENTRY[];
+  type: 'EMR_EOF';
+}
+
+export interface EMRExtCreateFontIndirectW {
+  /** Trailing `ENUMLOGFONTEXDV` data beyond the `LOGFONTW`, kept verbatim. */
+  extra: Uint8Array;
+  font: LOGFONTW;
+  handle: number;
+  type: 'EMR_EXTCREATEFONTINDIRECTW';
+}
+
+export interface EMRExtCreatePen {
+  bits: Uint8Array;
+  bmi: Uint8Array;
+  brushStyle: number;
+  color: number;
+  handle: number;
+  hatch: number;
+  style: number;
+  styleEntries: number[];
+  type: 'EMR_EXTCREATEPEN';
+  width: number;
+}
+
+export interface EMRExtFloodFill {
+  color: number;
+  mode: number;
+  point: POINT;
+  type: 'EMR_EXTFLOODFILL';
+}
+
+export interface EMRExtSelectClipRgn {
+  mode: number;
+  region: Uint8Array;
+  type: 'EMR_EXTSELECTCLIPRGN';
+}
+
+export interface EMRExtTextOut {
+  bounds: RECT;
+  /** Inter-character advances; twice `text.length` entries when `ETO_PDY` is set. */
+  dx: number[];
+  exScale: number;
+  eyScale: number;
+  graphicsMode: number;
+  options: number;
+  rect: RECT;
+  reference: POINT;
+  /** UTF-16 text for `EMR_EXTTEXTOUTW`; one char code per byte for `EMR_EXTTEXTOUTA`. */
+  text: string;
+  type: 'EMR_EXTTEXTOUTA' | 'EMR_EXTTEXTOUTW';
+}
+
+export interface EMRGdiComment {
+  data: Uint8Array;
+  type: 'EMR_GDICOMMENT';
+}
+
+export interface EMRHeader {
+  description: string;
+  header: ENHMETAHEADER;
+  /** Size of the fixed header part: 88, 100 or 108 bytes depending on the writer. */
+  headerSize: number;
+  pixelFormat: Uint8Array;
+  type: 'EMR_HEADER';
+}
+
+export interface EMRModifyWorldTransform {
+  mode: number;
+  type: 'EMR_MODIFYWORLDTRANSFORM';
+  xform: XFORM;
+}
+
+export interface EMRPoint {
+  type: 'EMR_LINETO' | 'EMR_MOVETOEX' | 'EMR_OFFSETCLIPRGN' | 'EMR_SETBRUSHORGEX' | 'EMR_SETVIEWPORTEXTEX' | 'EMR_SETVIEWPORTORGEX' | 'EMR_SETWINDOWEXTEX' | 'EMR_SETWINDOWORGEX';
+  x: number;
+  y: number;
+}
+
+export interface EMRPoly {
+  bounds: RECT;
+  points: POINT[];
+  type: 'EMR_POLYBEZIER' | 'EMR_POLYBEZIER16' | 'EMR_POLYBEZIERTO' | 'EMR_POLYBEZIERTO16' | 'EMR_POLYGON' | 'EMR_POLYGON16' | 'EMR_POLYLINE' | 'EMR_POLYLINE16' | 'EMR_POLYLINETO' | 'EMR_POLYLINETO16';
+}
+
+export interface EMRPolyDraw {
+  bounds: RECT;
+  points: POINT[];
+  type: 'EMR_POLYDRAW' | 'EMR_POLYDRAW16';
+  types: number[];
+}
+
+export interface EMRPolyPoly {
+  bounds: RECT;
+  polys: POINT[][];
+  type: 'EMR_POLYPOLYGON' | 'EMR_POLYPOLYGON16' | 'EMR_POLYPOLYLINE' | 'EMR_POLYPOLYLINE16';
+}
+
+export interface EMRRegion {
+  bounds: RECT;
+  brush: number;
+  region: Uint8Array;
+  /** Stroke size; only meaningful for `EMR_FRAMERGN`. */
+  stroke: SIZE;
+  type: 'EMR_FILLRGN' | 'EMR_FRAMERGN' | 'EMR_INVERTRGN' | 'EMR_PAINTRGN';
+}
+
+export interface EMRResizePalette {
+  entries: number;
+  handle: number;
+  type: 'EMR_RESIZEPALETTE';
+}
+
+export interface EMRRoundRect {
+  box: RECT;
+  corner: SIZE;
+  type: 'EMR_ROUNDRECT';
+}
+
+export interface EMRScaleExt {
+  type: 'EMR_SCALEVIEWPORTEXTEX' | 'EMR_SCALEWINDOWEXTEX';
+  xDenom: number;
+  xNum: number;
+  yDenom: number;
+  yNum: number;
+}
+
+export interface EMRSetDIBitsToDevice {
+  bits: Uint8Array;
+  bmi: Uint8Array;
+  bounds: RECT;
+  cxSrc: number;
+  cySrc: number;
+  scans: number;
+  startScan: number;
+  type: 'EMR_SETDIBITSTODEVICE';
+  usage: number;
+  xDest: number;
+  xSrc: number;
+  yDest: number;
+  ySrc: number;
+}
+
+export interface EMRSetPaletteEntries {
+  entries: PALETTEENTRY[];
+  handle: number;
+  start: number;
+  type: 'EMR_SETPALETTEENTRIES';
+}
+
+export interface EMRSetPixelV {
+  color: number;
+  point: POINT;
+  type: 'EMR_SETPIXELV';
+}
+
+export interface EMRSetWorldTransform {
+  type: 'EMR_SETWORLDTRANSFORM';
+  xform: XFORM;
+}
+
+export interface EMRStretchBlt extends Omit<EMRBitBlt, 'type'> {
+  cxSrc: number;
+  cySrc: number;
+  type: 'EMR_STRETCHBLT';
+}
+
+export interface EMRStretchDIBits {
+  bits: Uint8Array;
+  bmi: Uint8Array;
+  bounds: RECT;
+  cxDest: number;
+  cxSrc: number;
+  cyDest: number;
+  cySrc: number;
+  rop: number;
+  type: 'EMR_STRETCHDIBITS';
+  usage: number;
+  xDest: number;
+  xSrc: number;
+  yDest: number;
+  ySrc: number;
+}
+
+export interface EMRValue {
+  type:
+    | 'EMR_DELETEOBJECT'
+    | 'EMR_RESTOREDC'
+    | 'EMR_SELECTCLIPPATH'
+    | 'EMR_SELECTOBJECT'
+    | 'EMR_SELECTPALETTE'
+    | 'EMR_SETARCDIRECTION'
+    | 'EMR_SETBKCOLOR'
+    | 'EMR_SETBKMODE'
+    | 'EMR_SETICMMODE'
+    | 'EMR_SETLAYOUT'
+    | 'EMR_SETMAPMODE'
+    | 'EMR_SETMAPPERFLAGS'
+    | 'EMR_SETMITERLIMIT'
+    | 'EMR_SETPOLYFILLMODE'
+    | 'EMR_SETROP2'
+    | 'EMR_SETSTRETCHBLTMODE'
+    | 'EMR_SETTEXTALIGN'
+    | 'EMR_SETTEXTCOLOR';
+  /** The record's single field; a `FLOAT` for `EMR_SETMITERLIMIT`, an integer otherwise. */
+  value: number;
+}
+
+/**
+ * A record the model does not type (or whose layout is not canonical), kept byte for byte.
+ */
+export interface EMRUnknown {
+  /** Parameter bytes following the 8-byte `iType`/`nSize` prefix. */
+  data: Uint8Array;
+  /** The numeric `iType`. */
+  type: number;
+}
+
+/**
+ * Any enhanced-metafile record; narrow on `type` (`'EMR_POLYGON16'`, …) to reach the typed fields.
+ */
+export type EMFRecord =
+  | EMRAngleArc
+  | EMRArc
+  | EMRBitBlt
+  | EMRBoundsOnly
+  | EMRBox
+  | EMRCreateBrushIndirect
+  | EMRCreateDIBBrush
+  | EMRCreatePalette
+  | EMRCreatePen
+  | EMREmpty
+  | EMREOF
+  | EMRExtCreateFontIndirectW
+  | EMRExtCreatePen
+  | EMRExtFloodFill
+  | EMRExtSelectClipRgn
+  | EMRExtTextOut
+  | EMRGdiComment
+  | EMRHeader
+  | EMRModifyWorldTransform
+  | EMRPoint
+  | EMRPoly
+  | EMRPolyDraw
+  | EMRPolyPoly
+  | EMRRegion
+  | EMRResizePalette
+  | EMRRoundRect
+  | EMRScaleExt
+  | EMRSetDIBitsToDevice
+  | EMRSetPaletteEntries
+  | EMRSetPixelV
+  | EMRSetWorldTransform
+  | EMRStretchBlt
+  | EMRStretchDIBits
+  | EMRValue
+  | EMRUnknown;
+
+/**
+ * A parsed enhanced metafile.
+ */
+export interface EnhancedMetafile {
+  /** Decoded header (also available as the first record). */
+  header: ENHMETAHEADER;
+  records: EMFRecord[];
+}
+
+interface RecordCodec {
+  decode(reader: ByteReader, size: number, type: string): object;
+  encode(record: unknown, writer: ByteWriter): void;
+}
+
+const readPoints = (reader: ByteReader, count: number, short: boolean): POINT[] => Array.from({ length: count }, () => (short ? { x: reader.i16(), y: reader.i16() } : reader.struct(POINT)));
+
+const writePoints = (writer: ByteWriter, points: POINT[], short: boolean): void => points.forEach(({ x, y }) => (short ? writer.i16(x).i16(y) : writer.i32(x).i32(y)));
+
+/**
+ * Reads a `(offset, size)`-addressed blob; offsets are relative to the start of the record.
+ */
+const readBlob = (reader: ByteReader, offset: number, size: number): Uint8Array => (size ? reader.bytesAt(offset, size) : new Uint8Array(0));
+
+/**
+ * Writes the `offBmi, cbBmi, offBits, cbBits` quartet for a bitmap laid out right after the fixed part.
+ */
+const writeBlobHeader = (writer: ByteWriter, fixed: number, bmi: Uint8Array, bits: Uint8Array): ByteWriter =>
+  writer
+    .u32(bmi.length ? fixed : 0)
+    .u32(bmi.length)
+    .u32(bits.length ? fixed + bmi.length : 0)
+    .u32(bits.length);
+
+const Empty: RecordCodec = { decode: () => ({}), encode: () => undefined };
+
+const Value = (signed: boolean): RecordCodec => ({
+  decode: (reader) => ({ value: signed ? reader.i32() : reader.u32() }),
+  encode: (record: EMRValue, writer) => (signed ? writer.i32(record.value) : writer.u32(record.value)),
+});
+
+const Float: RecordCodec = {
+  decode: (reader) => ({ value: reader.f32() }),
+  encode: (record: EMRValue, writer) => writer.f32(record.value),
+};
+
+const BoundsOnly: RecordCodec = {
+  decode: (reader) => ({ bounds: reader.struct(RECT) }),
+  encode: (record: EMRBoundsOnly, writer) => writer.struct(RECT, record.bounds),
+};
+
+const Point: RecordCodec = {
+  decode: (reader) => ({ x: reader.i32(), y: reader.i32() }),
+  encode: (record: EMRPoint, writer) => writer.i32(record.x).i32(record.y),
+};
+
+const Box: RecordCodec = {
+  decode: (reader) => ({ box: reader.struct(RECT) }),
+  encode: (record: EMRBox, writer) => writer.struct(RECT, record.box),
+};
+
+const Arc: RecordCodec = {
+  decode: (reader) => ({ box: reader.struct(RECT), start: reader.struct(POINT), end: reader.struct(POINT) }),
+  encode: (record: EMRArc, writer) => writer.struct(RECT, record.box).struct(POINT, record.start).struct(POINT, record.end),
+};
+
+const ScaleExt: RecordCodec = {
+  decode: (reader) => ({ xNum: reader.i32(), xDenom: reader.i32(), yNum: reader.i32(), yDenom: reader.i32() }),
+  encode: (record: EMRScaleExt, writer) => writer.i32(record.xNum).i32(record.xDenom).i32(record.yNum).i32(record.yDenom),
+};
+
+const Poly = (short: boolean): RecordCodec => ({
+  decode: (reader) => {
+    const bounds = reader.struct(RECT);
+
+    return { bounds, points: readPoints(reader, reader.u32(), short) };
+  },
+  encode: (record: EMRPoly, writer) => writePoints(writer.struct(RECT, record.bounds).u32(record.points.length), record.points, short),
+});
+
+const PolyPoly = (short: boolean): RecordCodec => ({
+  decode: (reader) => {
+    const bounds = reader.struct(RECT);
+    const count = reader.u32();
+
+    reader.u32(); // cpts, implied by the counts
+
+    const counts = Array.from({ length: count }, () => reader.u32());
+
+    return { bounds, polys: counts.map((length) => readPoints(reader, length, short)) };
+  },
+  encode: (record: EMRPolyPoly, writer) => {
+    writer
+      .struct(RECT, record.bounds)
+      .u32(record.polys.length)
+      .u32(record.polys.reduce((total, points) => total + points.length, 0));
+
+    record.polys.forEach((points) => writer.u32(points.length));
+    record.polys.forEach((points) => writePoints(writer, points, short));
+  },
+});
+
+const PolyDraw = (short: boolean): RecordCodec => ({
+  decode: (reader) => {
+    const bounds = reader.struct(RECT);
+    const count = reader.u32();
+    const points = readPoints(reader, count, short);
+
+    return { bounds, points, types: Array.from(reader.bytes(count)) };
+  },
+  encode: (record: EMRPolyDraw, writer) => {
+    writePoints(writer.struct(RECT, record.bounds).u32(record.points.length), record.points, short);
+
+    writer.bytes(record.types).pad(4);
+  },
+});
+
+const Region: RecordCodec = {
+  decode: (reader, _size, type) => {
+    const bounds = reader.struct(RECT);
+    const length = reader.u32();
+    const brush = type === 'EMR_FILLRGN' || type === 'EMR_FRAMERGN' ? reader.u32() : 0;
+    const stroke = type === 'EMR_FRAMERGN' ? reader.struct(SIZE) : { cx: 0, cy: 0 };
+
+    return { bounds, brush, region: reader.bytes(length), stroke };
+  },
+  encode: (record: EMRRegion, writer) => {
+    writer.struct(RECT, record.bounds).u32(record.region.length);
+
+    if (record.type === 'EMR_FILLRGN' || record.type === 'EMR_FRAMERGN') {
+      writer.u32(record.brush);
+    }
+
+    if (record.type === 'EMR_FRAMERGN') {
+      writer.struct(SIZE, record.stroke);
+    }
+
+    writer.bytes(record.region).pad(4);
+  },
+};
+
+const ExtTextOut: RecordCodec = {
+  decode: (reader, _size, type) => {
+    const bounds = reader.struct(RECT);
+    const graphicsMode = reader.u32();
+    const exScale = reader.f32();
+    const eyScale = reader.f32();
+    const reference = reader.struct(POINT);
+    const chars = reader.u32();
+    const offString = reader.u32();
+    const options = reader.u32();
+    const rect = reader.struct(RECT);
+    const offDx = reader.u32();
+
+    const wide = type === 'EMR_EXTTEXTOUTW';
+    const bytes = readBlob(reader, offString, chars * (wide ? 2 : 1));
+    const codes = wide ? Array.from({ length: chars }, (_, index) => bytes[index * 2]! | (bytes[index * 2 + 1]! << 8)) : Array.from(bytes);
+    const dxCount = offDx ? chars * (options & ExtTextOutOption.ETO_PDY ? 2 : 1) : 0;
+    const dx = Array.from({ length: dxCount }, (_, index) => new DataView(reader.bytesAt(offDx + index * 4, 4).buffer).getInt32(0, true));
+
+    return { bounds, dx, exScale, eyScale, graphicsMode, options, rect, reference, text: String.fromCharCode(...codes) };
+  },
+  encode: (record: EMRExtTextOut, writer) => {
+    const wide = record.type === 'EMR_EXTTEXTOUTW';
+    const fixed = 76;
+    const textLength = record.text.length * (wide ? 2 : 1);
+    const offDx = record.dx.length ? fixed + textLength + ((4 - (textLength % 4)) % 4) : 0;
+
+    writer
+      .struct(RECT, record.bounds)
+      .u32(record.graphicsMode)
+      .f32(record.exScale)
+      .f32(record.eyScale)
+      .struct(POINT, record.reference)
+      .u32(record.text.length)
+      .u32(record.text.length ? fixed : 0)
+      .u32(record.options)
+      .struct(RECT, record.rect)
+      .u32(offDx);
+
+    for (let index = 0; index < record.text.length; index++) {
+      wide ? writer.u16(record.text.charCodeAt(index)) : writer.u8(record.text.charCodeAt(index) & 0xff);
+    }
+
+    writer.pad(4);
+    record.dx.forEach((value) => writer.i32(value));
+  },
+};
+
+const BitBlt = (stretch: boolean): RecordCodec => ({
+  decode: (reader) => {
+    const bounds = reader.struct(RECT);
+    const [xDest, yDest, cxDest, cyDest, rop, xSrc, ySrc] = [reader.i32(), reader.i32(), reader.i32(), reader.i32(), reader.u32(), reader.i32(), reader.i32()];
+    const xformSrc = reader.struct(XFORM);
+    const [bkColorSrc, usageSrc, offBmi, cbBmi, offBits, cbBits] = [reader.u32(), reader.u32(), reader.u32(), reader.u32(), reader.u32(), reader.u32()];
+    const extra = stretch ? { cxSrc: reader.i32(), cySrc: reader.i32() } : {};
+
+    return { bits: readBlob(reader, offBits, cbBits), bkColorSrc, bmi: readBlob(reader, offBmi, cbBmi), bounds, cxDest, cyDest, rop, usageSrc, xDest, xSrc, xformSrc, yDest, ySrc, ...extra };
+  },
+  encode: (record: EMRStretchBlt, writer) => {
+    writer.struct(RECT, record.bounds).i32(record.xDest).i32(record.yDest).i32(record.cxDest).i32(record.cyDest).u32(record.rop).i32(record.xSrc).i32(record.ySrc).struct(XFORM, record.xformSrc).u32(record.bkColorSrc).u32(record.usageSrc);
+
+    writeBlobHeader(writer, stretch ? 108 : 100, record.bmi, record.bits);
+
+    if (stretch) {
+      writer.i32(record.cxSrc).i32(record.cySrc);
+    }
+
+    writer.bytes(record.bmi).bytes(record.bits).pad(4);
+  },
+});
+
+const StretchDIBits: RecordCodec = {
+  decode: (reader) => {
+    const bounds = reader.struct(RECT);
+    const [xDest, yDest, xSrc, ySrc, cxSrc, cySrc, offBmi, cbBmi, offBits, cbBits, usage, rop, cxDest, cyDest] = Array.from({ length: 14 }, (_, index) => (index >= 6 && index <= 11 ? reader.u32() : reader.i32())) as number[];
+
+    return { bits: readBlob(reader, offBits!, cbBits!), bmi: readBlob(reader, offBmi!, cbBmi!), bounds, cxDest, cxSrc, cyDest, cySrc, rop, usage, xDest, xSrc, yDest, ySrc };
+  },
+  encode: (record: EMRStretchDIBits, writer) => {
+    writer.struct(RECT, record.bounds).i32(record.xDest).i32(record.yDest).i32(record.xSrc).i32(record.ySrc).i32(record.cxSrc).i32(record.cySrc);
+
+    writeBlobHeader(writer, 80, record.bmi, record.bits).u32(record.usage).u32(record.rop).i32(record.cxDest).i32(record.cyDest).bytes(record.bmi).bytes(record.bits).pad(4);
+  },
+};
+
+const SetDIBitsToDevice: RecordCodec = {
+  decode: (reader) => {
+    const bounds = reader.struct(RECT);
+    const [xDest, yDest, xSrc, ySrc, cxSrc, cySrc, offBmi, cbBmi, offBits, cbBits, usage, startScan, scans] = Array.from({ length: 13 }, (_, index) => (index >= 6 ? reader.u32() : reader.i32())) as number[];
+
+    return { bits: readBlob(reader, offBits!, cbBits!), bmi: readBlob(reader, offBmi!, cbBmi!), bounds, cxSrc, cySrc, scans, startScan, usage, xDest, xSrc, yDest, ySrc };
+  },
+  encode: (record: EMRSetDIBitsToDevice, writer) => {
+    writer.struct(RECT, record.bounds).i32(record.xDest).i32(record.yDest).i32(record.xSrc).i32(record.ySrc).i32(record.cxSrc).i32(record.cySrc);
+
+    writeBlobHeader(writer, 76, record.bmi, record.bits).u32(record.usage).u32(record.startScan).u32(record.scans).bytes(record.bmi).bytes(record.bits).pad(4);
+  },
+};
+
+const CreateDIBBrush: RecordCodec = {
+  decode: (reader) => {
+    const [handle, usage, offBmi, cbBmi, offBits, cbBits] = [reader.u32(), reader.u32(), reader.u32(), reader.u32(), reader.u32(), reader.u32()];
+
+    return { bits: readBlob(reader, offBits, cbBits), bmi: readBlob(reader, offBmi, cbBmi), handle, usage };
+  },
+  encode: (record: EMRCreateDIBBrush, writer) => writeBlobHeader(writer.u32(record.handle).u32(record.usage), 32, record.bmi, record.bits).bytes(record.bmi).bytes(record.bits).pad(4),
+};
+
+const ExtCreatePen: RecordCodec = {
+  decode: (reader) => {
+    const [handle, offBmi, cbBmi, offBits, cbBits] = [reader.u32(), reader.u32(), reader.u32(), reader.u32(), reader.u32()];
+    const [style, width, brushStyle, color, hatch, count] = [reader.u32(), reader.u32(), reader.u32(), reader.u32(), reader.u32(), reader.u32()];
+    const styleEntries = Array.from({ length: count }, () => reader.u32());
+
+    return { bits: readBlob(reader, offBits, cbBits), bmi: readBlob(reader, offBmi, cbBmi), brushStyle, color, handle, hatch, style, styleEntries, width };
+  },
+  encode: (record: EMRExtCreatePen, writer) => {
+    writeBlobHeader(writer.u32(record.handle), 52 + record.styleEntries.length * 4, record.bmi, record.bits)
+      .u32(record.style)
+      .u32(record.width)
+      .u32(record.brushStyle)
+      .u32(record.color)
+      .u32(record.hatch)
+      .u32(record.styleEntries.length);
+
+    record.styleEntries.forEach((entry) => writer.u32(entry));
+    writer.bytes(record.bmi).bytes(record.bits).pad(4);
+  },
+};
+
+const Header: RecordCodec = {
+  decode: (reader, size) => {
+    const fixed = new Uint8Array(ENHMETAHEADER.sizeof);
+
+    fixed.set(reader.bytesAt(0, Math.min(size, ENHMETAHEADER.sizeof)));
+
+    const header = ENHMETAHEADER.decode(fixed);
+    const headerSize = Math.min(size, header.nDescription ? header.offDescription : header.cbPixelFormat ? header.offPixelFormat : size, ENHMETAHEADER.sizeof);
+    const description = readBlob(reader, header.offDescription, header.nDescription * 2);
+
+    return {
+      description: String.fromCharCode(...new Uint16Array(description.buffer, description.byteOffset, header.nDescription)),
+      header,
+      headerSize,
+      pixelFormat: readBlob(reader, header.offPixelFormat, header.cbPixelFormat),
+    };
+  },
+  encode: (record: EMRHeader, writer) => {
+    const { description, headerSize, pixelFormat } = record;
+    const offDescription = description.length ? headerSize : 0;
+    const offPixelFormat = pixelFormat.length ? headerSize + Math.ceil((description.length * 2) / 4) * 4 : 0;
+    const fixed = ENHMETAHEADER.encode({ ...record.header, cbPixelFormat: pixelFormat.length, nDescription: description.length, offDescription, offPixelFormat });
+
+    writer.bytes(fixed.subarray(8, headerSize));
+
+    for (let index = 0; index < description.length; index++) {
+      writer.u16(description.charCodeAt(index));
+    }
+
+    writer.pad(4).bytes(pixelFormat).pad(4);
+  },
+};
+
+const EOF: RecordCodec = {
+  decode: (reader) => {
+    const count = reader.u32();
+    const offset = reader.u32();
+
+    return { palette: Array.from({ length: count }, (_, index) => PALETTEENTRY.decode(reader.bytesAt(offset + index * 4, 4))) };
+  },
+  encode: (record: EMREOF, writer) => {
+    const size = 20 + record.palette.length * 4;
+
+    writer.u32(record.palette.length).u32(16);
+    record.palette.forEach((entry) => writer.struct(PALETTEENTRY, entry));
+    writer.u32(size);
+  },
+};
+
+const Codecs: Partial<Record<RecordName, RecordCodec>> = {
+  EMR_ABORTPATH: Empty,
+  EMR_ANGLEARC: {
+    decode: (reader) => ({ center: reader.struct(POINT), radius: reader.u32(), startAngle: reader.f32(), sweepAngle: reader.f32() }),
+    encode: (record: EMRAngleArc, writer) => writer.struct(POINT, record.center).u32(record.radius).f32(record.startAngle).f32(record.sweepAngle),
+  },
+  EMR_ARC: Arc,
+  EMR_ARCTO: Arc,
+  EMR_BEGINPATH: Empty,
+  EMR_BITBLT: BitBlt(false),
+  EMR_CHORD: Arc,
+  EMR_CLOSEFIGURE: Empty,
+  EMR_CREATEBRUSHINDIRECT: {
+    decode: (reader) => ({ handle: reader.u32(), style: reader.u32(), color: reader.u32(), hatch: reader.u32() }),
+    encode: (record: EMRCreateBrushIndirect, writer) => writer.u32(record.handle).u32(record.style).u32(record.color).u32(record.hatch),
+  },
+  EMR_CREATEDIBPATTERNBRUSHPT: CreateDIBBrush,
+  EMR_CREATEMONOBRUSH: CreateDIBBrush,
+  EMR_CREATEPALETTE: {
+    decode: (reader) => {
+      const handle = reader.u32();
+      const version = reader.u16();
+
+      return { entries: Array.from({ length: reader.u16() }, () => reader.struct(PALETTEENTRY)), handle, version };
+    },
+    encode: (record: EMRCreatePalette, writer) => {
+      writer.u32(record.handle).u16(record.version).u16(record.entries.length);
+      record.entries.forEach((entry) => writer.struct(PALETTEENTRY, entry));
+    },
+  },
+  EMR_CREATEPEN: {
+    decode: (reader) => ({ handle: reader.u32(), style: reader.u32(), width: reader.struct(POINT), color: reader.u32() }),
+    encode: (record: EMRCreatePen, writer) => writer.u32(record.handle).u32(record.style).struct(POINT, record.width).u32(record.color),
+  },
+  EMR_DELETEOBJECT: Value(false),
+  EMR_ELLIPSE: Box,
+  EMR_ENDPATH: Empty,
+  EMR_EOF: EOF,
+  EMR_EXCLUDECLIPRECT: Box,
+  EMR_EXTCREATEFONTINDIRECTW: {
+    decode: (reader, size) => ({ handle: reader.u32(), font: reader.struct(LOGFONTW), extra: reader.bytes(size - reader.offset) }),
+    encode: (record: EMRExtCreateFontIndirectW, writer) => writer.u32(record.handle).struct(LOGFONTW, record.font).bytes(record.extra).pad(4),
+  },
+  EMR_EXTCREATEPEN: ExtCreatePen,
+  EMR_EXTFLOODFILL: {
+    decode: (reader) => ({ point: reader.struct(POINT), color: reader.u32(), mode: reader.u32() }),
+    encode: (record: EMRExtFloodFill, writer) => writer.struct(POINT, record.point).u32(record.color).u32(record.mode),
+  },
+  EMR_EXTSELECTCLIPRGN: {
+    decode: (reader) => {
+      const length = reader.u32();
+
+      return { mode: reader.u32(), region: reader.bytes(length) };
+    },
+    encode: (record: EMRExtSelectClipRgn, writer) => writer.u32(record.region.length).u32(record.mode).bytes(record.region).pad(4),
+  },
+  EMR_EXTTEXTOUTA: ExtTextOut,
+  EMR_EXTTEXTOUTW: ExtTextOut,
+  EMR_FILLPATH: BoundsOnly,
+  EMR_FILLRGN: Region,
+  EMR_FLATTENPATH: Empty,
+  EMR_FRAMERGN: Region,
+  EMR_GDICOMMENT: {
+    decode: (reader) => ({ data: reader.bytes(reader.u32()) }),
+    encode: (record: EMRGdiComment, writer) => writer.u32(record.data.length).bytes(record.data).pad(4),
+  },
+  EMR_HEADER: Header,
+  EMR_INTERSECTCLIPRECT: Box,
+  EMR_INVERTRGN: Region,
+  EMR_LINETO: Point,
+  EMR_MODIFYWORLDTRANSFORM: {
+    decode: (reader) => ({ xform: reader.struct(XFORM), mode: reader.u32() }),
+    encode: (record: EMRModifyWorldTransform, writer) => writer.struct(XFORM, record.xform).u32(record.mode),
+  },
+  EMR_MOVETOEX: Point,
+  EMR_OFFSETCLIPRGN: Point,
+  EMR_PAINTRGN: Region,
+  EMR_PIE: Arc,
+  EMR_POLYBEZIER: Poly(false),
+  EMR_POLYBEZIER16: Poly(true),
+  EMR_POLYBEZIERTO: Poly(false),
+  EMR_POLYBEZIERTO16: Poly(true),
+  EMR_POLYDRAW: PolyDraw(false),
+  EMR_POLYDRAW16: PolyDraw(true),
+  EMR_POLYGON: Poly(false),
+  EMR_POLYGON16: Poly(true),
+  EMR_POLYLINE: Poly(false),
+  EMR_POLYLINE16: Poly(true),
+  EMR_POLYLINETO: Poly(false),
+  EMR_POLYLINETO16: Poly(true),
+  EMR_POLYPOLYGON: PolyPoly(false),
+  EMR_POLYPOLYGON16: PolyPoly(true),
+  EMR_POLYPOLYLINE: PolyPoly(false),
+  EMR_POLYPOLYLINE16: PolyPoly(true),
+  EMR_REALIZEPALETTE: Empty,
+  EMR_RECTANGLE: Box,
+  EMR_RESIZEPALETTE: {
+    decode: (reader) => ({ handle: reader.u32(), entries: reader.u32() }),
+    encode: (record: EMRResizePalette, writer) => writer.u32(record.handle).u32(record.entries),
+  },
+  EMR_RESTOREDC: Value(true),
+  EMR_ROUNDRECT: {
+    decode: (reader) => ({ box: reader.struct(RECT), corner: reader.struct(SIZE) }),
+    encode: (record: EMRRoundRect, writer) => writer.struct(RECT, record.box).struct(SIZE, record.corner),
+  },
+  EMR_SAVEDC: Empty,
+  EMR_SCALEVIEWPORTEXTEX: ScaleExt,
+  EMR_SCALEWINDOWEXTEX: ScaleExt,
+  EMR_SELECTCLIPPATH: Value(false),
+  EMR_SELECTOBJECT: Value(false),
+  EMR_SELECTPALETTE: Value(false),
+  EMR_SETARCDIRECTION: Value(false),
+  EMR_SETBKCOLOR: Value(false),
+  EMR_SETBKMODE: Value(false),
+  EMR_SETBRUSHORGEX: Point,
+  EMR_SETDIBITSTODEVICE: SetDIBitsToDevice,
+  EMR_SETICMMODE: Value(false),
+  EMR_SETLAYOUT: Value(false),
+  EMR_SETMAPMODE: Value(false),
+  EMR_SETMAPPERFLAGS: Value(false),
+  EMR_SETMETARGN: Empty,
+  EMR_SETMITERLIMIT: Float,
+  EMR_SETPALETTEENTRIES: {
+    decode: (reader) => {
+      const handle = reader.u32();
+      const start = reader.u32();
+
+      return { entries: Array.from({ length: reader.u32() }, () => reader.struct(PALETTEENTRY)), handle, start };
+    },
+    encode: (record: EMRSetPaletteEntries, writer) => {
+      writer.u32(record.handle).u32(record.start).u32(record.entries.length);
+      record.entries.forEach((entry) => writer.struct(PALETTEENTRY, entry));
+    },
+  },
+  EMR_SETPIXELV: {
+    decode: (reader) => ({ point: reader.struct(POINT), color: reader.u32() }),
+    encode: (record: EMRSetPixelV, writer) => writer.struct(POINT, record.point).u32(record.color),
+  },
+  EMR_SETPOLYFILLMODE: Value(false),
+  EMR_SETROP2: Value(false),
+  EMR_SETSTRETCHBLTMODE: Value(false),
+  EMR_SETTEXTALIGN: Value(false),
+  EMR_SETTEXTCOLOR: Value(false),
+  EMR_SETVIEWPORTEXTEX: Point,
+  EMR_SETVIEWPORTORGEX: Point,
+  EMR_SETWINDOWEXTEX: Point,
+  EMR_SETWINDOWORGEX: Point,
+  EMR_SETWORLDTRANSFORM: {
+    decode: (reader) => ({ xform: reader.struct(XFORM) }),
+    encode: (record: EMRSetWorldTransform, writer) => writer.struct(XFORM, record.xform),
+  },
+  EMR_STRETCHBLT: BitBlt(true),
+  EMR_STRETCHDIBITS: StretchDIBits,
+  EMR_STROKEANDFILLPATH: BoundsOnly,
+  EMR_STROKEPATH: BoundsOnly,
+  EMR_WIDENPATH: Empty,
+};
+
+const RecordNames = new Map<number, RecordName>(Object.entries(EnhancedMetaRecordType).map(([name, type]) => [type, name as RecordName]));
+
+/**
+ * Encodes one record, including its `iType`/`nSize` prefix.
+ *
+ * @param record Typed or unknown record.
+ * @returns The record bytes; `nSize` is always a multiple of 4.
+ */
+export function encodeEMFRecord(record: EMFRecord): Buffer {
+  const writer = new ByteWriter();
+
+  if (typeof record.type === 'number') {
+    writer
+      .u32(record.type)
+      .u32(0)
+      .bytes((record as EMRUnknown).data)
+      .pad(4);
+  } else {
+    writer.u32(EnhancedMetaRecordType[record.type]).u32(0);
+
+    Codecs[record.type]!.encode(record, writer);
+    writer.pad(4);
+  }
+
+  return writer.patchU32(4, writer.length).toBuffer();
+}
+
+/**
+ * Decodes one record.
+ *
+ * Records are typed when the model knows their layout and re-encoding reproduces the exact
+ * bytes; anything else (unknown types, non-canonical padding or offsets) is returned as an
+ * `EMRUnknown` so that serialization stays lossless.
+ *
+ * @param source Record bytes, or a pointer to an `ENHMETARECORD` (e.g. inside an `ENHMFENUMPROC`).
+ * @param byteOffset Offset of the record within `source`.
+ * @returns The decoded record.
+ */
+export function decodeEMFRecord(source: ArrayBuffer | ArrayBufferView | Pointer, byteOffset: number = 0): EMFRecord {
+  const prefix = toDataView(source, byteOffset, 8);
+  const type = prefix.getUint32(0, true);
+  const size = prefix.getUint32(4, true);
+
+  if (size < 8) {
+    throw new RangeError(`Invalid EMF record size ${size} for type ${type}.`);
+  }
+
+  const view = toDataView(source, byteOffset, size);
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, size);
+  const unknown: EMRUnknown = { data: bytes.slice(8), type };
+
+  const name = RecordNames.get(type);
+  const codec = name && Codecs[name];
+
+  if (!codec) {
+    return unknown;
+  }
+
+  try {
+    const record = { type: name, ...codec.decode(new ByteReader(view, 8), size, name) } as EMFRecord;
+
+    return encodeEMFRecord(record).equals(bytes) ? record : unknown;
+  } catch {
+    return unknown;
+  }
+}
+
+/**
+ * Decodes a complete `ENHMETAHEADER`, zero-filling the fields short (88/100-byte) headers omit.
+ *
+ * @param source Metafile bytes (e.g. from `GetEnhMetaFileBits`) or a pointer to them.
+ * @returns The header and its description string.
+ */
+export function readEnhMetaHeader(source: ArrayBuffer | ArrayBufferView | Pointer): { description: string; header: ENHMETAHEADER } {
+  const size = toDataView(source, 0, 8).getUint32(4, true);
+  const record = Header.decode(new ByteReader(toDataView(source, 0, size), 8), size, 'EMR_HEADER') as EMRHeader;
+
+  if (record.header.iType !== EnhancedMetaRecordType.EMR_HEADER || record.header.dSignature !== ENHMETA_SIGNATURE) {
+    throw new TypeError('Not an enhanced metafile (missing EMR_HEADER or signature).');
+  }
+
+  return { description: record.description, header: record.header };
+}
+
+/**
+ * Parses an enhanced metafile byte stream into records.
+ *
+ * @param data Metafile bytes, e.g. the buffer filled by `GetEnhMetaFileBits`.
+ * @returns Header and records; `serializeEMF(parseEMF(data).records)` reproduces `data` exactly.
+ * @example
+ * ```ts
+ * const size = GDI32.GetEnhMetaFileBits(hemf, 0, null);
+ * const data = Buffer.alloc(size);
+ * GDI32.GetEnhMetaFileBits(hemf, size, data.ptr);
+ *
+ * for (const record of parseEMF(data).records) {
+ *   if (record.type === 'EMR_EXTTEXTOUTW') console.log(record.text);
+ * }
+ * ```
+ */
+export function parseEMF(data: ArrayBuffer | ArrayBufferView): EnhancedMetafile {
+  const bytes = ArrayBuffer.isView(data) ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : new Uint8Array(data);
+  const { header } = readEnhMetaHeader(bytes);
+  const end = Math.min(bytes.length, header.nBytes || bytes.length);
+  const records: EMFRecord[] = [];
+
+  for (let offset = 0; offset < end; ) {
+    if (offset + 8 > end) {
+      throw new RangeError(`Truncated EMF record at offset ${offset}.`);
+    }
+
+    const size = new DataView(bytes.buffer, bytes.byteOffset + offset, 8).getUint32(4, true);
+
+    if (size < 8 || offset + size > end) {
+      throw new RangeError(`Invalid EMF record size ${size} at offset ${offset}.`);
+    }
+
+    records.push(decodeEMFRecord(bytes, offset));
+
+    offset += size;
+  }
+
+  return { header, records };
+}
+
+/**
+ * Serializes records into an enhanced metafile byte stream.
+ *
+ * The header's `nBytes` and `nRecords` are recomputed, so edited record lists stay consistent;
+ * for an unmodified parse the output is byte-identical to the input.
+ *
+ * @param records Records, starting with `EMR_HEADER` and ending with `EMR_EOF`.
+ * @returns The metafile bytes, ready for `SetEnhMetaFileBits`.
+ */
+export function serializeEMF(records: EMFRecord[]): Buffer {
+  const output = Buffer.concat(records.map(encodeEMFRecord));
+
+  if (output.length >= 56 && output.readUInt32LE(0) === EnhancedMetaRecordType.EMR_HEADER) {
+    output.writeUInt32LE(output.length, 48);
+    output.writeUInt32LE(records.length, 52);
+  }
+
+  return output;
+}
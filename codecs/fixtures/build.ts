@@ -0,0 +1,214 @@
+/**
+ * Builds `gdi-test.ttf` and `gdi-test.ttc`, the fonts `codecs/sfnt.test.ts` parses.
+ *
+ * "Gdi Test" has five empty glyphs (`.notdef`, space, `A`, `V`, U+1F600) and exactly the tables
+ * the parser decodes: a 4-metric `hmtx` for 5 glyphs, format 4 (shared by two encoding records,
+ * one segment through `idRangeOffset`) and format 12 `cmap` subtables, two `kern` pairs, a
+ * version 2.0 `post` with one custom glyph name, and Windows and Macintosh `name` records. The
+ * collection adds a bold member that shares every table but `name`.
+ *
+ * The fonts are released under the SIL Open Font License 1.1 (name IDs 13 and 14).
+ *
+ * Run `bun codecs/fixtures/build.ts` after changing this file and commit both outputs.
+ */
+
+type Tables = Record<string, Buffer>;
+
+type Field = [type: 'i16' | 'u16' | 'u32', value: number];
+
+const Sizes = { i16: 2, u16: 2, u32: 4 } as const;
+
+/** Big-endian fields, as every sfnt table stores them. */
+const be = (...fields: Field[]): Buffer => {
+  const buffer = Buffer.alloc(fields.reduce((sum, [type]) => sum + Sizes[type], 0));
+  let offset = 0;
+
+  for (const [type, value] of fields) {
+    switch (type) {
+      case 'i16':
+        offset = buffer.writeInt16BE(value, offset);
+        break;
+      case 'u16':
+        offset = buffer.writeUInt16BE(value & 0xffff, offset);
+        break;
+      case 'u32':
+        offset = buffer.writeUInt32BE(value >>> 0, offset);
+        break;
+    }
+  }
+
+  return buffer;
+};
+
+const u16 = (...values: number[]): Buffer => be(...values.map((value): Field => ['u16', value]));
+
+const fixed = (value: number): Field => ['u32', Math.round(value * 0x10000)];
+
+/** `LONGDATETIME`: seconds since 1904-01-01. */
+const longDateTime = (date: string): Buffer => {
+  const seconds = Date.parse(date) / 1000 + 2082844800;
+
+  return be(['u32', Math.floor(seconds / 0x100000000)], ['u32', seconds % 0x100000000]);
+};
+
+const checksum = (data: Buffer): number => {
+  const padded = Buffer.concat([data, Buffer.alloc((4 - (data.length % 4)) % 4)]);
+  let sum = 0;
+
+  for (let offset = 0; offset < padded.length; offset += 4) {
+    sum = (sum + padded.readUInt32BE(offset)) >>> 0;
+  }
+
+  return sum;
+};
+
+/** Table checksum; `head`'s is taken with `checksumAdjustment` zeroed. */
+const tableChecksum = (tag: string, table: Buffer): number => (tag === 'head' ? (checksum(table) - table.readUInt32BE(8)) >>> 0 : checksum(table));
+
+const head = Buffer.concat([
+  be(fixed(1), fixed(1.5), ['u32', 0], ['u32', 0x5f0f3cf5], ['u16', 0x000b], ['u16', 1000]),
+  longDateTime('2024-01-01T00:00:00Z'),
+  longDateTime('2024-06-30T12:00:00Z'),
+  be(['i16', 0], ['i16', -200], ['i16', 900], ['i16', 800], ['u16', 0], ['u16', 8], ['i16', 2], ['i16', 0], ['i16', 0]),
+]);
+
+const hhea = be(fixed(1), ['i16', 800], ['i16', -200], ['i16', 90], ['u16', 620], ['i16', 0], ['i16', 0], ['i16', 900], ['i16', 1], ['i16', 0], ['i16', 0], ['u32', 0], ['u32', 0], ['i16', 0], ['u16', 4]);
+
+// Glyph 4 has no long metric: it repeats the last advance and keeps its own bearing.
+const hmtx = be(['u16', 500], ['i16', 50], ['u16', 250], ['i16', 0], ['u16', 600], ['i16', 10], ['u16', 620], ['i16', 5], ['i16', 20]);
+
+const maxp = Buffer.concat([be(fixed(1), ['u16', 5]), u16(0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 0)]);
+
+const loca = u16(0, 0, 0, 0, 0, 0);
+
+const glyf = Buffer.alloc(0);
+
+const os2 = Buffer.concat([
+  be(['u16', 4], ['i16', 494], ['u16', 400], ['u16', 5], ['u16', 0]),
+  u16(650, 600, 0, 75, 650, 600, 0, 350, 50, 250, 0),
+  Buffer.from([2, 0, 5, 3, 0, 0, 0, 0, 0, 0]),
+  be(['u32', 1], ['u32', 1 << 25], ['u32', 0], ['u32', 0]),
+  Buffer.from('NONE'),
+  be(['u16', 0x40], ['u16', 0x20], ['u16', 0xffff], ['i16', 800], ['i16', -200], ['i16', 90], ['u16', 800], ['u16', 200], ['u32', 1], ['u32', 0], ['i16', 500], ['i16', 700], ['u16', 0], ['u16', 0x20], ['u16', 2]),
+]);
+
+/** Format 4: space and `A` through `idDelta`, `V` through `idRangeOffset`, then the 0xFFFF sentinel. */
+const cmap4 = (() => {
+  const segCount = 4;
+  const body = Buffer.concat([
+    u16(segCount * 2, 8, 2, 0),
+    u16(0x20, 0x41, 0x56, 0xffff),
+    u16(0),
+    u16(0x20, 0x41, 0x56, 0xffff),
+    u16(1 - 0x20, 2 - 0x41, 0, 1),
+    // The third idRangeOffset points 4 bytes ahead, past the fourth one, at glyphIdArray[0].
+    u16(0, 0, 4, 0),
+    u16(3),
+  ]);
+
+  return Buffer.concat([u16(4, 6 + body.length, 0), body]);
+})();
+
+const cmap12 = (() => {
+  const groups: [number, number, number][] = [
+    [0x20, 0x20, 1],
+    [0x41, 0x41, 2],
+    [0x56, 0x56, 3],
+    [0x1f600, 0x1f600, 4],
+  ];
+
+  return Buffer.concat([be(['u16', 12], ['u16', 0], ['u32', 16 + groups.length * 12], ['u32', 0], ['u32', groups.length]), ...groups.map((group) => be(...group.map((value): Field => ['u32', value])))]);
+})();
+
+const cmap = Buffer.concat([u16(0, 3), be(['u16', 0], ['u16', 3], ['u32', 28]), be(['u16', 3], ['u16', 1], ['u32', 28]), be(['u16', 3], ['u16', 10], ['u32', 28 + cmap4.length]), cmap4, cmap12]);
+
+const kern = (() => {
+  const pairs: [number, number, number][] = [
+    [2, 3, -80],
+    [3, 2, -60],
+  ];
+
+  return Buffer.concat([u16(0, 1), u16(0, 14 + pairs.length * 6, 0x0001), u16(pairs.length, 12, 1, 0), ...pairs.map(([left, right, value]) => be(['u16', left], ['u16', right], ['i16', value]))]);
+})();
+
+const post = Buffer.concat([be(fixed(2), fixed(0), ['i16', -100], ['i16', 50], ['u32', 0], ['u32', 0], ['u32', 0], ['u32', 0], ['u32', 0]), u16(5, 0, 3, 36, 57, 258), Buffer.from([6]), Buffer.from('u1F600')]);
+
+const License = 'This Font Software is licensed under the SIL Open Font License, Version 1.1.';
+
+const name = (family: string, subfamily: string): Buffer => {
+  const records: [platformID: number, encodingID: number, languageID: number, nameID: number, value: string][] = [
+    [1, 0, 0, 1, `${family} Mac`],
+    [3, 1, 0x407, 1, `${family} DE`],
+    [3, 1, 0x409, 1, family],
+    [3, 1, 0x409, 2, subfamily],
+    [3, 1, 0x409, 4, `${family} ${subfamily}`],
+    [3, 1, 0x409, 13, License],
+    [3, 1, 0x409, 14, 'https://openfontlicense.org'],
+  ];
+  const strings = records.map(([platformID, , , , value]) => (platformID === 1 ? Buffer.from(value, 'latin1') : Buffer.from(value, 'utf16le').swap16()));
+  const offsets = strings.map((_, index) => strings.slice(0, index).reduce((sum, string) => sum + string.length, 0));
+
+  return Buffer.concat([
+    u16(0, records.length, 6 + records.length * 12),
+    ...records.map(([platformID, encodingID, languageID, nameID], index) => u16(platformID, encodingID, languageID, nameID, strings[index]!.length, offsets[index]!)),
+    ...strings,
+  ]);
+};
+
+const Regular: Tables = { 'OS/2': os2, cmap, glyf, head, hhea, hmtx, kern, loca, maxp, name: name('Gdi Test', 'Regular'), post };
+
+const Bold: Tables = { ...Regular, name: name('Gdi Test', 'Bold') };
+
+/**
+ * Lays out the table directories of `fonts` after a header of `headerSize` bytes, followed by
+ * every distinct table once, 4-byte aligned.
+ */
+const layout = (fonts: Tables[], headerSize: number): { directories: Buffer[]; tables: Buffer } => {
+  const directorySize = (font: Tables) => 12 + Object.keys(font).length * 16;
+  const placed = new Map<Buffer, number>();
+  const chunks: Buffer[] = [];
+  let offset = headerSize + fonts.reduce((sum, font) => sum + directorySize(font), 0);
+
+  for (const table of fonts.flatMap((font) => Object.values(font))) {
+    if (!placed.has(table)) {
+      placed.set(table, offset);
+      chunks.push(table, Buffer.alloc((4 - (table.length % 4)) % 4));
+      offset += table.length + ((4 - (table.length % 4)) % 4);
+    }
+  }
+
+  const directories = fonts.map((font) => {
+    const tags = Object.keys(font).sort();
+    const log2 = Math.floor(Math.log2(tags.length));
+
+    return Buffer.concat([
+      be(['u32', 0x00010000], ['u16', tags.length], ['u16', 16 << log2], ['u16', log2], ['u16', tags.length * 16 - (16 << log2)]),
+      ...tags.map((tag) => Buffer.concat([Buffer.from(tag.padEnd(4)), be(['u32', tableChecksum(tag, font[tag]!)], ['u32', placed.get(font[tag]!)!], ['u32', font[tag]!.length])])),
+    ]);
+  });
+
+  return { directories, tables: Buffer.concat(chunks) };
+};
+
+const file = (fonts: Tables[]): Buffer => {
+  const { directories, tables } = layout(fonts, 0);
+
+  return Buffer.concat([...directories, tables]);
+};
+
+// `checksumAdjustment` makes the whole file sum to 0xB1B0AFBA; table checksums treat it as 0.
+head.writeUInt32BE((0xb1b0afba - checksum(file([Regular]))) >>> 0, 8);
+
+const ttf = file([Regular]);
+
+const ttc = (() => {
+  const fonts = [Regular, Bold];
+  const headerSize = 12 + fonts.length * 4;
+  const { directories, tables } = layout(fonts, headerSize);
+  const offsets = directories.map((_, index) => headerSize + directories.slice(0, index).reduce((sum, directory) => sum + directory.length, 0));
+
+  return Buffer.concat([Buffer.from('ttcf'), be(fixed(1), ['u32', fonts.length], ...offsets.map((offset): Field => ['u32', offset])), ...directories, tables]);
+})();
+
+await Bun.write(new URL('gdi-test.ttf', import.meta.url), ttf);
+await Bun.write(new URL('gdi-test.ttc', import.meta.url), ttc);
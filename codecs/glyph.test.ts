@@ -0,0 +1,98 @@
+import { describe, expect, test } from 'bun:test';
+
+import { GlyphOutlineFormat, PolyCurveType } from '../constants/GDI32';
+import { POINTFX, TTPOLYGONHEADER } from './GDI32';
+import { decodeGlyphBitmap, decodeGlyphOutline, fromFixed, outlineToSVGPath, toFixed } from './glyph';
+
+type Point = [x: number, y: number];
+
+const pointfx = ([x, y]: Point): Buffer => POINTFX.encode({ x: toFixed(x), y: toFixed(y) });
+
+const curve = (type: number, ...points: Point[]): Buffer => {
+  const header = Buffer.alloc(4);
+
+  header.writeUInt16LE(type, 0);
+  header.writeUInt16LE(points.length, 2);
+
+  return Buffer.concat([header, ...points.map(pointfx)]);
+};
+
+/** A `TTPOLYGONHEADER` starting at `start`, followed by its `TTPOLYCURVE`s. */
+const polygon = (start: Point, ...curves: Buffer[]): Buffer => {
+  const body = Buffer.concat(curves);
+
+  return Buffer.concat([TTPOLYGONHEADER.encode({ cb: TTPOLYGONHEADER.sizeof + body.length, dwType: 24, pfxStart: { x: toFixed(start[0]), y: toFixed(start[1]) } }), body]);
+};
+
+describe('FIXED', () => {
+  test('converts 16.16 values both ways', () => {
+    expect(toFixed(-1.5)).toEqual({ fract: 0x8000, value: -2 });
+    expect(fromFixed(toFixed(-1.5))).toBe(-1.5);
+    expect(() => toFixed(32768)).toThrow(RangeError);
+  });
+});
+
+describe('decodeGlyphOutline', () => {
+  test('decodes lines and closes every contour', () => {
+    const outline = Buffer.concat([polygon([0, 0], curve(PolyCurveType.TT_PRIM_LINE, [4, 0], [4, 4])), polygon([1, 1], curve(PolyCurveType.TT_PRIM_LINE, [2, 1], [1, 1]))]);
+
+    expect(decodeGlyphOutline(outline)).toEqual([
+      { type: 'moveTo', x: 0, y: 0 },
+      { type: 'lineTo', x: 4, y: 0 },
+      { type: 'lineTo', x: 4, y: 4 },
+      { type: 'lineTo', x: 0, y: 0 },
+      { type: 'close' },
+      { type: 'moveTo', x: 1, y: 1 },
+      { type: 'lineTo', x: 2, y: 1 },
+      { type: 'lineTo', x: 1, y: 1 },
+      { type: 'close' },
+    ]);
+  });
+
+  test('splits quadratic B-splines at the implied on-curve midpoints', () => {
+    // Controls (2, 4) and (6, 4) imply an on-curve point at (4, 4); (8, 0) ends the spline.
+    const outline = polygon([0, 0], curve(PolyCurveType.TT_PRIM_QSPLINE, [2, 4], [6, 4], [8, 0]));
+
+    expect(decodeGlyphOutline(outline)).toEqual([{ type: 'moveTo', x: 0, y: 0 }, { type: 'quadTo', x1: 2, y1: 4, x: 4, y: 4 }, { type: 'quadTo', x1: 6, y1: 4, x: 8, y: 0 }, { type: 'lineTo', x: 0, y: 0 }, { type: 'close' }]);
+    expect(outlineToSVGPath(decodeGlyphOutline(outline))).toBe('M0 0Q2 -4 4 -4Q6 -4 8 0L0 0Z');
+  });
+
+  test('decodes cubic Béziers', () => {
+    const outline = polygon([0, 0], curve(PolyCurveType.TT_PRIM_CSPLINE, [0, 2], [2.5, 2], [2.5, 0]), curve(PolyCurveType.TT_PRIM_LINE, [0, 0]));
+
+    expect(outlineToSVGPath(decodeGlyphOutline(outline), { flipY: false })).toBe('M0 0C0 2 2.5 2 2.5 0L0 0Z');
+  });
+
+  test('rejects malformed headers and curve types', () => {
+    const bad = polygon([0, 0], curve(PolyCurveType.TT_PRIM_LINE, [1, 0]));
+
+    bad.writeUInt32LE(25, 4);
+
+    expect(() => decodeGlyphOutline(bad)).toThrow(new TypeError('Invalid TTPOLYGONHEADER at offset 0.'));
+    expect(() => decodeGlyphOutline(polygon([0, 0], curve(9, [1, 0])))).toThrow(new TypeError('Unknown TTPOLYCURVE type 9 at offset 16.'));
+  });
+});
+
+describe('decodeGlyphBitmap', () => {
+  test('reads 1 bpp rows with a DWORD stride', () => {
+    // 10×2: each row is 2 bytes of bits padded to 4.
+    const data = new Uint8Array([0b10000000, 0b01000000, 0xff, 0xff, 0b00000001, 0b10000000, 0xff, 0xff]);
+    const { data: mask } = decodeGlyphBitmap(data, { gmBlackBoxX: 10, gmBlackBoxY: 2 }, GlyphOutlineFormat.GGO_BITMAP);
+
+    expect([...mask].map((alpha) => (alpha ? '#' : '.')).join('')).toBe('#........#' + '.......##.');
+  });
+
+  test('scales GRAY2, GRAY4 and GRAY8 levels to 0–255 with a DWORD stride', () => {
+    // 2×2 rows padded to 4 bytes; the trailing 0x7f bytes are padding and must be skipped.
+    const gray = (levels: number): Uint8Array => new Uint8Array([0, levels, 0x7f, 0x7f, levels >> 1, levels + 5, 0x7f, 0x7f]);
+
+    expect([...decodeGlyphBitmap(gray(4), { gmBlackBoxX: 2, gmBlackBoxY: 2 }, GlyphOutlineFormat.GGO_GRAY2_BITMAP).data]).toEqual([0, 255, 128, 255]);
+    expect([...decodeGlyphBitmap(gray(16), { gmBlackBoxX: 2, gmBlackBoxY: 2 }, GlyphOutlineFormat.GGO_GRAY4_BITMAP).data]).toEqual([0, 255, 128, 255]);
+    expect([...decodeGlyphBitmap(gray(64), { gmBlackBoxX: 2, gmBlackBoxY: 2 }, GlyphOutlineFormat.GGO_GRAY8_BITMAP | GlyphOutlineFormat.GGO_GLYPH_INDEX).data]).toEqual([0, 255, 128, 255]);
+  });
+
+  test('rejects short buffers and non-bitmap formats', () => {
+    expect(() => decodeGlyphBitmap(new Uint8Array(7), { gmBlackBoxX: 2, gmBlackBoxY: 2 }, GlyphOutlineFormat.GGO_GRAY8_BITMAP)).toThrow(new RangeError('Glyph bitmap buffer (7 bytes) is too small for 2×2.'));
+    expect(() => decodeGlyphBitmap(new Uint8Array(8), { gmBlackBoxX: 2, gmBlackBoxY: 2 }, GlyphOutlineFormat.GGO_NATIVE)).toThrow(RangeError);
+  });
+});
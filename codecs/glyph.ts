@@ -0,0 +1,255 @@
+import { GlyphOutlineFormat, PolyCurveType } from '../constants/GDI32';
+import { ByteReader } from './bytes';
+import { type FIXED, type GLYPHMETRICS, type MAT2, POINTFX, TTPOLYGONHEADER } from './GDI32';
+
+/**
+ * One drawing command of an outline, in the glyph's coordinate space (y up, origin at the
+ * glyph origin, units of pixels at the selected font size).
+ */
+export type PathCommand =
+  | { type: 'moveTo'; x: number; y: number }
+  | { type: 'lineTo'; x: number; y: number }
+  | { type: 'quadTo'; x1: number; y1: number; x: number; y: number }
+  | { type: 'cubicTo'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'close' };
+
+/**
+ * 8-bit coverage mask decoded from a `GGO_*_BITMAP` buffer.
+ */
+export interface AlphaMask {
+  /** `width × height` alpha values (0–255), top row first, no row padding. */
+  data: Uint8Array;
+  height: number;
+  width: number;
+}
+
+/**
+ * Options for `outlineToSVGPath`.
+ */
+export interface OutlineToSVGOptions {
+  /** Negate y so the path renders upright in SVG's y-down space; defaults to `true`. */
+  flipY?: boolean;
+  /** Decimal places kept in coordinates; defaults to 2. */
+  precision?: number;
+}
+
+/** `dwType` of every `TTPOLYGONHEADER`. */
+const TT_POLYGON_TYPE = 24;
+
+/**
+ * Converts a 16.16 `FIXED` to a number.
+ *
+ * @param value `{ value, fract }` pair.
+ * @returns `value + fract / 65536`.
+ */
+export function fromFixed(value: FIXED): number {
+  return value.value + value.fract / 0x10000;
+}
+
+/**
+ * Converts a number to the nearest 16.16 `FIXED`.
+ *
+ * @param value Number in [-32768, 32768).
+ * @returns `{ value, fract }` pair.
+ */
+export function toFixed(value: number): FIXED {
+  const raw = Math.round(value * 0x10000);
+
+  if (raw < -0x80000000 || raw > 0x7fffffff) {
+    throw new RangeError(`${value} does not fit in a 16.16 FIXED.`);
+  }
+
+  return { value: raw >> 16, fract: raw & 0xffff };
+}
+
+/**
+ * Builds a `MAT2` from its four coefficients.
+ *
+ * @param eM11 x scale.
+ * @param eM12 x → y shear.
+ * @param eM21 y → x shear.
+ * @param eM22 y scale.
+ * @returns Matrix for `GetGlyphOutlineW`'s `lpmat2`.
+ */
+export function mat2(eM11: number, eM12: number, eM21: number, eM22: number): MAT2 {
+  return { eM11: toFixed(eM11), eM12: toFixed(eM12), eM21: toFixed(eM21), eM22: toFixed(eM22) };
+}
+
+/**
+ * The identity `MAT2` (`GetGlyphOutlineW` requires a matrix even when nothing is transformed).
+ */
+export function identityMAT2(): MAT2 {
+  return mat2(1, 0, 0, 1);
+}
+
+/**
+ * A scaling `MAT2`.
+ *
+ * @param sx Horizontal factor.
+ * @param sy Vertical factor; defaults to `sx`.
+ */
+export function scaleMAT2(sx: number, sy: number = sx): MAT2 {
+  return mat2(sx, 0, 0, sy);
+}
+
+/**
+ * A counter-clockwise rotation `MAT2` (glyph space is y-up).
+ *
+ * @param radians Angle.
+ */
+export function rotateMAT2(radians: number): MAT2 {
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  return mat2(cos, sin, -sin, cos);
+}
+
+/**
+ * Decodes the `TTPOLYGONHEADER`/`TTPOLYCURVE` buffer `GetGlyphOutlineW` fills for `GGO_NATIVE`
+ * (lines and quadratic B-splines) or `GGO_BEZIER` (lines and cubic Béziers).
+ *
+ * Quadratic B-splines are split into `quadTo` segments at the implied on-curve midpoints, and
+ * every contour ends with `close` (GDI contours are implicitly closed).
+ *
+ * @param data Outline buffer.
+ * @returns Path commands.
+ * @example
+ * ```ts
+ * const metrics = Buffer.alloc(GLYPHMETRICS.sizeof);
+ * const matrix = MAT2.encode(identityMAT2());
+ * const size = GDI32.GetGlyphOutlineW(hdc, 0x41, GlyphOutlineFormat.GGO_BEZIER, metrics.ptr, 0, null, matrix.ptr);
+ * const buffer = Buffer.alloc(size);
+ * GDI32.GetGlyphOutlineW(hdc, 0x41, GlyphOutlineFormat.GGO_BEZIER, metrics.ptr, size, buffer.ptr, matrix.ptr);
+ *
+ * outlineToSVGPath(decodeGlyphOutline(buffer)); // 'M6.5 -14L…Z'
+ * ```
+ */
+export function decodeGlyphOutline(data: ArrayBuffer | ArrayBufferView): PathCommand[] {
+  const view = data instanceof ArrayBuffer ? new DataView(data) : new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const input = new ByteReader(view);
+  const point = (): { x: number; y: number } => {
+    const { x, y } = input.struct(POINTFX);
+
+    return { x: fromFixed(x), y: fromFixed(y) };
+  };
+
+  const commands: PathCommand[] = [];
+
+  while (input.remaining >= TTPOLYGONHEADER.sizeof) {
+    const start = input.offset;
+    const header = input.struct(TTPOLYGONHEADER);
+
+    if (header.dwType !== TT_POLYGON_TYPE || header.cb < TTPOLYGONHEADER.sizeof || start + header.cb > view.byteLength) {
+      throw new TypeError(`Invalid TTPOLYGONHEADER at offset ${start}.`);
+    }
+
+    const first = { x: fromFixed(header.pfxStart.x), y: fromFixed(header.pfxStart.y) };
+    let current = first;
+
+    commands.push({ type: 'moveTo', ...first });
+
+    while (input.offset < start + header.cb) {
+      const offset = input.offset;
+      const type = input.u16();
+      const points = Array.from({ length: input.u16() }, point);
+
+      if (type === PolyCurveType.TT_PRIM_LINE) {
+        commands.push(...points.map(({ x, y }) => ({ type: 'lineTo' as const, x, y })));
+      } else if (type === PolyCurveType.TT_PRIM_QSPLINE) {
+        for (let index = 0; index < points.length - 1; index++) {
+          const control = points[index]!;
+          const next = points[index + 1]!;
+          const end = index < points.length - 2 ? { x: (control.x + next.x) / 2, y: (control.y + next.y) / 2 } : next;
+
+          commands.push({ type: 'quadTo', x1: control.x, y1: control.y, x: end.x, y: end.y });
+        }
+      } else if (type === PolyCurveType.TT_PRIM_CSPLINE) {
+        for (let index = 0; index + 2 < points.length; index += 3) {
+          const [c1, c2, end] = [points[index]!, points[index + 1]!, points[index + 2]!];
+
+          commands.push({ type: 'cubicTo', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: end.x, y: end.y });
+        }
+      } else {
+        throw new TypeError(`Unknown TTPOLYCURVE type ${type} at offset ${offset}.`);
+      }
+
+      current = points.at(-1) ?? current;
+    }
+
+    if (current.x !== first.x || current.y !== first.y) {
+      commands.push({ type: 'lineTo', ...first });
+    }
+
+    commands.push({ type: 'close' });
+    input.offset = start + header.cb;
+  }
+
+  return commands;
+}
+
+/**
+ * Serializes path commands as SVG path data.
+ *
+ * @param commands Commands from `decodeGlyphOutline`.
+ * @param options y-flip and precision.
+ * @returns The `d` attribute value.
+ */
+export function outlineToSVGPath(commands: readonly PathCommand[], options: OutlineToSVGOptions = {}): string {
+  const precision = options.precision ?? 2;
+  const sign = options.flipY ?? true ? -1 : 1;
+  const x = (value: number): string => String(+value.toFixed(precision));
+  const y = (value: number): string => String(+(sign * value).toFixed(precision));
+
+  return commands
+    .map((command) => {
+      switch (command.type) {
+        case 'moveTo':
+          return `M${x(command.x)} ${y(command.y)}`;
+        case 'lineTo':
+          return `L${x(command.x)} ${y(command.y)}`;
+        case 'quadTo':
+          return `Q${x(command.x1)} ${y(command.y1)} ${x(command.x)} ${y(command.y)}`;
+        case 'cubicTo':
+          return `C${x(command.x1)} ${y(command.y1)} ${x(command.x2)} ${y(command.y2)} ${x(command.x)} ${y(command.y)}`;
+        case 'close':
+          return 'Z';
+      }
+    })
+    .join('');
+}
+
+/**
+ * Decodes a `GGO_BITMAP` (1 bpp) or `GGO_GRAY2/4/8_BITMAP` (coverage 0–4/16/64) buffer into an
+ * 8-bit alpha mask. Rows in the buffer are `DWORD`-aligned; the mask's are not.
+ *
+ * @param data Bitmap buffer from `GetGlyphOutlineW`.
+ * @param metrics The `GLYPHMETRICS` returned by the same call (`gmBlackBoxX` × `gmBlackBoxY`).
+ * @param format The format passed to `GetGlyphOutlineW` (`GGO_GLYPH_INDEX`/`GGO_UNHINTED` are ignored).
+ * @returns The mask, scaled to 0–255.
+ */
+export function decodeGlyphBitmap(data: ArrayBuffer | ArrayBufferView, metrics: Pick<GLYPHMETRICS, 'gmBlackBoxX' | 'gmBlackBoxY'>, format: number): AlphaMask {
+  const bytes = data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  const base = format & 0x7f;
+  const levels = base === GlyphOutlineFormat.GGO_GRAY2_BITMAP ? 4 : base === GlyphOutlineFormat.GGO_GRAY4_BITMAP ? 16 : base === GlyphOutlineFormat.GGO_GRAY8_BITMAP ? 64 : 0;
+  const { gmBlackBoxX: width, gmBlackBoxY: height } = metrics;
+
+  if (base !== GlyphOutlineFormat.GGO_BITMAP && !levels) {
+    throw new RangeError(`Format ${format} is not a GGO_*_BITMAP format.`);
+  }
+
+  const stride = levels ? (width + 3) & ~3 : ((width + 31) >> 5) << 2;
+
+  if (bytes.length < stride * height) {
+    throw new RangeError(`Glyph bitmap buffer (${bytes.length} bytes) is too small for ${width}×${height}.`);
+  }
+
+  const mask = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      mask[y * width + x] = levels ? Math.round((Math.min(bytes[y * stride + x]!, levels) * 0xff) / levels) : (bytes[y * stride + (x >> 3)]! >> (7 - (x & 7))) & 1 ? 0xff : 0;
+    }
+  }
+
+  return { data: mask, height, width };
+}
@@ -0,0 +1,137 @@
+import { describe, expect, test } from 'bun:test';
+
+import { PointType } from '../constants/GDI32';
+import type { PathCommand } from './glyph';
+import { arcToBeziers, decodePathPoints, encodePathPoints, flattenPath } from './path';
+
+const { PT_BEZIERTO, PT_CLOSEFIGURE, PT_LINETO, PT_MOVETO } = PointType;
+
+/** Point of a cubic Bézier at `t`. */
+const at = (from: { x: number; y: number }, curve: Extract<PathCommand, { type: 'cubicTo' }>, t: number): { x: number; y: number } => {
+  const [a, b, c, d] = [(1 - t) ** 3, 3 * (1 - t) ** 2 * t, 3 * (1 - t) * t ** 2, t ** 3];
+
+  return { x: a * from.x + b * curve.x1 + c * curve.x2 + d * curve.x, y: a * from.y + b * curve.y1 + c * curve.y2 + d * curve.y };
+};
+
+describe('encodePathPoints / decodePathPoints', () => {
+  test('round-trip figures with PT_CLOSEFIGURE on their last point', () => {
+    const commands: PathCommand[] = [
+      { type: 'moveTo', x: 0, y: 0 },
+      { type: 'lineTo', x: 10, y: 0 },
+      { type: 'cubicTo', x1: 10, y1: 5, x2: 5, y2: 10, x: 0, y: 10 },
+      { type: 'close' },
+      { type: 'moveTo', x: 20, y: 20 },
+      { type: 'lineTo', x: 30, y: 20 },
+    ];
+    const { points, types } = encodePathPoints(commands);
+
+    expect(types).toEqual([PT_MOVETO, PT_LINETO, PT_BEZIERTO, PT_BEZIERTO, PT_BEZIERTO | PT_CLOSEFIGURE, PT_MOVETO, PT_LINETO]);
+    expect(points.at(4)).toEqual({ x: 0, y: 10 });
+    expect(decodePathPoints(points, types)).toEqual(commands);
+  });
+
+  test('rounds coordinates and raises quadratics to cubics', () => {
+    const { points, types } = encodePathPoints([
+      { type: 'moveTo', x: 0.4, y: 0 },
+      { type: 'quadTo', x1: 3, y1: 6, x: 6, y: 0 },
+    ]);
+
+    expect(points).toEqual([
+      { x: 0, y: 0 },
+      { x: 2, y: 4 },
+      { x: 4, y: 4 },
+      { x: 6, y: 0 },
+    ]);
+    expect(types).toEqual([PT_MOVETO, PT_BEZIERTO, PT_BEZIERTO, PT_BEZIERTO]);
+  });
+
+  test('does not close figures that are only a move', () => {
+    expect(encodePathPoints([{ type: 'moveTo', x: 1, y: 1 }, { type: 'close' }]).types).toEqual([PT_MOVETO]);
+    expect(decodePathPoints([{ x: 1, y: 1 }], [PT_MOVETO | PT_CLOSEFIGURE])).toEqual([{ type: 'moveTo', x: 1, y: 1 }]);
+  });
+
+  test('rejects mismatched arrays, short curves and unknown types', () => {
+    expect(() => decodePathPoints([{ x: 0, y: 0 }], [])).toThrow(new RangeError('GetPath returned 1 points but 0 types.'));
+    expect(() =>
+      decodePathPoints(
+        [
+          { x: 0, y: 0 },
+          { x: 1, y: 1 },
+          { x: 2, y: 2 },
+        ],
+        [PT_MOVETO, PT_BEZIERTO, PT_LINETO]
+      )
+    ).toThrow(new TypeError('PT_BEZIERTO at index 1 is not followed by two more Bézier points.'));
+    expect(() => decodePathPoints([{ x: 0, y: 0 }], [0x08])).toThrow(new TypeError('Unknown path point type 0x8 at index 0.'));
+  });
+});
+
+describe('arcToBeziers', () => {
+  test('approximates a quarter circle with one curve', () => {
+    const [curve, ...rest] = arcToBeziers(0, 0, 10, 10, 0, Math.PI / 2);
+    const k = (4 / 3) * Math.tan(Math.PI / 8) * 10;
+
+    expect(rest).toEqual([]);
+    expect(curve!.type).toBe('cubicTo');
+
+    const { x1, y1, x2, y2, x, y } = curve as Extract<PathCommand, { type: 'cubicTo' }>;
+
+    expect([x1, y1, x2, y2, x, y].map((value) => +value.toFixed(9))).toEqual([10, +k.toFixed(9), +k.toFixed(9), 10, 0, 10]);
+  });
+
+  test('splits into quarter turns that stay on the ellipse', () => {
+    const curves = arcToBeziers(50, 50, 40, 20, Math.PI / 4, -2 * Math.PI) as Extract<PathCommand, { type: 'cubicTo' }>[];
+    let from = { x: 50 + 40 * Math.cos(Math.PI / 4), y: 50 + 20 * Math.sin(Math.PI / 4) };
+
+    expect(curves).toHaveLength(4);
+
+    for (const curve of curves) {
+      for (const t of [0.25, 0.5, 0.75, 1]) {
+        const { x, y } = at(from, curve, t);
+
+        expect(Math.hypot((x - 50) / 40, (y - 50) / 20)).toBeCloseTo(1, 2);
+      }
+
+      from = curve;
+    }
+
+    expect(from.x).toBeCloseTo(50 + 40 * Math.cos(Math.PI / 4), 9);
+    expect(from.y).toBeCloseTo(50 + 20 * Math.sin(Math.PI / 4), 9);
+  });
+});
+
+describe('flattenPath', () => {
+  const arc: PathCommand[] = [{ type: 'moveTo', x: 100, y: 0 }, ...arcToBeziers(0, 0, 100, 100, 0, Math.PI / 2), { type: 'close' }];
+
+  test('keeps every segment within the tolerance', () => {
+    for (const tolerance of [2, 0.5, 0.05]) {
+      const flat = flattenPath(arc, tolerance);
+      const points = flat.filter((command): command is Extract<PathCommand, { type: 'lineTo' }> => command.type === 'lineTo');
+
+      expect(flat.every(({ type }) => type === 'moveTo' || type === 'lineTo' || type === 'close')).toBe(true);
+      expect(flat.at(-1)).toEqual({ type: 'close' });
+      expect(points.at(-1)!.x).toBeCloseTo(0, 9);
+      expect(points.at(-1)!.y).toBe(100);
+
+      // The chord between neighbouring points sags at most `tolerance` (plus the Bézier's own error) inside the circle.
+      for (let index = 1; index < points.length; index++) {
+        const [a, b] = [points[index - 1]!, points[index]!];
+
+        expect(100 - Math.hypot((a.x + b.x) / 2, (a.y + b.y) / 2)).toBeLessThanOrEqual(tolerance + 0.03);
+      }
+    }
+
+    expect(flattenPath(arc, 0.05).length).toBeGreaterThan(flattenPath(arc, 0.5).length);
+    expect(flattenPath(arc, 0.5).length).toBeGreaterThan(flattenPath(arc, 2).length);
+  });
+
+  test('passes lines through and rejects non-positive tolerances', () => {
+    const lines: PathCommand[] = [
+      { type: 'moveTo', x: 0, y: 0 },
+      { type: 'lineTo', x: 5, y: 5 },
+    ];
+
+    expect(flattenPath(lines)).toEqual(lines);
+    expect(() => flattenPath(lines, 0)).toThrow(new RangeError('Flattening tolerance must be positive; got 0.'));
+  });
+});
@@ -0,0 +1,244 @@
+import { PointType } from '../constants/GDI32';
+import type { POINT } from './GDI32';
+import type { PathCommand } from './glyph';
+
+/**
+ * The two parallel arrays `GetPath` fills and `PolyDraw` takes.
+ */
+export interface PathPoints {
+  points: POINT[];
+  /** `PT_MOVETO`, `PT_LINETO` or `PT_BEZIERTO`, optionally ORed with `PT_CLOSEFIGURE`. */
+  types: number[];
+}
+
+/** Subdivision depth limit for `flattenPath`; 2^16 segments per curve is far past visible. */
+const MAX_DEPTH = 16;
+
+type Point = { x: number; y: number };
+
+/** Degree elevation: the cubic that traces the same curve as a quadratic from `from`. */
+const elevate = (from: Point, command: Extract<PathCommand, { type: 'quadTo' }>): Extract<PathCommand, { type: 'cubicTo' }> => ({
+  type: 'cubicTo',
+  x1: from.x + ((command.x1 - from.x) * 2) / 3,
+  y1: from.y + ((command.y1 - from.y) * 2) / 3,
+  x2: command.x + ((command.x1 - command.x) * 2) / 3,
+  y2: command.y + ((command.y1 - command.y) * 2) / 3,
+  x: command.x,
+  y: command.y,
+});
+
+/** Distance from `point` to the line through `a` and `b`. */
+const distance = (point: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length = Math.hypot(dx, dy);
+
+  return length ? Math.abs((point.x - a.x) * dy - (point.y - a.y) * dx) / length : Math.hypot(point.x - a.x, point.y - a.y);
+};
+
+const subdivide = (p0: Point, p1: Point, p2: Point, p3: Point, tolerance: number, depth: number, out: Point[]): void => {
+  if (depth >= MAX_DEPTH || Math.max(distance(p1, p0, p3), distance(p2, p0, p3)) <= tolerance) {
+    out.push(p3);
+
+    return;
+  }
+
+  const mid = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+  const p01 = mid(p0, p1);
+  const p12 = mid(p1, p2);
+  const p23 = mid(p2, p3);
+  const p012 = mid(p01, p12);
+  const p123 = mid(p12, p23);
+  const center = mid(p012, p123);
+
+  subdivide(p0, p01, p012, center, tolerance, depth + 1, out);
+  subdivide(center, p123, p23, p3, tolerance, depth + 1, out);
+};
+
+/**
+ * Decodes `GetPath` output into path commands: `PT_MOVETO` starts a figure, `PT_LINETO` draws a
+ * line, three `PT_BEZIERTO` points make a cubic Bézier, and `PT_CLOSEFIGURE` on a point closes
+ * the figure after it.
+ *
+ * @param points Points from `GetPath`, in logical coordinates.
+ * @param types Type bytes from `GetPath`.
+ * @returns Commands (`moveTo`, `lineTo`, `cubicTo`, `close`).
+ */
+export function decodePathPoints(points: readonly POINT[], types: ArrayLike<number>): PathCommand[] {
+  if (points.length !== types.length) {
+    throw new RangeError(`GetPath returned ${points.length} points but ${types.length} types.`);
+  }
+
+  const commands: PathCommand[] = [];
+
+  for (let index = 0; index < points.length; index++) {
+    const type = types[index]!;
+    const { x, y } = points[index]!;
+    let last = type;
+
+    switch (type & ~PointType.PT_CLOSEFIGURE) {
+      case PointType.PT_MOVETO:
+        commands.push({ type: 'moveTo', x, y });
+        break;
+      case PointType.PT_LINETO:
+        commands.push({ type: 'lineTo', x, y });
+        break;
+      case PointType.PT_BEZIERTO: {
+        const [c2, end] = [points[index + 1], points[index + 2]];
+
+        if (!c2 || !end || (types[index + 1]! & ~PointType.PT_CLOSEFIGURE) !== PointType.PT_BEZIERTO || (types[index + 2]! & ~PointType.PT_CLOSEFIGURE) !== PointType.PT_BEZIERTO) {
+          throw new TypeError(`PT_BEZIERTO at index ${index} is not followed by two more Bézier points.`);
+        }
+
+        commands.push({ type: 'cubicTo', x1: x, y1: y, x2: c2.x, y2: c2.y, x: end.x, y: end.y });
+        last = types[index + 2]!;
+        index += 2;
+        break;
+      }
+      default:
+        throw new TypeError(`Unknown path point type 0x${type.toString(16)} at index ${index}.`);
+    }
+
+    if (last & PointType.PT_CLOSEFIGURE && (type & ~PointType.PT_CLOSEFIGURE) !== PointType.PT_MOVETO) {
+      commands.push({ type: 'close' });
+    }
+  }
+
+  return commands;
+}
+
+/**
+ * Encodes path commands as `PolyDraw`/`GetPath` arrays, rounding coordinates to integers and
+ * raising quadratic curves to cubics.
+ *
+ * @param commands Commands to encode.
+ * @returns Points and type bytes.
+ */
+export function encodePathPoints(commands: readonly PathCommand[]): PathPoints {
+  const points: POINT[] = [];
+  const types: number[] = [];
+  let current: Point = { x: 0, y: 0 };
+  let start = current;
+  const push = (x: number, y: number, type: number): void => {
+    points.push({ x: Math.round(x), y: Math.round(y) });
+    types.push(type);
+  };
+
+  for (const command of commands) {
+    switch (command.type) {
+      case 'moveTo':
+        push(command.x, command.y, PointType.PT_MOVETO);
+        start = current = command;
+        break;
+      case 'lineTo':
+        push(command.x, command.y, PointType.PT_LINETO);
+        current = command;
+        break;
+      case 'quadTo':
+      case 'cubicTo': {
+        const cubic = command.type === 'quadTo' ? elevate(current, command) : command;
+
+        push(cubic.x1, cubic.y1, PointType.PT_BEZIERTO);
+        push(cubic.x2, cubic.y2, PointType.PT_BEZIERTO);
+        push(cubic.x, cubic.y, PointType.PT_BEZIERTO);
+        current = cubic;
+        break;
+      }
+      case 'close':
+        if (types.length && types.at(-1) !== PointType.PT_MOVETO) {
+          types[types.length - 1]! |= PointType.PT_CLOSEFIGURE;
+        }
+
+        current = start;
+        break;
+    }
+  }
+
+  return { points, types };
+}
+
+/**
+ * Approximates an elliptical arc with cubic Béziers, at most a quarter turn each.
+ *
+ * Angles are measured in the ellipse's parameter space with y pointing down, so on screen a
+ * positive `sweep` turns clockwise, exactly like GDI's `AD_CLOCKWISE`.
+ *
+ * @param cx Center x.
+ * @param cy Center y.
+ * @param rx Horizontal radius.
+ * @param ry Vertical radius.
+ * @param start Start angle in radians.
+ * @param sweep Signed sweep in radians.
+ * @returns `cubicTo` commands starting at the arc's start point (not included).
+ */
+export function arcToBeziers(cx: number, cy: number, rx: number, ry: number, start: number, sweep: number): PathCommand[] {
+  const count = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+  const step = sweep / count;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const commands: PathCommand[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const a = start + step * index;
+    const b = a + step;
+    const [cosA, sinA, cosB, sinB] = [Math.cos(a), Math.sin(a), Math.cos(b), Math.sin(b)];
+
+    commands.push({
+      type: 'cubicTo',
+      x1: cx + rx * (cosA - k * sinA),
+      y1: cy + ry * (sinA + k * cosA),
+      x2: cx + rx * (cosB + k * sinB),
+      y2: cy + ry * (sinB - k * cosB),
+      x: cx + rx * cosB,
+      y: cy + ry * sinB,
+    });
+  }
+
+  return commands;
+}
+
+/**
+ * JS-side `FlattenPath`: replaces every curve with line segments that stay within `tolerance`
+ * of it.
+ *
+ * @param commands Commands to flatten.
+ * @param tolerance Maximum distance between a curve and its polyline, in path units.
+ * @returns Commands using only `moveTo`, `lineTo` and `close`.
+ */
+export function flattenPath(commands: readonly PathCommand[], tolerance: number = 0.5): PathCommand[] {
+  if (!(tolerance > 0)) {
+    throw new RangeError(`Flattening tolerance must be positive; got ${tolerance}.`);
+  }
+
+  const flat: PathCommand[] = [];
+  let current: Point = { x: 0, y: 0 };
+  let start = current;
+
+  for (const command of commands) {
+    switch (command.type) {
+      case 'moveTo':
+        start = current = command;
+        flat.push(command);
+        break;
+      case 'lineTo':
+        current = command;
+        flat.push(command);
+        break;
+      case 'quadTo':
+      case 'cubicTo': {
+        const cubic = command.type === 'quadTo' ? elevate(current, command) : command;
+        const points: Point[] = [];
+
+        subdivide(current, { x: cubic.x1, y: cubic.y1 }, { x: cubic.x2, y: cubic.y2 }, cubic, tolerance, 0, points);
+        flat.push(...points.map(({ x, y }) => ({ type: 'lineTo' as const, x, y })));
+        current = cubic;
+        break;
+      }
+      case 'close':
+        current = start;
+        flat.push(command);
+        break;
+    }
+  }
+
+  return flat;
+}
@@ -0,0 +1,132 @@
+import { describe, expect, test } from 'bun:test';
+
+import { PolyFillMode, RegionCombineMode, RegionType } from '../constants/GDI32';
+import { RGNDATAHEADER } from './GDI32';
+import { combineRegion, decodeRegionData, encodeRegionData, equalRegion, normalizeRegion, offsetRegion, polygonRegion, ptInRegion, rectInRegion, regionBounds, regionType } from './region';
+
+const rect = (left: number, top: number, right: number, bottom: number) => ({ left, top, right, bottom });
+
+const outer = [rect(0, 0, 30, 30)];
+const inner = [rect(10, 10, 20, 20)];
+
+describe('RGNDATA', () => {
+  test('round-trips rectangles and fills the header', () => {
+    const rects = [rect(0, 0, 10, 5), rect(-4, 5, 2, 9)];
+    const data = encodeRegionData(rects);
+
+    expect(RGNDATAHEADER.decode(data)).toEqual({ dwSize: 32, iType: 1, nCount: 2, nRgnSize: 32, rcBound: rect(-4, 0, 10, 9) });
+    expect(decodeRegionData(data)).toEqual(rects);
+  });
+
+  test('rejects malformed blobs', () => {
+    const data = encodeRegionData([rect(0, 0, 1, 1)]);
+
+    expect(() => decodeRegionData(data.subarray(0, 16))).toThrow(RangeError);
+    expect(() => decodeRegionData(data.subarray(0, 40))).toThrow(RangeError);
+
+    data.writeUInt32LE(2, 4);
+
+    expect(() => decodeRegionData(data)).toThrow(TypeError);
+  });
+});
+
+describe('normalizeRegion', () => {
+  test('merges overlapping runs and coalesces identical bands', () => {
+    expect(normalizeRegion([rect(0, 0, 10, 10), rect(5, 0, 15, 10)])).toEqual([rect(0, 0, 15, 10)]);
+    expect(normalizeRegion([rect(0, 0, 10, 5), rect(0, 5, 10, 10)])).toEqual([rect(0, 0, 10, 10)]);
+  });
+
+  test('splits into y-x bands and drops empty rectangles', () => {
+    expect(normalizeRegion([rect(0, 10, 5, 20), rect(0, 0, 10, 10), rect(3, 3, 3, 8)])).toEqual([rect(0, 0, 10, 10), rect(0, 10, 5, 20)]);
+  });
+});
+
+describe('combineRegion', () => {
+  test('RGN_AND', () => {
+    expect(combineRegion(outer, inner, RegionCombineMode.RGN_AND)).toEqual(inner);
+  });
+
+  test('RGN_OR', () => {
+    expect(combineRegion([rect(0, 0, 10, 10)], [rect(10, 0, 20, 10)], RegionCombineMode.RGN_OR)).toEqual([rect(0, 0, 20, 10)]);
+  });
+
+  test('RGN_DIFF', () => {
+    expect(combineRegion(outer, inner, RegionCombineMode.RGN_DIFF)).toEqual([rect(0, 0, 30, 10), rect(0, 10, 10, 20), rect(20, 10, 30, 20), rect(0, 20, 30, 30)]);
+  });
+
+  test('RGN_XOR', () => {
+    expect(combineRegion(outer, outer, RegionCombineMode.RGN_XOR)).toEqual([]);
+    expect(combineRegion([rect(0, 0, 10, 10)], [rect(5, 0, 15, 10)], RegionCombineMode.RGN_XOR)).toEqual([rect(0, 0, 5, 10), rect(10, 0, 15, 10)]);
+  });
+
+  test('RGN_COPY ignores the second region', () => {
+    expect(combineRegion(outer, inner, RegionCombineMode.RGN_COPY)).toEqual(outer);
+  });
+
+  test('rejects unknown modes', () => {
+    expect(() => combineRegion(outer, inner, 9 as RegionCombineMode)).toThrow(RangeError);
+  });
+});
+
+describe('queries', () => {
+  const ring = combineRegion(outer, inner, RegionCombineMode.RGN_DIFF);
+
+  test('ptInRegion excludes the right and bottom edges', () => {
+    expect(ptInRegion(ring, 0, 0)).toBe(true);
+    expect(ptInRegion(ring, 15, 15)).toBe(false);
+    expect(ptInRegion(ring, 30, 5)).toBe(false);
+    expect(ptInRegion(ring, 29, 29)).toBe(true);
+  });
+
+  test('rectInRegion accepts inverted rectangles', () => {
+    expect(rectInRegion(ring, rect(12, 12, 18, 18))).toBe(false);
+    expect(rectInRegion(ring, rect(25, 25, 5, 5))).toBe(true);
+  });
+
+  test('regionBounds, regionType and equalRegion', () => {
+    expect(regionBounds(ring)).toEqual(outer[0]!);
+    expect(regionBounds([])).toEqual(rect(0, 0, 0, 0));
+    expect([regionType([]), regionType(inner), regionType(ring)]).toEqual([RegionType.NULLREGION, RegionType.SIMPLEREGION, RegionType.COMPLEXREGION]);
+    expect(equalRegion(outer, [rect(0, 0, 30, 15), rect(0, 15, 30, 30)])).toBe(true);
+    expect(equalRegion(outer, ring)).toBe(false);
+  });
+
+  test('offsetRegion moves every rectangle', () => {
+    expect(offsetRegion(inner, -10, 5)).toEqual([rect(0, 15, 10, 25)]);
+  });
+});
+
+describe('polygonRegion', () => {
+  test('keeps pixels whose centers lie inside', () => {
+    const triangle = polygonRegion([
+      { x: 0, y: 0 },
+      { x: 4, y: 0 },
+      { x: 0, y: 4 },
+    ]);
+
+    // Pixel centers on the hypotenuse (x + y = 4) are outside.
+    expect(triangle).toEqual([rect(0, 0, 3, 1), rect(0, 1, 2, 2), rect(0, 2, 1, 3)]);
+  });
+
+  test('applies the fill mode to overlapping windings', () => {
+    const square = [
+      { x: 0, y: 0 },
+      { x: 0, y: 10 },
+      { x: 10, y: 10 },
+      { x: 10, y: 0 },
+    ];
+    const twice = [...square, ...square];
+
+    expect(polygonRegion(twice, PolyFillMode.ALTERNATE)).toEqual([]);
+    expect(polygonRegion(twice, PolyFillMode.WINDING)).toEqual([rect(0, 0, 10, 10)]);
+  });
+
+  test('returns an empty region for degenerate input', () => {
+    expect(
+      polygonRegion([
+        { x: 0, y: 0 },
+        { x: 5, y: 5 },
+      ])
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,305 @@
+import { PolyFillMode, RegionCombineMode, RegionType } from '../constants/GDI32';
+import { ByteWriter } from './bytes';
+import { type POINT, RECT, RGNDATAHEADER } from './GDI32';
+
+/** `iType` of every `RGNDATAHEADER`. */
+const RDH_RECTANGLES = 1;
+
+const EMPTY: RECT = { left: 0, top: 0, right: 0, bottom: 0 };
+
+/** Horizontal `[left, right)` runs covered by `rects` in the band starting at `top`, merged and sorted. */
+const spans = (rects: readonly RECT[], top: number, bottom: number): [number, number][] => {
+  const runs = rects
+    .filter((rect) => rect.top <= top && rect.bottom >= bottom && rect.left < rect.right)
+    .map(({ left, right }): [number, number] => [left, right])
+    .sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+
+  for (const run of runs) {
+    const last = merged.at(-1);
+
+    if (last && run[0] <= last[1]) {
+      last[1] = Math.max(last[1], run[1]);
+    } else {
+      merged.push([...run]);
+    }
+  }
+
+  return merged;
+};
+
+const covers = (runs: readonly [number, number][], x: number): boolean => runs.some(([left, right]) => left <= x && x < right);
+
+/**
+ * Appends a band to a y-x banded rect list, extending the previous band instead when it touches
+ * this one and has the same runs (as GDI coalesces bands).
+ */
+const pushBand = (rects: RECT[], band: { bottom: number; runs: [number, number][]; top: number }, previous: RECT[]): RECT[] => {
+  const row = band.runs.map(([left, right]) => ({ left, top: band.top, right, bottom: band.bottom }));
+
+  if (previous.length && previous.length === row.length && previous[0]!.bottom === band.top && previous.every((rect, index) => rect.left === row[index]!.left && rect.right === row[index]!.right)) {
+    previous.forEach((rect) => (rect.bottom = band.bottom));
+
+    return previous;
+  }
+
+  rects.push(...row);
+
+  return row;
+};
+
+/**
+ * Sweeps the y edges of both rect lists and keeps the x runs where `keep` holds, producing a
+ * normalized region.
+ */
+const sweep = (a: readonly RECT[], b: readonly RECT[], keep: (inA: boolean, inB: boolean) => boolean): RECT[] => {
+  const valid = (rect: RECT): boolean => rect.left < rect.right && rect.top < rect.bottom;
+  const first = a.filter(valid);
+  const second = b.filter(valid);
+  const edges = [...new Set([...first, ...second].flatMap(({ top, bottom }) => [top, bottom]))].sort((x, y) => x - y);
+  const rects: RECT[] = [];
+  let previous: RECT[] = [];
+
+  for (let index = 0; index + 1 < edges.length; index++) {
+    const top = edges[index]!;
+    const bottom = edges[index + 1]!;
+    const runsA = spans(first, top, bottom);
+    const runsB = spans(second, top, bottom);
+    const xs = [...new Set([...runsA, ...runsB].flat())].sort((x, y) => x - y);
+    const runs: [number, number][] = [];
+
+    for (let column = 0; column + 1 < xs.length; column++) {
+      const left = xs[column]!;
+
+      if (keep(covers(runsA, left), covers(runsB, left))) {
+        const last = runs.at(-1);
+
+        if (last && last[1] === left) {
+          last[1] = xs[column + 1]!;
+        } else {
+          runs.push([left, xs[column + 1]!]);
+        }
+      }
+    }
+
+    previous = runs.length ? pushBand(rects, { bottom, runs, top }, previous) : [];
+  }
+
+  return rects;
+};
+
+/**
+ * Decodes an `RGNDATA` blob (`RGNDATAHEADER` followed by `nCount` `RECT`s), as filled by
+ * `GetRegionData` or embedded in EMF region records.
+ *
+ * @param data `RGNDATA` bytes.
+ * @returns The rectangles, in the order stored.
+ */
+export function decodeRegionData(data: ArrayBuffer | ArrayBufferView): RECT[] {
+  const bytes = data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+
+  if (bytes.length < RGNDATAHEADER.sizeof) {
+    throw new RangeError(`RGNDATA needs at least ${RGNDATAHEADER.sizeof} bytes; got ${bytes.length}.`);
+  }
+
+  const { dwSize, iType, nCount } = RGNDATAHEADER.decode(bytes);
+
+  if (iType !== RDH_RECTANGLES || dwSize < RGNDATAHEADER.sizeof) {
+    throw new TypeError(`Invalid RGNDATAHEADER (dwSize ${dwSize}, iType ${iType}).`);
+  }
+
+  if (dwSize + nCount * RECT.sizeof > bytes.length) {
+    throw new RangeError(`RGNDATA declares ${nCount} rectangles but holds ${Math.floor((bytes.length - dwSize) / RECT.sizeof)}.`);
+  }
+
+  return Array.from({ length: nCount }, (_, index) => RECT.decode(bytes, dwSize + index * RECT.sizeof));
+}
+
+/**
+ * Encodes rectangles as an `RGNDATA` blob for `ExtCreateRegion`, computing `rcBound`.
+ *
+ * GDI expects non-overlapping rectangles; pass the result of `normalizeRegion` or
+ * `combineRegion` when the list may overlap.
+ *
+ * @param rects Region rectangles.
+ * @returns `RGNDATAHEADER` + rectangles; its length is `ExtCreateRegion`'s `nCount`.
+ */
+export function encodeRegionData(rects: readonly RECT[]): Buffer {
+  const writer = new ByteWriter().struct(RGNDATAHEADER, { dwSize: RGNDATAHEADER.sizeof, iType: RDH_RECTANGLES, nCount: rects.length, nRgnSize: rects.length * RECT.sizeof, rcBound: regionBounds(rects) });
+
+  rects.forEach(({ bottom, left, right, top }) => writer.i32(left).i32(top).i32(right).i32(bottom));
+
+  return writer.toBuffer();
+}
+
+/**
+ * Rewrites any rect list (overlapping, unsorted, with empty rectangles) as the region GDI would
+ * store: non-overlapping y-x bands sorted top to bottom, left to right, with touching runs
+ * merged and identical adjacent bands coalesced.
+ *
+ * @param rects Rectangles to union.
+ * @returns The normalized region.
+ */
+export function normalizeRegion(rects: readonly RECT[]): RECT[] {
+  return sweep(rects, [], (inA) => inA);
+}
+
+/**
+ * JS-side `CombineRgn`: combines two regions with `RGN_AND`, `RGN_OR`, `RGN_XOR`, `RGN_DIFF`
+ * (`a` minus `b`) or `RGN_COPY` (`a`).
+ *
+ * @param a First source region (`hrgnSrc1`).
+ * @param b Second source region (`hrgnSrc2`); ignored for `RGN_COPY`.
+ * @param mode `RGN_*` mode.
+ * @returns The normalized result.
+ * @example
+ * ```ts
+ * const ring = combineRegion([{ left: 0, top: 0, right: 30, bottom: 30 }], [{ left: 10, top: 10, right: 20, bottom: 20 }], RegionCombineMode.RGN_DIFF);
+ * ring.length; // 4 bands: top, left, right, bottom
+ * ```
+ */
+export function combineRegion(a: readonly RECT[], b: readonly RECT[], mode: RegionCombineMode): RECT[] {
+  switch (mode) {
+    case RegionCombineMode.RGN_AND:
+      return sweep(a, b, (inA, inB) => inA && inB);
+    case RegionCombineMode.RGN_OR:
+      return sweep(a, b, (inA, inB) => inA || inB);
+    case RegionCombineMode.RGN_XOR:
+      return sweep(a, b, (inA, inB) => inA !== inB);
+    case RegionCombineMode.RGN_DIFF:
+      return sweep(a, b, (inA, inB) => inA && !inB);
+    case RegionCombineMode.RGN_COPY:
+      return normalizeRegion(a);
+    default:
+      throw new RangeError(`Unknown region combine mode ${mode}.`);
+  }
+}
+
+/**
+ * JS-side `OffsetRgn`.
+ *
+ * @param rects Region.
+ * @param dx Horizontal offset.
+ * @param dy Vertical offset.
+ * @returns The moved rectangles.
+ */
+export function offsetRegion(rects: readonly RECT[], dx: number, dy: number): RECT[] {
+  return rects.map(({ bottom, left, right, top }) => ({ left: left + dx, top: top + dy, right: right + dx, bottom: bottom + dy }));
+}
+
+/**
+ * JS-side `PtInRegion`: the right and bottom edges are outside, as in GDI.
+ *
+ * @param rects Region.
+ * @param x Point x.
+ * @param y Point y.
+ */
+export function ptInRegion(rects: readonly RECT[], x: number, y: number): boolean {
+  return rects.some(({ bottom, left, right, top }) => left <= x && x < right && top <= y && y < bottom);
+}
+
+/**
+ * JS-side `RectInRegion`: `true` when any part of `rect` lies in the region.
+ *
+ * @param rects Region.
+ * @param rect Rectangle to test.
+ */
+export function rectInRegion(rects: readonly RECT[], rect: RECT): boolean {
+  const left = Math.min(rect.left, rect.right);
+  const right = Math.max(rect.left, rect.right);
+  const top = Math.min(rect.top, rect.bottom);
+  const bottom = Math.max(rect.top, rect.bottom);
+
+  return rects.some((other) => other.left < right && left < other.right && other.top < bottom && top < other.bottom);
+}
+
+/**
+ * JS-side `GetRgnBox`: the smallest rectangle containing the region (all zero when empty).
+ *
+ * @param rects Region.
+ */
+export function regionBounds(rects: readonly RECT[]): RECT {
+  const filled = rects.filter(({ bottom, left, right, top }) => left < right && top < bottom);
+
+  return filled.length
+    ? {
+        left: Math.min(...filled.map(({ left }) => left)),
+        top: Math.min(...filled.map(({ top }) => top)),
+        right: Math.max(...filled.map(({ right }) => right)),
+        bottom: Math.max(...filled.map(({ bottom }) => bottom)),
+      }
+    : { ...EMPTY };
+}
+
+/**
+ * The `RegionType` `CombineRgn`/`GetRgnBox` would report for the region.
+ *
+ * @param rects Region.
+ * @returns `NULLREGION`, `SIMPLEREGION` (one rectangle) or `COMPLEXREGION`.
+ */
+export function regionType(rects: readonly RECT[]): RegionType {
+  const count = normalizeRegion(rects).length;
+
+  return count === 0 ? RegionType.NULLREGION : count === 1 ? RegionType.SIMPLEREGION : RegionType.COMPLEXREGION;
+}
+
+/**
+ * JS-side `EqualRgn`: `true` when both rect lists cover the same area, however they are split.
+ *
+ * @param a First region.
+ * @param b Second region.
+ */
+export function equalRegion(a: readonly RECT[], b: readonly RECT[]): boolean {
+  return combineRegion(a, b, RegionCombineMode.RGN_XOR).length === 0;
+}
+
+/**
+ * JS-side `CreatePolygonRgn`: rasterizes a polygon into a region, keeping each pixel whose center
+ * lies inside it under the fill mode. The polygon is closed automatically.
+ *
+ * @param points Vertices in logical (integer) coordinates.
+ * @param fillMode `ALTERNATE` (even-odd) or `WINDING` (non-zero).
+ * @returns The normalized region.
+ * @example
+ * ```ts
+ * const triangle = polygonRegion([{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 0, y: 20 }]);
+ * ptInRegion(triangle, 4, 4); // true
+ * ```
+ */
+export function polygonRegion(points: readonly POINT[], fillMode: PolyFillMode = PolyFillMode.ALTERNATE): RECT[] {
+  if (points.length < 3) {
+    return [];
+  }
+
+  const edges = points.map((from, index) => [from, points[(index + 1) % points.length]!] as const).filter(([from, to]) => from.y !== to.y);
+  const top = Math.min(...points.map(({ y }) => y));
+  const bottom = Math.max(...points.map(({ y }) => y));
+  const rows: RECT[] = [];
+
+  for (let y = top; y < bottom; y++) {
+    const center = y + 0.5;
+    const crossings = edges
+      .filter(([from, to]) => Math.min(from.y, to.y) <= center && center < Math.max(from.y, to.y))
+      .map(([from, to]) => ({ winding: to.y > from.y ? 1 : -1, x: from.x + ((center - from.y) * (to.x - from.x)) / (to.y - from.y) }))
+      .sort((a, b) => a.x - b.x);
+    let winding = 0;
+
+    crossings.forEach((crossing, index) => {
+      const inside = fillMode === PolyFillMode.WINDING ? winding !== 0 : index % 2 === 1;
+      const previous = crossings[index - 1];
+
+      if (inside && previous) {
+        const left = Math.ceil(previous.x - 0.5);
+        const right = Math.ceil(crossing.x - 0.5);
+
+        if (left < right) {
+          rows.push({ left, top: y, right, bottom: y + 1 });
+        }
+      }
+
+      winding += crossing.winding;
+    });
+  }
+
+  return normalizeRegion(rows);
+}
@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test';
+
+import { NameID, fontName, glyphIndex, isFontCollection, kerning, parseFontCollection, parseSfnt, readTableDirectory, sfntTable } from './sfnt';
+
+// Built by `fixtures/build.ts`; see there for what the fonts contain.
+const TTF = await Bun.file(new URL('fixtures/gdi-test.ttf', import.meta.url)).bytes();
+const TTC = await Bun.file(new URL('fixtures/gdi-test.ttc', import.meta.url)).bytes();
+
+const font = parseSfnt(TTF);
+
+describe('parseSfnt', () => {
+  test('reads the table directory', () => {
+    const { sfntVersion, tables } = readTableDirectory(TTF);
+
+    expect(sfntVersion).toBe(0x00010000);
+    expect(tables.map(({ tag }) => tag)).toEqual(['OS/2', 'cmap', 'glyf', 'head', 'hhea', 'hmtx', 'kern', 'loca', 'maxp', 'name', 'post']);
+    expect(font.tables).toEqual(tables);
+    expect(sfntTable(TTF, font, 'loca')).toEqual(new Uint8Array(12));
+    expect(sfntTable(TTF, font, 'GSUB')).toBeUndefined();
+  });
+
+  test('decodes name records', () => {
+    expect(fontName(font, NameID.FAMILY)).toBe('Gdi Test');
+    expect(fontName(font, NameID.FAMILY, 0x407)).toBe('Gdi Test DE');
+    expect(fontName(font, NameID.FULL_NAME)).toBe('Gdi Test Regular');
+    expect(fontName(font, NameID.LICENSE)).toContain('SIL Open Font License');
+    expect(fontName(font, NameID.VERSION)).toBeUndefined();
+    expect(font.name?.find(({ platformID }) => platformID === 1)?.value).toBe('Gdi Test Mac');
+  });
+
+  test('decodes head, hhea and maxp', () => {
+    expect(font.head).toMatchObject({ fontRevision: 1.5, unitsPerEm: 1000, xMin: 0, yMin: -200, xMax: 900, yMax: 800, indexToLocFormat: 0 });
+    expect(font.head?.created).toEqual(new Date('2024-01-01T00:00:00Z'));
+    expect(font.head?.modified).toEqual(new Date('2024-06-30T12:00:00Z'));
+    expect(font.hhea).toMatchObject({ ascender: 800, descender: -200, lineGap: 90, advanceWidthMax: 620, numberOfHMetrics: 4 });
+    expect(font.maxp).toMatchObject({ version: 1, numGlyphs: 5, maxZones: 2 });
+  });
+
+  test('expands hmtx to one entry per glyph', () => {
+    expect(font.hmtx).toEqual({ advanceWidths: [500, 250, 600, 620, 620], leftSideBearings: [50, 0, 10, 5, 20] });
+  });
+
+  test('decodes OS/2 version 4', () => {
+    expect(font.os2).toMatchObject({ version: 4, usWeightClass: 400, achVendID: 'NONE', sTypoAscender: 800, usWinDescent: 200, ulCodePageRange: [1, 0], sCapHeight: 700, usMaxContext: 2 });
+    expect(font.os2?.usLowerOpticalPointSize).toBeUndefined();
+  });
+
+  test('decodes cmap formats 4 and 12', () => {
+    const [unicode, windows, full] = font.cmap!.subtables;
+
+    expect(font.cmap?.subtables.map(({ encodingID, format, platformID }) => [platformID, encodingID, format])).toEqual([
+      [0, 3, 4],
+      [3, 1, 4],
+      [3, 10, 12],
+    ]);
+    // Both BMP records point at the same format 4 subtable, including the idRangeOffset segment.
+    expect(windows?.glyphs).toBe(unicode!.glyphs);
+    expect([...windows!.glyphs]).toEqual([
+      [0x20, 1],
+      [0x41, 2],
+      [0x56, 3],
+    ]);
+    expect(full?.glyphs.get(0x1f600)).toBe(4);
+  });
+
+  test('looks glyphs up in the format 12 subtable first', () => {
+    expect([0x20, 0x41, 0x56, 0x1f600, 0x42].map((code) => glyphIndex(font, code))).toEqual([1, 2, 3, 4, 0]);
+  });
+
+  test('decodes kern format 0 pairs', () => {
+    expect(kerning(font, 2, 3)).toBe(-80);
+    expect(kerning(font, 3, 2)).toBe(-60);
+    expect(kerning(font, 2, 2)).toBe(0);
+  });
+
+  test('decodes post version 2.0 glyph names', () => {
+    expect(font.post).toMatchObject({ version: 2, underlinePosition: -100, underlineThickness: 50, isFixedPitch: 0 });
+    expect(font.post?.glyphNames).toEqual(['.notdef', 'space', 'A', 'V', 'u1F600']);
+  });
+
+  test('rejects non-sfnt data and truncated tables', () => {
+    expect(() => parseSfnt(new Uint8Array(16))).toThrow(TypeError);
+    expect(() => parseSfnt(TTF.subarray(0, 600))).toThrow(RangeError);
+  });
+});
+
+describe('font collections', () => {
+  test('parses every member with shared tables', () => {
+    const fonts = parseFontCollection(TTC);
+
+    expect(isFontCollection(TTC)).toBe(true);
+    expect(isFontCollection(TTF)).toBe(false);
+    expect(fonts.map((member) => fontName(member, NameID.SUBFAMILY))).toEqual(['Regular', 'Bold']);
+    expect(fonts[1]?.tables.find(({ tag }) => tag === 'cmap')?.offset).toBe(fonts[0]?.tables.find(({ tag }) => tag === 'cmap')?.offset);
+    expect(fonts[1]?.hmtx).toEqual(font.hmtx);
+    expect(glyphIndex(fonts[1]!, 0x1f600)).toBe(4);
+  });
+
+  test('selects members by index', () => {
+    expect(fontName(parseSfnt(TTC, 1), NameID.FULL_NAME)).toBe('Gdi Test Bold');
+    expect(() => parseSfnt(TTC, 2)).toThrow(RangeError);
+    expect(parseFontCollection(TTF)).toHaveLength(1);
+  });
+});
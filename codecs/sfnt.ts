@@ -0,0 +1,817 @@
+import { ByteReader } from './bytes';
+
+/**
+ * `'ttcf'`, the tag that opens a TrueType/OpenType collection (`.ttc`).
+ */
+export const TTC_TAG = 0x74746366;
+
+// https://learn.microsoft.com/en-us/typography/opentype/spec/name#name-ids
+export const NameID = {
+  COPYRIGHT: 0,
+  FAMILY: 1,
+  SUBFAMILY: 2,
+  UNIQUE_ID: 3,
+  FULL_NAME: 4,
+  VERSION: 5,
+  POSTSCRIPT_NAME: 6,
+  TRADEMARK: 7,
+  MANUFACTURER: 8,
+  DESIGNER: 9,
+  DESCRIPTION: 10,
+  VENDOR_URL: 11,
+  DESIGNER_URL: 12,
+  LICENSE: 13,
+  LICENSE_URL: 14,
+  TYPOGRAPHIC_FAMILY: 16,
+  TYPOGRAPHIC_SUBFAMILY: 17,
+  SAMPLE_TEXT: 19,
+} as const;
+
+export type NameID = (typeof NameID)[keyof typeof NameID];
+
+/**
+ * Entry of the table directory.
+ */
+export interface SfntTableRecord {
+  checksum: number;
+  length: number;
+  /** Offset from the start of the file (of the collection, for TTC members). */
+  offset: number;
+  tag: string;
+}
+
+// https://learn.microsoft.com/en-us/typography/opentype/spec/head
+export interface HeadTable {
+  checksumAdjustment: number;
+  created: Date;
+  flags: number;
+  fontDirectionHint: number;
+  fontRevision: number;
+  glyphDataFormat: number;
+  /** 0 for short (`Offset16`) `loca` offsets, 1 for long ones. */
+  indexToLocFormat: number;
+  lowestRecPPEM: number;
+  macStyle: number;
+  modified: Date;
+  unitsPerEm: number;
+  version: number;
+  xMax: number;
+  xMin: number;
+  yMax: number;
+  yMin: number;
+}
+
+// https://learn.microsoft.com/en-us/typography/opentype/spec/hhea
+export interface HheaTable {
+  advanceWidthMax: number;
+  ascender: number;
+  caretOffset: number;
+  caretSlopeRise: number;
+  caretSlopeRun: number;
+  descender: number;
+  lineGap: number;
+  metricDataFormat: number;
+  minLeftSideBearing: number;
+  minRightSideBearing: number;
+  numberOfHMetrics: number;
+  version: number;
+  xMaxExtent: number;
+}
+
+/**
+ * Horizontal metrics, expanded to one entry per glyph.
+ */
+// https://learn.microsoft.com/en-us/typography/opentype/spec/hmtx
+export interface HmtxTable {
+  advanceWidths: number[];
+  leftSideBearings: number[];
+}
+
+/**
+ * `maxp`; the fields after `numGlyphs` only exist in version 1.0 (TrueType outlines).
+ */
+// https://learn.microsoft.com/en-us/typography/opentype/spec/maxp
+export interface MaxpTable {
+  maxComponentDepth?: number;
+  maxComponentElements?: number;
+  maxCompositeContours?: number;
+  maxCompositePoints?: number;
+  maxContours?: number;
+  maxFunctionDefs?: number;
+  maxInstructionDefs?: number;
+  maxPoints?: number;
+  maxSizeOfInstructions?: number;
+  maxStackElements?: number;
+  maxStorage?: number;
+  maxTwilightPoints?: number;
+  maxZones?: number;
+  numGlyphs: number;
+  version: number;
+}
+
+// https://learn.microsoft.com/en-us/typography/opentype/spec/name#name-records
+export interface NameRecord {
+  encodingID: number;
+  languageID: number;
+  nameID: number;
+  platformID: number;
+  /** Decoded string (UTF-16BE for Unicode/Windows platforms, Mac Roman for Macintosh). */
+  value: string;
+}
+
+/**
+ * `OS/2`; fields added by later versions are absent from older tables.
+ */
+// https://learn.microsoft.com/en-us/typography/opentype/spec/os2
+export interface OS2Table {
+  achVendID: string;
+  fsSelection: number;
+  fsType: number;
+  panose: number[];
+  sCapHeight?: number;
+  sFamilyClass: number;
+  sTypoAscender?: number;
+  sTypoDescender?: number;
+  sTypoLineGap?: number;
+  sxHeight?: number;
+  /** `ulUnicodeRange1`–`4`; same bit layout as `FONTSIGNATURE.fsUsb`. */
+  ulUnicodeRange: number[];
+  /** `ulCodePageRange1`–`2` (version 1+); same bit layout as `FONTSIGNATURE.fsCsb`. */
+  ulCodePageRange?: number[];
+  usBreakChar?: number;
+  usDefaultChar?: number;
+  usFirstCharIndex: number;
+  usLastCharIndex: number;
+  usLowerOpticalPointSize?: number;
+  usMaxContext?: number;
+  usUpperOpticalPointSize?: number;
+  usWeightClass: number;
+  usWidthClass: number;
+  usWinAscent?: number;
+  usWinDescent?: number;
+  version: number;
+  xAvgCharWidth: number;
+  yStrikeoutPosition: number;
+  yStrikeoutSize: number;
+  ySubscriptXOffset: number;
+  ySubscriptXSize: number;
+  ySubscriptYOffset: number;
+  ySubscriptYSize: number;
+  ySuperscriptXOffset: number;
+  ySuperscriptXSize: number;
+  ySuperscriptYOffset: number;
+  ySuperscriptYSize: number;
+}
+
+/**
+ * One `cmap` subtable. Formats 4 and 12 are decoded into `glyphs`; other formats keep an
+ * empty map.
+ */
+// https://learn.microsoft.com/en-us/typography/opentype/spec/cmap
+export interface CmapSubtable {
+  encodingID: number;
+  format: number;
+  /** Code point → glyph index, without unmapped (glyph 0) entries. */
+  glyphs: Map<number, number>;
+  language: number;
+  platformID: number;
+}
+
+export interface CmapTable {
+  /** The preferred Unicode subtable's map (full-repertoire format 12 first, then BMP format 4). */
+  glyphs: Map<number, number>;
+  subtables: CmapSubtable[];
+}
+
+// https://learn.microsoft.com/en-us/typography/opentype/spec/post
+export interface PostTable {
+  /** Glyph names, for versions 1.0 and 2.0. */
+  glyphNames?: string[];
+  isFixedPitch: number;
+  italicAngle: number;
+  maxMemType1: number;
+  maxMemType42: number;
+  minMemType1: number;
+  minMemType42: number;
+  underlinePosition: number;
+  underlineThickness: number;
+  version: number;
+}
+
+/**
+ * A parsed font. Tables the parser knows are decoded when present; every table stays
+ * reachable through `tables` and `sfntTable`.
+ */
+export interface SfntFont {
+  cmap?: CmapTable;
+  head?: HeadTable;
+  hhea?: HheaTable;
+  hmtx?: HmtxTable;
+  /** Horizontal kerning pairs (`kern` format 0), keyed by `left << 16 | right` (see `kerning`). */
+  kern?: Map<number, number>;
+  maxp?: MaxpTable;
+  name?: NameRecord[];
+  os2?: OS2Table;
+  post?: PostTable;
+  /** `0x00010000` or `'true'` for TrueType outlines, `'OTTO'` for CFF. */
+  sfntVersion: number;
+  tables: SfntTableRecord[];
+}
+
+/** The 258 standard Macintosh glyph names `post` versions 1.0 and 2.0 index into. */
+const MacGlyphNames = [
+  ...'.notdef .null nonmarkingreturn space exclam quotedbl numbersign dollar percent ampersand quotesingle parenleft parenright asterisk plus comma hyphen period slash zero one two three four five six seven eight nine colon semicolon less equal greater question at'.split(
+    ' '
+  ),
+  ...'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  ...'bracketleft backslash bracketright asciicircum underscore grave'.split(' '),
+  ...'abcdefghijklmnopqrstuvwxyz',
+  ...(
+    'braceleft bar braceright asciitilde Adieresis Aring Ccedilla Eacute Ntilde Odieresis Udieresis aacute agrave acircumflex adieresis atilde aring ccedilla eacute egrave ecircumflex edieresis iacute igrave icircumflex idieresis ntilde oacute ograve ocircumflex odieresis otilde uacute ugrave ucircumflex udieresis ' +
+    'dagger degree cent sterling section bullet paragraph germandbls registered copyright trademark acute dieresis notequal AE Oslash infinity plusminus lessequal greaterequal yen mu partialdiff summation product pi integral ordfeminine ordmasculine Omega ae oslash questiondown exclamdown logicalnot radical florin ' +
+    'approxequal Delta guillemotleft guillemotright ellipsis nonbreakingspace Agrave Atilde Otilde OE oe endash emdash quotedblleft quotedblright quoteleft quoteright divide lozenge ydieresis Ydieresis fraction currency guilsinglleft guilsinglright fi fl daggerdbl periodcentered quotesinglbase quotedblbase perthousand ' +
+    'Acircumflex Ecircumflex Aacute Edieresis Egrave Iacute Icircumflex Idieresis Igrave Oacute Ocircumflex apple Ograve Uacute Ucircumflex Ugrave dotlessi circumflex tilde macron breve dotaccent ring cedilla hungarumlaut ogonek caron Lslash lslash Scaron scaron Zcaron zcaron brokenbar Eth eth Yacute yacute Thorn thorn ' +
+    'minus multiply onesuperior twosuperior threesuperior onehalf onequarter threequarters franc Gbreve gbreve Idotaccent Scedilla scedilla Cacute cacute Ccaron ccaron dcroat'
+  ).split(' '),
+];
+
+/** Seconds between 1904-01-01 (the `LONGDATETIME` epoch) and 1970-01-01. */
+const MAC_EPOCH_OFFSET = 2082844800;
+
+const toView = (data: ArrayBuffer | ArrayBufferView): DataView => (data instanceof ArrayBuffer ? new DataView(data) : new DataView(data.buffer, data.byteOffset, data.byteLength));
+
+const reader = (view: DataView, record: SfntTableRecord): ByteReader => {
+  if (record.offset + record.length > view.byteLength) {
+    throw new RangeError(`Table '${record.tag}' (${record.length} bytes at ${record.offset}) is out of bounds (${view.byteLength}).`);
+  }
+
+  return new ByteReader(new DataView(view.buffer, view.byteOffset + record.offset, record.length), 0, false);
+};
+
+const tag = (value: number): string => String.fromCharCode(value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+
+const fixed = (input: ByteReader): number => input.i32() / 0x10000;
+
+const longDateTime = (input: ByteReader): Date => new Date((input.i32() * 0x100000000 + input.u32() - MAC_EPOCH_OFFSET) * 1000);
+
+const parseHead = (input: ByteReader): HeadTable => {
+  const version = fixed(input);
+  const fontRevision = fixed(input);
+  const checksumAdjustment = input.u32();
+
+  if (input.u32() !== 0x5f0f3cf5) {
+    throw new TypeError("Invalid 'head' magic number.");
+  }
+
+  return {
+    version,
+    fontRevision,
+    checksumAdjustment,
+    flags: input.u16(),
+    unitsPerEm: input.u16(),
+    created: longDateTime(input),
+    modified: longDateTime(input),
+    xMin: input.i16(),
+    yMin: input.i16(),
+    xMax: input.i16(),
+    yMax: input.i16(),
+    macStyle: input.u16(),
+    lowestRecPPEM: input.u16(),
+    fontDirectionHint: input.i16(),
+    indexToLocFormat: input.i16(),
+    glyphDataFormat: input.i16(),
+  };
+};
+
+const parseHhea = (input: ByteReader): HheaTable => {
+  const table = {
+    version: fixed(input),
+    ascender: input.i16(),
+    descender: input.i16(),
+    lineGap: input.i16(),
+    advanceWidthMax: input.u16(),
+    minLeftSideBearing: input.i16(),
+    minRightSideBearing: input.i16(),
+    xMaxExtent: input.i16(),
+    caretSlopeRise: input.i16(),
+    caretSlopeRun: input.i16(),
+    caretOffset: input.i16(),
+  };
+
+  input.offset += 8;
+
+  return { ...table, metricDataFormat: input.i16(), numberOfHMetrics: input.u16() };
+};
+
+const parseMaxp = (input: ByteReader): MaxpTable => {
+  const version = fixed(input);
+  const numGlyphs = input.u16();
+
+  if (version < 1 || input.remaining < 26) {
+    return { version, numGlyphs };
+  }
+
+  return {
+    version,
+    numGlyphs,
+    maxPoints: input.u16(),
+    maxContours: input.u16(),
+    maxCompositePoints: input.u16(),
+    maxCompositeContours: input.u16(),
+    maxZones: input.u16(),
+    maxTwilightPoints: input.u16(),
+    maxStorage: input.u16(),
+    maxFunctionDefs: input.u16(),
+    maxInstructionDefs: input.u16(),
+    maxStackElements: input.u16(),
+    maxSizeOfInstructions: input.u16(),
+    maxComponentElements: input.u16(),
+    maxComponentDepth: input.u16(),
+  };
+};
+
+const parseHmtx = (input: ByteReader, numberOfHMetrics: number, numGlyphs: number): HmtxTable => {
+  const advanceWidths: number[] = [];
+  const leftSideBearings: number[] = [];
+
+  for (let glyph = 0; glyph < numGlyphs; glyph++) {
+    if (glyph < numberOfHMetrics) {
+      advanceWidths.push(input.u16());
+    } else {
+      advanceWidths.push(advanceWidths[numberOfHMetrics - 1] ?? 0);
+    }
+
+    leftSideBearings.push(input.remaining >= 2 ? input.i16() : 0);
+  }
+
+  return { advanceWidths, leftSideBearings };
+};
+
+const decodeName = (bytes: Uint8Array, platformID: number, encodingID: number): string => {
+  if (platformID === 0 || platformID === 3) {
+    return new TextDecoder('utf-16be').decode(bytes);
+  }
+
+  if (platformID === 1 && encodingID === 0) {
+    return new TextDecoder('macintosh').decode(bytes);
+  }
+
+  return String.fromCharCode(...bytes);
+};
+
+const parseName = (input: ByteReader): NameRecord[] => {
+  input.u16(); // format; format 1 language-tag records are not decoded.
+
+  const count = input.u16();
+  const stringOffset = input.u16();
+  const records: NameRecord[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const platformID = input.u16();
+    const encodingID = input.u16();
+    const languageID = input.u16();
+    const nameID = input.u16();
+    const length = input.u16();
+    const offset = input.u16();
+
+    records.push({ platformID, encodingID, languageID, nameID, value: decodeName(input.bytesAt(stringOffset + offset, length), platformID, encodingID) });
+  }
+
+  return records;
+};
+
+const parseOS2 = (input: ByteReader): OS2Table => {
+  const table: OS2Table = {
+    version: input.u16(),
+    xAvgCharWidth: input.i16(),
+    usWeightClass: input.u16(),
+    usWidthClass: input.u16(),
+    fsType: input.u16(),
+    ySubscriptXSize: input.i16(),
+    ySubscriptYSize: input.i16(),
+    ySubscriptXOffset: input.i16(),
+    ySubscriptYOffset: input.i16(),
+    ySuperscriptXSize: input.i16(),
+    ySuperscriptYSize: input.i16(),
+    ySuperscriptXOffset: input.i16(),
+    ySuperscriptYOffset: input.i16(),
+    yStrikeoutSize: input.i16(),
+    yStrikeoutPosition: input.i16(),
+    sFamilyClass: input.i16(),
+    panose: [...input.bytes(10)],
+    ulUnicodeRange: [input.u32(), input.u32(), input.u32(), input.u32()],
+    achVendID: String.fromCharCode(...input.bytes(4)),
+    fsSelection: input.u16(),
+    usFirstCharIndex: input.u16(),
+    usLastCharIndex: input.u16(),
+  };
+
+  // Some version 0 tables stop after usLastCharIndex (68 bytes).
+  if (input.remaining >= 10) {
+    Object.assign(table, { sTypoAscender: input.i16(), sTypoDescender: input.i16(), sTypoLineGap: input.i16(), usWinAscent: input.u16(), usWinDescent: input.u16() });
+  }
+
+  if (table.version >= 1 && input.remaining >= 8) {
+    table.ulCodePageRange = [input.u32(), input.u32()];
+  }
+
+  if (table.version >= 2 && input.remaining >= 10) {
+    Object.assign(table, { sxHeight: input.i16(), sCapHeight: input.i16(), usDefaultChar: input.u16(), usBreakChar: input.u16(), usMaxContext: input.u16() });
+  }
+
+  if (table.version >= 5 && input.remaining >= 4) {
+    Object.assign(table, { usLowerOpticalPointSize: input.u16(), usUpperOpticalPointSize: input.u16() });
+  }
+
+  return table;
+};
+
+const parseCmapFormat4 = (input: ByteReader, start: number, glyphs: Map<number, number>): void => {
+  input.offset = start + 6;
+
+  const segCount = input.u16() / 2;
+  const endCodes = start + 14;
+  const startCodes = endCodes + segCount * 2 + 2;
+  const idDeltas = startCodes + segCount * 2;
+  const idRangeOffsets = idDeltas + segCount * 2;
+  const at = (offset: number): number => input.view.getUint16(offset);
+
+  for (let segment = 0; segment < segCount; segment++) {
+    const end = at(endCodes + segment * 2);
+    const first = at(startCodes + segment * 2);
+    const delta = input.view.getInt16(idDeltas + segment * 2);
+    const rangeOffset = at(idRangeOffsets + segment * 2);
+
+    for (let code = first; code <= end && code !== 0xffff; code++) {
+      let glyph: number;
+
+      if (rangeOffset === 0) {
+        glyph = (code + delta) & 0xffff;
+      } else {
+        const address = idRangeOffsets + segment * 2 + rangeOffset + (code - first) * 2;
+
+        glyph = address + 2 <= input.view.byteLength ? at(address) : 0;
+        glyph = glyph && (glyph + delta) & 0xffff;
+      }
+
+      if (glyph) {
+        glyphs.set(code, glyph);
+      }
+    }
+  }
+};
+
+const parseCmapFormat12 = (input: ByteReader, start: number, glyphs: Map<number, number>): void => {
+  input.offset = start + 12;
+
+  // Groups are sorted and disjoint within U+0000..U+10FFFF; dropping anything else bounds the
+  // expansion to one entry per code point, whatever a corrupt or hostile font claims.
+  let next = 0;
+
+  for (let group = Math.min(input.u32(), Math.floor(input.remaining / 12)); group > 0; group--) {
+    const first = input.u32();
+    const end = Math.min(input.u32(), 0x10ffff);
+    const glyph = input.u32();
+
+    if (first < next || first > end) {
+      continue;
+    }
+
+    for (let code = first; code <= end; code++) {
+      glyphs.set(code, glyph + code - first);
+    }
+
+    next = end + 1;
+  }
+};
+
+/** Preference order of Unicode subtables: `[platformID, encodingID, format]`. */
+const CmapPreference = [
+  [3, 10, 12],
+  [0, 6, 12],
+  [0, 4, 12],
+  [3, 1, 4],
+  [0, 3, 4],
+  [0, 2, 4],
+  [0, 1, 4],
+  [0, 0, 4],
+  [3, 0, 4],
+] as const;
+
+const parseCmap = (input: ByteReader): CmapTable => {
+  input.u16(); // version
+
+  const count = input.u16();
+  const subtables: CmapSubtable[] = [];
+  const decoded = new Map<number, CmapSubtable>();
+
+  for (let index = 0; index < count; index++) {
+    input.offset = 4 + index * 8;
+
+    const platformID = input.u16();
+    const encodingID = input.u16();
+    const offset = input.u32();
+
+    input.offset = offset;
+
+    const format = input.u16();
+    // Formats 8–13 have a 32-bit length and language; 0–6 16-bit ones.
+    const language = format >= 8 ? input.view.getUint32(offset + 8) : input.view.getUint16(offset + 4);
+    // Encoding records may share a subtable.
+    const glyphs = decoded.get(offset)?.glyphs ?? new Map<number, number>();
+
+    if (!decoded.has(offset)) {
+      if (format === 4) {
+        parseCmapFormat4(input, offset, glyphs);
+      } else if (format === 12) {
+        parseCmapFormat12(input, offset, glyphs);
+      }
+    }
+
+    const subtable = { platformID, encodingID, format, language, glyphs };
+
+    decoded.set(offset, subtable);
+    subtables.push(subtable);
+  }
+
+  const preferred = CmapPreference.map(([platform, encoding, format]) => subtables.find((subtable) => subtable.platformID === platform && subtable.encodingID === encoding && subtable.format === format)).find(Boolean);
+
+  return { glyphs: preferred?.glyphs ?? new Map(), subtables };
+};
+
+const parseKern = (input: ByteReader): Map<number, number> => {
+  const pairs = new Map<number, number>();
+  const apple = input.view.getUint32(0) === 0x00010000;
+  const count = apple ? (input.u32(), input.u32()) : (input.u16(), input.u16());
+
+  for (let index = 0, start = input.offset; index < count && start < input.view.byteLength; index++) {
+    input.offset = start;
+
+    let length: number;
+    let format: number;
+    let usable: boolean;
+    let override = false;
+
+    if (apple) {
+      length = input.u32();
+
+      const coverage = input.u16();
+
+      input.u16(); // tupleIndex
+      format = coverage & 0xff;
+      // Apple: 0x8000 vertical, 0x4000 cross-stream, 0x2000 variation.
+      usable = !(coverage & 0xe000);
+    } else {
+      input.u16(); // version
+      length = input.u16();
+
+      const coverage = input.u16();
+
+      format = coverage >> 8;
+      // Microsoft: bit 0 horizontal, bit 1 minimum, bit 2 cross-stream, bit 3 override.
+      usable = (coverage & 0x7) === 0x1;
+      override = !!(coverage & 0x8);
+    }
+
+    if (format === 0 && usable) {
+      const pairCount = input.u16();
+
+      input.offset += 6;
+
+      for (let pair = 0; pair < pairCount && input.remaining >= 6; pair++) {
+        const key = input.u16() * 0x10000 + input.u16();
+        const value = input.i16();
+
+        pairs.set(key, override ? value : (pairs.get(key) ?? 0) + value);
+      }
+    }
+
+    // Some fonts overflow the 16-bit length of a single large subtable; it is then the last one.
+    start += length || input.view.byteLength;
+  }
+
+  return pairs;
+};
+
+const parsePost = (input: ByteReader, numGlyphs: number | undefined): PostTable => {
+  const table: PostTable = {
+    version: fixed(input),
+    italicAngle: fixed(input),
+    underlinePosition: input.i16(),
+    underlineThickness: input.i16(),
+    isFixedPitch: input.u32(),
+    minMemType42: input.u32(),
+    maxMemType42: input.u32(),
+    minMemType1: input.u32(),
+    maxMemType1: input.u32(),
+  };
+
+  if (table.version === 1) {
+    table.glyphNames = MacGlyphNames.slice(0, numGlyphs ?? MacGlyphNames.length);
+  } else if (table.version === 2) {
+    const indices = Array.from({ length: input.u16() }, () => input.u16());
+    const names: string[] = [];
+
+    while (input.remaining > 0) {
+      names.push(String.fromCharCode(...input.bytes(input.u8())));
+    }
+
+    table.glyphNames = indices.map((index) => (index < MacGlyphNames.length ? MacGlyphNames[index]! : names[index - MacGlyphNames.length] ?? ''));
+  }
+
+  return table;
+};
+
+/**
+ * Reads the table directory of one font.
+ *
+ * @param data File contents (or `GetFontData` output).
+ * @param offset Offset of the directory; non-zero for collection members.
+ * @returns `sfntVersion` and the table records, in file order.
+ */
+export function readTableDirectory(data: ArrayBuffer | ArrayBufferView, offset: number = 0): { sfntVersion: number; tables: SfntTableRecord[] } {
+  const input = new ByteReader(toView(data), offset, false);
+  const sfntVersion = input.u32();
+
+  if (sfntVersion !== 0x00010000 && sfntVersion !== 0x4f54544f && sfntVersion !== 0x74727565) {
+    throw new TypeError(`Not an sfnt font (version 0x${sfntVersion.toString(16)}).`);
+  }
+
+  const count = input.u16();
+  const tables: SfntTableRecord[] = [];
+
+  input.offset += 6;
+
+  for (let index = 0; index < count; index++) {
+    tables.push({ tag: tag(input.u32()), checksum: input.u32(), offset: input.u32(), length: input.u32() });
+  }
+
+  return { sfntVersion, tables };
+}
+
+/**
+ * `true` when `data` starts with the `'ttcf'` collection header.
+ *
+ * @param data File contents.
+ */
+export function isFontCollection(data: ArrayBuffer | ArrayBufferView): boolean {
+  const view = toView(data);
+
+  return view.byteLength >= 4 && view.getUint32(0) === TTC_TAG;
+}
+
+/**
+ * Returns the raw bytes of a table.
+ *
+ * @param data The bytes the font was parsed from.
+ * @param font Parsed font (or its table directory).
+ * @param name Table tag, e.g. `'glyf'` or `'GSUB'`.
+ * @returns A view into `data`, or `undefined` when the font has no such table.
+ */
+export function sfntTable(data: ArrayBuffer | ArrayBufferView, font: Pick<SfntFont, 'tables'>, name: string): Uint8Array | undefined {
+  const record = font.tables.find((table) => table.tag === name);
+
+  if (!record) {
+    return undefined;
+  }
+
+  const input = reader(toView(data), record);
+
+  return new Uint8Array(input.view.buffer, input.view.byteOffset, record.length);
+}
+
+/**
+ * Parses a TrueType/OpenType font.
+ *
+ * @param data `.ttf`/`.otf` contents, a `.ttc` collection, or `GetFontData(hdc, 0, 0, …)` output.
+ * @param index Member to parse when `data` is a collection.
+ * @returns The table directory and the decoded `head`, `hhea`, `hmtx`, `maxp`, `name`, `OS/2`, `cmap`, `kern` and `post` tables.
+ * @example
+ * ```ts
+ * const font = parseSfnt(await Bun.file('C:/Windows/Fonts/arial.ttf').bytes());
+ * fontName(font, NameID.FULL_NAME); // 'Arial'
+ * font.hmtx?.advanceWidths[glyphIndex(font, 0x41)]; // advance of 'A' in font units
+ * ```
+ */
+export function parseSfnt(data: ArrayBuffer | ArrayBufferView, index: number = 0): SfntFont {
+  const view = toView(data);
+  let offset = 0;
+
+  if (isFontCollection(view)) {
+    const count = view.getUint32(8);
+
+    if (index < 0 || index >= count) {
+      throw new RangeError(`Font index ${index} is out of range; the collection has ${count} fonts.`);
+    }
+
+    offset = view.getUint32(12 + index * 4);
+  }
+
+  const { sfntVersion, tables } = readTableDirectory(view, offset);
+  const font: SfntFont = { sfntVersion, tables };
+  const table = (name: string): ByteReader | undefined => {
+    const record = tables.find((entry) => entry.tag === name);
+
+    return record && reader(view, record);
+  };
+
+  const head = table('head');
+  const hhea = table('hhea');
+  const maxp = table('maxp');
+  const hmtx = table('hmtx');
+  const name = table('name');
+  const os2 = table('OS/2');
+  const cmap = table('cmap');
+  const kern = table('kern');
+  const post = table('post');
+
+  if (head) {
+    font.head = parseHead(head);
+  }
+
+  if (hhea) {
+    font.hhea = parseHhea(hhea);
+  }
+
+  if (maxp) {
+    font.maxp = parseMaxp(maxp);
+  }
+
+  if (hmtx && font.hhea && font.maxp) {
+    font.hmtx = parseHmtx(hmtx, font.hhea.numberOfHMetrics, font.maxp.numGlyphs);
+  }
+
+  if (name) {
+    font.name = parseName(name);
+  }
+
+  if (os2) {
+    font.os2 = parseOS2(os2);
+  }
+
+  if (cmap) {
+    font.cmap = parseCmap(cmap);
+  }
+
+  if (kern) {
+    font.kern = parseKern(kern);
+  }
+
+  if (post) {
+    font.post = parsePost(post, font.maxp?.numGlyphs);
+  }
+
+  return font;
+}
+
+/**
+ * Parses every font of a collection (or the single font of a plain file).
+ *
+ * @param data `.ttc`, `.ttf` or `.otf` contents.
+ * @returns One parsed font per member.
+ */
+export function parseFontCollection(data: ArrayBuffer | ArrayBufferView): SfntFont[] {
+  const view = toView(data);
+  const count = isFontCollection(view) ? view.getUint32(8) : 1;
+
+  return Array.from({ length: count }, (_, index) => parseSfnt(view, index));
+}
+
+/**
+ * Picks a string from the `name` table, preferring Windows English (US), then any Windows or
+ * Unicode-platform record, then Macintosh.
+ *
+ * @param font Parsed font.
+ * @param nameID Which name, e.g. `NameID.FAMILY`.
+ * @param languageID Windows language to prefer; defaults to 0x409 (en-US).
+ * @returns The string, or `undefined` when the font has none.
+ */
+export function fontName(font: Pick<SfntFont, 'name'>, nameID: NameID | number, languageID: number = 0x409): string | undefined {
+  const records = (font.name ?? []).filter((record) => record.nameID === nameID);
+  const rank = (record: NameRecord): number => (record.platformID === 3 ? (record.languageID === languageID ? 0 : 1) : record.platformID === 0 ? 2 : 3);
+
+  return records.sort((a, b) => rank(a) - rank(b))[0]?.value;
+}
+
+/**
+ * Maps a code point to a glyph index through the preferred `cmap` subtable.
+ *
+ * @param font Parsed font.
+ * @param codePoint Unicode code point.
+ * @returns The glyph index; 0 (`.notdef`) when unmapped.
+ */
+export function glyphIndex(font: Pick<SfntFont, 'cmap'>, codePoint: number): number {
+  return font.cmap?.glyphs.get(codePoint) ?? 0;
+}
+
+/**
+ * Looks up the `kern` adjustment between two glyphs.
+ *
+ * @param font Parsed font.
+ * @param left Glyph index of the first glyph.
+ * @param right Glyph index of the second glyph.
+ * @returns The adjustment in font units (0 without a pair).
+ */
+export function kerning(font: Pick<SfntFont, 'kern'>, left: number, right: number): number {
+  return font.kern?.get(left * 0x10000 + right) ?? 0;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'bun:test';
+
+import { defineStruct } from './struct';
+
+describe('defineStruct', () => {
+  test('aligns fields naturally and pads the size to the alignment', () => {
+    const struct = defineStruct({ a: 'u8', b: 'u32', c: 'u16', d: 'ptr', e: 'u8' });
+
+    expect(struct.fields.map(({ name, offset }) => [name, offset])).toEqual([
+      ['a', 0],
+      ['b', 4],
+      ['c', 8],
+      ['d', 16],
+      ['e', 24],
+    ]);
+    expect(struct.alignment).toBe(8);
+    expect(struct.sizeof).toBe(32);
+  });
+
+  test('caps alignment at pack', () => {
+    const struct = defineStruct({ a: 'u16', b: 'u32', c: 'u16' }, { pack: 2 });
+
+    expect(struct.offsetof('b')).toBe(2);
+    expect(struct.sizeof).toBe(8);
+  });
+
+  test('honors explicit offsets for overlapping members', () => {
+    const struct = defineStruct({ a: 'u32', b: { type: 'u16', offset: 0 }, c: 'u32' });
+
+    expect(struct.offsetof('b')).toBe(0);
+    expect(struct.offsetof('c')).toBe(4);
+    expect(struct.decode(struct.encode({ a: 0x12345678 })).b).toBe(0x5678);
+  });
+
+  test('round-trips scalars, arrays and nested structs', () => {
+    const POINT = defineStruct({ x: 'i32', y: 'i32' });
+    const struct = defineStruct({ points: { type: POINT, length: 2 }, values: { type: 'i16', length: 3 }, big: 'u64', ratio: 'f64' });
+
+    const value = {
+      points: [
+        { x: -1, y: 2 },
+        { x: 3, y: -4 },
+      ],
+      values: [-1, 0, 1],
+      big: 0xffffffffffn,
+      ratio: 0.5,
+    };
+
+    expect(struct.decode(struct.encode(value))).toEqual(value);
+  });
+
+  test('zero-fills omitted fields and leaves them untouched on write', () => {
+    const struct = defineStruct({ a: 'u32', b: 'u32' });
+    const buffer = struct.encode({ a: 1 });
+
+    struct.write(new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength), 0, { b: 2 });
+
+    expect(struct.decode(buffer)).toEqual({ a: 1, b: 2 });
+  });
+
+  test('truncates character arrays and keeps them NUL-terminated', () => {
+    const struct = defineStruct({ narrow: { type: 'char', length: 4 }, wide: { type: 'wchar', length: 4 } });
+    const buffer = struct.encode({ narrow: 'abcdef', wide: 'ωxyz' });
+
+    expect(struct.sizeof).toBe(12);
+    expect(buffer[3]).toBe(0);
+    expect(struct.decode(buffer)).toEqual({ narrow: 'abc', wide: 'ωxy' });
+  });
+
+  test('decodes at a byte offset', () => {
+    const struct = defineStruct({ a: 'u16' });
+
+    expect(struct.decode(new Uint8Array([0, 0, 0x34, 0x12]), 2)).toEqual({ a: 0x1234 });
+  });
+
+  test('rejects unknown fields in offsetof', () => {
+    const struct = defineStruct({ a: 'u8' });
+
+    expect(() => struct.offsetof('b' as 'a')).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,347 @@
+import { type Pointer, toArrayBuffer } from 'bun:ffi';
+
+/**
+ * Scalar field types, named after their `FFIType` counterparts. `ptr` is 8 bytes (x64).
+ */
+export type StructPrimitive = 'f32' | 'f64' | 'i8' | 'i16' | 'i32' | 'i64' | 'ptr' | 'u8' | 'u16' | 'u32' | 'u64';
+
+/**
+ * Fixed-length, NUL-terminated character arrays: `char` is `CHAR[n]` (Latin-1), `wchar` is `WCHAR[n]` (UTF-16LE).
+ */
+export type StructString = 'char' | 'wchar';
+
+/**
+ * Anything a field can hold: a scalar, a character array or a nested struct.
+ */
+export type StructFieldType = StructPrimitive | StructString | Struct<unknown>;
+
+/**
+ * Long-form field definition.
+ *
+ * `length` turns the field into a fixed array (or sets the character count for `char`/`wchar`);
+ * `offset` and `align` override the natural layout when a Win32 header disagrees with it.
+ */
+export interface StructFieldOptions {
+  align?: number;
+  length?: number;
+  offset?: number;
+  type: StructFieldType;
+}
+
+export type StructFieldDefinition = StructFieldType | StructFieldOptions;
+
+/**
+ * A field after layout: resolved offset, alignment and total byte size.
+ */
+export interface StructField {
+  readonly align: number;
+  readonly length: number | undefined;
+  readonly name: string;
+  readonly offset: number;
+  readonly size: number;
+  readonly type: StructFieldType;
+}
+
+/**
+ * Options for `defineStruct`.
+ *
+ * `pack` mirrors `#pragma pack(n)`: no field is aligned beyond `n` bytes.
+ */
+export interface StructOptions {
+  pack?: number;
+}
+
+type StructPrimitiveValue<T> = T extends 'i64' | 'u64' ? bigint : T extends 'ptr' ? Pointer | null : number;
+
+type StructTypeValue<T> = T extends Struct<infer V> ? V : T extends StructString ? string : StructPrimitiveValue<T>;
+
+type StructFieldValue<F> = F extends StructFieldOptions ? (F['type'] extends StructString ? string : F extends { length: number } ? StructTypeValue<F['type']>[] : StructTypeValue<F['type']>) : StructTypeValue<F>;
+
+/**
+ * Decoded object shape for a field map passed to `defineStruct`.
+ */
+export type StructFields<F extends Record<string, StructFieldDefinition>> = { -readonly [K in keyof F]: StructFieldValue<F[K]> };
+
+/**
+ * Decoded object shape of a struct codec.
+ *
+ * @example
+ * ```ts
+ * export const POINT = defineStruct({ x: 'i32', y: 'i32' });
+ * export type POINT = StructValue<typeof POINT>; // { x: number; y: number }
+ * ```
+ */
+export type StructValue<S> = S extends Struct<infer T> ? T : never;
+
+/**
+ * Input accepted by `encode`/`write`: every field is optional (recursively) and defaults to zero.
+ */
+export type StructInit<T> = {
+  [K in keyof T]?: T[K] extends readonly (infer E)[] ? (E extends string | bigint | number | null ? E : StructInit<E>)[] : T[K] extends string | bigint | number | null ? T[K] : StructInit<T[K]>;
+};
+
+/**
+ * Encoder/decoder for a fixed-layout Win32 structure.
+ */
+export interface Struct<T> {
+  /** Alignment of the whole structure, in bytes. */
+  readonly alignment: number;
+  /** Fields in declaration order, with resolved offsets. */
+  readonly fields: readonly StructField[];
+  /** Size of the structure in bytes, including trailing padding (`sizeof`). */
+  readonly sizeof: number;
+
+  /**
+   * Decodes a structure from memory.
+   *
+   * @param source Bytes holding the structure, or a native pointer to it.
+   * @param byteOffset Offset of the structure within `source`.
+   */
+  decode(source: ArrayBuffer | ArrayBufferView | Pointer, byteOffset?: number): T;
+
+  /**
+   * Encodes a structure into a freshly allocated, zero-filled `Buffer` of `sizeof` bytes.
+   *
+   * @param value Field values; omitted fields stay zero.
+   */
+  encode(value?: StructInit<T>): Buffer;
+
+  /**
+   * Returns the byte offset of a field (`offsetof`).
+   */
+  offsetof(name: keyof T & string): number;
+
+  /**
+   * Reads a structure from a `DataView` at `byteOffset`.
+   */
+  read(view: DataView, byteOffset: number): T;
+
+  /**
+   * Writes the provided fields into `view` at `byteOffset`; bytes of omitted fields are left untouched.
+   */
+  write(view: DataView, byteOffset: number, value: StructInit<T>): void;
+}
+
+interface PrimitiveCodec<V = unknown> {
+  read(view: DataView, byteOffset: number): V;
+  size: number;
+  write(view: DataView, byteOffset: number, value: V): void;
+}
+
+const Primitives: { [K in StructPrimitive]: PrimitiveCodec<StructPrimitiveValue<K>> } = {
+  f32: { read: (view, byteOffset) => view.getFloat32(byteOffset, true), size: 4, write: (view, byteOffset, value) => view.setFloat32(byteOffset, value, true) },
+  f64: { read: (view, byteOffset) => view.getFloat64(byteOffset, true), size: 8, write: (view, byteOffset, value) => view.setFloat64(byteOffset, value, true) },
+  i16: { read: (view, byteOffset) => view.getInt16(byteOffset, true), size: 2, write: (view, byteOffset, value) => view.setInt16(byteOffset, value, true) },
+  i32: { read: (view, byteOffset) => view.getInt32(byteOffset, true), size: 4, write: (view, byteOffset, value) => view.setInt32(byteOffset, value, true) },
+  i64: { read: (view, byteOffset) => view.getBigInt64(byteOffset, true), size: 8, write: (view, byteOffset, value) => view.setBigInt64(byteOffset, BigInt(value), true) },
+  i8: { read: (view, byteOffset) => view.getInt8(byteOffset), size: 1, write: (view, byteOffset, value) => view.setInt8(byteOffset, value) },
+  ptr: {
+    read: (view, byteOffset) => (Number(view.getBigUint64(byteOffset, true)) as Pointer) || null,
+    size: 8,
+    write: (view, byteOffset, value) => view.setBigUint64(byteOffset, BigInt(value ?? 0), true),
+  },
+  u16: { read: (view, byteOffset) => view.getUint16(byteOffset, true), size: 2, write: (view, byteOffset, value) => view.setUint16(byteOffset, value, true) },
+  u32: { read: (view, byteOffset) => view.getUint32(byteOffset, true), size: 4, write: (view, byteOffset, value) => view.setUint32(byteOffset, value, true) },
+  u64: { read: (view, byteOffset) => view.getBigUint64(byteOffset, true), size: 8, write: (view, byteOffset, value) => view.setBigUint64(byteOffset, BigInt(value), true) },
+  u8: { read: (view, byteOffset) => view.getUint8(byteOffset), size: 1, write: (view, byteOffset, value) => view.setUint8(byteOffset, value) },
+};
+
+/**
+ * Converts any supported source into a `DataView` positioned at the start of the structure.
+ */
+export function toDataView(source: ArrayBuffer | ArrayBufferView | Pointer, byteOffset: number = 0, byteLength?: number): DataView {
+  if (typeof source === 'number') {
+    return new DataView(toArrayBuffer(source, byteOffset, byteLength));
+  }
+
+  if (ArrayBuffer.isView(source)) {
+    return new DataView(source.buffer, source.byteOffset + byteOffset, byteLength ?? source.byteLength - byteOffset);
+  }
+
+  return new DataView(source, byteOffset, byteLength);
+}
+
+/**
+ * Reads a NUL-terminated string of at most `length` characters.
+ *
+ * @param view Source view.
+ * @param byteOffset Offset of the first character.
+ * @param length Maximum number of characters (the array length).
+ * @param wide `true` for UTF-16LE `WCHAR`s, `false` for Latin-1 `CHAR`s.
+ */
+export function readString(view: DataView, byteOffset: number, length: number, wide: boolean): string {
+  const codes: number[] = [];
+
+  for (let index = 0; index < length; index++) {
+    const code = wide ? view.getUint16(byteOffset + index * 2, true) : view.getUint8(byteOffset + index);
+
+    if (code === 0) {
+      break;
+    }
+
+    codes.push(code);
+  }
+
+  return String.fromCharCode(...codes);
+}
+
+/**
+ * Writes `value` as a NUL-terminated string into a `length`-character array, truncating
+ * to `length - 1` characters and zero-filling the remainder.
+ */
+export function writeString(view: DataView, byteOffset: number, length: number, wide: boolean, value: string): void {
+  for (let index = 0; index < length; index++) {
+    const code = index < length - 1 && index < value.length ? value.charCodeAt(index) : 0;
+
+    if (wide) {
+      view.setUint16(byteOffset + index * 2, code, true);
+    } else {
+      view.setUint8(byteOffset + index, code & 0xff);
+    }
+  }
+
+  return;
+}
+
+function isStruct(type: StructFieldDefinition): type is Struct<unknown> {
+  return typeof type === 'object' && 'sizeof' in type;
+}
+
+function sizeOfType(type: StructFieldType): number {
+  return isStruct(type) ? type.sizeof : type === 'char' ? 1 : type === 'wchar' ? 2 : Primitives[type].size;
+}
+
+function alignmentOfType(type: StructFieldType): number {
+  return isStruct(type) ? type.alignment : sizeOfType(type);
+}
+
+function readValue(type: StructFieldType, view: DataView, byteOffset: number): unknown {
+  return isStruct(type) ? type.read(view, byteOffset) : Primitives[type as StructPrimitive].read(view, byteOffset);
+}
+
+function writeValue(type: StructFieldType, view: DataView, byteOffset: number, value: unknown): void {
+  if (isStruct(type)) {
+    type.write(view, byteOffset, value as StructInit<unknown>);
+  } else {
+    (Primitives[type as StructPrimitive] as PrimitiveCodec).write(view, byteOffset, value);
+  }
+
+  return;
+}
+
+/**
+ * Declares a Win32 structure layout and returns its codec.
+ *
+ * Fields are laid out in declaration order using x64 natural alignment (capped by `pack`),
+ * unless a field specifies an explicit `offset`/`align`. The structure's size is rounded up
+ * to its alignment, exactly like MSVC.
+ *
+ * @param fields Field map in declaration order.
+ * @param options Packing options.
+ * @returns The struct codec.
+ * @example
+ * ```ts
+ * const LOGPEN = defineStruct({ lopnStyle: 'u32', lopnWidth: POINT, lopnColor: 'u32' });
+ *
+ * LOGPEN.sizeof; // 16
+ * const buffer = LOGPEN.encode({ lopnStyle: PenStyle.PS_DASH, lopnWidth: { x: 1 } });
+ * GDI32.CreatePenIndirect(buffer.ptr);
+ * ```
+ */
+export function defineStruct<const F extends Record<string, StructFieldDefinition>>(fields: F, options: StructOptions = {}): Struct<StructFields<F>> {
+  const pack = options.pack ?? Infinity;
+  const layout: StructField[] = [];
+
+  let alignment = 1;
+  let cursor = 0;
+
+  for (const [name, definition] of Object.entries(fields)) {
+    const { align, length, offset, type }: StructFieldOptions = typeof definition === 'string' || isStruct(definition) ? { type: definition } : definition;
+
+    const fieldAlign = Math.min(align ?? alignmentOfType(type), pack);
+    const fieldOffset = offset ?? Math.ceil(cursor / fieldAlign) * fieldAlign;
+    const size = sizeOfType(type) * (length ?? 1);
+
+    layout.push({ align: fieldAlign, length, name, offset: fieldOffset, size, type });
+
+    alignment = Math.max(alignment, fieldAlign);
+    cursor = Math.max(cursor, fieldOffset + size);
+  }
+
+  const sizeof = Math.ceil(cursor / alignment) * alignment;
+  const offsets = new Map(layout.map((field) => [field.name, field.offset]));
+
+  const struct: Struct<StructFields<F>> = {
+    alignment,
+    fields: layout,
+    sizeof,
+
+    decode(source, byteOffset = 0) {
+      return struct.read(toDataView(source, byteOffset, sizeof), 0);
+    },
+
+    encode(value = {}) {
+      const buffer = Buffer.alloc(sizeof);
+
+      struct.write(new DataView(buffer.buffer, buffer.byteOffset, sizeof), 0, value);
+
+      return buffer;
+    },
+
+    offsetof(name) {
+      const offset = offsets.get(name);
+
+      if (offset === undefined) {
+        throw new RangeError(`Unknown field '${name}'.`);
+      }
+
+      return offset;
+    },
+
+    read(view, byteOffset) {
+      const result: Record<string, unknown> = {};
+
+      for (const { length, name, offset, type } of layout) {
+        const position = byteOffset + offset;
+
+        if (type === 'char' || type === 'wchar') {
+          result[name] = readString(view, position, length ?? 1, type === 'wchar');
+        } else if (length === undefined) {
+          result[name] = readValue(type, view, position);
+        } else {
+          const stride = sizeOfType(type);
+
+          result[name] = Array.from({ length }, (_, index) => readValue(type, view, position + index * stride));
+        }
+      }
+
+      return result as StructFields<F>;
+    },
+
+    write(view, byteOffset, value) {
+      for (const { length, name, offset, type } of layout) {
+        const item = (value as Record<string, unknown>)[name];
+
+        if (item === undefined) {
+          continue;
+        }
+
+        const position = byteOffset + offset;
+
+        if (type === 'char' || type === 'wchar') {
+          writeString(view, position, length ?? 1, type === 'wchar', item as string);
+        } else if (length === undefined) {
+          writeValue(type, view, position, item);
+        } else {
+          const stride = sizeOfType(type);
+
+          (item as unknown[]).slice(0, length).forEach((element, index) => writeValue(type, view, position + index * stride, element));
+        }
+      }
+
+      return;
+    },
+  };
+
+  return struct;
+}
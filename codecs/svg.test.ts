@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'bun:test';
+
+import { EnhancedMetaRecordType, PenJoin } from '../constants/GDI32';
+import { ENHMETA_SIGNATURE, type EMFRecord, serializeEMF } from './emf';
+import { ENHMETAHEADER } from './GDI32';
+import { emfToSVG } from './svg';
+
+const bounds = { left: 0, top: 0, right: 100, bottom: 50 };
+
+/** An EMF of `records` between a 100×50 pixel header and `EMR_EOF`. */
+const metafile = (...records: EMFRecord[]): Buffer =>
+  serializeEMF([
+    {
+      description: '',
+      header: ENHMETAHEADER.decode(
+        ENHMETAHEADER.encode({
+          iType: EnhancedMetaRecordType.EMR_HEADER,
+          rclBounds: bounds,
+          rclFrame: { right: 2646, bottom: 1323 },
+          dSignature: ENHMETA_SIGNATURE,
+          nVersion: 0x10000,
+          nHandles: 2,
+          szlDevice: { cx: 1920, cy: 1080 },
+          szlMillimeters: { cx: 508, cy: 286 },
+        })
+      ),
+      headerSize: 108,
+      pixelFormat: new Uint8Array(0),
+      type: 'EMR_HEADER',
+    },
+    ...records,
+    { palette: [], type: 'EMR_EOF' },
+  ]);
+
+/** Selects a 2-unit mitered pen and draws one line with it. */
+const miterLine = (...records: EMFRecord[]): string =>
+  emfToSVG(
+    metafile(
+      ...records,
+      { handle: 1, style: PenJoin.PS_JOIN_MITER, width: { x: 2, y: 0 }, color: 0, type: 'EMR_CREATEPEN' },
+      { type: 'EMR_SELECTOBJECT', value: 1 },
+      { type: 'EMR_MOVETOEX', x: 0, y: 0 },
+      { type: 'EMR_LINETO', x: 50, y: 25 }
+    )
+  );
+
+describe('emfToSVG', () => {
+  test('emits fractional miter limits and ignores limits below 1', () => {
+    expect(miterLine({ type: 'EMR_SETMITERLIMIT', value: 2.5 })).toContain('stroke-miterlimit="2.5"');
+    expect(miterLine({ type: 'EMR_SETMITERLIMIT', value: 0.5 })).toContain('stroke-miterlimit="10"');
+  });
+
+  test('skips poly records without points', () => {
+    const svg = emfToSVG(metafile({ bounds, points: [], type: 'EMR_POLYLINETO16' }, { bounds, points: [], type: 'EMR_POLYBEZIER16' }, { bounds, points: [], type: 'EMR_POLYBEZIERTO16' }));
+
+    expect(svg).not.toContain('<path');
+    expect(svg).not.toContain('NaN');
+  });
+
+  test('escapes text and replaces characters XML 1.0 disallows', () => {
+    const svg = emfToSVG(
+      metafile({ bounds, dx: [8, 8, 8, 8, 8], exScale: 0, eyScale: 0, graphicsMode: 1, options: 0, rect: { left: 0, top: 0, right: 0, bottom: 0 }, reference: { x: 5, y: 20 }, text: 'a<b\u0001\ud800', type: 'EMR_EXTTEXTOUTW' })
+    );
+
+    expect(svg).toContain('a&#60;b\ufffd\ufffd</text>');
+  });
+});
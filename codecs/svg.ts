@@ -0,0 +1,1147 @@
+import {
+  ArcDirection,
+  BackgroundMode,
+  BitmapCompression,
+  BrushStyle,
+  ExtTextOutOption,
+  FontFamily,
+  HatchStyle,
+  MapMode,
+  PenEndCap,
+  PenJoin,
+  PenStyle,
+  PenType,
+  PolyFillMode,
+  RasterOperation,
+  RegionCombineMode,
+  StockObject,
+  TextAlign,
+  WorldTransformMode,
+} from '../constants/GDI32';
+import { writeBMP } from './bmp';
+import { type EMFRecord, type EnhancedMetafile, parseEMF } from './emf';
+import { BITMAPINFOHEADER, type ENHMETAHEADER, type LOGFONTW, type POINT, RECT, RGNDATAHEADER, type XFORM } from './GDI32';
+
+/**
+ * Options for `emfToSVG`.
+ */
+export interface EMFToSVGOptions {
+  /** Embed bitmaps from blit/DIB records as data URIs; defaults to `true`. */
+  images?: boolean;
+  /** Decimal places kept for coordinates; defaults to `2`. */
+  precision?: number;
+}
+
+/** Affine matrix in SVG order: `x' = a·x + c·y + e`, `y' = b·x + d·y + f`. */
+type Matrix = readonly [a: number, b: number, c: number, d: number, e: number, f: number];
+
+type ClipLayer = { d: string; rule: string } | { rects: RECT[] };
+
+interface Brush {
+  color: number;
+  hatch: number;
+  image?: { height: number; uri: string; width: number };
+  style: number;
+}
+
+interface Pen {
+  color: number;
+  style: number;
+  styleEntries: number[];
+  width: number;
+}
+
+interface DCState {
+  arcDirection: number;
+  bkColor: number;
+  bkMode: number;
+  brush: Brush;
+  clip: ClipLayer[];
+  font: Partial<LOGFONTW>;
+  mapMode: number;
+  miterLimit: number;
+  pen: Pen;
+  polyFillMode: number;
+  position: POINT;
+  textAlign: number;
+  textColor: number;
+  viewportExt: POINT;
+  viewportOrg: POINT;
+  windowExt: POINT;
+  windowOrg: POINT;
+  world: Matrix;
+}
+
+const Identity: Matrix = [1, 0, 0, 1, 0, 0];
+
+/** Size of one logical unit, in millimetres, for the fixed map modes. */
+const MetricUnits: Record<number, number> = {
+  [MapMode.MM_LOMETRIC]: 0.1,
+  [MapMode.MM_HIMETRIC]: 0.01,
+  [MapMode.MM_LOENGLISH]: 0.254,
+  [MapMode.MM_HIENGLISH]: 0.0254,
+  [MapMode.MM_TWIPS]: 25.4 / 1440,
+};
+
+const Dashes: Record<number, number[]> = {
+  [PenStyle.PS_DASH]: [18, 6],
+  [PenStyle.PS_DOT]: [3, 3],
+  [PenStyle.PS_DASHDOT]: [9, 6, 3, 6],
+  [PenStyle.PS_DASHDOTDOT]: [9, 3, 3, 3, 3, 3],
+  [PenStyle.PS_ALTERNATE]: [1, 1],
+};
+
+const GenericFamilies: Record<number, string> = {
+  [FontFamily.FF_ROMAN]: 'serif',
+  [FontFamily.FF_SWISS]: 'sans-serif',
+  [FontFamily.FF_MODERN]: 'monospace',
+  [FontFamily.FF_SCRIPT]: 'cursive',
+  [FontFamily.FF_DECORATIVE]: 'fantasy',
+};
+
+const HatchLines: Record<number, string> = {
+  [HatchStyle.HS_HORIZONTAL]: 'M0 4H8',
+  [HatchStyle.HS_VERTICAL]: 'M4 0V8',
+  [HatchStyle.HS_FDIAGONAL]: 'M0 0L8 8',
+  [HatchStyle.HS_BDIAGONAL]: 'M0 8L8 0',
+  [HatchStyle.HS_CROSS]: 'M0 4H8M4 0V8',
+  [HatchStyle.HS_DIAGCROSS]: 'M0 0L8 8M0 8L8 0',
+};
+
+const StockBrushes: Record<number, Brush> = {
+  [StockObject.WHITE_BRUSH]: { color: 0xffffff, hatch: 0, style: BrushStyle.BS_SOLID },
+  [StockObject.LTGRAY_BRUSH]: { color: 0xc0c0c0, hatch: 0, style: BrushStyle.BS_SOLID },
+  [StockObject.GRAY_BRUSH]: { color: 0x808080, hatch: 0, style: BrushStyle.BS_SOLID },
+  [StockObject.DKGRAY_BRUSH]: { color: 0x404040, hatch: 0, style: BrushStyle.BS_SOLID },
+  [StockObject.BLACK_BRUSH]: { color: 0x000000, hatch: 0, style: BrushStyle.BS_SOLID },
+  [StockObject.NULL_BRUSH]: { color: 0, hatch: 0, style: BrushStyle.BS_NULL },
+  [StockObject.DC_BRUSH]: { color: 0xffffff, hatch: 0, style: BrushStyle.BS_SOLID },
+};
+
+const StockPens: Record<number, Pen> = {
+  [StockObject.WHITE_PEN]: { color: 0xffffff, style: PenStyle.PS_SOLID, styleEntries: [], width: 0 },
+  [StockObject.BLACK_PEN]: { color: 0x000000, style: PenStyle.PS_SOLID, styleEntries: [], width: 0 },
+  [StockObject.NULL_PEN]: { color: 0, style: PenStyle.PS_NULL, styleEntries: [], width: 0 },
+  [StockObject.DC_PEN]: { color: 0x000000, style: PenStyle.PS_SOLID, styleEntries: [], width: 0 },
+};
+
+const DefaultFont: Partial<LOGFONTW> = { lfFaceName: 'System', lfHeight: 16, lfWeight: 400 };
+
+const STOCK_FLAG = 0x80000000;
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [m[0] * n[0] + m[1] * n[2], m[0] * n[1] + m[1] * n[3], m[2] * n[0] + m[3] * n[2], m[2] * n[1] + m[3] * n[3], m[4] * n[0] + m[5] * n[2] + n[4], m[4] * n[1] + m[5] * n[3] + n[5]];
+
+const toMatrix = ({ eDx, eDy, eM11, eM12, eM21, eM22 }: XFORM): Matrix => [eM11, eM12, eM21, eM22, eDx, eDy];
+
+const color = (colorref: number): string => `#${[colorref & 0xff, (colorref >>> 8) & 0xff, (colorref >>> 16) & 0xff].map((channel) => channel.toString(16).padStart(2, '0')).join('')}`;
+
+/** Characters XML 1.0 does not allow: C0 controls other than tab/LF/CR, U+FFFE/U+FFFF and unpaired surrogates. */
+const INVALID_XML = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]|[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/g;
+
+const escape = (text: string): string => text.replace(INVALID_XML, '\uFFFD').replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const intersect = (a: RECT, b: RECT): RECT | null => {
+  const rect = { bottom: Math.min(a.bottom, b.bottom), left: Math.max(a.left, b.left), right: Math.min(a.right, b.right), top: Math.max(a.top, b.top) };
+
+  return rect.left < rect.right && rect.top < rect.bottom ? rect : null;
+};
+
+const subtract = (rects: RECT[], cut: RECT): RECT[] =>
+  rects.flatMap((rect) => {
+    const overlap = intersect(rect, cut);
+
+    if (!overlap) {
+      return [rect];
+    }
+
+    return [
+      { ...rect, bottom: overlap.top },
+      { ...rect, top: overlap.bottom },
+      { bottom: overlap.bottom, left: rect.left, right: overlap.left, top: overlap.top },
+      { bottom: overlap.bottom, left: overlap.right, right: rect.right, top: overlap.top },
+    ].filter(({ bottom, left, right, top }) => left < right && top < bottom);
+  });
+
+/**
+ * Reads the rectangles of an `RGNDATA` blob.
+ */
+const regionRects = (region: Uint8Array): RECT[] => {
+  if (region.length < RGNDATAHEADER.sizeof) {
+    return [];
+  }
+
+  const { dwSize, nCount } = RGNDATAHEADER.decode(region);
+
+  return Array.from({ length: Math.min(nCount, Math.floor((region.length - dwSize) / RECT.sizeof)) }, (_, index) => RECT.decode(region, dwSize + index * RECT.sizeof));
+};
+
+/**
+ * Builds a data URI for a recorded `BITMAPINFO` + bits pair.
+ */
+const bitmapImage = (bmi: Uint8Array, bits: Uint8Array): Brush['image'] | undefined => {
+  if (bmi.length < BITMAPINFOHEADER.sizeof || !bits.length) {
+    return undefined;
+  }
+
+  const { biCompression, biHeight, biWidth } = BITMAPINFOHEADER.decode(bmi);
+  const size = { height: Math.abs(biHeight), width: biWidth };
+
+  if (biCompression === BitmapCompression.BI_JPEG || biCompression === BitmapCompression.BI_PNG) {
+    return { ...size, uri: `data:image/${biCompression === BitmapCompression.BI_PNG ? 'png' : 'jpeg'};base64,${Buffer.from(bits).toString('base64')}` };
+  }
+
+  try {
+    return { ...size, uri: `data:image/bmp;base64,${writeBMP({ bits: Buffer.from(bits), info: Buffer.from(bmi) }).toString('base64')}` };
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Walks records against a simulated device context and accumulates SVG markup.
+ */
+class EMFRenderer {
+  private readonly body: string[] = [];
+  private readonly clipIds = new Map<string, string>();
+  private readonly defs: string[] = [];
+  private figureOpen = false;
+  private readonly objects = new Map<number, { brush: Brush } | { font: Partial<LOGFONTW> } | { pen: Pen }>();
+  private path: string[] | null = null;
+  private readonly patternIds = new Map<string, string>();
+  private readonly saved: DCState[] = [];
+  private state: DCState;
+
+  constructor(private readonly header: ENHMETAHEADER, private readonly options: Required<EMFToSVGOptions>) {
+    this.state = {
+      arcDirection: ArcDirection.AD_COUNTERCLOCKWISE,
+      bkColor: 0xffffff,
+      bkMode: BackgroundMode.OPAQUE,
+      brush: StockBrushes[StockObject.WHITE_BRUSH]!,
+      clip: [],
+      font: DefaultFont,
+      mapMode: MapMode.MM_TEXT,
+      miterLimit: 10,
+      pen: StockPens[StockObject.BLACK_PEN]!,
+      polyFillMode: PolyFillMode.ALTERNATE,
+      position: { x: 0, y: 0 },
+      textAlign: TextAlign.TA_LEFT,
+      textColor: 0x000000,
+      viewportExt: { x: 1, y: 1 },
+      viewportOrg: { x: 0, y: 0 },
+      windowExt: { x: 1, y: 1 },
+      windowOrg: { x: 0, y: 0 },
+      world: Identity,
+    };
+  }
+
+  public render(records: EMFRecord[]): string {
+    records.forEach((record) => this.play(record));
+
+    const { rclBounds, rclFrame } = this.header;
+    const [pxPerMmX, pxPerMmY] = this.pixelsPerMillimetre();
+    const frame = rclFrame.right > rclFrame.left && rclFrame.bottom > rclFrame.top;
+    const box = frame
+      ? { bottom: (rclFrame.bottom / 100) * pxPerMmY, left: (rclFrame.left / 100) * pxPerMmX, right: (rclFrame.right / 100) * pxPerMmX, top: (rclFrame.top / 100) * pxPerMmY }
+      : { bottom: rclBounds.bottom + 1, left: rclBounds.left, right: rclBounds.right + 1, top: rclBounds.top };
+    const width = box.right - box.left;
+    const height = box.bottom - box.top;
+    const size = frame ? `width="${this.number((rclFrame.right - rclFrame.left) / 100)}mm" height="${this.number((rclFrame.bottom - rclFrame.top) / 100)}mm"` : `width="${this.number(width)}" height="${this.number(height)}"`;
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ${size} viewBox="${this.number(box.left)} ${this.number(box.top)} ${this.number(width)} ${this.number(height)}">`,
+      ...(this.defs.length ? ['<defs>', ...this.defs, '</defs>'] : []),
+      ...this.body,
+      '</svg>',
+    ].join('\n');
+  }
+
+  private play(record: EMFRecord): void {
+    const state = this.state;
+
+    switch (record.type) {
+      case 'EMR_SAVEDC':
+        this.saved.push({ ...state });
+        break;
+      case 'EMR_RESTOREDC': {
+        const index = record.value < 0 ? this.saved.length + record.value : record.value - 1;
+
+        if (index >= 0 && index < this.saved.length) {
+          this.state = this.saved[index]!;
+          this.saved.length = index;
+        }
+
+        break;
+      }
+      case 'EMR_SETMAPMODE':
+        state.mapMode = record.value;
+        break;
+      case 'EMR_SETWINDOWEXTEX':
+        state.windowExt = { x: record.x, y: record.y };
+        break;
+      case 'EMR_SETWINDOWORGEX':
+        state.windowOrg = { x: record.x, y: record.y };
+        break;
+      case 'EMR_SETVIEWPORTEXTEX':
+        state.viewportExt = { x: record.x, y: record.y };
+        break;
+      case 'EMR_SETVIEWPORTORGEX':
+        state.viewportOrg = { x: record.x, y: record.y };
+        break;
+      case 'EMR_SCALEVIEWPORTEXTEX':
+      case 'EMR_SCALEWINDOWEXTEX': {
+        const key = record.type === 'EMR_SCALEVIEWPORTEXTEX' ? 'viewportExt' : 'windowExt';
+
+        state[key] = { x: Math.trunc((state[key].x * record.xNum) / (record.xDenom || 1)), y: Math.trunc((state[key].y * record.yNum) / (record.yDenom || 1)) };
+        break;
+      }
+      case 'EMR_SETWORLDTRANSFORM':
+        state.world = toMatrix(record.xform);
+        break;
+      case 'EMR_MODIFYWORLDTRANSFORM':
+        switch (record.mode) {
+          case WorldTransformMode.MWT_IDENTITY:
+            state.world = Identity;
+            break;
+          case WorldTransformMode.MWT_LEFTMULTIPLY:
+            state.world = multiply(toMatrix(record.xform), state.world);
+            break;
+          case WorldTransformMode.MWT_RIGHTMULTIPLY:
+            state.world = multiply(state.world, toMatrix(record.xform));
+            break;
+          default:
+            state.world = toMatrix(record.xform);
+        }
+
+        break;
+      case 'EMR_SETBKCOLOR':
+        state.bkColor = record.value;
+        break;
+      case 'EMR_SETBKMODE':
+        state.bkMode = record.value;
+        break;
+      case 'EMR_SETTEXTCOLOR':
+        state.textColor = record.value;
+        break;
+      case 'EMR_SETTEXTALIGN':
+        state.textAlign = record.value;
+        break;
+      case 'EMR_SETPOLYFILLMODE':
+        state.polyFillMode = record.value;
+        break;
+      case 'EMR_SETARCDIRECTION':
+        state.arcDirection = record.value;
+        break;
+      case 'EMR_SETMITERLIMIT':
+        // SetMiterLimit rejects limits below 1, and so does SVG.
+        if (record.value >= 1) {
+          state.miterLimit = record.value;
+        }
+        break;
+      case 'EMR_CREATEPEN':
+        this.objects.set(record.handle, { pen: { color: record.color, style: record.style, styleEntries: [], width: record.width.x } });
+        break;
+      case 'EMR_EXTCREATEPEN':
+        this.objects.set(record.handle, { pen: { color: record.color, style: record.style, styleEntries: record.styleEntries, width: record.width } });
+        break;
+      case 'EMR_CREATEBRUSHINDIRECT':
+        this.objects.set(record.handle, { brush: { color: record.color, hatch: record.hatch, style: record.style } });
+        break;
+      case 'EMR_CREATEDIBPATTERNBRUSHPT':
+      case 'EMR_CREATEMONOBRUSH': {
+        const image = this.options.images ? bitmapImage(record.bmi, record.bits) : undefined;
+
+        this.objects.set(record.handle, { brush: image ? { color: 0, hatch: 0, image, style: BrushStyle.BS_DIBPATTERNPT } : StockBrushes[StockObject.GRAY_BRUSH]! });
+        break;
+      }
+      case 'EMR_EXTCREATEFONTINDIRECTW':
+        this.objects.set(record.handle, { font: record.font });
+        break;
+      case 'EMR_SELECTOBJECT':
+        this.select(record.value);
+        break;
+      case 'EMR_DELETEOBJECT':
+        this.objects.delete(record.value);
+        break;
+      case 'EMR_MOVETOEX':
+        state.position = { x: record.x, y: record.y };
+        this.figureOpen = false;
+        break;
+      case 'EMR_LINETO':
+        this.draw(`${this.start()} L ${this.point(record)}`, false);
+        state.position = { x: record.x, y: record.y };
+        break;
+      case 'EMR_RECTANGLE': {
+        const { bottom, left, right, top } = record.box;
+
+        this.draw(
+          this.polygon(
+            [
+              { x: left, y: top },
+              { x: right, y: top },
+              { x: right, y: bottom },
+              { x: left, y: bottom },
+            ],
+            true
+          ),
+          true
+        );
+        break;
+      }
+      case 'EMR_ROUNDRECT':
+        this.draw(this.roundRect(record.box, record.corner.cx / 2, record.corner.cy / 2), true);
+        break;
+      case 'EMR_ELLIPSE': {
+        const { bottom, left, right, top } = record.box;
+        const rx = (right - left) / 2;
+        const ry = (bottom - top) / 2;
+
+        this.draw(`${this.arc(left + rx, top + ry, rx, ry, 0, 2 * Math.PI, true)} Z`, true);
+        break;
+      }
+      case 'EMR_ARC':
+      case 'EMR_ARCTO':
+      case 'EMR_CHORD':
+      case 'EMR_PIE':
+        this.drawArc(record.type, record.box, record.start, record.end);
+        break;
+      case 'EMR_ANGLEARC': {
+        const { center, radius } = record;
+        const start = (-record.startAngle * Math.PI) / 180;
+        const sweep = (-record.sweepAngle * Math.PI) / 180;
+        const end = { x: center.x + radius * Math.cos(start + sweep), y: center.y + radius * Math.sin(start + sweep) };
+
+        this.draw(`${this.start()} ${this.arc(center.x, center.y, radius, radius, start, sweep, false)}`, false);
+        state.position = { x: Math.round(end.x), y: Math.round(end.y) };
+        break;
+      }
+      case 'EMR_POLYGON':
+      case 'EMR_POLYGON16':
+        this.draw(this.polygon(record.points, true), true);
+        break;
+      case 'EMR_POLYLINE':
+      case 'EMR_POLYLINE16':
+        this.draw(this.polygon(record.points, false), false);
+        break;
+      case 'EMR_POLYLINETO':
+      case 'EMR_POLYLINETO16':
+        if (!record.points.length) {
+          break;
+        }
+
+        this.draw(`${this.start()} ${record.points.map((point) => `L ${this.point(point)}`).join(' ')}`, false);
+        state.position = record.points.at(-1)!;
+        break;
+      case 'EMR_POLYBEZIER':
+      case 'EMR_POLYBEZIER16':
+        if (!record.points.length) {
+          break;
+        }
+
+        this.draw(`M ${this.point(record.points[0]!)} ${this.curves(record.points.slice(1))}`, false);
+        break;
+      case 'EMR_POLYBEZIERTO':
+      case 'EMR_POLYBEZIERTO16':
+        if (!record.points.length) {
+          break;
+        }
+
+        this.draw(`${this.start()} ${this.curves(record.points)}`, false);
+        state.position = record.points.at(-1)!;
+        break;
+      case 'EMR_POLYPOLYGON':
+      case 'EMR_POLYPOLYGON16':
+        this.draw(record.polys.map((points) => this.polygon(points, true)).join(' '), true);
+        break;
+      case 'EMR_POLYPOLYLINE':
+      case 'EMR_POLYPOLYLINE16':
+        this.draw(record.polys.map((points) => this.polygon(points, false)).join(' '), false);
+        break;
+      case 'EMR_POLYDRAW':
+      case 'EMR_POLYDRAW16':
+        this.drawPolyDraw(record.points, record.types);
+        break;
+      case 'EMR_SETPIXELV': {
+        const [x, y] = this.transform(record.point);
+
+        this.emit(`<rect x="${this.number(x)}" y="${this.number(y)}" width="1" height="1" fill="${color(record.color)}"/>`);
+        break;
+      }
+      case 'EMR_BEGINPATH':
+        this.path = [];
+        this.figureOpen = false;
+        break;
+      case 'EMR_CLOSEFIGURE':
+        this.path?.push('Z');
+        this.figureOpen = false;
+        break;
+      case 'EMR_ABORTPATH':
+        this.path = null;
+        break;
+      case 'EMR_FILLPATH':
+      case 'EMR_STROKEPATH':
+      case 'EMR_STROKEANDFILLPATH': {
+        const d = this.takePath();
+
+        if (d) {
+          this.emit(`<path d="${d}" ${this.fillAttributes(record.type !== 'EMR_STROKEPATH')} ${this.strokeAttributes(record.type !== 'EMR_FILLPATH')}/>`);
+        }
+
+        break;
+      }
+      case 'EMR_SELECTCLIPPATH': {
+        const d = this.takePath();
+
+        if (d) {
+          this.combineClip({ d, rule: this.fillRule() }, record.value);
+        }
+
+        break;
+      }
+      case 'EMR_INTERSECTCLIPRECT':
+        this.combineClip({ rects: [this.deviceBox(record.box)] }, RegionCombineMode.RGN_AND);
+        break;
+      case 'EMR_EXCLUDECLIPRECT':
+        this.combineClip({ rects: [this.deviceBox(record.box)] }, RegionCombineMode.RGN_DIFF);
+        break;
+      case 'EMR_EXTSELECTCLIPRGN':
+        if (!record.region.length && record.mode === RegionCombineMode.RGN_COPY) {
+          state.clip = [];
+        } else {
+          this.combineClip({ rects: regionRects(record.region) }, record.mode);
+        }
+
+        break;
+      case 'EMR_OFFSETCLIPRGN': {
+        const [a, b, c, d] = this.matrix();
+        const dx = a * record.x + c * record.y;
+        const dy = b * record.x + d * record.y;
+
+        state.clip = state.clip.map((layer) => ('rects' in layer ? { rects: layer.rects.map(({ bottom, left, right, top }) => ({ bottom: bottom + dy, left: left + dx, right: right + dx, top: top + dy })) } : layer));
+        break;
+      }
+      case 'EMR_FILLRGN':
+      case 'EMR_PAINTRGN': {
+        const saved = state.brush;
+        const handle = record.type === 'EMR_FILLRGN' ? this.objects.get(record.brush) : undefined;
+
+        if (handle && 'brush' in handle) {
+          state.brush = handle.brush;
+        }
+
+        const d = regionRects(record.region)
+          .map(({ bottom, left, right, top }) => `M ${this.number(left)} ${this.number(top)} H ${this.number(right)} V ${this.number(bottom)} H ${this.number(left)} Z`)
+          .join(' ');
+
+        if (d) {
+          this.emit(`<path d="${d}" ${this.fillAttributes(true)} stroke="none"/>`);
+        }
+
+        state.brush = saved;
+        break;
+      }
+      case 'EMR_EXTTEXTOUTA':
+      case 'EMR_EXTTEXTOUTW':
+        this.drawText(record);
+        break;
+      case 'EMR_BITBLT':
+      case 'EMR_STRETCHBLT': {
+        const box = { height: record.cyDest, width: record.cxDest, x: record.xDest, y: record.yDest };
+        const image = record.bmi.length && this.options.images ? bitmapImage(record.bmi, record.bits) : undefined;
+
+        if (image) {
+          this.drawImage(image, box, { height: image.height, width: image.width, x: 0, y: 0 });
+        } else if (!record.bmi.length) {
+          this.drawPattern(record.rop, box);
+        }
+
+        break;
+      }
+      case 'EMR_STRETCHDIBITS': {
+        const image = this.options.images ? bitmapImage(record.bmi, record.bits) : undefined;
+
+        if (image) {
+          this.drawImage(image, { height: record.cyDest, width: record.cxDest, x: record.xDest, y: record.yDest }, this.source(record.bmi, image, record));
+        }
+
+        break;
+      }
+      case 'EMR_SETDIBITSTODEVICE': {
+        const image = this.options.images ? bitmapImage(record.bmi, record.bits) : undefined;
+
+        if (image) {
+          this.drawImage(image, { height: record.cySrc, width: record.cxSrc, x: record.xDest, y: record.yDest }, this.source(record.bmi, image, record));
+        }
+
+        break;
+      }
+    }
+  }
+
+  private select(handle: number): void {
+    if (handle & STOCK_FLAG) {
+      const index = handle & ~STOCK_FLAG;
+
+      if (StockBrushes[index]) {
+        this.state.brush = StockBrushes[index]!;
+      } else if (StockPens[index]) {
+        this.state.pen = StockPens[index]!;
+      } else if (index >= StockObject.OEM_FIXED_FONT && index <= StockObject.DEFAULT_GUI_FONT && index !== StockObject.DEFAULT_PALETTE) {
+        this.state.font = DefaultFont;
+      }
+
+      return;
+    }
+
+    const object = this.objects.get(handle);
+
+    if (object && 'brush' in object) {
+      this.state.brush = object.brush;
+    } else if (object && 'pen' in object) {
+      this.state.pen = object.pen;
+    } else if (object && 'font' in object) {
+      this.state.font = object.font;
+    }
+  }
+
+  // Coordinate spaces
+
+  private pixelsPerMillimetre(): [number, number] {
+    const { szlDevice, szlMillimeters } = this.header;
+
+    return [szlMillimeters.cx ? szlDevice.cx / szlMillimeters.cx : 96 / 25.4, szlMillimeters.cy ? szlDevice.cy / szlMillimeters.cy : 96 / 25.4];
+  }
+
+  /**
+   * Page transform (window → viewport) for the current map mode, composed after the world transform.
+   */
+  private matrix(): Matrix {
+    const { mapMode, viewportExt, viewportOrg, windowExt, windowOrg, world } = this.state;
+    let sx = 1;
+    let sy = 1;
+
+    if (mapMode === MapMode.MM_ISOTROPIC || mapMode === MapMode.MM_ANISOTROPIC) {
+      sx = viewportExt.x / (windowExt.x || 1);
+      sy = viewportExt.y / (windowExt.y || 1);
+
+      if (mapMode === MapMode.MM_ISOTROPIC) {
+        const scale = Math.min(Math.abs(sx), Math.abs(sy));
+
+        sx = Math.sign(sx) * scale;
+        sy = Math.sign(sy) * scale;
+      }
+    } else if (MetricUnits[mapMode]) {
+      const [pxPerMmX, pxPerMmY] = this.pixelsPerMillimetre();
+
+      sx = MetricUnits[mapMode]! * pxPerMmX;
+      sy = -MetricUnits[mapMode]! * pxPerMmY;
+    }
+
+    return multiply(world, [sx, 0, 0, sy, viewportOrg.x - windowOrg.x * sx, viewportOrg.y - windowOrg.y * sy]);
+  }
+
+  private transform({ x, y }: POINT, matrix: Matrix = this.matrix()): [number, number] {
+    return [matrix[0] * x + matrix[2] * y + matrix[4], matrix[1] * x + matrix[3] * y + matrix[5]];
+  }
+
+  private scale(): number {
+    const [a, b, c, d] = this.matrix();
+
+    return Math.sqrt(Math.abs(a * d - b * c));
+  }
+
+  private deviceBox({ bottom, left, right, top }: RECT): RECT {
+    const corners = [this.transform({ x: left, y: top }), this.transform({ x: right, y: bottom })];
+
+    return {
+      bottom: Math.max(corners[0]![1], corners[1]![1]),
+      left: Math.min(corners[0]![0], corners[1]![0]),
+      right: Math.max(corners[0]![0], corners[1]![0]),
+      top: Math.min(corners[0]![1], corners[1]![1]),
+    };
+  }
+
+  // Path data
+
+  private number(value: number): string {
+    return String(+value.toFixed(this.options.precision));
+  }
+
+  private point(point: POINT): string {
+    const [x, y] = this.transform(point);
+
+    return `${this.number(x)} ${this.number(y)}`;
+  }
+
+  private polygon(points: POINT[], close: boolean): string {
+    return points.length ? `M ${points.map((point) => this.point(point)).join(' L ')}${close ? ' Z' : ''}` : '';
+  }
+
+  private curves(points: POINT[]): string {
+    const segments: string[] = [];
+
+    for (let index = 0; index + 2 < points.length; index += 3) {
+      segments.push(`C ${this.point(points[index]!)} ${this.point(points[index + 1]!)} ${this.point(points[index + 2]!)}`);
+    }
+
+    return segments.join(' ');
+  }
+
+  /**
+   * `M` to the current position, unless a path figure is already open.
+   */
+  private start(): string {
+    return this.path && this.figureOpen ? '' : `M ${this.point(this.state.position)}`;
+  }
+
+  /**
+   * Elliptical arc in logical space as cubic Béziers, starting with `M` (or `L` unless `move`).
+   */
+  private arc(cx: number, cy: number, rx: number, ry: number, start: number, sweep: number, move: boolean = true): string {
+    const count = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+    const step = sweep / count;
+    const k = (4 / 3) * Math.tan(step / 4);
+    const at = (angle: number): POINT => ({ x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) });
+    const segments = [`${move ? 'M' : 'L'} ${this.point(at(start))}`];
+
+    for (let index = 0; index < count; index++) {
+      const a = start + step * index;
+      const b = a + step;
+
+      segments.push(
+        `C ${this.point({ x: cx + rx * (Math.cos(a) - k * Math.sin(a)), y: cy + ry * (Math.sin(a) + k * Math.cos(a)) })} ${this.point({
+          x: cx + rx * (Math.cos(b) + k * Math.sin(b)),
+          y: cy + ry * (Math.sin(b) - k * Math.cos(b)),
+        })} ${this.point(at(b))}`
+      );
+    }
+
+    return segments.join(' ');
+  }
+
+  private roundRect({ bottom, left, right, top }: RECT, rx: number, ry: number): string {
+    rx = Math.min(Math.abs(rx), (right - left) / 2);
+    ry = Math.min(Math.abs(ry), (bottom - top) / 2);
+
+    const h = Math.PI / 2;
+
+    return [this.arc(right - rx, top + ry, rx, ry, -h, h), this.arc(right - rx, bottom - ry, rx, ry, 0, h, false), this.arc(left + rx, bottom - ry, rx, ry, h, h, false), this.arc(left + rx, top + ry, rx, ry, 2 * h, h, false), 'Z'].join(
+      ' '
+    );
+  }
+
+  private drawArc(type: 'EMR_ARC' | 'EMR_ARCTO' | 'EMR_CHORD' | 'EMR_PIE', { bottom, left, right, top }: RECT, from: POINT, to: POINT): void {
+    const [a, b, c, d] = this.matrix();
+    const rx = (right - left) / 2;
+    const ry = (bottom - top) / 2;
+    const cx = left + rx;
+    const cy = top + ry;
+    const start = Math.atan2((from.y - cy) / (ry || 1), (from.x - cx) / (rx || 1));
+    const end = Math.atan2((to.y - cy) / (ry || 1), (to.x - cx) / (rx || 1));
+    // Arc direction is defined on screen (y down); a mirroring transform reverses it in logical space.
+    const clockwise = (this.state.arcDirection === ArcDirection.AD_CLOCKWISE) !== a * d - b * c < 0;
+    let sweep = end - start;
+
+    if (clockwise) {
+      sweep = sweep <= 0 ? sweep + 2 * Math.PI : sweep;
+    } else {
+      sweep = sweep >= 0 ? sweep - 2 * Math.PI : sweep;
+    }
+
+    const arc = this.arc(cx, cy, rx, ry, start, sweep, type !== 'EMR_ARCTO');
+
+    switch (type) {
+      case 'EMR_ARC':
+        this.draw(arc, false);
+        break;
+      case 'EMR_ARCTO':
+        this.draw(`${this.start()} ${arc}`, false);
+        this.state.position = { x: Math.round(cx + rx * Math.cos(start + sweep)), y: Math.round(cy + ry * Math.sin(start + sweep)) };
+        break;
+      case 'EMR_CHORD':
+        this.draw(`${arc} Z`, true);
+        break;
+      case 'EMR_PIE':
+        this.draw(`M ${this.point({ x: cx, y: cy })} ${arc.replace(/^M/, 'L')} Z`, true);
+        break;
+    }
+  }
+
+  private drawPolyDraw(points: POINT[], types: number[]): void {
+    if (!points.length) {
+      return;
+    }
+
+    const segments = [this.start()];
+
+    for (let index = 0; index < points.length; index++) {
+      const kind = types[index]! & ~1;
+
+      if (kind === 6) {
+        segments.push(`M ${this.point(points[index]!)}`);
+      } else if (kind === 4 && index + 2 < points.length) {
+        segments.push(this.curves(points.slice(index, index + 3)));
+        index += 2;
+      } else {
+        segments.push(`L ${this.point(points[index]!)}`);
+      }
+
+      if (types[index]! & 1) {
+        segments.push('Z');
+      }
+    }
+
+    this.draw(segments.join(' '), false);
+    this.state.position = points.at(-1)!;
+  }
+
+  /**
+   * Adds `d` to the open path bracket, or emits it with the current pen (and brush when `fill`).
+   */
+  private draw(d: string, fill: boolean): void {
+    d = d.replace(/\s+/g, ' ').trim();
+
+    if (!d) {
+      return;
+    }
+
+    if (this.path) {
+      this.path.push(d);
+      this.figureOpen = !/Z\s*$/.test(d);
+
+      return;
+    }
+
+    this.emit(`<path d="${d}" ${this.fillAttributes(fill)} ${this.strokeAttributes(true)}/>`);
+  }
+
+  private takePath(): string {
+    const d = this.path?.join(' ').trim() ?? '';
+
+    this.path = null;
+
+    return d;
+  }
+
+  // Paint
+
+  private fillRule(): string {
+    return this.state.polyFillMode === PolyFillMode.WINDING ? 'nonzero' : 'evenodd';
+  }
+
+  private fillAttributes(fill: boolean): string {
+    const { bkColor, bkMode, brush } = this.state;
+
+    if (!fill || brush.style === BrushStyle.BS_NULL) {
+      return 'fill="none"';
+    }
+
+    const rule = `fill-rule="${this.fillRule()}"`;
+
+    if (brush.style === BrushStyle.BS_HATCHED && HatchLines[brush.hatch]) {
+      const background = bkMode === BackgroundMode.OPAQUE ? color(bkColor) : 'none';
+
+      return `fill="url(#${this.pattern(`hatch:${brush.hatch}:${brush.color}:${background}`, () =>
+        [`<rect width="8" height="8" fill="${background}"/>`, `<path d="${HatchLines[brush.hatch]}" stroke="${color(brush.color)}" stroke-width="1" shape-rendering="crispEdges"/>`].join('')
+      )})" ${rule}`;
+    }
+
+    if (brush.image) {
+      const { height, uri, width } = brush.image;
+
+      return `fill="url(#${this.pattern(uri, () => `<image width="${width}" height="${height}" xlink:href="${uri}"/>`, width, height)})" ${rule}`;
+    }
+
+    return `fill="${color(brush.color)}" ${rule}`;
+  }
+
+  private pattern(key: string, content: () => string, width: number = 8, height: number = 8): string {
+    let id = this.patternIds.get(key);
+
+    if (!id) {
+      id = `pattern${this.patternIds.size + 1}`;
+
+      this.patternIds.set(key, id);
+      this.defs.push(`<pattern id="${id}" patternUnits="userSpaceOnUse" width="${width}" height="${height}">${content()}</pattern>`);
+    }
+
+    return id;
+  }
+
+  private strokeAttributes(stroke: boolean): string {
+    const { miterLimit, pen } = this.state;
+    const style = pen.style & 0xf;
+
+    if (!stroke || style === PenStyle.PS_NULL) {
+      return 'stroke="none"';
+    }
+
+    const geometric = (pen.style & PenType.PS_GEOMETRIC) !== 0 || pen.width > 1;
+    const width = geometric ? Math.max(pen.width * this.scale(), 1) : 1;
+    const cap = pen.style & 0xf00;
+    const join = pen.style & 0xf000;
+    const dashes = style === PenStyle.PS_USERSTYLE ? pen.styleEntries.map((entry) => entry * (geometric ? this.scale() : 1)) : (Dashes[style] ?? []).map((entry) => entry * (geometric ? width : 1));
+    const attributes = [`stroke="${color(pen.color)}"`, `stroke-width="${this.number(width)}"`];
+
+    attributes.push(`stroke-linecap="${cap === PenEndCap.PS_ENDCAP_FLAT ? 'butt' : cap === PenEndCap.PS_ENDCAP_SQUARE ? 'square' : 'round'}"`);
+    attributes.push(`stroke-linejoin="${join === PenJoin.PS_JOIN_BEVEL ? 'bevel' : join === PenJoin.PS_JOIN_MITER ? 'miter' : 'round'}"`);
+
+    if (join === PenJoin.PS_JOIN_MITER) {
+      attributes.push(`stroke-miterlimit="${this.number(miterLimit)}"`);
+    }
+
+    if (dashes.length) {
+      attributes.push(`stroke-dasharray="${dashes.map((entry) => this.number(entry)).join(' ')}"`);
+    }
+
+    return attributes.join(' ');
+  }
+
+  // Clipping
+
+  private combineClip(layer: ClipLayer, mode: number): void {
+    const state = this.state;
+    const last = state.clip.at(-1);
+
+    switch (mode) {
+      case RegionCombineMode.RGN_AND:
+        if ('rects' in layer && last && 'rects' in last) {
+          state.clip = [...state.clip.slice(0, -1), { rects: last.rects.flatMap((rect) => layer.rects.map((other) => intersect(rect, other)).filter((rect) => rect !== null)) }];
+        } else {
+          state.clip = [...state.clip, layer];
+        }
+
+        break;
+      case RegionCombineMode.RGN_DIFF:
+        if ('rects' in layer) {
+          const base = last && 'rects' in last ? last.rects : [{ bottom: 1e7, left: -1e7, right: 1e7, top: -1e7 }];
+          const rects = layer.rects.reduce(subtract, base);
+
+          state.clip = last && 'rects' in last ? [...state.clip.slice(0, -1), { rects }] : [...state.clip, { rects }];
+        }
+
+        break;
+      case RegionCombineMode.RGN_OR:
+      case RegionCombineMode.RGN_XOR:
+        // Unions of a bounded clip are approximated by joining the rectangle lists.
+        if ('rects' in layer && state.clip.length === 1 && last && 'rects' in last) {
+          state.clip = [{ rects: [...last.rects, ...layer.rects] }];
+        } else if (state.clip.length) {
+          state.clip = [layer];
+        }
+
+        break;
+      default:
+        state.clip = [layer];
+    }
+  }
+
+  private clipPath(): string | undefined {
+    let parent: string | undefined;
+
+    for (const layer of this.state.clip) {
+      const d = 'rects' in layer ? layer.rects.map(({ bottom, left, right, top }) => `M ${this.number(left)} ${this.number(top)} H ${this.number(right)} V ${this.number(bottom)} H ${this.number(left)} Z`).join(' ') || 'M 0 0 Z' : layer.d;
+      const rule = 'rects' in layer ? 'nonzero' : layer.rule;
+      const key = `${parent ?? ''}|${rule}|${d}`;
+      let id = this.clipIds.get(key);
+
+      if (!id) {
+        id = `clip${this.clipIds.size + 1}`;
+
+        this.clipIds.set(key, id);
+        this.defs.push(`<clipPath id="${id}"${parent ? ` clip-path="url(#${parent})"` : ''}><path d="${d}" clip-rule="${rule}"/></clipPath>`);
+      }
+
+      parent = id;
+    }
+
+    return parent;
+  }
+
+  private emit(element: string): void {
+    const clip = this.clipPath();
+
+    this.body.push(clip ? `<g clip-path="url(#${clip})">${element}</g>` : element);
+  }
+
+  // Text and images
+
+  private drawText(record: Extract<EMFRecord, { type: 'EMR_EXTTEXTOUTA' | 'EMR_EXTTEXTOUTW' }>): void {
+    const { bkColor, font, textAlign, textColor } = this.state;
+
+    if (record.options & ExtTextOutOption.ETO_OPAQUE && record.rect.right > record.rect.left) {
+      const { bottom, left, right, top } = record.rect;
+
+      this.emit(
+        `<path d="${this.polygon(
+          [
+            { x: left, y: top },
+            { x: right, y: top },
+            { x: right, y: bottom },
+            { x: left, y: bottom },
+          ],
+          true
+        )}" fill="${color(bkColor)}"/>`
+      );
+    }
+
+    // Glyph indices cannot be mapped back to characters without the font.
+    if (record.options & ExtTextOutOption.ETO_GLYPH_INDEX || !record.text) {
+      return;
+    }
+
+    const matrix = this.matrix();
+    const updateCP = (textAlign & TextAlign.TA_UPDATECP) !== 0;
+    const origin = updateCP ? this.state.position : record.reference;
+    const [x, y] = this.transform(origin, matrix);
+    const [ux, uy] = [matrix[0], matrix[1]];
+    const unit = Math.hypot(ux, uy) || 1;
+    const scale = this.scale();
+    const angle = (Math.atan2(uy, ux) * 180) / Math.PI - (font.lfEscapement ?? 0) / 10;
+
+    // Advances are per UTF-16 unit; SVG positions are per character, so fold surrogate pairs.
+    const pdy = (record.options & ExtTextOutOption.ETO_PDY) !== 0;
+    const characters: string[] = [];
+    const advances: [number, number][] = [];
+
+    for (let index = 0; index < record.text.length; index++) {
+      const code = record.text.charCodeAt(index);
+      const pair = code >= 0xd800 && code <= 0xdbff && index + 1 < record.text.length;
+      const units = pair ? 2 : 1;
+      const advance: [number, number] = [0, 0];
+
+      for (let unitIndex = index; unitIndex < index + units; unitIndex++) {
+        advance[0] += record.dx[pdy ? unitIndex * 2 : unitIndex] ?? 0;
+        advance[1] += pdy ? record.dx[unitIndex * 2 + 1] ?? 0 : 0;
+      }
+
+      characters.push(record.text.slice(index, index + units));
+      advances.push(advance);
+      index += units - 1;
+    }
+
+    const text = characters.join('').replace(/\0/g, '');
+    const total = advances.reduce((sum, [dx]) => sum + dx, 0) * unit;
+    const horizontal = textAlign & 6;
+    const vertical = textAlign & 24;
+    const attributes = [`font-size="${this.number(Math.abs(font.lfHeight || 16) * scale)}"`, `font-family="${escape(this.fontFamily(font))}"`, `fill="${color(textColor)}"`];
+
+    if ((font.lfWeight ?? 400) !== 400) {
+      attributes.push(`font-weight="${font.lfWeight}"`);
+    }
+
+    if (font.lfItalic) {
+      attributes.push('font-style="italic"');
+    }
+
+    if (font.lfUnderline || font.lfStrikeOut) {
+      attributes.push(`text-decoration="${[font.lfUnderline ? 'underline' : '', font.lfStrikeOut ? 'line-through' : ''].filter(Boolean).join(' ')}"`);
+    }
+
+    if (vertical === TextAlign.TA_BOTTOM) {
+      attributes.push('dominant-baseline="text-after-edge"');
+    } else if (vertical !== TextAlign.TA_BASELINE) {
+      attributes.push('dominant-baseline="text-before-edge"');
+    }
+
+    let positions = '';
+
+    if (record.dx.length) {
+      const start = horizontal === TextAlign.TA_RIGHT ? -total : horizontal === TextAlign.TA_CENTER ? -total / 2 : 0;
+      let cx = start;
+      let cy = 0;
+      const xs: string[] = [];
+      const ys: string[] = [];
+
+      advances.forEach(([dx, dy]) => {
+        xs.push(this.number(cx));
+        ys.push(this.number(cy));
+        cx += dx * unit;
+        cy -= dy * scale;
+      });
+
+      positions = ` x="${xs.join(' ')}"${pdy ? ` y="${ys.join(' ')}"` : ''}`;
+    } else if (horizontal === TextAlign.TA_RIGHT || horizontal === TextAlign.TA_CENTER) {
+      attributes.push(`text-anchor="${horizontal === TextAlign.TA_RIGHT ? 'end' : 'middle'}"`);
+    }
+
+    const rotate = Math.abs(angle) > 1e-6 ? ` rotate(${this.number(angle)})` : '';
+
+    this.emit(`<text transform="translate(${this.number(x)} ${this.number(y)})${rotate}"${positions} ${attributes.join(' ')} xml:space="preserve">${escape(text)}</text>`);
+
+    if (updateCP && record.dx.length) {
+      this.state.position = { x: origin.x + Math.round(total / unit), y: origin.y };
+    }
+  }
+
+  private fontFamily({ lfFaceName, lfPitchAndFamily }: Partial<LOGFONTW>): string {
+    const generic = GenericFamilies[(lfPitchAndFamily ?? 0) & 0xf0] ?? 'sans-serif';
+
+    return lfFaceName ? `'${lfFaceName.replace(/'/g, '')}', ${generic}` : generic;
+  }
+
+  /**
+   * Source rectangle of a DIB blit, converted to top-down image coordinates.
+   */
+  private source(bmi: Uint8Array, image: NonNullable<Brush['image']>, { cxSrc, cySrc, xSrc, ySrc }: { cxSrc: number; cySrc: number; xSrc: number; ySrc: number }) {
+    const bottomUp = BITMAPINFOHEADER.decode(bmi).biHeight > 0;
+
+    return { height: cySrc, width: cxSrc, x: xSrc, y: bottomUp ? image.height - ySrc - cySrc : ySrc };
+  }
+
+  private drawImage(image: NonNullable<Brush['image']>, dest: { height: number; width: number; x: number; y: number }, source: { height: number; width: number; x: number; y: number }): void {
+    if (!source.width || !source.height) {
+      return;
+    }
+
+    const matrix = this.matrix()
+      .map((value) => this.number(value))
+      .join(' ');
+    const scale = `translate(${dest.x} ${dest.y}) scale(${this.number(dest.width / source.width)} ${this.number(dest.height / source.height)})`;
+    const element = `<image width="${image.width}" height="${image.height}" preserveAspectRatio="none" xlink:href="${image.uri}"/>`;
+    const whole = !source.x && !source.y && source.width === image.width && source.height === image.height;
+    const content = whole ? element : `<svg width="${source.width}" height="${source.height}" viewBox="${source.x} ${source.y} ${source.width} ${source.height}" preserveAspectRatio="none">${element}</svg>`;
+
+    this.emit(`<g transform="matrix(${matrix}) ${scale}">${content}</g>`);
+  }
+
+  private drawPattern(rop: number, { height, width, x, y }: { height: number; width: number; x: number; y: number }): void {
+    const d = this.polygon(
+      [
+        { x, y },
+        { x: x + width, y },
+        { x: x + width, y: y + height },
+        { x, y: y + height },
+      ],
+      true
+    );
+
+    if (rop === RasterOperation.PATCOPY) {
+      this.emit(`<path d="${d}" ${this.fillAttributes(true)}/>`);
+    } else if (rop === RasterOperation.BLACKNESS || rop === RasterOperation.WHITENESS) {
+      this.emit(`<path d="${d}" fill="${rop === RasterOperation.BLACKNESS ? '#000000' : '#ffffff'}"/>`);
+    }
+  }
+}
+
+/**
+ * Renders an enhanced metafile as a standalone SVG document.
+ *
+ * Records are replayed against a simulated device context (selected pen, brush and font,
+ * world transform, map mode with window/viewport extents, clip region and the `SaveDC`/
+ * `RestoreDC` stack), so the conversion runs anywhere Bun does — no `gdi32.dll` required.
+ * Shapes become `<path>` elements in device units, text becomes `<text>`, and bitmaps are
+ * embedded as data URIs. Raster operations other than copies are not simulated.
+ *
+ * @param source Metafile bytes (e.g. from `GetEnhMetaFileBits`) or the result of `parseEMF`.
+ * @param options Output tweaks.
+ * @returns SVG markup sized from the header's `rclFrame`.
+ * @example
+ * ```ts
+ * await Bun.write('chart.svg', emfToSVG(await Bun.file('chart.emf').bytes()));
+ * ```
+ */
+export function emfToSVG(source: ArrayBuffer | ArrayBufferView | EnhancedMetafile, options: EMFToSVGOptions = {}): string {
+  const { header, records } = 'records' in source ? source : parseEMF(source);
+
+  return new EMFRenderer(header, { images: options.images ?? true, precision: options.precision ?? 2 }).render(records);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+
+import { parseEMF, serializeEMF } from './emf';
+import { PLACEABLEMETAHEADER, type WindowsMetafile, decodeWMFRecord, parseWMF, placeableChecksum, serializeWMF, upgradeWMF } from './wmf';
+
+/** WMF parameters are 16-bit words, stored in reverse order of the GDI call's arguments. */
+const words = (...values: number[]): Uint8Array => new Uint8Array(Int16Array.from(values).buffer);
+
+const Metafile: WindowsMetafile = {
+  header: { mtType: 1, mtHeaderSize: 9, mtVersion: 0x300, mtSize: 0, mtNoObjects: 0, mtMaxRecord: 0, mtNoParameters: 0 },
+  records: [
+    { data: words(0, 0), type: 'META_SETWINDOWORG' },
+    { data: words(200, 400), type: 'META_SETWINDOWEXT' },
+    { data: words(10, 20), type: 'META_MOVETO' },
+    { data: words(190, 380), type: 'META_LINETO' },
+    { data: words(150, 300, 50, 100), type: 'META_RECTANGLE' },
+    { data: words(7), type: 0x0999 },
+    { data: new Uint8Array(0), type: 'META_EOF' },
+  ],
+};
+
+describe('WMF', () => {
+  test('round-trips a metafile byte for byte', () => {
+    const data = serializeWMF(Metafile);
+    const parsed = parseWMF(data);
+
+    expect(parsed.header.mtSize * 2).toBe(data.length);
+    expect(parsed.header.mtMaxRecord).toBe(7);
+    expect(parsed.records).toEqual(Metafile.records);
+    expect(serializeWMF(parsed).equals(data)).toBe(true);
+  });
+
+  test('decodes a single record', () => {
+    const record = Buffer.from([5, 0, 0, 0, 0x13, 0x02, 1, 0, 2, 0]);
+
+    expect(decodeWMFRecord(record)).toEqual({ data: words(1, 2), type: 'META_LINETO' });
+    expect(() => decodeWMFRecord(Buffer.from([2, 0, 0, 0, 0, 0]))).toThrow(RangeError);
+  });
+
+  test('writes and verifies the placeable header checksum', () => {
+    const data = serializeWMF({ ...Metafile, placeable: { key: 0, hmf: 0, bbox: { left: 0, top: 0, right: 400, bottom: 200 }, inch: 1440, reserved: 0, checksum: 0 } });
+    const parsed = parseWMF(data);
+
+    expect(parsed.placeable?.checksum).toBe(placeableChecksum(data));
+    expect(parsed.placeable?.bbox).toEqual({ left: 0, top: 0, right: 400, bottom: 200 });
+
+    data.writeUInt16LE(parsed.placeable!.checksum ^ 1, PLACEABLEMETAHEADER.sizeof - 2);
+
+    expect(() => parseWMF(data)).toThrow(TypeError);
+    expect(parseWMF(data, { ignoreChecksum: true }).records).toEqual(Metafile.records);
+  });
+
+  test('rejects data without a METAHEADER', () => {
+    expect(() => parseWMF(new Uint8Array(18))).toThrow(TypeError);
+    expect(() => parseWMF(new Uint8Array(4))).toThrow(RangeError);
+  });
+});
+
+describe('upgradeWMF', () => {
+  test('maps records to EMF with arguments in call order', () => {
+    const { records } = upgradeWMF(serializeWMF(Metafile));
+
+    expect(records[0]?.type).toBe('EMR_HEADER');
+    expect(records.at(-1)?.type).toBe('EMR_EOF');
+    expect(records).toContainEqual({ type: 'EMR_SETWINDOWEXTEX', x: 400, y: 200 });
+    expect(records).toContainEqual({ type: 'EMR_MOVETOEX', x: 20, y: 10 });
+    expect(records).toContainEqual({ type: 'EMR_LINETO', x: 380, y: 190 });
+    expect(records).toContainEqual({ box: { left: 100, top: 50, right: 300, bottom: 150 }, type: 'EMR_RECTANGLE' });
+  });
+
+  test('produces a metafile that serializes and parses back', () => {
+    const upgraded = upgradeWMF(Metafile);
+    const data = serializeEMF(upgraded.records);
+
+    expect(parseEMF(data).records.map(({ type }) => type)).toEqual(upgraded.records.map(({ type }) => type));
+  });
+});
@@ -0,0 +1,693 @@
+import type { Pointer } from 'bun:ffi';
+
+import { MapMode, MetaRecordType, RasterOperation, RegionCombineMode } from '../constants/GDI32';
+import { readDIB } from './bmp';
+import { ByteWriter } from './bytes';
+import { ENHMETA_SIGNATURE, type EMFRecord, type EnhancedMetafile, parseEMF, serializeEMF } from './emf';
+import { ENHMETAHEADER, METAHEADER, PALETTEENTRY, type POINT, type RECT, RGNDATAHEADER, type SIZE } from './GDI32';
+import { encodeRegionData } from './region';
+import { type StructValue, defineStruct, toDataView } from './struct';
+
+/**
+ * Magic number that opens an Aldus placeable metafile (`.wmf` with a 22-byte preamble).
+ */
+export const ALDUS_PLACEABLE_KEY = 0x9ac6cdd7;
+
+// https://learn.microsoft.com/en-us/openspecs/windows_protocols/ms-wmf/3d0cf1da-cd0a-4d3e-b9ff-f4ef5a5e9f8a
+export const PLACEABLEMETAHEADER = defineStruct(
+  {
+    key: 'u32',
+    hmf: 'u16',
+    bbox: defineStruct({ left: 'i16', top: 'i16', right: 'i16', bottom: 'i16' }),
+    inch: 'u16',
+    reserved: 'u32',
+    checksum: 'u16',
+  },
+  { pack: 2 }
+);
+export type PLACEABLEMETAHEADER = StructValue<typeof PLACEABLEMETAHEADER>;
+
+type RecordName = keyof typeof MetaRecordType;
+
+/**
+ * One `METARECORD`. Known functions are named (`'META_LINETO'`, …); others keep the numeric
+ * `rdFunction`. `data` holds the `rdParm` words verbatim, so records always round-trip.
+ */
+export interface WMFRecord {
+  data: Uint8Array;
+  type: RecordName | number;
+}
+
+/**
+ * A parsed Windows metafile.
+ */
+export interface WindowsMetafile {
+  header: METAHEADER;
+  /** Present when the file starts with an Aldus placeable header. */
+  placeable?: PLACEABLEMETAHEADER;
+  /** Records in file order, including the terminating `META_EOF`. */
+  records: WMFRecord[];
+}
+
+/**
+ * Options for `parseWMF`.
+ */
+export interface ParseWMFOptions {
+  /** Accept placeable headers whose checksum does not match; defaults to `false`. */
+  ignoreChecksum?: boolean;
+}
+
+/**
+ * Options for `upgradeWMF`.
+ */
+export interface UpgradeWMFOptions {
+  /** Reference device size in pixels; defaults to 1920×1080. */
+  device?: SIZE;
+  /** Reference device size in millimetres; defaults to 508×286 (96 DPI). */
+  millimeters?: SIZE;
+}
+
+const RecordNames = new Map<number, RecordName>(Object.entries(MetaRecordType).map(([name, type]) => [type, name as RecordName]));
+
+/** `META_ESCAPE` function that carries an application comment. */
+const MFCOMMENT = 15;
+
+/**
+ * Computes the Aldus checksum: the XOR of the first ten `WORD`s of the placeable header.
+ *
+ * @param header Placeable header bytes (at least 20).
+ * @returns The 16-bit checksum.
+ */
+export function placeableChecksum(header: ArrayBufferView): number {
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  let checksum = 0;
+
+  for (let index = 0; index < 10; index++) {
+    checksum ^= view.getUint16(index * 2, true);
+  }
+
+  return checksum;
+}
+
+/**
+ * Decodes one record.
+ *
+ * @param source Record bytes, or a pointer to a `METARECORD` (e.g. inside an `MFENUMPROC`).
+ * @param byteOffset Offset of the record within `source`.
+ * @returns The decoded record.
+ */
+export function decodeWMFRecord(source: ArrayBuffer | ArrayBufferView | Pointer, byteOffset: number = 0): WMFRecord {
+  const prefix = toDataView(source, byteOffset, 6);
+  const size = prefix.getUint32(0, true) * 2;
+  const type = prefix.getUint16(4, true);
+
+  if (size < 6) {
+    throw new RangeError(`Invalid WMF record size ${size} for function 0x${type.toString(16)}.`);
+  }
+
+  const view = toDataView(source, byteOffset, size);
+
+  return { data: new Uint8Array(view.buffer, view.byteOffset + 6, size - 6).slice(), type: RecordNames.get(type) ?? type };
+}
+
+/**
+ * Parses a Windows metafile, with or without the Aldus placeable header.
+ *
+ * @param data File contents or the buffer filled by `GetMetaFileBitsEx`.
+ * @param options Parser options.
+ * @returns Header(s) and records; `serializeWMF` reproduces `data` exactly.
+ * @example
+ * ```ts
+ * const wmf = parseWMF(await Bun.file('clipart.wmf').bytes());
+ * console.log(wmf.placeable?.inch, wmf.records.map(({ type }) => type));
+ * ```
+ */
+export function parseWMF(data: ArrayBuffer | ArrayBufferView, options: ParseWMFOptions = {}): WindowsMetafile {
+  let bytes = ArrayBuffer.isView(data) ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : new Uint8Array(data);
+  let placeable: PLACEABLEMETAHEADER | undefined;
+
+  if (bytes.length >= PLACEABLEMETAHEADER.sizeof && new DataView(bytes.buffer, bytes.byteOffset).getUint32(0, true) === ALDUS_PLACEABLE_KEY) {
+    placeable = PLACEABLEMETAHEADER.decode(bytes);
+
+    if (!options.ignoreChecksum && placeableChecksum(bytes) !== placeable.checksum) {
+      throw new TypeError(`Placeable metafile checksum mismatch (0x${placeable.checksum.toString(16)}, expected 0x${placeableChecksum(bytes).toString(16)}).`);
+    }
+
+    bytes = bytes.subarray(PLACEABLEMETAHEADER.sizeof);
+  }
+
+  if (bytes.length < METAHEADER.sizeof) {
+    throw new RangeError('Truncated METAHEADER.');
+  }
+
+  const header = METAHEADER.decode(bytes);
+
+  if ((header.mtType !== 1 && header.mtType !== 2) || header.mtHeaderSize !== METAHEADER.sizeof / 2) {
+    throw new TypeError('Not a Windows metafile (invalid METAHEADER).');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = Math.min(bytes.length, header.mtSize * 2 || bytes.length);
+  const records: WMFRecord[] = [];
+
+  for (let offset = header.mtHeaderSize * 2; offset < end; ) {
+    if (offset + 6 > end) {
+      throw new RangeError(`Truncated WMF record at offset ${offset}.`);
+    }
+
+    const size = view.getUint32(offset, true) * 2;
+    const type = view.getUint16(offset + 4, true);
+
+    if (size < 6 || offset + size > end) {
+      throw new RangeError(`Invalid WMF record size ${size} at offset ${offset}.`);
+    }
+
+    records.push(decodeWMFRecord(bytes, offset));
+
+    offset += size;
+
+    if (type === MetaRecordType.META_EOF) {
+      break;
+    }
+  }
+
+  return { header, placeable, records };
+}
+
+/**
+ * Serializes a Windows metafile.
+ *
+ * `mtSize` and `mtMaxRecord` are recomputed from the records and, when a placeable header is
+ * present, so is its checksum.
+ *
+ * @param metafile Header(s) and records; records should end with `META_EOF`.
+ * @returns The file contents (pass `subarray(22)` of a placeable file to `SetMetaFileBitsEx`).
+ */
+export function serializeWMF(metafile: WindowsMetafile): Buffer {
+  const writer = new ByteWriter();
+  let maxRecord = 0;
+
+  for (const { data, type } of metafile.records) {
+    const words = 3 + Math.ceil(data.length / 2);
+
+    maxRecord = Math.max(maxRecord, words);
+    writer
+      .u32(words)
+      .u16(typeof type === 'number' ? type : MetaRecordType[type])
+      .bytes(data)
+      .pad(2);
+  }
+
+  const body = writer.toBuffer();
+  const header = METAHEADER.encode({ ...metafile.header, mtHeaderSize: METAHEADER.sizeof / 2, mtMaxRecord: maxRecord, mtSize: (METAHEADER.sizeof + body.length) / 2 });
+
+  if (!metafile.placeable) {
+    return Buffer.concat([header, body]);
+  }
+
+  const placeable = PLACEABLEMETAHEADER.encode({ ...metafile.placeable, key: ALDUS_PLACEABLE_KEY });
+
+  placeable.writeUInt16LE(placeableChecksum(placeable), PLACEABLEMETAHEADER.sizeof - 2);
+
+  return Buffer.concat([placeable, header, body]);
+}
+
+/**
+ * Converts a WMF region object (`META_CREATEREGION`) into `RGNDATA` bytes.
+ */
+const regionData = (view: DataView): Uint8Array => {
+  const scanCount = view.getInt16(10, true);
+  const rects: RECT[] = [];
+
+  for (let index = 0, offset = 22; index < scanCount && offset + 6 <= view.byteLength; index++) {
+    const count = view.getUint16(offset, true);
+    const top = view.getInt16(offset + 2, true);
+    const bottom = view.getInt16(offset + 4, true);
+
+    for (let pair = 0; pair < count / 2 && offset + 10 + pair * 4 <= view.byteLength; pair++) {
+      rects.push({ bottom, left: view.getInt16(offset + 6 + pair * 4, true), right: view.getInt16(offset + 8 + pair * 4, true), top });
+    }
+
+    offset += 8 + count * 2;
+  }
+
+  return encodeRegionData(rects);
+};
+
+const bounds = (points: POINT[]): RECT =>
+  points.length
+    ? { bottom: Math.max(...points.map(({ y }) => y)), left: Math.min(...points.map(({ x }) => x)), right: Math.max(...points.map(({ x }) => x)), top: Math.min(...points.map(({ y }) => y)) }
+    : { bottom: 0, left: 0, right: 0, top: 0 };
+
+const Identity = { eDx: 0, eDy: 0, eM11: 1, eM12: 0, eM21: 0, eM22: 1 };
+
+interface WMFObject {
+  handle: number;
+  kind: 'brush' | 'font' | 'palette' | 'pen' | 'region';
+  region?: Uint8Array;
+}
+
+/**
+ * Replays WMF records as EMF records, tracking the WMF object table and origin offsets that
+ * have no EMF counterpart.
+ */
+class WMFUpgrader {
+  public readonly output: EMFRecord[] = [];
+  private readonly objects: (WMFObject | null)[] = [];
+  private palette = 0;
+  private viewportOrg: POINT = { x: 0, y: 0 };
+  private windowOrg: POINT = { x: 0, y: 0 };
+
+  public get handles(): number {
+    return this.objects.length + 1;
+  }
+
+  public play({ data, type }: WMFRecord): void {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const word = (index: number): number => (index * 2 + 2 <= view.byteLength ? view.getInt16(index * 2, true) : 0);
+    const uword = (index: number): number => word(index) & 0xffff;
+    const dword = (index: number): number => (index * 2 + 4 <= view.byteLength ? view.getUint32(index * 2, true) : 0);
+    const box = (index: number): RECT => ({ bottom: word(index), left: word(index + 3), right: word(index + 1), top: word(index + 2) });
+    const points = (index: number, count: number): POINT[] => Array.from({ length: count }, (_, point) => ({ x: word(index + point * 2), y: word(index + point * 2 + 1) }));
+    const emit = (record: EMFRecord): void => void this.output.push(record);
+    const words = data.length / 2;
+
+    switch (type) {
+      case 'META_SAVEDC':
+        return emit({ type: 'EMR_SAVEDC' });
+      case 'META_RESTOREDC':
+        return emit({ type: 'EMR_RESTOREDC', value: word(0) });
+      case 'META_SETBKMODE':
+        return emit({ type: 'EMR_SETBKMODE', value: uword(0) });
+      case 'META_SETMAPMODE':
+        return emit({ type: 'EMR_SETMAPMODE', value: uword(0) });
+      case 'META_SETROP2':
+        return emit({ type: 'EMR_SETROP2', value: uword(0) });
+      case 'META_SETPOLYFILLMODE':
+        return emit({ type: 'EMR_SETPOLYFILLMODE', value: uword(0) });
+      case 'META_SETSTRETCHBLTMODE':
+        return emit({ type: 'EMR_SETSTRETCHBLTMODE', value: uword(0) });
+      case 'META_SETTEXTALIGN':
+        return emit({ type: 'EMR_SETTEXTALIGN', value: uword(0) });
+      case 'META_SETLAYOUT':
+        return emit({ type: 'EMR_SETLAYOUT', value: uword(0) });
+      case 'META_SETMAPPERFLAGS':
+        return emit({ type: 'EMR_SETMAPPERFLAGS', value: dword(0) });
+      case 'META_SETBKCOLOR':
+        return emit({ type: 'EMR_SETBKCOLOR', value: dword(0) });
+      case 'META_SETTEXTCOLOR':
+        return emit({ type: 'EMR_SETTEXTCOLOR', value: dword(0) });
+      case 'META_SETWINDOWORG':
+        this.windowOrg = { x: word(1), y: word(0) };
+        return emit({ type: 'EMR_SETWINDOWORGEX', ...this.windowOrg });
+      case 'META_OFFSETWINDOWORG':
+        this.windowOrg = { x: this.windowOrg.x + word(1), y: this.windowOrg.y + word(0) };
+        return emit({ type: 'EMR_SETWINDOWORGEX', ...this.windowOrg });
+      case 'META_SETVIEWPORTORG':
+        this.viewportOrg = { x: word(1), y: word(0) };
+        return emit({ type: 'EMR_SETVIEWPORTORGEX', ...this.viewportOrg });
+      case 'META_OFFSETVIEWPORTORG':
+        this.viewportOrg = { x: this.viewportOrg.x + word(1), y: this.viewportOrg.y + word(0) };
+        return emit({ type: 'EMR_SETVIEWPORTORGEX', ...this.viewportOrg });
+      case 'META_SETWINDOWEXT':
+        return emit({ type: 'EMR_SETWINDOWEXTEX', x: word(1), y: word(0) });
+      case 'META_SETVIEWPORTEXT':
+        return emit({ type: 'EMR_SETVIEWPORTEXTEX', x: word(1), y: word(0) });
+      case 'META_SCALEWINDOWEXT':
+      case 'META_SCALEVIEWPORTEXT':
+        return emit({ type: type === 'META_SCALEWINDOWEXT' ? 'EMR_SCALEWINDOWEXTEX' : 'EMR_SCALEVIEWPORTEXTEX', xDenom: word(2), xNum: word(3), yDenom: word(0), yNum: word(1) });
+      case 'META_MOVETO':
+        return emit({ type: 'EMR_MOVETOEX', x: word(1), y: word(0) });
+      case 'META_LINETO':
+        return emit({ type: 'EMR_LINETO', x: word(1), y: word(0) });
+      case 'META_OFFSETCLIPRGN':
+        return emit({ type: 'EMR_OFFSETCLIPRGN', x: word(1), y: word(0) });
+      case 'META_RECTANGLE':
+        return emit({ box: box(0), type: 'EMR_RECTANGLE' });
+      case 'META_ELLIPSE':
+        return emit({ box: box(0), type: 'EMR_ELLIPSE' });
+      case 'META_INTERSECTCLIPRECT':
+        return emit({ box: box(0), type: 'EMR_INTERSECTCLIPRECT' });
+      case 'META_EXCLUDECLIPRECT':
+        return emit({ box: box(0), type: 'EMR_EXCLUDECLIPRECT' });
+      case 'META_ROUNDRECT':
+        return emit({ box: box(2), corner: { cx: word(1), cy: word(0) }, type: 'EMR_ROUNDRECT' });
+      case 'META_ARC':
+      case 'META_CHORD':
+      case 'META_PIE':
+        return emit({ box: box(4), end: { x: word(1), y: word(0) }, start: { x: word(3), y: word(2) }, type: type === 'META_ARC' ? 'EMR_ARC' : type === 'META_CHORD' ? 'EMR_CHORD' : 'EMR_PIE' });
+      case 'META_POLYGON':
+      case 'META_POLYLINE': {
+        const list = points(1, uword(0));
+
+        return emit({ bounds: bounds(list), points: list, type: type === 'META_POLYGON' ? 'EMR_POLYGON16' : 'EMR_POLYLINE16' });
+      }
+      case 'META_POLYPOLYGON': {
+        const counts = Array.from({ length: uword(0) }, (_, index) => uword(1 + index));
+        let index = 1 + counts.length;
+        const polys = counts.map((count) => {
+          const list = points(index, count);
+
+          index += count * 2;
+
+          return list;
+        });
+
+        return emit({ bounds: bounds(polys.flat()), polys, type: 'EMR_POLYPOLYGON16' });
+      }
+      case 'META_SETPIXEL':
+        return emit({ color: dword(0), point: { x: word(3), y: word(2) }, type: 'EMR_SETPIXELV' });
+      case 'META_FLOODFILL':
+        return emit({ color: dword(0), mode: 0, point: { x: word(3), y: word(2) }, type: 'EMR_EXTFLOODFILL' });
+      case 'META_EXTFLOODFILL':
+        return emit({ color: dword(1), mode: uword(0), point: { x: word(4), y: word(3) }, type: 'EMR_EXTFLOODFILL' });
+      case 'META_TEXTOUT': {
+        const count = uword(0);
+        const index = 1 + Math.ceil(count / 2);
+
+        return this.text({ x: word(index + 1), y: word(index) }, data.subarray(2, 2 + count), 0, { bottom: 0, left: 0, right: 0, top: 0 }, []);
+      }
+      case 'META_EXTTEXTOUT': {
+        const count = uword(2);
+        const options = uword(3);
+        const clipped = options & 0x6 ? 4 : 0;
+        const start = 4 + clipped;
+        const index = start + Math.ceil(count / 2);
+        const dx = words >= index + count ? Array.from({ length: count }, (_, char) => word(index + char)) : [];
+        const rect = clipped ? { bottom: word(7), left: word(4), right: word(6), top: word(5) } : { bottom: 0, left: 0, right: 0, top: 0 };
+
+        return this.text({ x: word(1), y: word(0) }, data.subarray(start * 2, start * 2 + count), options, rect, dx);
+      }
+      case 'META_CREATEPENINDIRECT':
+        return emit({ color: dword(3), handle: this.allocate('pen'), style: uword(0), type: 'EMR_CREATEPEN', width: { x: word(1), y: word(2) } });
+      case 'META_CREATEBRUSHINDIRECT':
+        return emit({ color: dword(1), handle: this.allocate('brush'), hatch: uword(3), style: uword(0), type: 'EMR_CREATEBRUSHINDIRECT' });
+      case 'META_CREATEPATTERNBRUSH':
+        // Device-dependent Bitmap16 patterns have no EMF encoding; substitute a gray brush.
+        return emit({ color: 0x808080, handle: this.allocate('brush'), hatch: 0, style: 0, type: 'EMR_CREATEBRUSHINDIRECT' });
+      case 'META_DIBCREATEPATTERNBRUSH': {
+        const [bmi, bits] = this.dib(data.subarray(4));
+
+        return emit({ bits, bmi, handle: this.allocate('brush'), type: 'EMR_CREATEDIBPATTERNBRUSHPT', usage: uword(1) });
+      }
+      case 'META_CREATEFONTINDIRECT': {
+        const face = data.subarray(18, 50);
+        const end = face.indexOf(0);
+
+        return emit({
+          extra: new Uint8Array(0),
+          font: {
+            lfCharSet: data[13] ?? 0,
+            lfClipPrecision: data[15] ?? 0,
+            lfEscapement: word(2),
+            lfFaceName: String.fromCharCode(...face.subarray(0, end < 0 ? face.length : end)),
+            lfHeight: word(0),
+            lfItalic: data[10] ?? 0,
+            lfOrientation: word(3),
+            lfOutPrecision: data[14] ?? 0,
+            lfPitchAndFamily: data[17] ?? 0,
+            lfQuality: data[16] ?? 0,
+            lfStrikeOut: data[12] ?? 0,
+            lfUnderline: data[11] ?? 0,
+            lfWeight: word(4),
+            lfWidth: word(1),
+          },
+          handle: this.allocate('font'),
+          type: 'EMR_EXTCREATEFONTINDIRECTW',
+        });
+      }
+      case 'META_CREATEPALETTE':
+        return emit({ entries: this.entries(data, 4, uword(1)), handle: this.allocate('palette'), type: 'EMR_CREATEPALETTE', version: uword(0) });
+      case 'META_CREATEREGION':
+        this.allocate('region', regionData(view));
+        return;
+      case 'META_SELECTOBJECT': {
+        const object = this.objects[uword(0)];
+
+        if (object?.kind === 'region') {
+          return emit({ mode: RegionCombineMode.RGN_COPY, region: object.region!, type: 'EMR_EXTSELECTCLIPRGN' });
+        }
+
+        return object ? emit({ type: object.kind === 'palette' ? 'EMR_SELECTPALETTE' : 'EMR_SELECTOBJECT', value: object.handle }) : undefined;
+      }
+      case 'META_SELECTPALETTE': {
+        const object = this.objects[uword(0)];
+
+        if (object) {
+          this.palette = object.handle;
+          emit({ type: 'EMR_SELECTPALETTE', value: object.handle });
+        }
+
+        return;
+      }
+      case 'META_REALIZEPALETTE':
+        return emit({ type: 'EMR_REALIZEPALETTE' });
+      case 'META_SETPALENTRIES':
+        return emit({ entries: this.entries(data, 4, uword(1)), handle: this.palette, start: uword(0), type: 'EMR_SETPALETTEENTRIES' });
+      case 'META_RESIZEPALETTE':
+        return emit({ entries: uword(0), handle: this.palette, type: 'EMR_RESIZEPALETTE' });
+      case 'META_DELETEOBJECT': {
+        const object = this.objects[uword(0)];
+
+        if (object) {
+          this.objects[uword(0)] = null;
+
+          if (object.kind !== 'region') {
+            emit({ type: 'EMR_DELETEOBJECT', value: object.handle });
+          }
+        }
+
+        return;
+      }
+      case 'META_SELECTCLIPREGION': {
+        const object = this.objects[uword(0)];
+
+        return emit({ mode: RegionCombineMode.RGN_COPY, region: object?.kind === 'region' ? object.region! : new Uint8Array(0), type: 'EMR_EXTSELECTCLIPRGN' });
+      }
+      case 'META_FILLREGION':
+      case 'META_FRAMEREGION':
+      case 'META_INVERTREGION':
+      case 'META_PAINTREGION': {
+        const region = this.objects[uword(0)]?.region;
+
+        if (!region) {
+          return;
+        }
+
+        const brush = type === 'META_FILLREGION' || type === 'META_FRAMEREGION' ? this.objects[uword(1)]?.handle ?? 0 : 0;
+        const stroke = type === 'META_FRAMEREGION' ? { cx: word(3), cy: word(2) } : { cx: 0, cy: 0 };
+        const emfType = ({ META_FILLREGION: 'EMR_FILLRGN', META_FRAMEREGION: 'EMR_FRAMERGN', META_INVERTREGION: 'EMR_INVERTRGN', META_PAINTREGION: 'EMR_PAINTRGN' } as const)[type];
+
+        return emit({ bounds: RGNDATAHEADER.decode(region).rcBound, brush, region, stroke, type: emfType });
+      }
+      case 'META_PATBLT':
+        return this.patBlt(dword(0), { height: word(2), width: word(3), x: word(5), y: word(4) });
+      case 'META_BITBLT':
+      case 'META_DIBBITBLT':
+        // Without a bitmap the record is a plain pattern blit with a reserved word after ySrc.
+        if (words === 9) {
+          return this.patBlt(dword(0), { height: word(5), width: word(6), x: word(8), y: word(7) });
+        }
+
+        return type === 'META_DIBBITBLT' ? this.stretchDIB(data.subarray(16), dword(0), 0, { height: word(4), width: word(5), x: word(7), y: word(6) }, { height: word(4), width: word(5), x: word(3), y: word(2) }) : undefined;
+      case 'META_STRETCHBLT':
+      case 'META_DIBSTRETCHBLT':
+        if (words === 11) {
+          return this.patBlt(dword(0), { height: word(7), width: word(8), x: word(10), y: word(9) });
+        }
+
+        return type === 'META_DIBSTRETCHBLT' ? this.stretchDIB(data.subarray(20), dword(0), 0, { height: word(6), width: word(7), x: word(9), y: word(8) }, { height: word(2), width: word(3), x: word(5), y: word(4) }) : undefined;
+      case 'META_STRETCHDIB':
+        return this.stretchDIB(data.subarray(22), dword(0), uword(2), { height: word(7), width: word(8), x: word(10), y: word(9) }, { height: word(3), width: word(4), x: word(6), y: word(5) });
+      case 'META_SETDIBTODEV': {
+        const [bmi, bits] = this.dib(data.subarray(18));
+
+        return emit({
+          bits,
+          bmi,
+          bounds: { bottom: word(7) + word(5), left: word(8), right: word(8) + word(6), top: word(7) },
+          cxSrc: word(6),
+          cySrc: word(5),
+          scans: uword(1),
+          startScan: uword(2),
+          type: 'EMR_SETDIBITSTODEVICE',
+          usage: uword(0),
+          xDest: word(8),
+          xSrc: word(4),
+          yDest: word(7),
+          ySrc: word(3),
+        });
+      }
+      case 'META_ESCAPE':
+        return uword(0) === MFCOMMENT ? emit({ data: data.slice(4, 4 + uword(1)), type: 'EMR_GDICOMMENT' }) : undefined;
+    }
+  }
+
+  private allocate(kind: WMFObject['kind'], region?: Uint8Array): number {
+    let slot = this.objects.indexOf(null);
+
+    if (slot < 0) {
+      slot = this.objects.push(null) - 1;
+    }
+
+    this.objects[slot] = { handle: slot + 1, kind, region };
+
+    return slot + 1;
+  }
+
+  private entries(data: Uint8Array, offset: number, count: number) {
+    return Array.from({ length: Math.min(count, Math.floor((data.length - offset) / 4)) }, (_, index) => PALETTEENTRY.decode(data, offset + index * 4));
+  }
+
+  /**
+   * Splits a packed DIB into its `BITMAPINFO` and bits.
+   */
+  private dib(packed: Uint8Array): [Uint8Array, Uint8Array] {
+    try {
+      const { info } = readDIB(packed);
+
+      return [packed.slice(0, info.length), packed.slice(info.length)];
+    } catch {
+      return [new Uint8Array(0), new Uint8Array(0)];
+    }
+  }
+
+  private text(reference: POINT, bytes: Uint8Array, options: number, rect: RECT, dx: number[]): void {
+    this.output.push({
+      bounds: { bottom: 0, left: 0, right: 0, top: 0 },
+      dx,
+      exScale: 0,
+      eyScale: 0,
+      graphicsMode: 1,
+      options,
+      rect,
+      reference,
+      text: String.fromCharCode(...bytes),
+      type: 'EMR_EXTTEXTOUTA',
+    });
+  }
+
+  private patBlt(rop: number, { height, width, x, y }: { height: number; width: number; x: number; y: number }): void {
+    this.output.push({
+      bits: new Uint8Array(0),
+      bkColorSrc: 0,
+      bmi: new Uint8Array(0),
+      bounds: { bottom: y + height, left: x, right: x + width, top: y },
+      cxDest: width,
+      cyDest: height,
+      rop: rop || RasterOperation.PATCOPY,
+      type: 'EMR_BITBLT',
+      usageSrc: 0,
+      xDest: x,
+      xSrc: 0,
+      xformSrc: Identity,
+      yDest: y,
+      ySrc: 0,
+    });
+  }
+
+  private stretchDIB(packed: Uint8Array, rop: number, usage: number, dest: { height: number; width: number; x: number; y: number }, source: { height: number; width: number; x: number; y: number }): void {
+    const [bmi, bits] = this.dib(packed);
+
+    this.output.push({
+      bits,
+      bmi,
+      bounds: { bottom: dest.y + dest.height, left: dest.x, right: dest.x + dest.width, top: dest.y },
+      cxDest: dest.width,
+      cxSrc: source.width,
+      cyDest: dest.height,
+      cySrc: source.height,
+      rop,
+      type: 'EMR_STRETCHDIBITS',
+      usage,
+      xDest: dest.x,
+      xSrc: source.x,
+      yDest: dest.y,
+      ySrc: source.y,
+    });
+  }
+}
+
+/**
+ * Converts a Windows metafile into the enhanced-metafile record model, the way
+ * `SetWinMetaFileBits` does, so legacy files can go through `emfToSVG` and friends.
+ *
+ * Placeable files are mapped with `MM_ANISOTROPIC` from their bounding box to its physical
+ * size; plain files use their first `META_SETWINDOWEXT` at 96 DPI. WMF strings stay
+ * single-byte (`EMR_EXTTEXTOUTA`), and regions are carried over in logical units.
+ *
+ * @param source WMF bytes or the result of `parseWMF`.
+ * @param options Reference device used for the EMF header.
+ * @returns The upgraded metafile; `serializeEMF(result.records)` gives bytes for `SetEnhMetaFileBits`.
+ * @example
+ * ```ts
+ * const svg = emfToSVG(upgradeWMF(await Bun.file('legacy.wmf').bytes()));
+ * ```
+ */
+export function upgradeWMF(source: ArrayBuffer | ArrayBufferView | WindowsMetafile, options: UpgradeWMFOptions = {}): EnhancedMetafile {
+  const { placeable, records } = 'records' in source ? source : parseWMF(source);
+  const device = options.device ?? { cx: 1920, cy: 1080 };
+  const millimeters = options.millimeters ?? { cx: 508, cy: 286 };
+  const upgrader = new WMFUpgrader();
+
+  let inch = 96;
+  let window: RECT | undefined;
+
+  if (placeable) {
+    inch = placeable.inch || 1440;
+    window = placeable.bbox;
+  } else {
+    const ext = records.find(({ type }) => type === 'META_SETWINDOWEXT');
+    const org = records.find(({ type }) => type === 'META_SETWINDOWORG');
+    const word = (record: WMFRecord | undefined, index: number): number => (record && record.data.length >= index * 2 + 2 ? new DataView(record.data.buffer, record.data.byteOffset).getInt16(index * 2, true) : 0);
+
+    if (ext) {
+      window = { bottom: word(org, 0) + word(ext, 0), left: word(org, 1), right: word(org, 1) + word(ext, 1), top: word(org, 0) };
+    }
+  }
+
+  const width = window ? Math.abs(window.right - window.left) : 0;
+  const height = window ? Math.abs(window.bottom - window.top) : 0;
+  const frame = { bottom: Math.round((height * 2540) / inch), left: 0, right: Math.round((width * 2540) / inch), top: 0 };
+  const pixels = { cx: Math.round((frame.right / 100) * (device.cx / millimeters.cx)), cy: Math.round((frame.bottom / 100) * (device.cy / millimeters.cy)) };
+
+  if (window) {
+    upgrader.output.push(
+      { type: 'EMR_SETMAPMODE', value: MapMode.MM_ANISOTROPIC },
+      { type: 'EMR_SETWINDOWORGEX', x: window.left, y: window.top },
+      { type: 'EMR_SETWINDOWEXTEX', x: window.right - window.left, y: window.bottom - window.top },
+      { type: 'EMR_SETVIEWPORTORGEX', x: 0, y: 0 },
+      { type: 'EMR_SETVIEWPORTEXTEX', x: pixels.cx, y: pixels.cy }
+    );
+  }
+
+  for (const record of records) {
+    if (record.type === 'META_EOF') {
+      break;
+    }
+
+    upgrader.play(record);
+  }
+
+  const header: EMFRecord = {
+    description: '',
+    header: ENHMETAHEADER.decode(
+      ENHMETAHEADER.encode({
+        dSignature: ENHMETA_SIGNATURE,
+        iType: 1,
+        nHandles: upgrader.handles,
+        nVersion: 0x10000,
+        rclBounds: { bottom: Math.max(0, pixels.cy - 1), left: 0, right: Math.max(0, pixels.cx - 1), top: 0 },
+        rclFrame: frame,
+        szlDevice: device,
+        szlMicrometers: { cx: millimeters.cx * 1000, cy: millimeters.cy * 1000 },
+        szlMillimeters: millimeters,
+      })
+    ),
+    headerSize: 108,
+    pixelFormat: new Uint8Array(0),
+    type: 'EMR_HEADER',
+  };
+
+  return parseEMF(serializeEMF([header, ...upgrader.output, { palette: [], type: 'EMR_EOF' }]));
+}
@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'bun:test';
+
+import { WorldTransformMode } from '../constants/GDI32';
+import { XForm, combineTransform } from './xform';
+
+const close = (actual: { x: number; y: number }, expected: { x: number; y: number }) => {
+  expect(actual.x).toBeCloseTo(expected.x, 4);
+  expect(actual.y).toBeCloseTo(expected.y, 4);
+};
+
+describe('XForm', () => {
+  test('applies builder steps in order', () => {
+    const xform = XForm.identity.scale(2).translate(10, 0);
+
+    expect(xform.transformPoint({ x: 1, y: 1 })).toEqual({ x: 12, y: 2 });
+    expect(XForm.identity.translate(10, 0).scale(2).transformPoint({ x: 1, y: 1 })).toEqual({ x: 22, y: 2 });
+  });
+
+  test('rotates clockwise on screen about a center', () => {
+    close(XForm.rotation(Math.PI / 2).transformPoint({ x: 1, y: 0 }), { x: 0, y: 1 });
+    close(XForm.identity.rotate(Math.PI, 50, 50).transformPoint({ x: 0, y: 0 }), { x: 100, y: 100 });
+  });
+
+  test('shears along both axes', () => {
+    expect(XForm.shearing(0.5, 2).transformPoint({ x: 2, y: 4 })).toEqual({ x: 4, y: 8 });
+  });
+
+  test('inverts to the identity', () => {
+    const xform = XForm.identity.scale(2, 4).rotate(0.3).translate(7, -3);
+
+    expect(xform.multiply(xform.invert()).equals(XForm.identity, 1e-6)).toBe(true);
+    expect(() => XForm.scaling(0, 1).invert()).toThrow(RangeError);
+  });
+
+  test('stores FLOAT components and round-trips the 24-byte XFORM', () => {
+    const xform = new XForm(0.1, 0.2, 0.3, 0.4, 0.5, 0.6);
+    const decoded = XForm.decode(xform.encode());
+
+    expect(xform.eM11).toBe(Math.fround(0.1));
+    expect(xform.encode().length).toBe(24);
+    expect(decoded.equals(xform)).toBe(true);
+    expect(Object.isFrozen(xform)).toBe(true);
+  });
+
+  test('follows ModifyWorldTransform semantics', () => {
+    const current = XForm.translation(10, 0);
+    const scale = XForm.scaling(2);
+
+    expect(current.modify(scale, WorldTransformMode.MWT_IDENTITY).isIdentity).toBe(true);
+    expect(current.modify(scale, WorldTransformMode.MWT_LEFTMULTIPLY).transformPoint({ x: 1, y: 0 })).toEqual({ x: 12, y: 0 });
+    expect(current.modify(scale, WorldTransformMode.MWT_RIGHTMULTIPLY).transformPoint({ x: 1, y: 0 })).toEqual({ x: 22, y: 0 });
+    expect(() => current.modify(scale, 9 as WorldTransformMode)).toThrow(RangeError);
+  });
+
+  test('rounds points and rects like device mapping', () => {
+    const xform = XForm.scaling(1.5);
+
+    expect(xform.transformPoints([{ x: 1, y: 3 }])).toEqual([{ x: 2, y: 5 }]);
+    expect(xform.transformRect({ left: 1, top: 1, right: 3, bottom: 3 })).toEqual({ left: 1, top: 1, right: 5, bottom: 5 });
+    expect(XForm.rotation(Math.PI / 2).transformRect({ left: 0, top: 0, right: 10, bottom: 20 })).toEqual({ left: -20, top: 0, right: 0, bottom: 10 });
+  });
+});
+
+describe('combineTransform', () => {
+  test('applies the first transformation, then the second', () => {
+    const combined = combineTransform(XForm.translation(5, 0), XForm.scaling(3));
+
+    expect(combined).toEqual({ eM11: 3, eM12: 0, eM21: 0, eM22: 3, eDx: 15, eDy: 0 });
+  });
+
+  test('rounds components to FLOAT', () => {
+    expect(combineTransform(XForm.scaling(1 / 3), XForm.identity).eM11).toBe(Math.fround(1 / 3));
+  });
+});
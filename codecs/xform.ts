@@ -0,0 +1,229 @@
+import { WorldTransformMode } from '../constants/GDI32';
+import { type POINT, type RECT, XFORM } from './GDI32';
+import type { StructInit } from './struct';
+
+/**
+ * A point with fractional coordinates, as produced by `XForm.transformPoint`.
+ */
+export interface PointF {
+  x: number;
+  y: number;
+}
+
+/**
+ * Immutable 2-D affine transformation with the layout and semantics of GDI's `XFORM`.
+ *
+ * GDI multiplies row vectors: `x' = x * eM11 + y * eM21 + eDx`, `y' = x * eM12 + y * eM22 + eDy`.
+ * Components are stored as `FLOAT`s (rounded with `Math.fround`), so `encode`/`decode` round-trip
+ * exactly and values match what `GetWorldTransform` reports.
+ *
+ * The builder methods (`translate`, `scale`, `rotate`, `shear`) apply their operation after this
+ * transformation, i.e. `a.translate(x, y)` is `a.multiply(XForm.translation(x, y))`.
+ *
+ * @example
+ * ```ts
+ * const xform = XForm.identity.translate(-50, -50).rotate(Math.PI / 4).translate(50, 50);
+ * GDI32.SetGraphicsMode(hdc, GraphicsMode.GM_ADVANCED);
+ * GDI32.SetWorldTransform(hdc, xform.encode().ptr);
+ * ```
+ */
+export class XForm implements XFORM {
+  public static readonly identity = new XForm();
+
+  public readonly eDx: number;
+  public readonly eDy: number;
+  public readonly eM11: number;
+  public readonly eM12: number;
+  public readonly eM21: number;
+  public readonly eM22: number;
+
+  constructor(eM11: number = 1, eM12: number = 0, eM21: number = 0, eM22: number = 1, eDx: number = 0, eDy: number = 0) {
+    this.eM11 = Math.fround(eM11);
+    this.eM12 = Math.fround(eM12);
+    this.eM21 = Math.fround(eM21);
+    this.eM22 = Math.fround(eM22);
+    this.eDx = Math.fround(eDx);
+    this.eDy = Math.fround(eDy);
+    Object.freeze(this);
+  }
+
+  /**
+   * Wraps a decoded `XFORM`; missing components default to the identity's.
+   */
+  public static from(xform: StructInit<XFORM>): XForm {
+    return xform instanceof XForm ? xform : new XForm(xform.eM11 ?? 1, xform.eM12 ?? 0, xform.eM21 ?? 0, xform.eM22 ?? 1, xform.eDx ?? 0, xform.eDy ?? 0);
+  }
+
+  /**
+   * Reads a 24-byte `XFORM` (e.g. from `GetWorldTransform` or an EMF record).
+   */
+  public static decode(source: ArrayBuffer | ArrayBufferView, byteOffset: number = 0): XForm {
+    return XForm.from(XFORM.decode(source, byteOffset));
+  }
+
+  public static translation(dx: number, dy: number): XForm {
+    return new XForm(1, 0, 0, 1, dx, dy);
+  }
+
+  public static scaling(sx: number, sy: number = sx): XForm {
+    return new XForm(sx, 0, 0, sy);
+  }
+
+  /**
+   * Rotation by `radians` about the origin. GDI's y axis points down, so positive angles turn
+   * clockwise on screen.
+   */
+  public static rotation(radians: number): XForm {
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+
+    return new XForm(cos, sin, -sin, cos);
+  }
+
+  /**
+   * Shear: `x' = x + y * sx`, `y' = y + x * sy`.
+   */
+  public static shearing(sx: number, sy: number = 0): XForm {
+    return new XForm(1, sy, sx, 1);
+  }
+
+  /** `eM11 * eM22 - eM12 * eM21`; zero for singular transformations. */
+  public get determinant(): number {
+    return this.eM11 * this.eM22 - this.eM12 * this.eM21;
+  }
+
+  public get isIdentity(): boolean {
+    return this.equals(XForm.identity);
+  }
+
+  /**
+   * This transformation followed by `other` (`CombineTransform(out, this, other)`).
+   */
+  public multiply(other: XFORM): XForm {
+    return XForm.from(combineTransform(this, other));
+  }
+
+  public translate(dx: number, dy: number): XForm {
+    return this.multiply(XForm.translation(dx, dy));
+  }
+
+  public scale(sx: number, sy: number = sx): XForm {
+    return this.multiply(XForm.scaling(sx, sy));
+  }
+
+  /**
+   * Rotates by `radians` about (`cx`, `cy`), after this transformation.
+   */
+  public rotate(radians: number, cx: number = 0, cy: number = 0): XForm {
+    return cx || cy ? this.translate(-cx, -cy).multiply(XForm.rotation(radians)).translate(cx, cy) : this.multiply(XForm.rotation(radians));
+  }
+
+  public shear(sx: number, sy: number = 0): XForm {
+    return this.multiply(XForm.shearing(sx, sy));
+  }
+
+  /**
+   * The inverse transformation.
+   *
+   * @throws RangeError when the transformation is singular.
+   */
+  public invert(): XForm {
+    const determinant = this.determinant;
+
+    if (!determinant || !Number.isFinite(determinant)) {
+      throw new RangeError(`${this} is not invertible.`);
+    }
+
+    const { eDx, eDy, eM11, eM12, eM21, eM22 } = this;
+
+    return new XForm(eM22 / determinant, -eM12 / determinant, -eM21 / determinant, eM11 / determinant, (eM21 * eDy - eM22 * eDx) / determinant, (eM12 * eDx - eM11 * eDy) / determinant);
+  }
+
+  /**
+   * `ModifyWorldTransform` semantics: `MWT_IDENTITY` resets, `MWT_LEFTMULTIPLY` applies `xform`
+   * before this transformation, `MWT_RIGHTMULTIPLY` after it.
+   */
+  public modify(xform: XFORM, mode: WorldTransformMode): XForm {
+    switch (mode) {
+      case WorldTransformMode.MWT_IDENTITY:
+        return XForm.identity;
+      case WorldTransformMode.MWT_LEFTMULTIPLY:
+        return XForm.from(combineTransform(xform, this));
+      case WorldTransformMode.MWT_RIGHTMULTIPLY:
+        return this.multiply(xform);
+      default:
+        throw new RangeError(`Unknown world transform mode ${mode}.`);
+    }
+  }
+
+  public transformPoint({ x, y }: PointF): PointF {
+    return { x: x * this.eM11 + y * this.eM21 + this.eDx, y: x * this.eM12 + y * this.eM22 + this.eDy };
+  }
+
+  /**
+   * Transforms points and rounds them to integers, as GDI does when mapping to device space.
+   */
+  public transformPoints(points: readonly POINT[]): POINT[] {
+    return points.map((point) => {
+      const { x, y } = this.transformPoint(point);
+
+      return { x: Math.round(x), y: Math.round(y) };
+    });
+  }
+
+  /**
+   * The bounding box of the transformed rectangle (rounded outwards).
+   */
+  public transformRect({ bottom, left, right, top }: RECT): RECT {
+    const corners = [
+      { x: left, y: top },
+      { x: right, y: top },
+      { x: right, y: bottom },
+      { x: left, y: bottom },
+    ].map((point) => this.transformPoint(point));
+    // FLOAT components leave noise like 10.0000001; snap it before rounding outwards.
+    const snap = (value: number): number => (Math.abs(value - Math.round(value)) < 1e-4 ? Math.round(value) : value);
+    const xs = corners.map(({ x }) => snap(x));
+    const ys = corners.map(({ y }) => snap(y));
+
+    return { left: Math.floor(Math.min(...xs)), top: Math.floor(Math.min(...ys)), right: Math.ceil(Math.max(...xs)), bottom: Math.ceil(Math.max(...ys)) };
+  }
+
+  public equals(other: XFORM, epsilon: number = 0): boolean {
+    return (['eM11', 'eM12', 'eM21', 'eM22', 'eDx', 'eDy'] as const).every((key) => Math.abs(this[key] - other[key]) <= epsilon);
+  }
+
+  /**
+   * The 24-byte `XFORM` for `SetWorldTransform`, `ModifyWorldTransform` or `CombineTransform`.
+   */
+  public encode(): Buffer {
+    return XFORM.encode(this);
+  }
+
+  public toJSON(): XFORM {
+    return { eM11: this.eM11, eM12: this.eM12, eM21: this.eM21, eM22: this.eM22, eDx: this.eDx, eDy: this.eDy };
+  }
+
+  public toString(): string {
+    return `XForm(${this.eM11}, ${this.eM12}, ${this.eM21}, ${this.eM22}, ${this.eDx}, ${this.eDy})`;
+  }
+}
+
+/**
+ * Pure-JS `CombineTransform`: the transformation that applies `a`, then `b`, with components
+ * rounded to `FLOAT`.
+ *
+ * @param a First transformation (`lpxf1`).
+ * @param b Second transformation (`lpxf2`).
+ * @returns `a × b`.
+ */
+export function combineTransform(a: XFORM, b: XFORM): XFORM {
+  return {
+    eM11: Math.fround(a.eM11 * b.eM11 + a.eM12 * b.eM21),
+    eM12: Math.fround(a.eM11 * b.eM12 + a.eM12 * b.eM22),
+    eM21: Math.fround(a.eM21 * b.eM11 + a.eM22 * b.eM21),
+    eM22: Math.fround(a.eM21 * b.eM12 + a.eM22 * b.eM22),
+    eDx: Math.fround(a.eDx * b.eM11 + a.eDy * b.eM21 + b.eDx),
+    eDy: Math.fround(a.eDx * b.eM12 + a.eDy * b.eM22 + b.eDy),
+  };
+}
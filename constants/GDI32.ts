@@ -0,0 +1,752 @@
+import type { Pointer } from 'bun:ffi';
+
+/**
+ * Typed constants for the flag families accepted by `GDI32` static methods.
+ *
+ * Each family is exported twice under the same name: as a plain `as const` object of the
+ * `wingdi.h` values and as the literal union of those values. Methods whose parameter
+ * belongs to a closed family are typed with the union, so values from the wrong family
+ * fail to type-check. Open families, such as the ternary raster operations that also take
+ * `RasterOperationFlag` bits or unnamed ROP codes, accept any `DWORD` next to the union.
+ *
+ * @example
+ * ```ts
+ * import GDI32, { PenStyle, StockObject } from 'bun-gdi32';
+ *
+ * const hPen = GDI32.CreatePen(PenStyle.PS_SOLID, 2, 0x00ff00);
+ * const hBrush = GDI32.GetStockObject(StockObject.NULL_BRUSH);
+ * ```
+ */
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-setarcdirection
+export const ArcDirection = {
+  AD_COUNTERCLOCKWISE: 1,
+  AD_CLOCKWISE: 2,
+} as const;
+
+export type ArcDirection = (typeof ArcDirection)[keyof typeof ArcDirection];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-setbkmode
+export const BackgroundMode = {
+  TRANSPARENT: 1,
+  OPAQUE: 2,
+} as const;
+
+export type BackgroundMode = (typeof BackgroundMode)[keyof typeof BackgroundMode];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-setrop2
+export const BinaryRasterOperation = {
+  R2_BLACK: 1,
+  R2_NOTMERGEPEN: 2,
+  R2_MASKNOTPEN: 3,
+  R2_NOTCOPYPEN: 4,
+  R2_MASKPENNOT: 5,
+  R2_NOT: 6,
+  R2_XORPEN: 7,
+  R2_NOTMASKPEN: 8,
+  R2_MASKPEN: 9,
+  R2_NOTXORPEN: 10,
+  R2_NOP: 11,
+  R2_MERGENOTPEN: 12,
+  R2_COPYPEN: 13,
+  R2_MERGEPENNOT: 14,
+  R2_MERGEPEN: 15,
+  R2_WHITE: 16,
+} as const;
+
+export type BinaryRasterOperation = (typeof BinaryRasterOperation)[keyof typeof BinaryRasterOperation];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-bitmapinfoheader
+export const BitmapCompression = {
+  BI_RGB: 0,
+  BI_RLE8: 1,
+  BI_RLE4: 2,
+  BI_BITFIELDS: 3,
+  BI_JPEG: 4,
+  BI_PNG: 5,
+} as const;
+
+export type BitmapCompression = (typeof BitmapCompression)[keyof typeof BitmapCompression];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-logbrush
+export const BrushStyle = {
+  BS_SOLID: 0,
+  BS_NULL: 1,
+  BS_HOLLOW: 1,
+  BS_HATCHED: 2,
+  BS_PATTERN: 3,
+  BS_INDEXED: 4,
+  BS_DIBPATTERN: 5,
+  BS_DIBPATTERNPT: 6,
+  BS_PATTERN8X8: 7,
+  BS_DIBPATTERN8X8: 8,
+  BS_MONOPATTERN: 9,
+} as const;
+
+export type BrushStyle = (typeof BrushStyle)[keyof typeof BrushStyle];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-getcharacterplacementw
+export const CharacterPlacementFlag = {
+  GCP_DBCS: 0x0001,
+  GCP_REORDER: 0x0002,
+  GCP_USEKERNING: 0x0008,
+  GCP_GLYPHSHAPE: 0x0010,
+  GCP_LIGATE: 0x0020,
+  GCP_DIACRITIC: 0x0100,
+  GCP_KASHIDA: 0x0400,
+  GCP_ERROR: 0x8000,
+  GCP_JUSTIFY: 0x00010000,
+  GCP_CLASSIN: 0x00080000,
+  GCP_MAXEXTENT: 0x00100000,
+  GCP_JUSTIFYIN: 0x00200000,
+  GCP_DISPLAYZWG: 0x00400000,
+  GCP_SYMSWAPOFF: 0x00800000,
+  GCP_NUMERICOVERRIDE: 0x01000000,
+  GCP_NEUTRALOVERRIDE: 0x02000000,
+  GCP_NUMERICSLATIN: 0x04000000,
+  GCP_NUMERICSLOCAL: 0x08000000,
+} as const;
+
+export type CharacterPlacementFlag = (typeof CharacterPlacementFlag)[keyof typeof CharacterPlacementFlag];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-logfontw
+export const CharSet = {
+  ANSI_CHARSET: 0,
+  DEFAULT_CHARSET: 1,
+  SYMBOL_CHARSET: 2,
+  MAC_CHARSET: 77,
+  SHIFTJIS_CHARSET: 128,
+  HANGUL_CHARSET: 129,
+  JOHAB_CHARSET: 130,
+  GB2312_CHARSET: 134,
+  CHINESEBIG5_CHARSET: 136,
+  GREEK_CHARSET: 161,
+  TURKISH_CHARSET: 162,
+  VIETNAMESE_CHARSET: 163,
+  HEBREW_CHARSET: 177,
+  ARABIC_CHARSET: 178,
+  BALTIC_CHARSET: 186,
+  RUSSIAN_CHARSET: 204,
+  THAI_CHARSET: 222,
+  EASTEUROPE_CHARSET: 238,
+  OEM_CHARSET: 255,
+} as const;
+
+export type CharSet = (typeof CharSet)[keyof typeof CharSet];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-getdevicecaps
+export const DeviceCap = {
+  DRIVERVERSION: 0,
+  TECHNOLOGY: 2,
+  HORZSIZE: 4,
+  VERTSIZE: 6,
+  HORZRES: 8,
+  VERTRES: 10,
+  BITSPIXEL: 12,
+  PLANES: 14,
+  NUMBRUSHES: 16,
+  NUMPENS: 18,
+  NUMMARKERS: 20,
+  NUMFONTS: 22,
+  NUMCOLORS: 24,
+  PDEVICESIZE: 26,
+  CURVECAPS: 28,
+  LINECAPS: 30,
+  POLYGONALCAPS: 32,
+  TEXTCAPS: 34,
+  CLIPCAPS: 36,
+  RASTERCAPS: 38,
+  ASPECTX: 40,
+  ASPECTY: 42,
+  ASPECTXY: 44,
+  LOGPIXELSX: 88,
+  LOGPIXELSY: 90,
+  SIZEPALETTE: 104,
+  NUMRESERVED: 106,
+  COLORRES: 108,
+  PHYSICALWIDTH: 110,
+  PHYSICALHEIGHT: 111,
+  PHYSICALOFFSETX: 112,
+  PHYSICALOFFSETY: 113,
+  SCALINGFACTORX: 114,
+  SCALINGFACTORY: 115,
+  VREFRESH: 116,
+  DESKTOPVERTRES: 117,
+  DESKTOPHORZRES: 118,
+  BLTALIGNMENT: 119,
+  SHADEBLENDCAPS: 120,
+  COLORMGMTCAPS: 121,
+} as const;
+
+export type DeviceCap = (typeof DeviceCap)[keyof typeof DeviceCap];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-createdibsection
+export const DIBUsage = {
+  DIB_RGB_COLORS: 0,
+  DIB_PAL_COLORS: 1,
+} as const;
+
+export type DIBUsage = (typeof DIBUsage)[keyof typeof DIBUsage];
+
+// https://learn.microsoft.com/en-us/openspecs/windows_protocols/ms-emf/1eec80ba-799b-4784-a9ac-91597d590ae1
+export const EnhancedMetaRecordType = {
+  EMR_HEADER: 1,
+  EMR_POLYBEZIER: 2,
+  EMR_POLYGON: 3,
+  EMR_POLYLINE: 4,
+  EMR_POLYBEZIERTO: 5,
+  EMR_POLYLINETO: 6,
+  EMR_POLYPOLYLINE: 7,
+  EMR_POLYPOLYGON: 8,
+  EMR_SETWINDOWEXTEX: 9,
+  EMR_SETWINDOWORGEX: 10,
+  EMR_SETVIEWPORTEXTEX: 11,
+  EMR_SETVIEWPORTORGEX: 12,
+  EMR_SETBRUSHORGEX: 13,
+  EMR_EOF: 14,
+  EMR_SETPIXELV: 15,
+  EMR_SETMAPPERFLAGS: 16,
+  EMR_SETMAPMODE: 17,
+  EMR_SETBKMODE: 18,
+  EMR_SETPOLYFILLMODE: 19,
+  EMR_SETROP2: 20,
+  EMR_SETSTRETCHBLTMODE: 21,
+  EMR_SETTEXTALIGN: 22,
+  EMR_SETCOLORADJUSTMENT: 23,
+  EMR_SETTEXTCOLOR: 24,
+  EMR_SETBKCOLOR: 25,
+  EMR_OFFSETCLIPRGN: 26,
+  EMR_MOVETOEX: 27,
+  EMR_SETMETARGN: 28,
+  EMR_EXCLUDECLIPRECT: 29,
+  EMR_INTERSECTCLIPRECT: 30,
+  EMR_SCALEVIEWPORTEXTEX: 31,
+  EMR_SCALEWINDOWEXTEX: 32,
+  EMR_SAVEDC: 33,
+  EMR_RESTOREDC: 34,
+  EMR_SETWORLDTRANSFORM: 35,
+  EMR_MODIFYWORLDTRANSFORM: 36,
+  EMR_SELECTOBJECT: 37,
+  EMR_CREATEPEN: 38,
+  EMR_CREATEBRUSHINDIRECT: 39,
+  EMR_DELETEOBJECT: 40,
+  EMR_ANGLEARC: 41,
+  EMR_ELLIPSE: 42,
+  EMR_RECTANGLE: 43,
+  EMR_ROUNDRECT: 44,
+  EMR_ARC: 45,
+  EMR_CHORD: 46,
+  EMR_PIE: 47,
+  EMR_SELECTPALETTE: 48,
+  EMR_CREATEPALETTE: 49,
+  EMR_SETPALETTEENTRIES: 50,
+  EMR_RESIZEPALETTE: 51,
+  EMR_REALIZEPALETTE: 52,
+  EMR_EXTFLOODFILL: 53,
+  EMR_LINETO: 54,
+  EMR_ARCTO: 55,
+  EMR_POLYDRAW: 56,
+  EMR_SETARCDIRECTION: 57,
+  EMR_SETMITERLIMIT: 58,
+  EMR_BEGINPATH: 59,
+  EMR_ENDPATH: 60,
+  EMR_CLOSEFIGURE: 61,
+  EMR_FILLPATH: 62,
+  EMR_STROKEANDFILLPATH: 63,
+  EMR_STROKEPATH: 64,
+  EMR_FLATTENPATH: 65,
+  EMR_WIDENPATH: 66,
+  EMR_SELECTCLIPPATH: 67,
+  EMR_ABORTPATH: 68,
+  EMR_GDICOMMENT: 70,
+  EMR_FILLRGN: 71,
+  EMR_FRAMERGN: 72,
+  EMR_INVERTRGN: 73,
+  EMR_PAINTRGN: 74,
+  EMR_EXTSELECTCLIPRGN: 75,
+  EMR_BITBLT: 76,
+  EMR_STRETCHBLT: 77,
+  EMR_MASKBLT: 78,
+  EMR_PLGBLT: 79,
+  EMR_SETDIBITSTODEVICE: 80,
+  EMR_STRETCHDIBITS: 81,
+  EMR_EXTCREATEFONTINDIRECTW: 82,
+  EMR_EXTTEXTOUTA: 83,
+  EMR_EXTTEXTOUTW: 84,
+  EMR_POLYBEZIER16: 85,
+  EMR_POLYGON16: 86,
+  EMR_POLYLINE16: 87,
+  EMR_POLYBEZIERTO16: 88,
+  EMR_POLYLINETO16: 89,
+  EMR_POLYPOLYLINE16: 90,
+  EMR_POLYPOLYGON16: 91,
+  EMR_POLYDRAW16: 92,
+  EMR_CREATEMONOBRUSH: 93,
+  EMR_CREATEDIBPATTERNBRUSHPT: 94,
+  EMR_EXTCREATEPEN: 95,
+  EMR_POLYTEXTOUTA: 96,
+  EMR_POLYTEXTOUTW: 97,
+  EMR_SETICMMODE: 98,
+  EMR_CREATECOLORSPACE: 99,
+  EMR_SETCOLORSPACE: 100,
+  EMR_DELETECOLORSPACE: 101,
+  EMR_GLSRECORD: 102,
+  EMR_GLSBOUNDEDRECORD: 103,
+  EMR_PIXELFORMAT: 104,
+  EMR_DRAWESCAPE: 105,
+  EMR_EXTESCAPE: 106,
+  EMR_SMALLTEXTOUT: 108,
+  EMR_FORCEUFIMAPPING: 109,
+  EMR_NAMEDESCAPE: 110,
+  EMR_COLORCORRECTPALETTE: 111,
+  EMR_SETICMPROFILEA: 112,
+  EMR_SETICMPROFILEW: 113,
+  EMR_ALPHABLEND: 114,
+  EMR_SETLAYOUT: 115,
+  EMR_TRANSPARENTBLT: 116,
+  EMR_GRADIENTFILL: 118,
+  EMR_SETLINKEDUFIS: 119,
+  EMR_SETTEXTJUSTIFICATION: 120,
+  EMR_COLORMATCHTOTARGETW: 121,
+  EMR_CREATECOLORSPACEW: 122,
+} as const;
+
+export type EnhancedMetaRecordType = (typeof EnhancedMetaRecordType)[keyof typeof EnhancedMetaRecordType];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-exttextoutw
+export const ExtTextOutOption = {
+  ETO_OPAQUE: 0x0002,
+  ETO_CLIPPED: 0x0004,
+  ETO_GLYPH_INDEX: 0x0010,
+  ETO_RTLREADING: 0x0080,
+  ETO_NUMERICSLOCAL: 0x0400,
+  ETO_NUMERICSLATIN: 0x0800,
+  ETO_IGNORELANGUAGE: 0x1000,
+  ETO_PDY: 0x2000,
+} as const;
+
+export type ExtTextOutOption = (typeof ExtTextOutOption)[keyof typeof ExtTextOutOption];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-logfontw
+export const FontFamily = {
+  FF_DONTCARE: 0x00,
+  FF_ROMAN: 0x10,
+  FF_SWISS: 0x20,
+  FF_MODERN: 0x30,
+  FF_SCRIPT: 0x40,
+  FF_DECORATIVE: 0x50,
+} as const;
+
+export type FontFamily = (typeof FontFamily)[keyof typeof FontFamily];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-logfontw
+export const FontPitch = {
+  DEFAULT_PITCH: 0,
+  FIXED_PITCH: 1,
+  VARIABLE_PITCH: 2,
+  MONO_FONT: 8,
+} as const;
+
+export type FontPitch = (typeof FontPitch)[keyof typeof FontPitch];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-logfontw
+export const FontQuality = {
+  DEFAULT_QUALITY: 0,
+  DRAFT_QUALITY: 1,
+  PROOF_QUALITY: 2,
+  NONANTIALIASED_QUALITY: 3,
+  ANTIALIASED_QUALITY: 4,
+  CLEARTYPE_QUALITY: 5,
+  CLEARTYPE_NATURAL_QUALITY: 6,
+} as const;
+
+export type FontQuality = (typeof FontQuality)[keyof typeof FontQuality];
+
+// https://learn.microsoft.com/en-us/previous-versions/dd162618(v=vs.85)
+export const FontType = {
+  RASTER_FONTTYPE: 0x0001,
+  DEVICE_FONTTYPE: 0x0002,
+  TRUETYPE_FONTTYPE: 0x0004,
+} as const;
+
+export type FontType = (typeof FontType)[keyof typeof FontType];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-logfontw
+export const FontWeight = {
+  FW_DONTCARE: 0,
+  FW_THIN: 100,
+  FW_EXTRALIGHT: 200,
+  FW_ULTRALIGHT: 200,
+  FW_LIGHT: 300,
+  FW_NORMAL: 400,
+  FW_REGULAR: 400,
+  FW_MEDIUM: 500,
+  FW_SEMIBOLD: 600,
+  FW_DEMIBOLD: 600,
+  FW_BOLD: 700,
+  FW_EXTRABOLD: 800,
+  FW_ULTRABOLD: 800,
+  FW_HEAVY: 900,
+  FW_BLACK: 900,
+} as const;
+
+export type FontWeight = (typeof FontWeight)[keyof typeof FontWeight];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-getglyphoutlinew
+export const GlyphOutlineFormat = {
+  GGO_METRICS: 0,
+  GGO_BITMAP: 1,
+  GGO_NATIVE: 2,
+  GGO_BEZIER: 3,
+  GGO_GRAY2_BITMAP: 4,
+  GGO_GRAY4_BITMAP: 5,
+  GGO_GRAY8_BITMAP: 6,
+  GGO_GLYPH_INDEX: 0x0080,
+  GGO_UNHINTED: 0x0100,
+} as const;
+
+export type GlyphOutlineFormat = (typeof GlyphOutlineFormat)[keyof typeof GlyphOutlineFormat];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-setgraphicsmode
+export const GraphicsMode = {
+  GM_COMPATIBLE: 1,
+  GM_ADVANCED: 2,
+} as const;
+
+export type GraphicsMode = (typeof GraphicsMode)[keyof typeof GraphicsMode];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-createhatchbrush
+export const HatchStyle = {
+  HS_HORIZONTAL: 0,
+  HS_VERTICAL: 1,
+  HS_FDIAGONAL: 2,
+  HS_BDIAGONAL: 3,
+  HS_CROSS: 4,
+  HS_DIAGCROSS: 5,
+} as const;
+
+export type HatchStyle = (typeof HatchStyle)[keyof typeof HatchStyle];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-setmapmode
+export const MapMode = {
+  MM_TEXT: 1,
+  MM_LOMETRIC: 2,
+  MM_HIMETRIC: 3,
+  MM_LOENGLISH: 4,
+  MM_HIENGLISH: 5,
+  MM_TWIPS: 6,
+  MM_ISOTROPIC: 7,
+  MM_ANISOTROPIC: 8,
+} as const;
+
+export type MapMode = (typeof MapMode)[keyof typeof MapMode];
+
+// https://learn.microsoft.com/en-us/openspecs/windows_protocols/ms-wmf/f906a680-0d66-4d2c-a5b1-4bd5a2b80f3a
+export const MetaRecordType = {
+  META_EOF: 0x0000,
+  META_SAVEDC: 0x001e,
+  META_REALIZEPALETTE: 0x0035,
+  META_SETPALENTRIES: 0x0037,
+  META_CREATEPALETTE: 0x00f7,
+  META_SETBKMODE: 0x0102,
+  META_SETMAPMODE: 0x0103,
+  META_SETROP2: 0x0104,
+  META_SETRELABS: 0x0105,
+  META_SETPOLYFILLMODE: 0x0106,
+  META_SETSTRETCHBLTMODE: 0x0107,
+  META_SETTEXTCHAREXTRA: 0x0108,
+  META_RESTOREDC: 0x0127,
+  META_INVERTREGION: 0x012a,
+  META_PAINTREGION: 0x012b,
+  META_SELECTCLIPREGION: 0x012c,
+  META_SELECTOBJECT: 0x012d,
+  META_SETTEXTALIGN: 0x012e,
+  META_RESIZEPALETTE: 0x0139,
+  META_DIBCREATEPATTERNBRUSH: 0x0142,
+  META_SETLAYOUT: 0x0149,
+  META_DELETEOBJECT: 0x01f0,
+  META_CREATEPATTERNBRUSH: 0x01f9,
+  META_SETBKCOLOR: 0x0201,
+  META_SETTEXTCOLOR: 0x0209,
+  META_SETTEXTJUSTIFICATION: 0x020a,
+  META_SETWINDOWORG: 0x020b,
+  META_SETWINDOWEXT: 0x020c,
+  META_SETVIEWPORTORG: 0x020d,
+  META_SETVIEWPORTEXT: 0x020e,
+  META_OFFSETWINDOWORG: 0x020f,
+  META_OFFSETVIEWPORTORG: 0x0211,
+  META_LINETO: 0x0213,
+  META_MOVETO: 0x0214,
+  META_OFFSETCLIPRGN: 0x0220,
+  META_FILLREGION: 0x0228,
+  META_SETMAPPERFLAGS: 0x0231,
+  META_SELECTPALETTE: 0x0234,
+  META_CREATEPENINDIRECT: 0x02fa,
+  META_CREATEFONTINDIRECT: 0x02fb,
+  META_CREATEBRUSHINDIRECT: 0x02fc,
+  META_POLYGON: 0x0324,
+  META_POLYLINE: 0x0325,
+  META_SCALEWINDOWEXT: 0x0410,
+  META_SCALEVIEWPORTEXT: 0x0412,
+  META_EXCLUDECLIPRECT: 0x0415,
+  META_INTERSECTCLIPRECT: 0x0416,
+  META_ELLIPSE: 0x0418,
+  META_FLOODFILL: 0x0419,
+  META_RECTANGLE: 0x041b,
+  META_SETPIXEL: 0x041f,
+  META_FRAMEREGION: 0x0429,
+  META_ANIMATEPALETTE: 0x0436,
+  META_TEXTOUT: 0x0521,
+  META_POLYPOLYGON: 0x0538,
+  META_EXTFLOODFILL: 0x0548,
+  META_ROUNDRECT: 0x061c,
+  META_PATBLT: 0x061d,
+  META_ESCAPE: 0x0626,
+  META_CREATEREGION: 0x06ff,
+  META_ARC: 0x0817,
+  META_PIE: 0x081a,
+  META_CHORD: 0x0830,
+  META_BITBLT: 0x0922,
+  META_DIBBITBLT: 0x0940,
+  META_EXTTEXTOUT: 0x0a32,
+  META_STRETCHBLT: 0x0b23,
+  META_DIBSTRETCHBLT: 0x0b41,
+  META_SETDIBTODEV: 0x0d33,
+  META_STRETCHDIB: 0x0f43,
+} as const;
+
+export type MetaRecordType = (typeof MetaRecordType)[keyof typeof MetaRecordType];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-getobjecttype
+export const ObjectType = {
+  OBJ_PEN: 1,
+  OBJ_BRUSH: 2,
+  OBJ_DC: 3,
+  OBJ_METADC: 4,
+  OBJ_PAL: 5,
+  OBJ_FONT: 6,
+  OBJ_BITMAP: 7,
+  OBJ_REGION: 8,
+  OBJ_METAFILE: 9,
+  OBJ_MEMDC: 10,
+  OBJ_EXTPEN: 11,
+  OBJ_ENHMETADC: 12,
+  OBJ_ENHMETAFILE: 13,
+  OBJ_COLORSPACE: 14,
+} as const;
+
+export type ObjectType = (typeof ObjectType)[keyof typeof ObjectType];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-logfontw
+export const OutPrecision = {
+  OUT_DEFAULT_PRECIS: 0,
+  OUT_STRING_PRECIS: 1,
+  OUT_CHARACTER_PRECIS: 2,
+  OUT_STROKE_PRECIS: 3,
+  OUT_TT_PRECIS: 4,
+  OUT_DEVICE_PRECIS: 5,
+  OUT_RASTER_PRECIS: 6,
+  OUT_TT_ONLY_PRECIS: 7,
+  OUT_OUTLINE_PRECIS: 8,
+  OUT_SCREEN_OUTLINE_PRECIS: 9,
+  OUT_PS_ONLY_PRECIS: 10,
+} as const;
+
+export type OutPrecision = (typeof OutPrecision)[keyof typeof OutPrecision];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-extcreatepen
+export const PenEndCap = {
+  PS_ENDCAP_ROUND: 0x0000,
+  PS_ENDCAP_SQUARE: 0x0100,
+  PS_ENDCAP_FLAT: 0x0200,
+} as const;
+
+export type PenEndCap = (typeof PenEndCap)[keyof typeof PenEndCap];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-extcreatepen
+export const PenJoin = {
+  PS_JOIN_ROUND: 0x0000,
+  PS_JOIN_BEVEL: 0x1000,
+  PS_JOIN_MITER: 0x2000,
+} as const;
+
+export type PenJoin = (typeof PenJoin)[keyof typeof PenJoin];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-createpen
+export const PenStyle = {
+  PS_SOLID: 0,
+  PS_DASH: 1,
+  PS_DOT: 2,
+  PS_DASHDOT: 3,
+  PS_DASHDOTDOT: 4,
+  PS_NULL: 5,
+  PS_INSIDEFRAME: 6,
+  PS_USERSTYLE: 7,
+  PS_ALTERNATE: 8,
+} as const;
+
+export type PenStyle = (typeof PenStyle)[keyof typeof PenStyle];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-extcreatepen
+export const PenType = {
+  PS_COSMETIC: 0x00000,
+  PS_GEOMETRIC: 0x10000,
+} as const;
+
+export type PenType = (typeof PenType)[keyof typeof PenType];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-getpath
+export const PointType = {
+  PT_CLOSEFIGURE: 0x01,
+  PT_LINETO: 0x02,
+  PT_BEZIERTO: 0x04,
+  PT_MOVETO: 0x06,
+} as const;
+
+export type PointType = (typeof PointType)[keyof typeof PointType];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/ns-wingdi-ttpolycurve
+export const PolyCurveType = {
+  TT_PRIM_LINE: 1,
+  TT_PRIM_QSPLINE: 2,
+  TT_PRIM_CSPLINE: 3,
+} as const;
+
+export type PolyCurveType = (typeof PolyCurveType)[keyof typeof PolyCurveType];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-setpolyfillmode
+export const PolyFillMode = {
+  ALTERNATE: 1,
+  WINDING: 2,
+} as const;
+
+export type PolyFillMode = (typeof PolyFillMode)[keyof typeof PolyFillMode];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-bitblt
+export const RasterOperation = {
+  BLACKNESS: 0x00000042,
+  NOTSRCERASE: 0x001100a6,
+  NOTSRCCOPY: 0x00330008,
+  SRCERASE: 0x00440328,
+  DSTINVERT: 0x00550009,
+  PATINVERT: 0x005a0049,
+  SRCINVERT: 0x00660046,
+  SRCAND: 0x008800c6,
+  MERGEPAINT: 0x00bb0226,
+  MERGECOPY: 0x00c000ca,
+  SRCCOPY: 0x00cc0020,
+  SRCPAINT: 0x00ee0086,
+  PATCOPY: 0x00f00021,
+  PATPAINT: 0x00fb0a09,
+  WHITENESS: 0x00ff0062,
+} as const;
+
+export type RasterOperation = (typeof RasterOperation)[keyof typeof RasterOperation];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-bitblt
+export const RasterOperationFlag = {
+  CAPTUREBLT: 0x40000000,
+  NOMIRRORBITMAP: 0x80000000,
+} as const;
+
+export type RasterOperationFlag = (typeof RasterOperationFlag)[keyof typeof RasterOperationFlag];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-combinergn
+export const RegionCombineMode = {
+  RGN_AND: 1,
+  RGN_OR: 2,
+  RGN_XOR: 3,
+  RGN_DIFF: 4,
+  RGN_COPY: 5,
+} as const;
+
+export type RegionCombineMode = (typeof RegionCombineMode)[keyof typeof RegionCombineMode];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-combinergn
+export const RegionType = {
+  ERROR: 0,
+  NULLREGION: 1,
+  SIMPLEREGION: 2,
+  COMPLEXREGION: 3,
+} as const;
+
+export type RegionType = (typeof RegionType)[keyof typeof RegionType];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-getstockobject
+export const StockObject = {
+  WHITE_BRUSH: 0,
+  LTGRAY_BRUSH: 1,
+  GRAY_BRUSH: 2,
+  DKGRAY_BRUSH: 3,
+  BLACK_BRUSH: 4,
+  NULL_BRUSH: 5,
+  HOLLOW_BRUSH: 5,
+  WHITE_PEN: 6,
+  BLACK_PEN: 7,
+  NULL_PEN: 8,
+  OEM_FIXED_FONT: 10,
+  ANSI_FIXED_FONT: 11,
+  ANSI_VAR_FONT: 12,
+  SYSTEM_FONT: 13,
+  DEVICE_DEFAULT_FONT: 14,
+  DEFAULT_PALETTE: 15,
+  SYSTEM_FIXED_FONT: 16,
+  DEFAULT_GUI_FONT: 17,
+  DC_BRUSH: 18,
+  DC_PEN: 19,
+} as const;
+
+export type StockObject = (typeof StockObject)[keyof typeof StockObject];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-setstretchbltmode
+export const StretchMode = {
+  BLACKONWHITE: 1,
+  WHITEONBLACK: 2,
+  COLORONCOLOR: 3,
+  HALFTONE: 4,
+  STRETCH_ANDSCANS: 1,
+  STRETCH_ORSCANS: 2,
+  STRETCH_DELETESCANS: 3,
+  STRETCH_HALFTONE: 4,
+} as const;
+
+export type StretchMode = (typeof StretchMode)[keyof typeof StretchMode];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-settextalign
+export const TextAlign = {
+  TA_NOUPDATECP: 0,
+  TA_UPDATECP: 1,
+  TA_LEFT: 0,
+  TA_RIGHT: 2,
+  TA_CENTER: 6,
+  TA_TOP: 0,
+  TA_BOTTOM: 8,
+  TA_BASELINE: 24,
+  TA_RTLREADING: 256,
+  VTA_BASELINE: 24,
+  VTA_LEFT: 8,
+  VTA_RIGHT: 0,
+  VTA_CENTER: 6,
+  VTA_BOTTOM: 2,
+  VTA_TOP: 0,
+} as const;
+
+export type TextAlign = (typeof TextAlign)[keyof typeof TextAlign];
+
+// https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-modifyworldtransform
+export const WorldTransformMode = {
+  MWT_IDENTITY: 1,
+  MWT_LEFTMULTIPLY: 2,
+  MWT_RIGHTMULTIPLY: 3,
+} as const;
+
+export type WorldTransformMode = (typeof WorldTransformMode)[keyof typeof WorldTransformMode];
+
+/** `NULL` for optional pointer arguments. */
+export const NULL = 0 as Pointer;
+
+/** `GDI_ERROR` as returned through the `u32` binding. */
+export const GDI_ERROR = 0xffffffff;
+
+/** `(HGDIOBJ)-1` as returned through the `u64` binding. */
+export const HGDI_ERROR = 0xffffffffffffffffn;
@@ -1,4 +1,4 @@
-import GDI32 from 'bun-gdi32';
+import GDI32, { DeviceCap, PenStyle, StockObject } from 'bun-gdi32';
 
 // Preload all GDI32 symbols at once
 const start = performance.now();
@@ -7,7 +7,7 @@ const end = performance.now();
 console.log('GDI32 bindings initialized in %sms', (end - start).toFixed(2));
 
 // Create a memory DC for offscreen drawing
-const hdcScreen = GDI32.CreateCompatibleDC(null);
+const hdcScreen = GDI32.CreateCompatibleDC(0n);
 console.log('CreateCompatibleDC:', hdcScreen ? 'success' : 'failed');
 
 // Create a solid brush
@@ -16,15 +16,15 @@ const hBrush = GDI32.CreateSolidBrush(RED);
 console.log('CreateSolidBrush:', hBrush ? 'success' : 'failed');
 
 // Create a pen
-const hPen = GDI32.CreatePen(0 /* PS_SOLID */, 2, 0x00ff00 /* green */);
+const hPen = GDI32.CreatePen(PenStyle.PS_SOLID, 2, 0x00ff00 /* green */);
 console.log('CreatePen:', hPen ? 'success' : 'failed');
 
-// Get a stock object (NULL_BRUSH)
-const hStockBrush = GDI32.GetStockObject(5 /* NULL_BRUSH */);
+// Get a stock object
+const hStockBrush = GDI32.GetStockObject(StockObject.NULL_BRUSH);
 console.log('GetStockObject:', hStockBrush ? 'success' : 'failed');
 
 // Get device capabilities (if we had a real DC)
-// const caps = GDI32.GetDeviceCaps(hdcScreen, 8 /* BITSPIXEL */);
+// const caps = GDI32.GetDeviceCaps(hdcScreen, DeviceCap.BITSPIXEL);
 
 // Clean up
 if (hPen) GDI32.DeleteObject(hPen);
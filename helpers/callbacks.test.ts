@@ -0,0 +1,91 @@
+import { CFunction, JSCallback } from 'bun:ffi';
+import { afterEach, describe, expect, spyOn, test } from 'bun:test';
+
+import { NULL } from '../constants/GDI32';
+import { createMockBackend } from '../runtime/backend';
+import GDI32 from '../structs/GDI32';
+import { Callbacks, withCallback } from './callbacks';
+
+afterEach(() => GDI32.Reset());
+
+/** Calls a `GOBJENUMPROC` the way `EnumObjects` would. */
+const enumObjects = (count: number) =>
+  createMockBackend({
+    EnumObjects: (_, __, proc) => {
+      const call = CFunction({ ...Callbacks.GOBJENUMPROC, ptr: proc });
+      let result = 1;
+
+      for (let index = 0; index < count && result; index++) {
+        result = call(NULL, NULL) as number;
+      }
+
+      return result;
+    },
+  });
+
+describe('withCallback', () => {
+  test('passes the proc and returns the result of run', () => {
+    const close = spyOn(JSCallback.prototype, 'close');
+    let calls = 0;
+
+    GDI32.Use(enumObjects(3));
+
+    try {
+      expect(
+        withCallback(
+          'GOBJENUMPROC',
+          () => ++calls,
+          (proc) => GDI32.EnumObjects(1n, 1, proc, NULL)
+        )
+      ).toBe(3);
+      expect(calls).toBe(3);
+      expect(close).toHaveBeenCalledTimes(1);
+    } finally {
+      close.mockRestore();
+    }
+  });
+
+  test('closes the callback when run throws', () => {
+    const close = spyOn(JSCallback.prototype, 'close');
+
+    try {
+      expect(() =>
+        withCallback(
+          'GOBJENUMPROC',
+          () => 1,
+          () => {
+            throw new Error('native call failed');
+          }
+        )
+      ).toThrow('native call failed');
+      expect(close).toHaveBeenCalledTimes(1);
+    } finally {
+      close.mockRestore();
+    }
+  });
+
+  test('stops the enumeration and rethrows when the callback throws', () => {
+    const close = spyOn(JSCallback.prototype, 'close');
+    let calls = 0;
+
+    GDI32.Use(enumObjects(3));
+
+    try {
+      expect(() =>
+        withCallback(
+          'GOBJENUMPROC',
+          () => {
+            calls++;
+
+            throw new Error('visitor failed');
+          },
+          (proc) => GDI32.EnumObjects(1n, 1, proc, NULL)
+        )
+      ).toThrow('visitor failed');
+      expect(calls).toBe(1);
+      expect(close).toHaveBeenCalledTimes(1);
+    } finally {
+      close.mockRestore();
+    }
+  });
+});
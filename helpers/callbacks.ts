@@ -0,0 +1,288 @@
+import { type FFIFunction, FFIType, JSCallback, type Pointer, read } from 'bun:ffi';
+
+import { type EMFRecord, decodeEMFRecord } from '../codecs/emf';
+import { ENUMLOGFONTEXW, LOGBRUSH, LOGFONTW, LOGPEN, NEWTEXTMETRICEXW, type POINT, RECT, TEXTMETRICW } from '../codecs/GDI32';
+import type { StructInit } from '../codecs/struct';
+import { type WMFRecord, decodeWMFRecord } from '../codecs/wmf';
+import { CharSet, FontType, NULL, ObjectType } from '../constants/GDI32';
+import GDI32 from '../structs/GDI32';
+import type { HDC, HENHMETAFILE, HMETAFILE } from '../types/GDI32';
+import { type GDIHandle, toHandle } from './handles';
+
+/**
+ * Native signatures of the enumeration procs `gdi32.dll` calls back into (x64 ABI).
+ */
+export const Callbacks = {
+  // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nc-wingdi-enhmfenumproc
+  ENHMFENUMPROC: { args: [FFIType.u64, FFIType.ptr, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
+  // https://learn.microsoft.com/en-us/previous-versions/dd162618(v=vs.85)
+  FONTENUMPROCW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+  // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nc-wingdi-gobjenumproc
+  GOBJENUMPROC: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+  // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nc-wingdi-icmenumprocw
+  ICMENUMPROCW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+  // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nc-wingdi-lineddaproc
+  LINEDDAPROC: { args: [FFIType.i32, FFIType.i32, FFIType.ptr], returns: FFIType.void },
+  // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nc-wingdi-mfenumproc
+  MFENUMPROC: { args: [FFIType.u64, FFIType.ptr, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
+} as const satisfies Record<string, FFIFunction>;
+
+export type CallbackName = keyof typeof Callbacks;
+
+/**
+ * Receives each enumerated item; returning `false` stops the enumeration early.
+ */
+export type Visitor<T, C = void> = (item: T, context: C) => boolean | void;
+
+/**
+ * One font from `enumFontFamilies`.
+ */
+export interface FontEnumEntry {
+  /** `RASTER_FONTTYPE`, `DEVICE_FONTTYPE` and/or `TRUETYPE_FONTTYPE`. */
+  fontType: number;
+  logFont: ENUMLOGFONTEXW;
+  /** The `TEXTMETRICW` part, available for every font type. */
+  metrics: TEXTMETRICW;
+  /** Full `NEWTEXTMETRICEXW`, only passed for TrueType fonts. */
+  newMetrics?: NEWTEXTMETRICEXW;
+}
+
+/**
+ * Per-record context of `enumEnhMetaFile`/`enumMetaFile`, valid only inside the visitor.
+ */
+export interface MetaRecordContext {
+  /** Number of entries in the handle table. */
+  handles: number;
+  /** Plays the current record into the enumeration DC (`PlayEnhMetaFileRecord`/`PlayMetaFileRecord`). */
+  play(): boolean;
+}
+
+/**
+ * Runs `run` with a native trampoline for `callback` and closes the trampoline afterwards, also
+ * when `run` throws.
+ *
+ * Exceptions thrown by `callback` cannot unwind through `gdi32.dll`; they are caught, the proc
+ * returns 0 (which stops every GDI enumeration), and the error is rethrown once the native call
+ * has returned.
+ *
+ * @param name Proc type whose signature to use.
+ * @param callback JS implementation.
+ * @param run Receives the proc pointer and makes the native call.
+ * @returns Whatever `run` returns.
+ * @example
+ * ```ts
+ * withCallback('ICMENUMPROCW', (filename) => 1, (proc) => GDI32.EnumICMProfilesW(hdc, proc, lParam));
+ * ```
+ */
+export function withCallback<T>(name: CallbackName, callback: (...args: never[]) => unknown, run: (proc: Pointer) => T): T {
+  let failure: { error: unknown } | undefined;
+
+  const trampoline = new JSCallback((...args: unknown[]) => {
+    if (failure) {
+      return 0;
+    }
+
+    try {
+      // The proc signature in `Callbacks[name]` decides what the native side passes.
+      return (callback as (...args: unknown[]) => unknown)(...args);
+    } catch (error) {
+      failure = { error };
+
+      return 0;
+    }
+  }, Callbacks[name]);
+
+  try {
+    const result = run(trampoline.ptr!);
+
+    if (failure) {
+      throw failure.error;
+    }
+
+    return result;
+  } finally {
+    trampoline.close();
+  }
+}
+
+/**
+ * Enumerates fonts with `EnumFontFamiliesExW`.
+ *
+ * @param hdc DC whose fonts to list (a screen or printer DC).
+ * @param logFont Filter: `lfCharSet` (default `DEFAULT_CHARSET`, i.e. all) and `lfFaceName` (default all families).
+ * @param visit Optional visitor; return `false` to stop.
+ * @returns The fonts seen, in enumeration order. GDI reports a face once per supported charset.
+ * @example
+ * ```ts
+ * const fonts = enumFontFamilies(hdc, { lfFaceName: 'Segoe UI' });
+ * fonts.map(({ logFont }) => logFont.elfScript); // ['Western', 'Greek', 'Cyrillic', …]
+ * ```
+ */
+export function enumFontFamilies(hdc: HDC | GDIHandle, logFont: StructInit<LOGFONTW> = {}, visit?: Visitor<FontEnumEntry>): FontEnumEntry[] {
+  const filter = LOGFONTW.encode({ lfCharSet: CharSet.DEFAULT_CHARSET, ...logFont });
+  const entries: FontEnumEntry[] = [];
+
+  withCallback(
+    'FONTENUMPROCW',
+    (lpelfe: Pointer, lpntme: Pointer, fontType: number) => {
+      const entry: FontEnumEntry = { fontType, logFont: ENUMLOGFONTEXW.decode(lpelfe), metrics: TEXTMETRICW.decode(lpntme) };
+
+      if (fontType & FontType.TRUETYPE_FONTTYPE) {
+        entry.newMetrics = NEWTEXTMETRICEXW.decode(lpntme);
+      }
+
+      entries.push(entry);
+
+      return visit?.(entry) === false ? 0 : 1;
+    },
+    (proc) => GDI32.EnumFontFamiliesExW(toHandle(hdc), filter.ptr, proc, NULL, 0)
+  );
+
+  return entries;
+}
+
+/**
+ * Enumerates the records of an enhanced metafile with `EnumEnhMetaFile`.
+ *
+ * GDI maintains the handle table while enumerating, so records can be played selectively
+ * through `context.play()`.
+ *
+ * @param hdc DC to play into, or 0n when only reading records.
+ * @param hemf Metafile handle.
+ * @param visit Optional visitor; return `false` to stop.
+ * @param frame Destination rectangle (required by GDI when `hdc` is not 0n).
+ * @returns The records seen, decoded as by `decodeEMFRecord`.
+ * @example
+ * ```ts
+ * enumEnhMetaFile(hdc, hemf, (record, { play }) => {
+ *   if (record.type !== 'EMR_EXTTEXTOUTW') play(); // everything but text
+ * }, { right: 800, bottom: 600 });
+ * ```
+ */
+export function enumEnhMetaFile(hdc: HDC | GDIHandle, hemf: HENHMETAFILE | GDIHandle, visit?: Visitor<EMFRecord, MetaRecordContext>, frame?: StructInit<RECT>): EMFRecord[] {
+  const rect = frame && RECT.encode(frame);
+  const records: EMFRecord[] = [];
+
+  withCallback(
+    'ENHMFENUMPROC',
+    (dc: bigint, table: Pointer, record: Pointer, handles: number) => {
+      const decoded = decodeEMFRecord(record);
+
+      records.push(decoded);
+
+      return visit?.(decoded, { handles, play: () => !!GDI32.PlayEnhMetaFileRecord(dc, table, record, handles) }) === false ? 0 : 1;
+    },
+    (proc) => GDI32.EnumEnhMetaFile(toHandle(hdc), toHandle(hemf), proc, NULL, rect ? rect.ptr : NULL)
+  );
+
+  return records;
+}
+
+/**
+ * Enumerates the records of a Windows metafile with `EnumMetaFile`.
+ *
+ * @param hdc DC to play into.
+ * @param hmf Metafile handle.
+ * @param visit Optional visitor; return `false` to stop.
+ * @returns The records seen, decoded as by `decodeWMFRecord`.
+ */
+export function enumMetaFile(hdc: HDC | GDIHandle, hmf: HMETAFILE | GDIHandle, visit?: Visitor<WMFRecord, MetaRecordContext>): WMFRecord[] {
+  const records: WMFRecord[] = [];
+
+  withCallback(
+    'MFENUMPROC',
+    (dc: bigint, table: Pointer, record: Pointer, handles: number) => {
+      const decoded = decodeWMFRecord(record);
+
+      records.push(decoded);
+
+      return visit?.(decoded, { handles, play: () => !!GDI32.PlayMetaFileRecord(dc, table, record, handles) }) === false ? 0 : 1;
+    },
+    (proc) => GDI32.EnumMetaFile(toHandle(hdc), toHandle(hmf), proc, NULL)
+  );
+
+  return records;
+}
+
+/**
+ * Enumerates the pens or brushes a device supports with `EnumObjects`.
+ *
+ * @param hdc Device context.
+ * @param type `OBJ_PEN` or `OBJ_BRUSH`.
+ * @param visit Optional visitor; return `false` to stop.
+ * @returns The logical pens or brushes seen.
+ */
+export function enumObjects(hdc: HDC | GDIHandle, type: typeof ObjectType.OBJ_PEN, visit?: Visitor<LOGPEN>): LOGPEN[];
+export function enumObjects(hdc: HDC | GDIHandle, type: typeof ObjectType.OBJ_BRUSH, visit?: Visitor<LOGBRUSH>): LOGBRUSH[];
+export function enumObjects(hdc: HDC | GDIHandle, type: typeof ObjectType.OBJ_PEN | typeof ObjectType.OBJ_BRUSH, visit?: Visitor<LOGBRUSH> | Visitor<LOGPEN>): (LOGBRUSH | LOGPEN)[] {
+  const codec = type === ObjectType.OBJ_PEN ? LOGPEN : LOGBRUSH;
+  const objects: (LOGBRUSH | LOGPEN)[] = [];
+
+  withCallback(
+    'GOBJENUMPROC',
+    (object: Pointer) => {
+      const decoded = codec.decode(object);
+
+      objects.push(decoded);
+
+      // The overloads pair `visit` with the codec `type` selects.
+      return (visit as Visitor<LOGBRUSH | LOGPEN> | undefined)?.(decoded) === false ? 0 : 1;
+    },
+    (proc) => GDI32.EnumObjects(toHandle(hdc), type, proc, NULL)
+  );
+
+  return objects;
+}
+
+/**
+ * Lists the ICM color profiles installed for a device with `EnumICMProfilesW`.
+ *
+ * @param hdc Device context.
+ * @returns Profile file names.
+ */
+export function enumICMProfiles(hdc: HDC | GDIHandle): string[] {
+  const profiles: string[] = [];
+
+  withCallback(
+    'ICMENUMPROCW',
+    (filename: Pointer) => {
+      let name = '';
+
+      for (let offset = 0, code = read.u16(filename, 0); code !== 0; code = read.u16(filename, (offset += 2))) {
+        name += String.fromCharCode(code);
+      }
+
+      profiles.push(name);
+
+      return 1;
+    },
+    (proc) => GDI32.EnumICMProfilesW(toHandle(hdc), proc, NULL)
+  );
+
+  return profiles;
+}
+
+/**
+ * Computes the points `LineDDA` visits between two points (the end point is excluded).
+ *
+ * @param xStart Start x.
+ * @param yStart Start y.
+ * @param xEnd End x.
+ * @param yEnd End y.
+ * @returns The points, in order.
+ * @example
+ * ```ts
+ * lineDDA(0, 0, 4, 2); // [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 1 }, { x: 3, y: 1 }]
+ * ```
+ */
+export function lineDDA(xStart: number, yStart: number, xEnd: number, yEnd: number): POINT[] {
+  const points: POINT[] = [];
+
+  withCallback(
+    'LINEDDAPROC',
+    (x: number, y: number) => void points.push({ x, y }),
+    (proc) => GDI32.LineDDA(xStart, yStart, xEnd, yEnd, proc, NULL)
+  );
+
+  return points;
+}
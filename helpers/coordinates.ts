@@ -0,0 +1,98 @@
+import { POINT, SIZE } from '../codecs/GDI32';
+import { CoordinateSpace } from '../codecs/coordinates';
+import { DeviceCap, type GraphicsMode, type MapMode } from '../constants/GDI32';
+import GDI32 from '../structs/GDI32';
+import type { BOOL, HDC, LPPOINT, LPSIZE } from '../types/GDI32';
+import { type GDIHandle, toHandle } from './handles';
+import { getWorldTransform } from './transforms';
+
+const encodePoints = (points: readonly POINT[]): Buffer => Buffer.concat(points.map((point) => POINT.encode(point)));
+
+const decodePoints = (buffer: Buffer, count: number): POINT[] => Array.from({ length: count }, (_, index) => POINT.decode(buffer, index * POINT.sizeof));
+
+/**
+ * Captures a DC's coordinate state and device size into a `CoordinateSpace`.
+ *
+ * @param hdc Device context.
+ * @returns A detached model; changing it does not touch the DC.
+ * @example
+ * ```ts
+ * const space = readCoordinateSpace(hdc);
+ * space.lpToDp(points); // same as lpToDp(hdc, points)
+ * ```
+ */
+export function readCoordinateSpace(hdc: HDC | GDIHandle): CoordinateSpace {
+  const dc = toHandle(hdc);
+  const size = Buffer.alloc(SIZE.sizeof);
+  const point = Buffer.alloc(POINT.sizeof);
+  const readSize = (call: (hdc: HDC, lpsize: LPSIZE) => BOOL): SIZE => {
+    call(dc, size.ptr);
+
+    return SIZE.decode(size);
+  };
+  const readPoint = (call: (hdc: HDC, lppoint: LPPOINT) => BOOL): POINT => {
+    call(dc, point.ptr);
+
+    return POINT.decode(point);
+  };
+
+  return new CoordinateSpace(
+    {
+      horzRes: GDI32.GetDeviceCaps(dc, DeviceCap.HORZRES),
+      horzSize: GDI32.GetDeviceCaps(dc, DeviceCap.HORZSIZE),
+      vertRes: GDI32.GetDeviceCaps(dc, DeviceCap.VERTRES),
+      vertSize: GDI32.GetDeviceCaps(dc, DeviceCap.VERTSIZE),
+    },
+    {
+      graphicsMode: GDI32.GetGraphicsMode(dc) as GraphicsMode,
+      mapMode: GDI32.GetMapMode(dc) as MapMode,
+      viewportExt: readSize(GDI32.GetViewportExtEx),
+      viewportOrg: readPoint(GDI32.GetViewportOrgEx),
+      windowExt: readSize(GDI32.GetWindowExtEx),
+      windowOrg: readPoint(GDI32.GetWindowOrgEx),
+      world: getWorldTransform(dc),
+    }
+  );
+}
+
+/**
+ * `LPtoDP` for a point array.
+ *
+ * @param hdc Device context.
+ * @param points Logical points.
+ * @returns Device points.
+ */
+export function lpToDp(hdc: HDC | GDIHandle, points: readonly POINT[]): POINT[] {
+  if (!points.length) {
+    return [];
+  }
+
+  const buffer = encodePoints(points);
+
+  if (!GDI32.LPtoDP(toHandle(hdc), buffer.ptr, points.length)) {
+    throw new Error(`LPtoDP failed for DC 0x${toHandle(hdc).toString(16)}.`);
+  }
+
+  return decodePoints(buffer, points.length);
+}
+
+/**
+ * `DPtoLP` for a point array.
+ *
+ * @param hdc Device context.
+ * @param points Device points.
+ * @returns Logical points.
+ */
+export function dpToLp(hdc: HDC | GDIHandle, points: readonly POINT[]): POINT[] {
+  if (!points.length) {
+    return [];
+  }
+
+  const buffer = encodePoints(points);
+
+  if (!GDI32.DPtoLP(toHandle(hdc), buffer.ptr, points.length)) {
+    throw new Error(`DPtoLP failed for DC 0x${toHandle(hdc).toString(16)}.`);
+  }
+
+  return decodePoints(buffer, points.length);
+}
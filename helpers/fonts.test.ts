@@ -0,0 +1,75 @@
+import { CFunction, ptr } from 'bun:ffi';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import { ENUMLOGFONTEXW, LOGFONTW, NEWTEXTMETRICEXW } from '../codecs/GDI32';
+import { CharSet, FontType } from '../constants/GDI32';
+import { createMockBackend } from '../runtime/backend';
+import '../runtime/extensions';
+import GDI32 from '../structs/GDI32';
+import { Callbacks } from './callbacks';
+import { listFonts } from './fonts';
+
+/** What `EnumFontFamiliesExW` reports, in order: face, charset and style. */
+const Installed: [faceName: string, charset: number, style: string][] = [
+  ['Arial', CharSet.ANSI_CHARSET, 'Regular'],
+  ['Arial', CharSet.ANSI_CHARSET, 'Bold'],
+  ['Arial', CharSet.GREEK_CHARSET, 'Regular'],
+  ['Arial', CharSet.ANSI_CHARSET, 'Regular'],
+  ['Consolas', CharSet.ANSI_CHARSET, 'Regular'],
+];
+
+let deleted: bigint[];
+
+beforeEach(() => {
+  deleted = [];
+
+  GDI32.Use(
+    createMockBackend({
+      CreateCompatibleDC: () => 0x10n,
+      DeleteDC: (hdc) => (deleted.push(hdc), 1),
+      EnumFontFamiliesExW: (_, lpLogfont, proc) => {
+        const { lfCharSet, lfFaceName } = LOGFONTW.decode(lpLogfont);
+        const call = CFunction({ ...Callbacks.FONTENUMPROCW, ptr: proc });
+        const metrics = NEWTEXTMETRICEXW.encode();
+        let result = 1;
+
+        // Every style is reported either way, so `listFonts` alone decides which ones survive.
+        for (const [faceName, charset, style] of Installed.filter(([faceName, charset]) => (!lfFaceName || faceName === lfFaceName) && (lfCharSet === CharSet.DEFAULT_CHARSET || charset === lfCharSet))) {
+          const font = ENUMLOGFONTEXW.encode({ elfFullName: `${faceName} ${style}`, elfLogFont: { lfCharSet: charset, lfFaceName: faceName }, elfScript: String(charset), elfStyle: style });
+
+          result = call(ptr(font), ptr(metrics), FontType.TRUETYPE_FONTTYPE, 0) as number;
+
+          if (!result) {
+            break;
+          }
+        }
+
+        return result;
+      },
+    })
+  );
+});
+
+afterEach(() => GDI32.Reset());
+
+const summary = (options?: Parameters<typeof listFonts>[0]): string[] => listFonts(options).map(({ charset, faceName, style }) => `${faceName}/${charset}/${style}`);
+
+describe('listFonts', () => {
+  test('keeps one entry per face and charset', () => {
+    expect(summary()).toEqual(['Arial/0/Regular', 'Arial/161/Regular', 'Consolas/0/Regular']);
+    expect(deleted).toEqual([0x10n]);
+  });
+
+  test('keeps every style of the requested face', () => {
+    expect(summary({ faceName: 'Arial' })).toEqual(['Arial/0/Regular', 'Arial/0/Bold', 'Arial/161/Regular']);
+  });
+
+  test('filters by charset', () => {
+    expect(summary({ charset: CharSet.GREEK_CHARSET })).toEqual(['Arial/161/Regular']);
+  });
+
+  test('enumerates on the given DC without creating one', () => {
+    expect(summary({ faceName: 'Consolas', hdc: 0x20n })).toEqual(['Consolas/0/Regular']);
+    expect(deleted).toEqual([]);
+  });
+});
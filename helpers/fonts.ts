@@ -0,0 +1,137 @@
+import type { FONTSIGNATURE, LOGFONTW, NEWTEXTMETRICW } from '../codecs/GDI32';
+import { CharSet, FontType } from '../constants/GDI32';
+import GDI32 from '../structs/GDI32';
+import type { HDC } from '../types/GDI32';
+import { type FontEnumEntry, enumFontFamilies } from './callbacks';
+import { DeviceContext, type GDIHandle } from './handles';
+
+/**
+ * Code pages flagged by the `fsCsb[0]` bits of a `FONTSIGNATURE`, by bit number.
+ */
+// https://learn.microsoft.com/en-us/windows/win32/intl/code-page-bitfields
+const CodePageBits: Record<number, number> = {
+  0: 1252,
+  1: 1250,
+  2: 1251,
+  3: 1253,
+  4: 1254,
+  5: 1255,
+  6: 1256,
+  7: 1257,
+  8: 1258,
+  16: 874,
+  17: 932,
+  18: 936,
+  19: 949,
+  20: 950,
+  21: 1361,
+};
+
+/**
+ * Options for `listFonts`.
+ */
+export interface ListFontsOptions {
+  /** Only fonts supporting this charset; defaults to `DEFAULT_CHARSET` (every charset). */
+  charset?: CharSet | number;
+  /** Only this family (all its styles are then reported); defaults to every family. */
+  faceName?: string;
+  /** DC to enumerate for (e.g. a printer); defaults to a screen-compatible memory DC. */
+  hdc?: HDC | GDIHandle;
+}
+
+/**
+ * One face/charset combination from `listFonts`.
+ */
+export interface FontInfo {
+  /** `lfCharSet` of this entry. */
+  charset: number;
+  /** ANSI/OEM code pages the font covers (from `fsCsb`), e.g. `[1252, 1250, 1251]`. */
+  codePages: number[];
+  /** Family name (`lfFaceName`), e.g. `'Segoe UI'`. */
+  faceName: string;
+  /** `RASTER_FONTTYPE`, `DEVICE_FONTTYPE` and/or `TRUETYPE_FONTTYPE`. */
+  fontType: number;
+  /** Unique name (`elfFullName`), e.g. `'Segoe UI Bold'`. */
+  fullName: string;
+  /** Logical font that selects this entry with `CreateFontIndirectW`. */
+  logFont: LOGFONTW;
+  /** Physical metrics; the `ntm*` fields are zero for non-TrueType fonts. */
+  metrics: NEWTEXTMETRICW;
+  /** Script of the charset (`elfScript`), e.g. `'Western'`, `'Cyrillic'`. */
+  script: string;
+  /** Raw `FONTSIGNATURE`, present for TrueType/OpenType fonts. */
+  signature?: FONTSIGNATURE;
+  /** Style (`elfStyle`), e.g. `'Regular'`, `'Bold Italic'`. */
+  style: string;
+  /** Unicode subranges the font covers: the set `fsUsb` bit numbers (OS/2 `ulUnicodeRange` bits, 0–127). */
+  unicodeRanges: number[];
+}
+
+const setBits = (words: readonly number[]): number[] =>
+  words.flatMap((word, index) =>
+    Array.from({ length: 32 }, (_, bit) => bit)
+      .filter((bit) => (word >>> bit) & 1)
+      .map((bit) => index * 32 + bit)
+  );
+
+const toFontInfo = ({ fontType, logFont, metrics, newMetrics }: FontEnumEntry): FontInfo => {
+  const signature = newMetrics?.ntmFontSig;
+
+  return {
+    charset: logFont.elfLogFont.lfCharSet,
+    codePages: signature ? setBits([signature.fsCsb[0]!]).flatMap((bit) => CodePageBits[bit] ?? []) : [],
+    faceName: logFont.elfLogFont.lfFaceName,
+    fontType,
+    fullName: logFont.elfFullName,
+    logFont: logFont.elfLogFont,
+    metrics: newMetrics?.ntmTm ?? { ...metrics, ntmAvgWidth: 0, ntmCellHeight: 0, ntmFlags: 0, ntmSizeEM: 0 },
+    script: logFont.elfScript,
+    signature,
+    style: logFont.elfStyle,
+    unicodeRanges: signature ? setBits(signature.fsUsb) : [],
+  };
+};
+
+/**
+ * Lists installed fonts with `EnumFontFamiliesExW`, decoded into plain objects.
+ *
+ * GDI reports a family once per charset it supports (and, when `faceName` is given, once per
+ * style); entries are deduplicated by face name and charset (plus style when `faceName` is
+ * given), keeping the first one.
+ *
+ * @param options Charset/face filters and the DC to enumerate for.
+ * @returns Fonts in enumeration order.
+ * @example
+ * ```ts
+ * const cyrillic = listFonts({ charset: CharSet.RUSSIAN_CHARSET }).filter(({ fontType }) => fontType & FontType.TRUETYPE_FONTTYPE);
+ * const picker = cyrillic.map(({ faceName, script }) => `${faceName} (${script})`);
+ * ```
+ */
+export function listFonts(options: ListFontsOptions = {}): FontInfo[] {
+  const filter = { lfCharSet: options.charset ?? CharSet.DEFAULT_CHARSET, lfFaceName: options.faceName ?? '' };
+  const fonts = new Map<string, FontInfo>();
+  const dc = options.hdc === undefined ? new DeviceContext(GDI32.CreateCompatibleDC(0n)) : undefined;
+
+  try {
+    for (const entry of enumFontFamilies(options.hdc ?? dc!, filter)) {
+      const key = `${entry.logFont.elfLogFont.lfFaceName}\0${entry.logFont.elfLogFont.lfCharSet}${options.faceName === undefined ? '' : `\0${entry.logFont.elfStyle}`}`;
+
+      if (!fonts.has(key)) {
+        fonts.set(key, toFontInfo(entry));
+      }
+    }
+  } finally {
+    dc?.dispose();
+  }
+
+  return [...fonts.values()];
+}
+
+/**
+ * `true` for TrueType/OpenType entries, which carry full metrics and a `FONTSIGNATURE`.
+ *
+ * @param font Entry from `listFonts`.
+ */
+export function isTrueType(font: Pick<FontInfo, 'fontType'>): boolean {
+  return !!(font.fontType & FontType.TRUETYPE_FONTTYPE);
+}
@@ -0,0 +1,53 @@
+import { GLYPHMETRICS, MAT2 } from '../codecs/GDI32';
+import { identityMAT2 } from '../codecs/glyph';
+import { GDI_ERROR, GlyphOutlineFormat, NULL } from '../constants/GDI32';
+import GDI32 from '../structs/GDI32';
+import type { HDC } from '../types/GDI32';
+import { type GDIHandle, toHandle } from './handles';
+
+/**
+ * What `getGlyphOutline` returns.
+ */
+export interface GlyphOutlineData {
+  /** Outline (`GGO_NATIVE`/`GGO_BEZIER`) or bitmap (`GGO_*_BITMAP`) buffer; empty for blank glyphs and `GGO_METRICS`. */
+  data: Uint8Array;
+  metrics: GLYPHMETRICS;
+}
+
+/**
+ * Calls `GetGlyphOutlineW` twice (size, then data) for the font selected into `hdc`.
+ *
+ * @param hdc DC with the font selected.
+ * @param char Character (string or UTF-16 code unit), or a glyph index with `GGO_GLYPH_INDEX`.
+ * @param format `GGO_*` format and flags.
+ * @param matrix Transformation applied to the glyph; defaults to identity.
+ * @returns The glyph metrics and the buffer, ready for `decodeGlyphOutline`/`decodeGlyphBitmap`.
+ * @example
+ * ```ts
+ * const { data, metrics } = getGlyphOutline(hdc, 'g', GlyphOutlineFormat.GGO_GRAY8_BITMAP);
+ * const mask = decodeGlyphBitmap(data, metrics, GlyphOutlineFormat.GGO_GRAY8_BITMAP);
+ * ```
+ */
+export function getGlyphOutline(hdc: HDC | GDIHandle, char: string | number, format: number, matrix: MAT2 = identityMAT2()): GlyphOutlineData {
+  const code = typeof char === 'string' ? char.codePointAt(0) ?? 0 : char;
+
+  if (code > 0xffff && !(format & GlyphOutlineFormat.GGO_GLYPH_INDEX)) {
+    throw new RangeError(`U+${code.toString(16).toUpperCase()} is outside the BMP; map it to a glyph index (GetGlyphIndicesW, cmap) and pass GGO_GLYPH_INDEX.`);
+  }
+
+  const metrics = Buffer.alloc(GLYPHMETRICS.sizeof);
+  const mat2 = MAT2.encode(matrix);
+  const size = GDI32.GetGlyphOutlineW(toHandle(hdc), code, format, metrics.ptr, 0, NULL, mat2.ptr);
+
+  if (size === GDI_ERROR) {
+    throw new Error(`GetGlyphOutlineW failed for character 0x${code.toString(16)} (format ${format}).`);
+  }
+
+  const data = new Uint8Array(size);
+
+  if (size > 0 && GDI32.GetGlyphOutlineW(toHandle(hdc), code, format, metrics.ptr, size, data.ptr, mat2.ptr) === GDI_ERROR) {
+    throw new Error(`GetGlyphOutlineW failed for character 0x${code.toString(16)} (format ${format}).`);
+  }
+
+  return { data, metrics: GLYPHMETRICS.decode(metrics) };
+}
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import { type GDI32RecordingBackend, createMockBackend, createRecordingBackend } from '../runtime/backend';
+import GDI32 from '../structs/GDI32';
+import { DeviceContext, FontMemResource, GDIObject, setFinalizationMode, toHandle } from './handles';
+import { selectObjects } from './selection';
+import { saveDC, savedDepth } from './state';
+
+let backend: GDI32RecordingBackend;
+
+beforeEach(() => {
+  let depth = 0;
+
+  backend = createRecordingBackend(
+    createMockBackend({
+      DeleteDC: () => 1,
+      DeleteObject: () => 1,
+      RemoveFontMemResourceEx: () => 1,
+      RestoreDC: () => 1,
+      SaveDC: () => ++depth,
+      SelectObject: () => 0x100n,
+    })
+  );
+
+  GDI32.Use(backend);
+});
+
+afterEach(() => {
+  setFinalizationMode('off');
+  GDI32.Reset();
+});
+
+const deletions = (): [string, unknown][] => backend.calls.filter(({ method }) => method.startsWith('Delete') || method.startsWith('Remove')).map(({ args, method }) => [method, args[0]]);
+
+/** Runs the collector until `done` or a few rounds pass; finalizers run on later ticks. */
+const collect = async (done: () => boolean): Promise<void> => {
+  for (let round = 0; round < 20 && !done(); round++) {
+    Bun.gc(true);
+    await Bun.sleep(1);
+  }
+};
+
+describe('GDIHandle', () => {
+  test('destroys the handle once', () => {
+    const pen = new GDIObject(0x10n);
+
+    expect(pen.dispose()).toBe(true);
+    expect(pen.disposed).toBe(true);
+    expect(pen.dispose()).toBe(true);
+    pen[Symbol.dispose]();
+
+    expect(deletions()).toEqual([['DeleteObject', 0x10n]]);
+    expect(() => pen.handle).toThrow(new ReferenceError('GDIObject was used after it was disposed.'));
+    expect(String(pen)).toBe('GDIObject(disposed)');
+  });
+
+  test('reports the destroyer result', () => {
+    GDI32.Use(createMockBackend({ DeleteObject: () => 0 }));
+
+    expect(new GDIObject(0x10n).dispose()).toBe(false);
+  });
+
+  test('rejects null handles', () => {
+    expect(() => new DeviceContext(0n)).toThrow(new TypeError('DeviceContext received a null handle; the creating call failed.'));
+  });
+
+  test('detaches without destroying', () => {
+    const fonts = new FontMemResource(0x20n);
+
+    expect(String(fonts)).toBe('FontMemResource(0x20)');
+    expect(fonts.detach()).toBe(0x20n);
+    expect(fonts.dispose()).toBe(true);
+    expect(deletions()).toEqual([]);
+  });
+
+  test('unwraps with toHandle', () => {
+    expect(toHandle(0x30n)).toBe(0x30n);
+    expect(toHandle(new GDIObject(0x30n))).toBe(0x30n);
+  });
+});
+
+describe('GDIObject', () => {
+  test('refuses to delete an object a scope still has selected', () => {
+    const brush = new GDIObject(0x40n);
+    const selection = selectObjects(1n, brush);
+
+    expect(() => brush.dispose()).toThrow('GDI object 0x40 is still selected into DC 0x1; restore the selection before deleting it.');
+    expect(brush.disposed).toBe(false);
+
+    selection.restore();
+
+    expect(brush.dispose()).toBe(true);
+    expect(deletions()).toEqual([['DeleteObject', 0x40n]]);
+  });
+});
+
+describe('DeviceContext', () => {
+  test('forgets selections and saved levels on its DC', () => {
+    const dc = new DeviceContext(0x50n);
+    const brush = new GDIObject(0x51n);
+
+    selectObjects(dc, brush);
+    saveDC(dc);
+
+    expect(dc.dispose()).toBe(true);
+    expect(savedDepth(0x50n)).toBe(0);
+    expect(brush.dispose()).toBe(true);
+    expect(deletions()).toEqual([
+      ['DeleteDC', 0x50n],
+      ['DeleteObject', 0x51n],
+    ]);
+  });
+});
+
+describe('setFinalizationMode', () => {
+  test('warns about collected wrappers without releasing them', async () => {
+    const warnings: string[] = [];
+
+    setFinalizationMode('warn', (message) => warnings.push(message));
+    (() => new GDIObject(0x60n))();
+    await collect(() => warnings.length > 0);
+
+    expect(warnings[0]).toStartWith('GDI handle 0x60 was garbage-collected without DeleteObject.');
+    expect(deletions()).toEqual([]);
+  });
+
+  test('releases collected wrappers', async () => {
+    const warnings: string[] = [];
+
+    setFinalizationMode('release', (message) => warnings.push(message));
+    (() => new DeviceContext(0x70n))();
+    await collect(() => warnings.length > 0);
+
+    expect(warnings[0]).toStartWith('GDI handle 0x70 was garbage-collected without DeleteDC; releasing it now.');
+    expect(deletions()).toEqual([['DeleteDC', 0x70n]]);
+  });
+
+  test('ignores disposed and untracked wrappers', async () => {
+    const warnings: string[] = [];
+
+    (() => new GDIObject(0x80n))();
+    setFinalizationMode('warn', (message) => warnings.push(message));
+    (() => new GDIObject(0x81n).dispose())();
+    await collect(() => false);
+
+    expect(warnings).toEqual([]);
+  });
+});
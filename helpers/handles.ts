@@ -0,0 +1,243 @@
+import GDI32 from '../structs/GDI32';
+import type { HANDLE, HCOLORSPACE, HDC, HENHMETAFILE, HGDIOBJ, HMETAFILE } from '../types/GDI32';
+import { assertNotSelected, forgetSelections } from './selection';
+import { forgetSavedLevels } from './state';
+
+/**
+ * What happens when an undisposed handle wrapper is garbage-collected:
+ *
+ * - `'off'` — nothing (default; no `FinalizationRegistry` bookkeeping at all).
+ * - `'warn'` — report the leak, including the stack that created the wrapper.
+ * - `'release'` — report the leak and destroy the handle as a last resort.
+ */
+export type FinalizationMode = 'off' | 'release' | 'warn';
+
+type Destroyer = 'DeleteColorSpace' | 'DeleteDC' | 'DeleteEnhMetaFile' | 'DeleteMetaFile' | 'DeleteObject' | 'RemoveFontMemResourceEx';
+
+interface Finalization {
+  destroyer: Destroyer;
+  handle: bigint;
+  stack: string | undefined;
+}
+
+let mode: FinalizationMode = 'off';
+let report: (message: string) => void = (message) => console.warn(message);
+
+const registry = new FinalizationRegistry<Finalization>(({ destroyer, handle, stack }) => {
+  if (mode === 'off') {
+    return;
+  }
+
+  report(`GDI handle 0x${handle.toString(16)} was garbage-collected without ${destroyer}${mode === 'release' ? '; releasing it now' : ''}.${stack ? `\n${stack}` : ''}`);
+
+  if (mode === 'release') {
+    GDI32[destroyer](handle);
+  }
+});
+
+/**
+ * Enables or disables the garbage-collection safety net for handle wrappers.
+ *
+ * Only wrappers created while the mode is not `'off'` are tracked, so turn it on early (e.g.
+ * in development builds). Deterministic `dispose()`/`using` remains the primary mechanism.
+ *
+ * @param next New mode.
+ * @param warn Receives leak reports; defaults to `console.warn`.
+ * @example
+ * ```ts
+ * setFinalizationMode(process.env.NODE_ENV === 'production' ? 'release' : 'warn');
+ * ```
+ */
+export function setFinalizationMode(next: FinalizationMode, warn: (message: string) => void = (message) => console.warn(message)): void {
+  mode = next;
+  report = warn;
+}
+
+/**
+ * Unwraps a handle wrapper to the raw value `GDI32` methods take; raw handles pass through.
+ *
+ * @param value Raw handle or wrapper.
+ * @returns The raw handle.
+ */
+export function toHandle(value: bigint | GDIHandle): bigint {
+  return typeof value === 'bigint' ? value : value.handle;
+}
+
+/**
+ * Owns a raw GDI handle and destroys it exactly once.
+ *
+ * Works with `using` declarations (`Symbol.dispose`), explicit `dispose()` calls and
+ * `DisposableStack`. Accessing `handle` after disposal throws instead of handing out a
+ * dangling value.
+ */
+export abstract class GDIHandle implements Disposable {
+  private current: bigint | null;
+  private readonly token = {};
+
+  /**
+   * @param handle Raw handle returned by a `Create*`/`Get*` call; `0n` (failure) is rejected.
+   * @param destroyer Export that destroys this kind of handle.
+   */
+  protected constructor(handle: bigint, private readonly destroyer: Destroyer) {
+    if (!handle) {
+      throw new TypeError(`${new.target.name} received a null handle; the creating call failed.`);
+    }
+
+    this.current = handle;
+
+    if (mode !== 'off') {
+      registry.register(this, { destroyer, handle, stack: new Error().stack?.split('\n').slice(2).join('\n') }, this.token);
+    }
+  }
+
+  /**
+   * `true` once the handle has been destroyed or detached.
+   */
+  public get disposed(): boolean {
+    return this.current === null;
+  }
+
+  /**
+   * The raw handle, for passing to `GDI32` methods.
+   */
+  public get handle(): bigint {
+    if (this.current === null) {
+      throw new ReferenceError(`${this.constructor.name} was used after it was disposed.`);
+    }
+
+    return this.current;
+  }
+
+  /**
+   * Destroys the handle; later calls are no-ops.
+   *
+   * @returns The destroyer's result (non-zero on success), or `true` when already disposed.
+   */
+  public dispose(): boolean {
+    if (this.current === null) {
+      return true;
+    }
+
+    return !!GDI32[this.destroyer](this.detach());
+  }
+
+  /**
+   * Gives up ownership without destroying the handle, e.g. when handing it to an API that
+   * takes ownership of it (the clipboard, for example).
+   *
+   * @returns The raw handle.
+   */
+  public detach(): bigint {
+    const handle = this.handle;
+
+    this.current = null;
+    registry.unregister(this.token);
+
+    return handle;
+  }
+
+  public [Symbol.dispose](): void {
+    this.dispose();
+  }
+
+  public toString(): string {
+    return `${this.constructor.name}(${this.current === null ? 'disposed' : `0x${this.current.toString(16)}`})`;
+  }
+}
+
+/**
+ * Pen, brush, font, bitmap, region or palette; destroyed with `DeleteObject`.
+ *
+ * Disposing throws while a selection scope (`selectObjects`, `withObjects`, …) still has the
+ * object selected into a DC.
+ *
+ * @example
+ * ```ts
+ * using brush = new GDIObject(GDI32.CreateSolidBrush(0x0000ff));
+ * GDI32.FillRgn(hdc, hrgn, brush.handle);
+ * ```
+ */
+export class GDIObject extends GDIHandle {
+  constructor(handle: HGDIOBJ) {
+    super(handle, 'DeleteObject');
+  }
+
+  public override dispose(): boolean {
+    if (!this.disposed) {
+      assertNotSelected(this.handle);
+    }
+
+    return super.dispose();
+  }
+}
+
+/**
+ * Memory or device DC from `CreateCompatibleDC`/`CreateDCW`; destroyed with `DeleteDC`.
+ *
+ * DCs obtained from `GetDC` belong to user32 and must be released with `ReleaseDC` instead.
+ *
+ * @example
+ * ```ts
+ * using dc = new DeviceContext(GDI32.CreateCompatibleDC(0n));
+ * GDI32.SetMapMode(dc.handle, MapMode.MM_TEXT);
+ * ```
+ */
+export class DeviceContext extends GDIHandle {
+  constructor(handle: HDC) {
+    super(handle, 'DeleteDC');
+  }
+
+  public override dispose(): boolean {
+    if (!this.disposed) {
+      forgetSelections(this.handle);
+      forgetSavedLevels(this.handle);
+    }
+
+    return super.dispose();
+  }
+}
+
+/**
+ * Enhanced metafile from `CloseEnhMetaFile`, `GetEnhMetaFileW`, `SetEnhMetaFileBits`, …;
+ * destroyed with `DeleteEnhMetaFile`.
+ */
+export class EnhancedMetaFile extends GDIHandle {
+  constructor(handle: HENHMETAFILE) {
+    super(handle, 'DeleteEnhMetaFile');
+  }
+}
+
+/**
+ * Windows metafile from `CloseMetaFile`, `GetMetaFileW`, `SetMetaFileBitsEx`, …; destroyed
+ * with `DeleteMetaFile`.
+ */
+export class MetaFile extends GDIHandle {
+  constructor(handle: HMETAFILE) {
+    super(handle, 'DeleteMetaFile');
+  }
+}
+
+/**
+ * Logical color space from `CreateColorSpaceW`; destroyed with `DeleteColorSpace`.
+ */
+export class ColorSpace extends GDIHandle {
+  constructor(handle: HCOLORSPACE) {
+    super(handle, 'DeleteColorSpace');
+  }
+}
+
+/**
+ * Private font collection from `AddFontMemResourceEx`; removed with `RemoveFontMemResourceEx`.
+ *
+ * @example
+ * ```ts
+ * const data = await Bun.file('Inter.ttf').bytes();
+ * const count = new Uint32Array(1);
+ * using fonts = new FontMemResource(GDI32.AddFontMemResourceEx(data.ptr, data.length, null, count.ptr));
+ * ```
+ */
+export class FontMemResource extends GDIHandle {
+  constructor(handle: HANDLE) {
+    super(handle, 'RemoveFontMemResourceEx');
+  }
+}
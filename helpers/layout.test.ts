@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'bun:test';
+
+import { type TextMeasurer, layoutText } from './layout';
+
+/**
+ * A monospaced font: 10 units per code point (the low half of a surrogate pair gets 0), 9 above
+ * the baseline, 3 below, 2 of leading, `AV` kerned by -2, `VA` by -3, and 1/2 units of bearing.
+ */
+const Measurer: TextMeasurer = {
+  metrics: { ascent: 9, descent: 3, externalLeading: 2 },
+  advances: (text) => [...text].flatMap((char) => (char.length === 2 ? [10, 0] : [10])),
+  bearings: (text) => Array.from(text, () => ({ a: 1, c: 2 })),
+  kerning: (left, right) => {
+    const pair = String.fromCodePoint(left, right);
+
+    return pair === 'AV' ? -2 : pair === 'VA' ? -3 : 0;
+  },
+};
+
+const texts = (text: string, options: Parameters<typeof layoutText>[2]) => layoutText(text, Measurer, options).lines.map((line) => line.text);
+
+describe('layoutText', () => {
+  test('measures a single line with kerning and bearings', () => {
+    const { bounds, inkBounds, lineHeight, lines, truncated } = layoutText('AVA', Measurer);
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ dx: [8, 7, 10], ellipsis: false, end: 3, start: 0, text: 'AVA', width: 25 });
+    expect(lineHeight).toBe(14);
+    expect(bounds).toEqual({ left: 0, top: 0, right: 25, bottom: 12 });
+    expect(inkBounds).toEqual({ left: 1, top: 0, right: 23, bottom: 12 });
+    expect(truncated).toBe(false);
+  });
+
+  test('wraps words and hangs the white space at the break', () => {
+    const { lines } = layoutText('aaa bbb ccc', Measurer, { maxWidth: 75 });
+
+    expect(lines.map(({ end, start, text }) => ({ end, start, text }))).toEqual([
+      { end: 7, start: 0, text: 'aaa bbb' },
+      { end: 11, start: 8, text: 'ccc' },
+    ]);
+    expect(lines[1]!.bounds).toEqual({ left: 0, top: 14, right: 30, bottom: 26 });
+  });
+
+  test('breaks words that do not fit between characters', () => {
+    expect(texts('abcdef gh', { maxWidth: 35 })).toEqual(['abc', 'def', 'gh']);
+    expect(texts('abcdef', { maxWidth: 25, wrap: 'char' })).toEqual(['ab', 'cd', 'ef']);
+    expect(texts('well-known', { maxWidth: 60 })).toEqual(['well-', 'known']);
+  });
+
+  test('does not kern across a break', () => {
+    const { lines } = layoutText('AVAV', Measurer, { maxWidth: 20, wrap: 'char' });
+
+    expect(lines.map(({ dx }) => dx)).toEqual([
+      [8, 10],
+      [8, 10],
+    ]);
+  });
+
+  test('starts a new line at every hard break', () => {
+    const { lines } = layoutText('ab\r\ncd\n\re', Measurer);
+
+    expect(lines.map(({ start, text }) => [start, text])).toEqual([
+      [0, 'ab'],
+      [4, 'cd'],
+      [7, ''],
+      [8, 'e'],
+    ]);
+  });
+
+  test('truncates to maxLines with an ellipsis', () => {
+    const layout = layoutText('aaa bbb ccc', Measurer, { maxLines: 1, maxWidth: 75 });
+
+    expect(layout.truncated).toBe(true);
+    expect(layout.lines).toHaveLength(1);
+    expect(layout.lines[0]).toMatchObject({ ellipsis: true, end: 6, text: 'aaa bb…', width: 70 });
+    expect(texts('aaa bbb ccc', { ellipsis: '', maxLines: 1, maxWidth: 75 })).toEqual(['aaa bbb']);
+    expect(() => layoutText('a', Measurer, { maxLines: 0 })).toThrow(RangeError);
+  });
+
+  test("cuts overflowing lines with wrap: 'none'", () => {
+    const layout = layoutText('abcdefgh\nij', Measurer, { maxWidth: 50, wrap: 'none' });
+
+    expect(layout.lines.map(({ text }) => text)).toEqual(['abcd…', 'ij']);
+    expect(layout.truncated).toBe(true);
+  });
+
+  test('aligns lines within maxWidth or the widest line', () => {
+    expect(layoutText('ab', Measurer, { align: 'center', maxWidth: 100 }).lines[0]!.bounds.left).toBe(40);
+    expect(layoutText('ab', Measurer, { align: 'right', maxWidth: 100 }).lines[0]!.bounds.left).toBe(80);
+    expect(layoutText('abcd\nab', Measurer, { align: 'right' }).lines[1]!.bounds.left).toBe(20);
+  });
+
+  test('keeps surrogate pairs together', () => {
+    const { lines } = layoutText('😀😀😀', Measurer, { maxWidth: 15, wrap: 'char' });
+
+    expect(lines.map(({ dx, text }) => [text, dx])).toEqual([
+      ['😀', [10, 0]],
+      ['😀', [10, 0]],
+      ['😀', [10, 0]],
+    ]);
+  });
+
+  test('rejects measurers that return the wrong number of advances', () => {
+    expect(() => layoutText('abc', { ...Measurer, advances: () => [10] })).toThrow(RangeError);
+  });
+});
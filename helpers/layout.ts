@@ -0,0 +1,527 @@
+import { ABC, GCP_RESULTSW, KERNINGPAIR, type RECT, SIZE, TEXTMETRICW } from '../codecs/GDI32';
+import { CharacterPlacementFlag, GDI_ERROR, NULL } from '../constants/GDI32';
+import GDI32 from '../structs/GDI32';
+import type { HDC } from '../types/GDI32';
+import { type GDIHandle, toHandle } from './handles';
+import { encodeWide, extTextOut } from './strings';
+
+/**
+ * Vertical metrics of a font, in logical units (`tmAscent`, `tmDescent`, `tmExternalLeading`).
+ */
+export interface LineMetrics {
+  ascent: number;
+  descent: number;
+  externalLeading: number;
+}
+
+/**
+ * Ink overhang of one character: `a` and `c` of its `ABC` widths. Positive values are blank
+ * space inside the advance, negative values ink that sticks out of it.
+ */
+export interface Bearing {
+  a: number;
+  c: number;
+}
+
+/**
+ * What `layoutText` needs to know about a font. `createTextMeasurer` builds one from a DC; tests
+ * and offscreen layout can pass any object with the same shape.
+ */
+export interface TextMeasurer {
+  readonly metrics: LineMetrics;
+  /** Advance widths without kerning, one per UTF-16 code unit (0 for the low half of a surrogate pair). */
+  advances(text: string): number[];
+  /** Bearings, one per code unit; ink bounds equal the advance bounds when omitted. */
+  bearings?(text: string): Bearing[];
+  /** Amount added to the advance of `left` when `right` follows it (code points); no kerning when omitted. */
+  kerning?(left: number, right: number): number;
+}
+
+/**
+ * How `layoutText` breaks lines wider than `maxWidth`: after spaces and hyphens (falling back to
+ * `char` for words that do not fit), between any two characters, or not at all.
+ */
+export type TextWrap = 'char' | 'none' | 'word';
+
+export type TextAlignment = 'center' | 'left' | 'right';
+
+/**
+ * Options for `layoutText`.
+ */
+export interface LayoutOptions {
+  /** Horizontal alignment within `maxWidth` (or the widest line); defaults to `'left'`. */
+  align?: TextAlignment;
+  /** Appended to the last visible line when text is cut off; defaults to `'…'`, `''` cuts without one. */
+  ellipsis?: string;
+  /** Distance between baselines; defaults to ascent + descent + external leading. */
+  lineHeight?: number;
+  /** Lines kept before the rest is truncated; defaults to all of them. */
+  maxLines?: number;
+  /** Width lines are wrapped (or, with `wrap: 'none'`, truncated) to; defaults to unlimited. */
+  maxWidth?: number;
+  /** Line breaking strategy; defaults to `'word'`. */
+  wrap?: TextWrap;
+}
+
+/**
+ * One laid-out line. Coordinates are relative to the layout origin, with y down and the line's
+ * top at `bounds.top` (draw with `TA_LEFT | TA_TOP` at `bounds.left`, `bounds.top`).
+ */
+export interface LayoutLine {
+  /** Advance box: `width` wide, ascent + descent tall. */
+  bounds: RECT;
+  /** Advances for `text`, one per code unit with kerning applied; pass as `lpDx`. */
+  dx: number[];
+  /** `true` when `text` ends with the ellipsis. */
+  ellipsis: boolean;
+  /** Source offset (code units) after the last character taken from the input. */
+  end: number;
+  /** `bounds` narrowed by the first character's `a` and the last one's `c` bearing. */
+  inkBounds: RECT;
+  /** Source offset (code units) of the first character. */
+  start: number;
+  /** Characters to draw: the source slice without trailing white space, plus any ellipsis. */
+  text: string;
+  width: number;
+}
+
+/**
+ * Result of `layoutText`.
+ */
+export interface TextLayout {
+  /** Union of the lines' advance boxes. */
+  bounds: RECT;
+  /** Union of the non-empty lines' ink boxes. */
+  inkBounds: RECT;
+  lineHeight: number;
+  lines: LayoutLine[];
+  /** `true` when `maxLines` or `wrap: 'none'` dropped text. */
+  truncated: boolean;
+}
+
+/**
+ * What `getCharacterPlacement` returns.
+ */
+export interface CharacterPlacement {
+  /** Caret positions, one per input code unit. */
+  caretPos: number[];
+  /** Advances (with kerning when `GCP_USEKERNING` is set), one per output glyph. */
+  dx: number[];
+  /** Input code units that fit in `maxExtent` (all of them without `GCP_MAXEXTENT`). */
+  fit: number;
+  /** Glyph indices, for `ExtTextOutW` with `ETO_GLYPH_INDEX`. */
+  glyphs: number[];
+  /** Output position of each input code unit. */
+  order: number[];
+  /** Extent of the string. */
+  size: SIZE;
+}
+
+const isWhiteSpace = (code: number): boolean => code === 0x09 || code === 0x20 || code === 0x3000;
+
+/** Hyphens a word may be broken after. */
+const isHyphen = (code: number): boolean => code === 0x2d || code === 0x2010 || code === 0xad;
+
+/** CJK ideographs, kana and Hangul, which break between any two characters. */
+const isIdeographic = (code: number): boolean => (code >= 0x2e80 && code <= 0x9fff) || (code >= 0xac00 && code <= 0xd7af) || (code >= 0xf900 && code <= 0xfaff) || (code >= 0x20000 && code <= 0x3ffff);
+
+const union = (rects: readonly RECT[]): RECT => rects.reduce((a, b) => ({ left: Math.min(a.left, b.left), top: Math.min(a.top, b.top), right: Math.max(a.right, b.right), bottom: Math.max(a.bottom, b.bottom) }));
+
+/**
+ * A run of text measured once: advances, kerning and code point boundaries, so line candidates
+ * can be sized without calling the measurer again.
+ */
+class Run {
+  public readonly advances: number[];
+  public readonly kerns: number[];
+  /** Offset of the code point after each code point start. */
+  public readonly next: number[];
+
+  constructor(public readonly text: string, measurer: TextMeasurer) {
+    this.advances = text ? measurer.advances(text) : [];
+    this.kerns = new Array<number>(text.length).fill(0);
+    this.next = new Array<number>(text.length).fill(text.length);
+
+    if (this.advances.length !== text.length) {
+      throw new RangeError(`Measurer returned ${this.advances.length} advances for ${text.length} code units.`);
+    }
+
+    for (let index = 0; index < text.length; ) {
+      const code = text.codePointAt(index)!;
+      const next = index + (code > 0xffff ? 2 : 1);
+
+      this.next[index] = next;
+
+      if (next < text.length && measurer.kerning) {
+        this.kerns[index] = measurer.kerning(code, text.codePointAt(next)!);
+      }
+
+      index = next;
+    }
+  }
+
+  public code(index: number): number {
+    return this.text.codePointAt(index)!;
+  }
+
+  /** Advances of `[start, end)`, kerned except across `end`. */
+  public dx(start: number, end: number): number[] {
+    return this.advances.slice(start, end).map((advance, offset) => {
+      const index = start + offset;
+
+      return this.next[index]! < end ? advance + this.kerns[index]! : advance;
+    });
+  }
+
+  /** Width of `[start, end)`. */
+  public width(start: number, end: number): number {
+    return this.dx(start, end).reduce((sum, advance) => sum + advance, 0);
+  }
+
+  /** `end` moved back over trailing white space. */
+  public trimEnd(start: number, end: number): number {
+    while (end > start && isWhiteSpace(this.text.charCodeAt(end - 1))) {
+      end--;
+    }
+
+    return end;
+  }
+
+  /** Start of the code point before `end`. */
+  public previous(start: number, end: number): number {
+    let index = start;
+
+    while (this.next[index]! < end) {
+      index = this.next[index]!;
+    }
+
+    return index;
+  }
+}
+
+/**
+ * Finds where the line starting at `start` ends: the last break opportunity before the first
+ * character that overflows `maxWidth` (trailing white space may overflow), or that character
+ * itself when the line has no opportunity. Every line takes at least one code point.
+ */
+const breakLine = (run: Run, start: number, maxWidth: number, wrap: TextWrap): number => {
+  let width = 0;
+  let opportunity = -1;
+  let previous = -1;
+
+  for (let index = start; index < run.text.length; index = run.next[index]!) {
+    const code = run.code(index);
+
+    if (previous >= 0) {
+      const before = run.code(previous);
+
+      if (wrap === 'char' || (isWhiteSpace(before) && !isWhiteSpace(code)) || isHyphen(before) || isIdeographic(before) || isIdeographic(code)) {
+        opportunity = index;
+      }
+
+      width += run.kerns[previous]!;
+    }
+
+    width += run.advances.slice(index, run.next[index]).reduce((sum, advance) => sum + advance, 0);
+
+    if (width > maxWidth && previous >= 0 && !isWhiteSpace(code)) {
+      return opportunity > start ? opportunity : index;
+    }
+
+    previous = index;
+  }
+
+  return run.text.length;
+};
+
+/**
+ * Shortens `[start, end)` until it fits `maxWidth` together with `ellipsis`, and returns the line.
+ */
+const truncateLine = (run: Run, start: number, end: number, ellipsis: Run, maxWidth: number, measurer: TextMeasurer): Omit<LayoutLine, 'bounds' | 'inkBounds'> => {
+  const ellipsisWidth = ellipsis.width(0, ellipsis.text.length);
+  const joined = (stop: number): number[] => {
+    const dx = run.dx(start, stop);
+
+    if (stop > start && ellipsis.text && measurer.kerning) {
+      const last = run.previous(start, stop);
+
+      dx[last - start]! += measurer.kerning(run.code(last), ellipsis.code(0));
+    }
+
+    return [...dx, ...ellipsis.dx(0, ellipsis.text.length)];
+  };
+
+  let stop = run.trimEnd(start, end);
+
+  while (stop > start && run.width(start, stop) + ellipsisWidth > maxWidth) {
+    stop = run.trimEnd(start, run.previous(start, stop));
+  }
+
+  const dx = joined(stop);
+
+  return { dx, ellipsis: true, end: stop, start, text: run.text.slice(start, stop) + ellipsis.text, width: dx.reduce((sum, advance) => sum + advance, 0) };
+};
+
+/**
+ * Breaks text into lines and computes per-character advances and bounding boxes.
+ *
+ * Hard line breaks (`\r\n`, `\n`, `\r`) always start a new line. Within a paragraph, lines are
+ * filled greedily up to `maxWidth`; white space at a break hangs past the edge and is not drawn.
+ * Kerning pairs apply inside a line but not across a break or before the ellipsis' own kerning.
+ *
+ * The layout is pure: everything it knows about the font comes from `measurer`.
+ *
+ * @param text Text to lay out.
+ * @param measurer Font measurements, e.g. from `createTextMeasurer`.
+ * @param options Width, wrapping, truncation and alignment.
+ * @returns Lines in drawing order.
+ * @example
+ * ```ts
+ * const layout = layoutText('The quick brown fox jumps over the lazy dog', createTextMeasurer(hdc), { maxWidth: 120, maxLines: 2 });
+ *
+ * for (const { bounds, dx, text } of layout.lines) {
+ *   extTextOut(hdc, x + bounds.left, y + bounds.top, text, { dx });
+ * }
+ * ```
+ */
+export function layoutText(text: string, measurer: TextMeasurer, options: LayoutOptions = {}): TextLayout {
+  const { ascent, descent, externalLeading } = measurer.metrics;
+  const lineHeight = options.lineHeight ?? ascent + descent + externalLeading;
+  const maxLines = options.maxLines ?? Infinity;
+  const maxWidth = options.maxWidth ?? Infinity;
+  const wrap = options.wrap ?? 'word';
+  const ellipsis = new Run(options.ellipsis ?? '…', measurer);
+  const lines: Omit<LayoutLine, 'bounds' | 'inkBounds'>[] = [];
+  const breaks = /\r\n|\r|\n/g;
+
+  if (maxLines < 1) {
+    throw new RangeError(`maxLines must be at least 1; got ${maxLines}.`);
+  }
+
+  let truncated = false;
+  let paragraphStart = 0;
+
+  for (const match of [...text.matchAll(breaks), null]) {
+    const paragraphEnd = match ? match.index : text.length;
+    const run = new Run(text.slice(paragraphStart, paragraphEnd), measurer);
+    const more = (end: number): boolean => end < run.text.length || !!match;
+    let start = 0;
+
+    do {
+      const end = wrap === 'none' || maxWidth === Infinity ? run.text.length : breakLine(run, start, maxWidth, wrap);
+      const stop = run.trimEnd(start, end);
+      const overflow = wrap === 'none' && run.width(start, stop) > maxWidth;
+
+      if (overflow || (lines.length === maxLines - 1 && more(end))) {
+        lines.push(truncateLine(run, start, overflow ? stop : end, ellipsis, maxWidth, measurer));
+        truncated = true;
+      } else {
+        const dx = run.dx(start, stop);
+
+        lines.push({ dx, ellipsis: false, end: stop, start, text: run.text.slice(start, stop), width: dx.reduce((sum, advance) => sum + advance, 0) });
+      }
+
+      lines.at(-1)!.start += paragraphStart;
+      lines.at(-1)!.end += paragraphStart;
+      start = end;
+    } while (start < run.text.length && lines.length < maxLines);
+
+    if (lines.length >= maxLines && (start < run.text.length || match)) {
+      truncated = true;
+      break;
+    }
+
+    paragraphStart = match ? match.index + match[0].length : text.length;
+  }
+
+  const extent = maxWidth !== Infinity ? maxWidth : Math.max(...lines.map(({ width }) => width));
+  const laidOut = lines.map((line, index): LayoutLine => {
+    const slack = extent - line.width;
+    const left = options.align === 'center' ? Math.floor(slack / 2) : options.align === 'right' ? slack : 0;
+    const top = index * lineHeight;
+    const bounds = { left, top, right: left + line.width, bottom: top + ascent + descent };
+    const bearings = line.text && measurer.bearings ? measurer.bearings(line.text) : [];
+    const first = bearings[0]?.a ?? 0;
+    const last = bearings[line.text.length - (/[\udc00-\udfff]$/.test(line.text) ? 2 : 1)]?.c ?? 0;
+
+    return { ...line, bounds, inkBounds: { ...bounds, left: bounds.left + first, right: bounds.right - last } };
+  });
+
+  const inked = laidOut.filter(({ text }) => text).map(({ inkBounds }) => inkBounds);
+
+  return { bounds: union(laidOut.map(({ bounds }) => bounds)), inkBounds: union(inked.length ? inked : laidOut.map(({ inkBounds }) => inkBounds)), lineHeight, lines: laidOut, truncated };
+}
+
+/**
+ * Draws a layout with `ExtTextOutW`, one call per line, passing each line's `dx`. Expects the
+ * DC's text alignment to be `TA_LEFT | TA_TOP` (the default).
+ *
+ * @param hdc Target DC, with the font the layout was measured with selected.
+ * @param layout Result of `layoutText`.
+ * @param x Layout origin x, in logical units.
+ * @param y Layout origin y, in logical units.
+ * @param options `ETO_*` flags for every line.
+ * @returns `true` when every line was drawn.
+ */
+export function drawTextLayout(hdc: HDC | GDIHandle, layout: TextLayout, x: number, y: number, options: number = 0): boolean {
+  return layout.lines.reduce((ok, { bounds, dx, text }) => extTextOut(hdc, x + bounds.left, y + bounds.top, text, { dx, options }) && ok, true);
+}
+
+/**
+ * `GetKerningPairsW` for the font selected into `hdc`.
+ *
+ * @param hdc DC with the font selected.
+ * @returns Every pair, `iKernAmount` in logical units; empty for fonts without kerning.
+ */
+export function getKerningPairs(hdc: HDC | GDIHandle): KERNINGPAIR[] {
+  const count = GDI32.GetKerningPairsW(toHandle(hdc), 0, NULL);
+
+  if (!count) {
+    return [];
+  }
+
+  const buffer = Buffer.alloc(count * KERNINGPAIR.sizeof);
+  const written = GDI32.GetKerningPairsW(toHandle(hdc), count, buffer.ptr);
+
+  return Array.from({ length: written }, (_, index) => KERNINGPAIR.decode(buffer, index * KERNINGPAIR.sizeof));
+}
+
+/**
+ * `GetCharacterPlacementW` for JS strings: glyphs, advances, caret positions and ordering, with
+ * GDI applying kerning, ligatures and reordering as `flags` request.
+ *
+ * @param hdc DC with the font selected.
+ * @param text Text to place.
+ * @param flags `GCP_*` flags; defaults to `GCP_USEKERNING`.
+ * @param maxExtent Stop once the string is this wide (sets `GCP_MAXEXTENT`).
+ * @returns The placement arrays and the string's extent.
+ * @example
+ * ```ts
+ * const { dx, glyphs } = getCharacterPlacement(hdc, 'AVATAR');
+ * GDI32.ExtTextOutW(hdc, 0, 0, ExtTextOutOption.ETO_GLYPH_INDEX, null, Uint16Array.from(glyphs).ptr, glyphs.length, Int32Array.from(dx).ptr);
+ * ```
+ */
+export function getCharacterPlacement(hdc: HDC | GDIHandle, text: string, flags: number = CharacterPlacementFlag.GCP_USEKERNING, maxExtent?: number): CharacterPlacement {
+  const string = encodeWide(text);
+  const order = new Uint32Array(text.length);
+  const dx = new Int32Array(text.length);
+  const caretPos = new Int32Array(text.length);
+  const glyphs = new Uint16Array(text.length);
+  const results = GCP_RESULTSW.encode({
+    lStructSize: GCP_RESULTSW.sizeof,
+    lpOrder: order.ptr,
+    lpDx: dx.ptr,
+    lpCaretPos: caretPos.ptr,
+    lpGlyphs: glyphs.ptr,
+    nGlyphs: text.length,
+  });
+  const extent = GDI32.GetCharacterPlacementW(toHandle(hdc), string.ptr, text.length, maxExtent ?? 0, results.ptr, maxExtent === undefined ? flags : flags | CharacterPlacementFlag.GCP_MAXEXTENT);
+
+  if (!extent && text.length) {
+    throw new Error(`GetCharacterPlacementW failed for DC 0x${toHandle(hdc).toString(16)}.`);
+  }
+
+  const { nGlyphs, nMaxFit } = GCP_RESULTSW.decode(results);
+
+  return {
+    caretPos: [...caretPos],
+    dx: [...dx.subarray(0, nGlyphs)],
+    fit: nMaxFit,
+    glyphs: [...glyphs.subarray(0, nGlyphs)],
+    order: [...order],
+    size: { cx: extent & 0xffff, cy: extent >>> 16 },
+  };
+}
+
+const glyphIndices = (hdc: bigint, text: string): Uint16Array | undefined => {
+  const string = encodeWide(text);
+  const glyphs = new Uint16Array(text.length);
+
+  return GDI32.GetGlyphIndicesW(hdc, string.ptr, text.length, glyphs.ptr, 0) === GDI_ERROR ? undefined : glyphs;
+};
+
+/**
+ * Builds a `TextMeasurer` for the font currently selected into `hdc`.
+ *
+ * Advances come from `GetTextExtentExPointI` on the string's glyph indices (falling back to
+ * `GetCharWidth32W` for fonts without them, such as raster fonts), bearings from
+ * `GetCharABCWidthsI` and kerning from `GetKerningPairsW`. Metrics and kerning pairs are read
+ * once, so build a new measurer after selecting another font.
+ *
+ * @param hdc DC with the font selected.
+ * @returns A measurer for `layoutText`.
+ */
+export function createTextMeasurer(hdc: HDC | GDIHandle): TextMeasurer {
+  const dc = toHandle(hdc);
+  const metrics = Buffer.alloc(TEXTMETRICW.sizeof);
+
+  if (!GDI32.GetTextMetricsW(dc, metrics.ptr)) {
+    throw new Error(`GetTextMetricsW failed for DC 0x${dc.toString(16)}.`);
+  }
+
+  const { tmAscent, tmDescent, tmExternalLeading } = TEXTMETRICW.decode(metrics);
+  const pairs = new Map(getKerningPairs(dc).map(({ iKernAmount, wFirst, wSecond }) => [wFirst * 0x10000 + wSecond, iKernAmount]));
+  const widths = new Map<number, number>();
+
+  const charWidth = (code: number): number => {
+    let width = widths.get(code);
+
+    if (width === undefined) {
+      const buffer = new Int32Array(1);
+
+      if (!GDI32.GetCharWidth32W(dc, code, code, buffer.ptr)) {
+        throw new Error(`GetCharWidth32W failed for character 0x${code.toString(16)}.`);
+      }
+
+      widths.set(code, (width = buffer[0]!));
+    }
+
+    return width;
+  };
+
+  return {
+    metrics: { ascent: tmAscent, descent: tmDescent, externalLeading: tmExternalLeading },
+    advances(text: string): number[] {
+      const glyphs = glyphIndices(dc, text);
+      let advances: number[];
+
+      if (glyphs) {
+        const extents = new Int32Array(text.length);
+        const size = Buffer.alloc(SIZE.sizeof);
+
+        if (!GDI32.GetTextExtentExPointI(dc, glyphs.ptr, text.length, 0, NULL, extents.ptr, size.ptr)) {
+          throw new Error(`GetTextExtentExPointI failed for DC 0x${dc.toString(16)}.`);
+        }
+
+        advances = Array.from(extents, (extent, index) => extent - (index ? extents[index - 1]! : 0));
+      } else {
+        advances = Array.from({ length: text.length }, (_, index) => charWidth(text.charCodeAt(index)));
+      }
+
+      // GDI measures each half of a surrogate pair; lpDx wants the whole advance on the first.
+      for (let index = 1; index < text.length; index++) {
+        if (text.codePointAt(index - 1)! > 0xffff) {
+          advances[index - 1]! += advances[index]!;
+          advances[index] = 0;
+        }
+      }
+
+      return advances;
+    },
+    bearings(text: string): Bearing[] {
+      const glyphs = glyphIndices(dc, text);
+      const abc = Buffer.alloc(text.length * ABC.sizeof);
+
+      if (!glyphs || !GDI32.GetCharABCWidthsI(dc, 0, text.length, glyphs.ptr, abc.ptr)) {
+        return Array.from({ length: text.length }, () => ({ a: 0, c: 0 }));
+      }
+
+      return Array.from({ length: text.length }, (_, index) => {
+        const { abcA, abcC } = ABC.decode(abc, index * ABC.sizeof);
+
+        return { a: abcA, c: abcC };
+      });
+    },
+    kerning: (left: number, right: number): number => pairs.get(left * 0x10000 + right) ?? 0,
+  };
+}
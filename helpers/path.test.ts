@@ -0,0 +1,83 @@
+import { toArrayBuffer } from 'bun:ffi';
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import { POINT } from '../codecs/GDI32';
+import { PointType } from '../constants/GDI32';
+import { createMockBackend } from '../runtime/backend';
+import '../runtime/extensions';
+import GDI32 from '../structs/GDI32';
+import { Path, getPath } from './path';
+
+afterEach(() => GDI32.Reset());
+
+/** Serves `points` and `types` through `GetPath`, answering the size query first. */
+const usePath = (points: POINT[], types: number[]): void =>
+  GDI32.Use(
+    createMockBackend({
+      GetPath: (_, apt, aj, count) => {
+        if (!count) {
+          return points.length;
+        }
+
+        Buffer.from(toArrayBuffer(apt, 0, count * POINT.sizeof)).set(Buffer.concat(points.map((point) => POINT.encode(point))));
+        new Uint8Array(toArrayBuffer(aj, 0, count)).set(types);
+
+        return points.length;
+      },
+    })
+  );
+
+describe('getPath', () => {
+  test('decodes the DC path', () => {
+    const path = new Path().moveTo(0, 0).lineTo(10, 0).bezierTo(10, 5, 5, 10, 0, 10).closeFigure();
+    const { PT_BEZIERTO, PT_CLOSEFIGURE, PT_LINETO, PT_MOVETO } = PointType;
+
+    usePath(
+      [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 5 },
+        { x: 5, y: 10 },
+        { x: 0, y: 10 },
+      ],
+      [PT_MOVETO, PT_LINETO, PT_BEZIERTO, PT_BEZIERTO, PT_BEZIERTO | PT_CLOSEFIGURE]
+    );
+
+    expect(getPath(1n)).toEqual(path.toCommands());
+  });
+
+  test('returns no commands for an empty path', () => {
+    usePath([], []);
+
+    expect(getPath(1n)).toEqual([]);
+  });
+
+  test('throws without a closed path bracket', () => {
+    GDI32.Use(createMockBackend({ GetPath: () => -1 }));
+
+    expect(() => getPath(1n)).toThrow('GetPath failed for DC 0x1; is there a closed path bracket?');
+  });
+});
+
+describe('Path', () => {
+  test('flattens arcs within the tolerance', () => {
+    const path = new Path().moveTo(100, 0).angleArc(0, 0, 100, 0, 90);
+    const coarse = path.flatten(2);
+    const fine = path.flatten(0.1);
+
+    expect(fine.length).toBeGreaterThan(coarse.length);
+    expect(fine.every((command) => command.type !== 'cubicTo' && command.type !== 'quadTo')).toBe(true);
+
+    for (const command of fine) {
+      if (command.type === 'lineTo') {
+        expect(Math.abs(Math.hypot(command.x, command.y) - 100)).toBeLessThan(0.2);
+      }
+    }
+  });
+
+  test('round-trips through fromCommands', () => {
+    const path = new Path().moveTo(1, 2).lineTo(3, 4).bezierTo(5, 6, 7, 8, 9, 10).closeFigure();
+
+    expect(Path.fromCommands(path.toCommands()).toCommands()).toEqual(path.toCommands());
+  });
+});
@@ -0,0 +1,441 @@
+import { POINT, type RECT } from '../codecs/GDI32';
+import { type OutlineToSVGOptions, type PathCommand, outlineToSVGPath } from '../codecs/glyph';
+import { arcToBeziers, decodePathPoints, flattenPath } from '../codecs/path';
+import { ArcDirection, NULL } from '../constants/GDI32';
+import GDI32 from '../structs/GDI32';
+import type { HDC, HRGN } from '../types/GDI32';
+import { type GDIHandle, toHandle } from './handles';
+
+/**
+ * One call recorded by `Path`.
+ */
+export type PathOperation =
+  | { type: 'angleArc'; radius: number; startAngle: number; sweepAngle: number; x: number; y: number }
+  | { type: 'arcDirection'; direction: ArcDirection }
+  | { type: 'arcTo'; end: POINT; rect: RECT; start: POINT }
+  | { type: 'closeFigure' }
+  | { type: 'ellipse'; rect: RECT }
+  | { type: 'lineTo'; x: number; y: number }
+  | { type: 'moveTo'; x: number; y: number }
+  | { type: 'polyBezierTo'; points: POINT[] }
+  | { type: 'polylineTo'; points: POINT[] }
+  | { type: 'rectangle'; rect: RECT };
+
+const encodePoints = (points: readonly POINT[]): Buffer => Buffer.concat(points.map((point) => POINT.encode(point)));
+
+const radians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * A recorded sequence of path drawing calls.
+ *
+ * Build it fluently, then `record` it into a DC's path bracket (`BeginPath` … `EndPath`) and use
+ * `stroke`, `fill`, `strokeAndFill` or `toRegion`, or inspect it in JS with `toCommands`,
+ * `toSVGPath` and `flatten`. Replaying issues the same calls in the same order, so drawing
+ * attributes (pen, arc direction set outside the path, …) come from the DC.
+ *
+ * @example
+ * ```ts
+ * const badge = new Path()
+ *   .arcDirection(ArcDirection.AD_CLOCKWISE)
+ *   .moveTo(10, 0)
+ *   .lineTo(90, 0)
+ *   .arcTo({ left: 80, top: 0, right: 100, bottom: 20 }, { x: 90, y: 0 }, { x: 100, y: 10 })
+ *   .lineTo(100, 40)
+ *   .polyBezierTo([{ x: 100, y: 60 }, { x: 0, y: 60 }, { x: 0, y: 40 }])
+ *   .closeFigure();
+ *
+ * badge.strokeAndFill(hdc);
+ * badge.toSVGPath(); // 'M10 0L90 0C…Z'
+ * ```
+ */
+export class Path {
+  private readonly recorded: PathOperation[] = [];
+
+  /**
+   * Builds a path from commands (e.g. `getPath` output or a decoded glyph outline). Coordinates
+   * are rounded to integers and quadratic curves raised to cubics.
+   */
+  public static fromCommands(commands: readonly PathCommand[]): Path {
+    const path = new Path();
+    let current = { x: 0, y: 0 };
+    let start = current;
+
+    for (const command of commands) {
+      switch (command.type) {
+        case 'moveTo':
+          path.moveTo(Math.round(command.x), Math.round(command.y));
+          start = current = command;
+          break;
+        case 'lineTo':
+          path.lineTo(Math.round(command.x), Math.round(command.y));
+          current = command;
+          break;
+        case 'quadTo':
+          path.bezierTo(
+            Math.round(current.x + ((command.x1 - current.x) * 2) / 3),
+            Math.round(current.y + ((command.y1 - current.y) * 2) / 3),
+            Math.round(command.x + ((command.x1 - command.x) * 2) / 3),
+            Math.round(command.y + ((command.y1 - command.y) * 2) / 3),
+            Math.round(command.x),
+            Math.round(command.y)
+          );
+          current = command;
+          break;
+        case 'cubicTo':
+          path.bezierTo(Math.round(command.x1), Math.round(command.y1), Math.round(command.x2), Math.round(command.y2), Math.round(command.x), Math.round(command.y));
+          current = command;
+          break;
+        case 'close':
+          path.closeFigure();
+          current = start;
+          break;
+      }
+    }
+
+    return path;
+  }
+
+  /** The recorded calls, in order. */
+  public get operations(): readonly PathOperation[] {
+    return this.recorded;
+  }
+
+  /** `MoveToEx`. */
+  public moveTo(x: number, y: number): this {
+    return this.push({ type: 'moveTo', x, y });
+  }
+
+  /** `LineTo`. */
+  public lineTo(x: number, y: number): this {
+    return this.push({ type: 'lineTo', x, y });
+  }
+
+  /** `PolylineTo`. */
+  public polylineTo(points: readonly POINT[]): this {
+    return this.push({ type: 'polylineTo', points: points.map(({ x, y }) => ({ x, y })) });
+  }
+
+  /** `PolyBezierTo` with one curve: two control points and an end point. */
+  public bezierTo(x1: number, y1: number, x2: number, y2: number, x: number, y: number): this {
+    return this.polyBezierTo([
+      { x: x1, y: y1 },
+      { x: x2, y: y2 },
+      { x, y },
+    ]);
+  }
+
+  /** `PolyBezierTo`: three points (control, control, end) per curve. */
+  public polyBezierTo(points: readonly POINT[]): this {
+    if (points.length % 3) {
+      throw new RangeError(`PolyBezierTo needs three points per curve; got ${points.length}.`);
+    }
+
+    return this.push({ type: 'polyBezierTo', points: points.map(({ x, y }) => ({ x, y })) });
+  }
+
+  /**
+   * `ArcTo`: a line from the current position to the arc's start, then the arc of the ellipse
+   * bounded by `rect` between the radials through `start` and `end`.
+   */
+  public arcTo(rect: RECT, start: POINT, end: POINT): this {
+    return this.push({ type: 'arcTo', end: { ...end }, rect: { ...rect }, start: { ...start } });
+  }
+
+  /**
+   * `AngleArc`: a line to the start of a circular arc, then the arc. Angles are in degrees,
+   * counter-clockwise from the x axis; the sweep direction ignores the arc direction.
+   */
+  public angleArc(x: number, y: number, radius: number, startAngle: number, sweepAngle: number): this {
+    return this.push({ type: 'angleArc', radius, startAngle, sweepAngle, x, y });
+  }
+
+  /** `Rectangle`: a closed figure that leaves the current position alone. */
+  public rectangle(rect: RECT): this {
+    return this.push({ type: 'rectangle', rect: { ...rect } });
+  }
+
+  /** `Ellipse`: a closed figure that leaves the current position alone. */
+  public ellipse(rect: RECT): this {
+    return this.push({ type: 'ellipse', rect: { ...rect } });
+  }
+
+  /** `CloseFigure`. */
+  public closeFigure(): this {
+    return this.push({ type: 'closeFigure' });
+  }
+
+  /** `SetArcDirection` for the arcs, rectangles and ellipses that follow. */
+  public arcDirection(direction: ArcDirection): this {
+    return this.push({ type: 'arcDirection', direction });
+  }
+
+  /**
+   * Issues the recorded calls on `hdc`, without a path bracket (so they also draw directly).
+   *
+   * @returns `true` when every call succeeded.
+   */
+  public replay(hdc: HDC | GDIHandle): boolean {
+    const dc = toHandle(hdc);
+
+    return this.recorded.every((operation) => {
+      switch (operation.type) {
+        case 'angleArc':
+          return !!GDI32.AngleArc(dc, operation.x, operation.y, operation.radius, operation.startAngle, operation.sweepAngle);
+        case 'arcDirection':
+          return !!GDI32.SetArcDirection(dc, operation.direction);
+        case 'arcTo': {
+          const { end, rect, start } = operation;
+
+          return !!GDI32.ArcTo(dc, rect.left, rect.top, rect.right, rect.bottom, start.x, start.y, end.x, end.y);
+        }
+        case 'closeFigure':
+          return !!GDI32.CloseFigure(dc);
+        case 'ellipse':
+          return !!GDI32.Ellipse(dc, operation.rect.left, operation.rect.top, operation.rect.right, operation.rect.bottom);
+        case 'lineTo':
+          return !!GDI32.LineTo(dc, operation.x, operation.y);
+        case 'moveTo':
+          return !!GDI32.MoveToEx(dc, operation.x, operation.y, NULL);
+        case 'polyBezierTo':
+        case 'polylineTo': {
+          const points = encodePoints(operation.points);
+
+          return !operation.points.length || !!(operation.type === 'polyBezierTo' ? GDI32.PolyBezierTo : GDI32.PolylineTo)(dc, points.ptr, operation.points.length);
+        }
+        case 'rectangle':
+          return !!GDI32.Rectangle(dc, operation.rect.left, operation.rect.top, operation.rect.right, operation.rect.bottom);
+      }
+    });
+  }
+
+  /**
+   * Replays the path inside `BeginPath`/`EndPath`, making it the DC's current path. The bracket
+   * is aborted if a call fails.
+   *
+   * @returns `true` on success.
+   */
+  public record(hdc: HDC | GDIHandle): boolean {
+    const dc = toHandle(hdc);
+
+    if (!GDI32.BeginPath(dc)) {
+      return false;
+    }
+
+    if (!this.replay(dc) || !GDI32.EndPath(dc)) {
+      GDI32.AbortPath(dc);
+
+      return false;
+    }
+
+    return true;
+  }
+
+  /** `record`, then `StrokePath` with the selected pen. */
+  public stroke(hdc: HDC | GDIHandle): boolean {
+    return this.record(hdc) && !!GDI32.StrokePath(toHandle(hdc));
+  }
+
+  /** `record`, then `FillPath` with the selected brush and polygon fill mode. */
+  public fill(hdc: HDC | GDIHandle): boolean {
+    return this.record(hdc) && !!GDI32.FillPath(toHandle(hdc));
+  }
+
+  /** `record`, then `StrokeAndFillPath`. */
+  public strokeAndFill(hdc: HDC | GDIHandle): boolean {
+    return this.record(hdc) && !!GDI32.StrokeAndFillPath(toHandle(hdc));
+  }
+
+  /**
+   * `record`, optionally `WidenPath` (outline of the stroke with the selected pen), then
+   * `PathToRegion`.
+   *
+   * @returns The region (0n on failure); the caller owns it.
+   */
+  public toRegion(hdc: HDC | GDIHandle, widen: boolean = false): HRGN {
+    if (!this.record(hdc) || (widen && !GDI32.WidenPath(toHandle(hdc)))) {
+      return 0n;
+    }
+
+    return GDI32.PathToRegion(toHandle(hdc));
+  }
+
+  /**
+   * Converts the recorded calls to path commands in JS, the way GDI builds the path: every line,
+   * curve and arc starts a figure at the current position if none is open, arcs become cubic
+   * Béziers, and rectangles and ellipses are closed figures of their own. The current position
+   * starts at (0, 0) and arcs start counter-clockwise, as in a fresh DC.
+   *
+   * GDI may split arcs into different (but equivalent) curves and rounds points to integers.
+   */
+  public toCommands(): PathCommand[] {
+    const commands: PathCommand[] = [];
+    let direction: ArcDirection = ArcDirection.AD_COUNTERCLOCKWISE;
+    let current = { x: 0, y: 0 };
+    let open = false;
+
+    const begin = (): void => {
+      if (commands.at(-1)?.type === 'moveTo') {
+        commands.pop();
+      }
+
+      commands.push({ type: 'moveTo', ...current });
+      open = true;
+    };
+    const lineTo = (x: number, y: number): void => {
+      if (!open) {
+        begin();
+      }
+
+      commands.push({ type: 'lineTo', x, y });
+      current = { x, y };
+    };
+    const arc = (cx: number, cy: number, rx: number, ry: number, start: number, sweep: number): void => {
+      lineTo(cx + rx * Math.cos(start), cy + ry * Math.sin(start));
+      commands.push(...arcToBeziers(cx, cy, rx, ry, start, sweep));
+      current = { x: cx + rx * Math.cos(start + sweep), y: cy + ry * Math.sin(start + sweep) };
+    };
+    const figure = (points: readonly { x: number; y: number }[]): void => {
+      commands.push({ type: 'moveTo', ...points[0]! }, ...points.slice(1).map(({ x, y }) => ({ type: 'lineTo' as const, x, y })), { type: 'close' });
+      open = false;
+    };
+
+    for (const operation of this.recorded) {
+      switch (operation.type) {
+        case 'angleArc':
+          arc(operation.x, operation.y, operation.radius, operation.radius, -radians(operation.startAngle), -radians(operation.sweepAngle));
+          break;
+        case 'arcDirection':
+          direction = operation.direction;
+          break;
+        case 'arcTo': {
+          const { end, rect, start } = operation;
+          const [cx, cy, rx, ry] = [(rect.left + rect.right) / 2, (rect.top + rect.bottom) / 2, Math.abs(rect.right - rect.left) / 2, Math.abs(rect.bottom - rect.top) / 2];
+          const from = Math.atan2((start.y - cy) / (ry || 1), (start.x - cx) / (rx || 1));
+          const to = Math.atan2((end.y - cy) / (ry || 1), (end.x - cx) / (rx || 1));
+          // Counter-clockwise on screen is decreasing angle with y down; equal radials draw the full ellipse.
+          let sweep = to - from;
+
+          if (direction === ArcDirection.AD_COUNTERCLOCKWISE) {
+            sweep = sweep >= 0 ? sweep - 2 * Math.PI : sweep;
+          } else {
+            sweep = sweep <= 0 ? sweep + 2 * Math.PI : sweep;
+          }
+
+          arc(cx, cy, rx, ry, from, sweep);
+          break;
+        }
+        case 'closeFigure':
+          if (open) {
+            commands.push({ type: 'close' });
+            open = false;
+          }
+
+          break;
+        case 'ellipse': {
+          const { bottom, left, right, top } = operation.rect;
+          const [cx, cy, rx, ry] = [(left + right) / 2, (top + bottom) / 2, Math.abs(right - left) / 2, Math.abs(bottom - top) / 2];
+
+          commands.push({ type: 'moveTo', x: cx + rx, y: cy }, ...arcToBeziers(cx, cy, rx, ry, 0, direction === ArcDirection.AD_COUNTERCLOCKWISE ? -2 * Math.PI : 2 * Math.PI), { type: 'close' });
+          open = false;
+          break;
+        }
+        case 'lineTo':
+          lineTo(operation.x, operation.y);
+          break;
+        case 'moveTo':
+          current = { x: operation.x, y: operation.y };
+          open = false;
+          break;
+        case 'polyBezierTo':
+          if (!open && operation.points.length) {
+            begin();
+          }
+
+          for (let index = 0; index + 2 < operation.points.length; index += 3) {
+            const [c1, c2, end] = [operation.points[index]!, operation.points[index + 1]!, operation.points[index + 2]!];
+
+            commands.push({ type: 'cubicTo', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: end.x, y: end.y });
+            current = { ...end };
+          }
+
+          break;
+        case 'polylineTo':
+          operation.points.forEach(({ x, y }) => lineTo(x, y));
+          break;
+        case 'rectangle': {
+          const { bottom, left, right, top } = operation.rect;
+          const corners = [
+            { x: right, y: top },
+            { x: left, y: top },
+            { x: left, y: bottom },
+            { x: right, y: bottom },
+          ];
+
+          figure(direction === ArcDirection.AD_COUNTERCLOCKWISE ? corners : [corners[0]!, ...corners.slice(1).reverse()]);
+          break;
+        }
+      }
+    }
+
+    return commands;
+  }
+
+  /**
+   * SVG path data for `toCommands()` (y is not flipped: GDI and SVG both point y down).
+   */
+  public toSVGPath(options: OutlineToSVGOptions = {}): string {
+    return outlineToSVGPath(this.toCommands(), { flipY: false, ...options });
+  }
+
+  /**
+   * `toCommands()` with curves replaced by line segments, like `FlattenPath`.
+   *
+   * @param tolerance Maximum distance between a curve and its polyline.
+   */
+  public flatten(tolerance: number = 0.5): PathCommand[] {
+    return flattenPath(this.toCommands(), tolerance);
+  }
+
+  private push(operation: PathOperation): this {
+    this.recorded.push(operation);
+
+    return this;
+  }
+}
+
+/**
+ * Reads the DC's current path (after `EndPath`) with `GetPath` and decodes it.
+ *
+ * @param hdc DC with a closed path bracket.
+ * @returns Commands in logical coordinates; curves are cubic Béziers unless the path was flattened.
+ * @example
+ * ```ts
+ * new Path().moveTo(0, 0).angleArc(50, 50, 40, 0, 270).closeFigure().record(hdc);
+ * GDI32.FlattenPath(hdc);
+ * const polygon = getPath(hdc); // moveTo + lineTo… + close
+ * ```
+ */
+export function getPath(hdc: HDC | GDIHandle): PathCommand[] {
+  const count = GDI32.GetPath(toHandle(hdc), NULL, NULL, 0);
+
+  if (count < 0) {
+    throw new Error(`GetPath failed for DC 0x${toHandle(hdc).toString(16)}; is there a closed path bracket?`);
+  }
+
+  if (!count) {
+    return [];
+  }
+
+  const points = Buffer.alloc(count * POINT.sizeof);
+  const types = new Uint8Array(count);
+  const written = GDI32.GetPath(toHandle(hdc), points.ptr, types.ptr, count);
+
+  if (written < 0) {
+    throw new Error(`GetPath failed for DC 0x${toHandle(hdc).toString(16)}.`);
+  }
+
+  return decodePathPoints(
+    Array.from({ length: written }, (_, index) => POINT.decode(points, index * POINT.sizeof)),
+    types.subarray(0, written)
+  );
+}
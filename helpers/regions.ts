@@ -0,0 +1,54 @@
+import { type RECT, XFORM } from '../codecs/GDI32';
+import { decodeRegionData, encodeRegionData } from '../codecs/region';
+import { NULL } from '../constants/GDI32';
+import GDI32 from '../structs/GDI32';
+import type { HRGN } from '../types/GDI32';
+import { type GDIHandle, toHandle } from './handles';
+
+/**
+ * Reads a region's rectangles with `GetRegionData` (size query, then data).
+ *
+ * @param hrgn Region handle.
+ * @returns The rectangles GDI stores, in y-x banded order.
+ * @example
+ * ```ts
+ * using rgn = new GDIObject(GDI32.CreateEllipticRgn(0, 0, 40, 20));
+ * const rects = getRegionData(rgn);
+ * ptInRegion(rects, 20, 10); // same answer as GDI32.PtInRegion
+ * ```
+ */
+export function getRegionData(hrgn: HRGN | GDIHandle): RECT[] {
+  const size = GDI32.GetRegionData(toHandle(hrgn), 0, NULL);
+
+  if (!size) {
+    throw new Error(`GetRegionData failed for region 0x${toHandle(hrgn).toString(16)}.`);
+  }
+
+  const data = Buffer.alloc(size);
+
+  if (!GDI32.GetRegionData(toHandle(hrgn), size, data.ptr)) {
+    throw new Error(`GetRegionData failed for region 0x${toHandle(hrgn).toString(16)}.`);
+  }
+
+  return decodeRegionData(data);
+}
+
+/**
+ * Creates a region from rectangles with `ExtCreateRegion`.
+ *
+ * @param rects Non-overlapping rectangles (see `normalizeRegion`).
+ * @param xform Optional transformation applied by GDI; rotations and shears produce a region
+ * approximating the transformed rectangles.
+ * @returns The region handle (0n on failure).
+ * @example
+ * ```ts
+ * const rects = combineRegion(buttons, [toolbar], RegionCombineMode.RGN_AND);
+ * using hit = new GDIObject(createRegion(rects));
+ * ```
+ */
+export function createRegion(rects: readonly RECT[], xform: XFORM | null = null): HRGN {
+  const data = encodeRegionData(rects);
+  const matrix = xform && XFORM.encode(xform);
+
+  return GDI32.ExtCreateRegion(matrix ? matrix.ptr : NULL, data.length, data.ptr);
+}
@@ -0,0 +1,42 @@
+/**
+ * Disposes `scope` after `callback` failed, rethrowing the callback's error even when disposing
+ * throws too, since that error explains why the scope closed early.
+ */
+const abandon = (scope: Disposable, error: unknown): never => {
+  try {
+    scope[Symbol.dispose]();
+  } catch {
+    // Dropped in favour of `error`.
+  }
+
+  throw error;
+};
+
+/**
+ * Runs `callback` inside `scope`, disposing it on return, on throw, or when a returned
+ * promise settles. When both `callback` and the disposal fail, the callback's error wins.
+ *
+ * @param scope Scope opened by the caller.
+ * @param callback Code to run while the scope is open.
+ * @returns Whatever `callback` returns.
+ */
+export function scoped<T>(scope: Disposable, callback: () => T): T {
+  let result: T;
+
+  try {
+    result = callback();
+  } catch (error) {
+    return abandon(scope, error);
+  }
+
+  if (result instanceof Promise) {
+    return result.then(
+      (value) => (scope[Symbol.dispose](), value),
+      (error) => abandon(scope, error)
+    ) as T;
+  }
+
+  scope[Symbol.dispose]();
+
+  return result;
+}
@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import { type GDI32RecordingBackend, createMockBackend, createRecordingBackend } from '../runtime/backend';
+import GDI32 from '../structs/GDI32';
+import { assertNotSelected, selectClipRegion, selectObjects, selectPalette, selectedInto, withClipRegion, withObjects, withPalette } from './selection';
+
+const hdc = 1n;
+
+/** Handles encode their object kind in the high byte: pens 0x1xx, brushes 0x2xx, palettes 0x3xx. */
+const pen = 0x101n;
+const brush = 0x201n;
+const palette = 0x301n;
+const Failing = 0xbadn;
+
+let backend: GDI32RecordingBackend;
+let selected: Map<bigint, bigint>;
+let clip: string | null;
+let regions: Map<bigint, string | null>;
+
+beforeEach(() => {
+  let next = 0x900n;
+
+  selected = new Map([
+    [1n, 0x100n],
+    [2n, 0x200n],
+    [3n, 0x300n],
+  ]);
+  clip = null;
+  regions = new Map([[0x800n, 'clip']]);
+
+  const select = (handle: bigint): bigint => {
+    if (handle === Failing) {
+      return 0n;
+    }
+
+    const previous = selected.get(handle >> 8n)!;
+
+    selected.set(handle >> 8n, handle);
+
+    return previous;
+  };
+
+  backend = createRecordingBackend(
+    createMockBackend({
+      CreateRectRgn: () => (regions.set(next, null), next++),
+      DeleteObject: (handle) => +regions.delete(handle),
+      GetClipRgn: (_, region) => (clip === null ? 0 : (regions.set(region, clip), 1)),
+      SelectClipRgn: (_, region) => ((clip = region ? regions.get(region)! : null), 1),
+      SelectObject: (_, handle) => select(handle),
+      SelectPalette: (_, handle) => select(handle),
+    })
+  );
+
+  GDI32.Use(backend);
+});
+
+afterEach(() => GDI32.Reset());
+
+describe('ObjectSelection', () => {
+  test('reselects the previous objects in reverse order on dispose', () => {
+    const selection = selectObjects(hdc, pen, brush);
+
+    expect(selection.previous).toEqual([0x100n, 0x200n]);
+    expect(selected.get(1n)).toBe(pen);
+    expect(selectedInto(pen)).toBe(hdc);
+    expect(() => assertNotSelected(brush)).toThrow('GDI object 0x201 is still selected into DC 0x1; restore the selection before deleting it.');
+
+    backend.clear();
+    selection[Symbol.dispose]();
+
+    expect(backend.calls.map(({ args }) => args[1])).toEqual([0x200n, 0x100n]);
+    expect(selected.get(1n)).toBe(0x100n);
+    expect(selected.get(2n)).toBe(0x200n);
+    expect(selectedInto(pen)).toBeUndefined();
+    expect(() => assertNotSelected(brush)).not.toThrow();
+  });
+
+  test('restores only once', () => {
+    const selection = selectObjects(hdc, pen);
+
+    selection.restore();
+    backend.clear();
+    selection[Symbol.dispose]();
+
+    expect(backend.calls).toEqual([]);
+  });
+
+  test('undoes earlier selections when one fails', () => {
+    expect(() => selectObjects(hdc, pen, Failing)).toThrow('SelectObject failed for object 0xbad in DC 0x1.');
+    expect(selected.get(1n)).toBe(0x100n);
+    expect(selectedInto(pen)).toBeUndefined();
+  });
+
+  test('withObjects restores on return and on throw', () => {
+    expect(withObjects(hdc, [pen], () => selected.get(1n))).toBe(pen);
+    expect(selected.get(1n)).toBe(0x100n);
+
+    expect(() =>
+      withObjects(hdc, [pen, brush], () => {
+        throw new Error('draw');
+      })
+    ).toThrow('draw');
+    expect(selected.get(1n)).toBe(0x100n);
+    expect(selected.get(2n)).toBe(0x200n);
+    expect(selectedInto(brush)).toBeUndefined();
+  });
+
+  test('withObjects restores when an async callback settles', async () => {
+    const pending = withObjects(hdc, [pen], async () => {
+      throw new Error('draw');
+    });
+
+    expect(selected.get(1n)).toBe(pen);
+    await expect(pending).rejects.toThrow('draw');
+    expect(selected.get(1n)).toBe(0x100n);
+  });
+});
+
+describe('PaletteSelection', () => {
+  test('reselects the previous palette with the same background flag', () => {
+    const selection = selectPalette(hdc, palette, true);
+
+    expect(selection.previous).toBe(0x300n);
+    expect(selectedInto(palette)).toBe(hdc);
+
+    selection[Symbol.dispose]();
+
+    expect(backend.calls.map(({ args }) => args.slice(1))).toEqual([
+      [palette, 1],
+      [0x300n, 1],
+    ]);
+    expect(selectedInto(palette)).toBeUndefined();
+  });
+
+  test('withPalette restores on throw', () => {
+    expect(() =>
+      withPalette(hdc, palette, () => {
+        throw new Error('draw');
+      })
+    ).toThrow('draw');
+    expect(selected.get(3n)).toBe(0x300n);
+  });
+
+  test('throws when the palette cannot be selected', () => {
+    expect(() => selectPalette(hdc, Failing)).toThrow('SelectPalette failed for palette 0xbad in DC 0x1.');
+  });
+});
+
+describe('ClipSelection', () => {
+  test('restores the previous clip region and deletes its copy', () => {
+    clip = 'clip';
+
+    const selection = selectClipRegion(hdc, 0x800n);
+
+    clip = 'changed';
+    selection[Symbol.dispose]();
+
+    expect(clip).toBe('clip');
+    expect(regions.size).toBe(1);
+  });
+
+  test('removes clipping again when there was none', () => {
+    const selection = selectClipRegion(hdc, 0x800n);
+
+    expect(clip).toBe('clip');
+
+    selection[Symbol.dispose]();
+
+    expect(clip).toBeNull();
+    expect(backend.calls.at(-1)).toEqual({ args: [hdc, 0n], method: 'SelectClipRgn', result: 1 });
+  });
+
+  test('withClipRegion restores on throw', () => {
+    clip = 'clip';
+
+    expect(() =>
+      withClipRegion(hdc, null, () => {
+        expect(clip).toBeNull();
+
+        throw new Error('draw');
+      })
+    ).toThrow('draw');
+    expect(clip).toBe('clip');
+    expect(regions.size).toBe(1);
+  });
+});
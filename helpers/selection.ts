@@ -0,0 +1,285 @@
+import { HGDI_ERROR } from '../constants/GDI32';
+import GDI32 from '../structs/GDI32';
+import type { HDC, HGDIOBJ, HPALETTE, HRGN } from '../types/GDI32';
+import { type GDIHandle, toHandle } from './handles';
+import { scoped } from './scope';
+
+/**
+ * A raw handle or a wrapper from `helpers/handles.ts`.
+ */
+export type Selectable = bigint | GDIHandle;
+
+/**
+ * Objects currently selected by live scopes: HDC → object → nesting count.
+ */
+const Selected = new Map<bigint, Map<bigint, number>>();
+
+const track = (hdc: bigint, object: bigint, delta: number): void => {
+  const objects = Selected.get(hdc) ?? new Map<bigint, number>();
+  const count = (objects.get(object) ?? 0) + delta;
+
+  count > 0 ? objects.set(object, count) : objects.delete(object);
+  objects.size ? Selected.set(hdc, objects) : Selected.delete(hdc);
+};
+
+/**
+ * Returns the DC a scope currently holds `object` selected into, if any.
+ *
+ * @param object Handle or wrapper to look up.
+ * @returns The HDC, or `undefined` when no live scope has it selected.
+ */
+export function selectedInto(object: Selectable): HDC | undefined {
+  const handle = toHandle(object);
+
+  for (const [hdc, objects] of Selected) {
+    if (objects.has(handle)) {
+      return hdc;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Throws when `object` is still selected into a DC tracked by a selection scope.
+ *
+ * `GDIObject.dispose()` calls this, so deleting a pen or brush before its scope has restored
+ * the previous selection fails loudly instead of silently leaking.
+ *
+ * @param object Handle or wrapper about to be deleted.
+ */
+export function assertNotSelected(object: Selectable): void {
+  const hdc = selectedInto(object);
+
+  if (hdc !== undefined) {
+    throw new Error(`GDI object 0x${toHandle(object).toString(16)} is still selected into DC 0x${hdc.toString(16)}; restore the selection before deleting it.`);
+  }
+}
+
+/**
+ * Drops the tracking for a DC, e.g. once it has been deleted.
+ *
+ * @param hdc Handle of the DC.
+ */
+export function forgetSelections(hdc: HDC): void {
+  Selected.delete(hdc);
+}
+
+/**
+ * Objects selected into a DC by `selectObjects`; disposing reselects what was there before,
+ * in reverse order.
+ */
+export class ObjectSelection implements Disposable {
+  /** Previously selected objects, in the order their replacements were selected. */
+  public readonly previous: HGDIOBJ[] = [];
+
+  private readonly hdc: HDC;
+  private readonly objects: HGDIOBJ[] = [];
+  private restored = false;
+
+  constructor(hdc: Selectable, objects: Selectable[]) {
+    this.hdc = toHandle(hdc);
+
+    for (const object of objects.map(toHandle)) {
+      const previous = GDI32.SelectObject(this.hdc, object);
+
+      if (!previous || previous === HGDI_ERROR) {
+        this.restore();
+
+        throw new Error(`SelectObject failed for object 0x${object.toString(16)} in DC 0x${this.hdc.toString(16)}.`);
+      }
+
+      this.objects.push(object);
+      this.previous.push(previous);
+      track(this.hdc, object, 1);
+    }
+  }
+
+  /**
+   * Reselects the previous objects; later calls are no-ops.
+   */
+  public restore(): void {
+    if (this.restored) {
+      return;
+    }
+
+    this.restored = true;
+
+    for (let index = this.objects.length - 1; index >= 0; index--) {
+      GDI32.SelectObject(this.hdc, this.previous[index]!);
+      track(this.hdc, this.objects[index]!, -1);
+    }
+  }
+
+  public [Symbol.dispose](): void {
+    this.restore();
+  }
+}
+
+/**
+ * A palette selected by `selectPalette`; disposing reselects the previous palette.
+ */
+export class PaletteSelection implements Disposable {
+  public readonly previous: HPALETTE;
+
+  private readonly hdc: HDC;
+  private readonly palette: HPALETTE;
+  private restored = false;
+
+  constructor(hdc: Selectable, palette: Selectable, private readonly forceBackground: boolean = false) {
+    this.hdc = toHandle(hdc);
+    this.palette = toHandle(palette);
+    this.previous = GDI32.SelectPalette(this.hdc, this.palette, +forceBackground);
+
+    if (!this.previous) {
+      throw new Error(`SelectPalette failed for palette 0x${this.palette.toString(16)} in DC 0x${this.hdc.toString(16)}.`);
+    }
+
+    track(this.hdc, this.palette, 1);
+  }
+
+  public restore(): void {
+    if (this.restored) {
+      return;
+    }
+
+    this.restored = true;
+
+    GDI32.SelectPalette(this.hdc, this.previous, +this.forceBackground);
+    track(this.hdc, this.palette, -1);
+  }
+
+  public [Symbol.dispose](): void {
+    this.restore();
+  }
+}
+
+/**
+ * A clip region set by `selectClipRegion`; disposing restores the previous clip (or none).
+ *
+ * `SelectClipRgn` copies the region, so the region itself is not tracked and may be deleted
+ * while the scope is open.
+ */
+export class ClipSelection implements Disposable {
+  private readonly hdc: HDC;
+  private restored = false;
+  private readonly saved: HRGN;
+
+  constructor(hdc: Selectable, region: Selectable | null) {
+    this.hdc = toHandle(hdc);
+    this.saved = GDI32.CreateRectRgn(0, 0, 0, 0);
+
+    // GetClipRgn: 1 = copied the clip, 0 = no clip region, -1 = error.
+    if (GDI32.GetClipRgn(this.hdc, this.saved) !== 1) {
+      GDI32.DeleteObject(this.saved);
+      this.saved = 0n;
+    }
+
+    if (!GDI32.SelectClipRgn(this.hdc, region === null ? 0n : toHandle(region))) {
+      this.restore();
+
+      throw new Error(`SelectClipRgn failed in DC 0x${this.hdc.toString(16)}.`);
+    }
+  }
+
+  public restore(): void {
+    if (this.restored) {
+      return;
+    }
+
+    this.restored = true;
+
+    GDI32.SelectClipRgn(this.hdc, this.saved);
+
+    if (this.saved) {
+      GDI32.DeleteObject(this.saved);
+    }
+  }
+
+  public [Symbol.dispose](): void {
+    this.restore();
+  }
+}
+
+/**
+ * Selects objects into a DC until the returned scope is disposed.
+ *
+ * @param hdc Target DC.
+ * @param objects Pens, brushes, fonts or bitmaps to select, in order.
+ * @returns A scope for `using`; if any selection fails, the earlier ones are undone and it throws.
+ * @example
+ * ```ts
+ * using pen = new GDIObject(GDI32.CreatePen(PenStyle.PS_SOLID, 2, 0x0000ff));
+ * using selection = selectObjects(hdc, pen, GDI32.GetStockObject(StockObject.NULL_BRUSH));
+ *
+ * GDI32.Rectangle(hdc, 10, 10, 100, 100);
+ * ```
+ */
+export function selectObjects(hdc: Selectable, ...objects: Selectable[]): ObjectSelection {
+  return new ObjectSelection(hdc, objects);
+}
+
+/**
+ * Runs `callback` with objects selected into a DC, restoring the previous selection afterwards —
+ * also when it throws or, for async callbacks, when the promise settles.
+ *
+ * @param hdc Target DC.
+ * @param objects Objects to select.
+ * @param callback Drawing code.
+ * @returns Whatever `callback` returns.
+ * @example
+ * ```ts
+ * withObjects(hdc, [pen, brush], () => GDI32.Ellipse(hdc, 0, 0, 50, 50));
+ * ```
+ */
+export function withObjects<T>(hdc: Selectable, objects: Selectable[], callback: () => T): T {
+  return scoped(new ObjectSelection(hdc, objects), callback);
+}
+
+/**
+ * Selects a logical palette until the returned scope is disposed.
+ *
+ * @param hdc Target DC.
+ * @param palette Palette to select.
+ * @param forceBackground Passed as `bForceBkgd` when selecting and restoring.
+ * @returns A scope for `using`.
+ */
+export function selectPalette(hdc: Selectable, palette: Selectable, forceBackground: boolean = false): PaletteSelection {
+  return new PaletteSelection(hdc, palette, forceBackground);
+}
+
+/**
+ * Runs `callback` with a palette selected, restoring the previous palette afterwards.
+ *
+ * @param hdc Target DC.
+ * @param palette Palette to select.
+ * @param callback Drawing code.
+ * @param forceBackground Passed as `bForceBkgd`.
+ * @returns Whatever `callback` returns.
+ */
+export function withPalette<T>(hdc: Selectable, palette: Selectable, callback: () => T, forceBackground: boolean = false): T {
+  return scoped(new PaletteSelection(hdc, palette, forceBackground), callback);
+}
+
+/**
+ * Sets the clip region until the returned scope is disposed.
+ *
+ * @param hdc Target DC.
+ * @param region Region to clip to, or `null` to remove clipping inside the scope.
+ * @returns A scope for `using`.
+ */
+export function selectClipRegion(hdc: Selectable, region: Selectable | null): ClipSelection {
+  return new ClipSelection(hdc, region);
+}
+
+/**
+ * Runs `callback` with a clip region set, restoring the previous clip afterwards.
+ *
+ * @param hdc Target DC.
+ * @param region Region to clip to, or `null` for none.
+ * @param callback Drawing code.
+ * @returns Whatever `callback` returns.
+ */
+export function withClipRegion<T>(hdc: Selectable, region: Selectable | null, callback: () => T): T {
+  return scoped(new ClipSelection(hdc, region), callback);
+}
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import { type GDI32RecordingBackend, createMockBackend, createRecordingBackend } from '../runtime/backend';
+import GDI32 from '../structs/GDI32';
+import { forgetSavedLevels, saveDC, savedDepth, savedLevels, withSavedDC } from './state';
+
+const hdc = 1n;
+
+let backend: GDI32RecordingBackend;
+/** Saved states on the simulated DC; `SaveDC` returns the new depth. */
+let depth: number;
+let failRestore: boolean;
+
+beforeEach(() => {
+  depth = 0;
+  failRestore = false;
+  backend = createRecordingBackend(
+    createMockBackend({
+      RestoreDC: (_, level) => {
+        const target = level < 0 ? depth + level + 1 : level;
+
+        if (failRestore || target < 1 || target > depth) {
+          return 0;
+        }
+
+        depth = target - 1;
+
+        return 1;
+      },
+      SaveDC: () => ++depth,
+    })
+  );
+
+  GDI32.Use(backend);
+});
+
+afterEach(() => {
+  forgetSavedLevels(hdc);
+  GDI32.Reset();
+});
+
+const restores = (): unknown[] => backend.calls.filter(({ method }) => method === 'RestoreDC').map(({ args }) => args[1]);
+
+describe('SavedDC', () => {
+  test('restores nested scopes to their own levels', () => {
+    const outer = saveDC(hdc);
+    const inner = saveDC(hdc);
+
+    expect([outer.level, inner.level]).toEqual([1, 2]);
+    expect(savedLevels(hdc)).toEqual([1, 2]);
+
+    inner[Symbol.dispose]();
+
+    expect(savedDepth(hdc)).toBe(1);
+
+    outer[Symbol.dispose]();
+    outer.restore();
+
+    expect(restores()).toEqual([2, 1]);
+    expect(savedDepth(hdc)).toBe(0);
+    expect(depth).toBe(0);
+  });
+
+  test('refuses to restore an outer scope while an inner one is open', () => {
+    const outer = saveDC(hdc);
+    const inner = saveDC(hdc);
+
+    expect(() => outer.restore()).toThrow('Out-of-order RestoreDC on DC 0x1: level 1 restored while level 2 is still open.');
+    expect(restores()).toEqual([]);
+    expect(savedLevels(hdc)).toEqual([1, 2]);
+
+    inner.restore();
+    outer.restore();
+
+    expect(restores()).toEqual([2, 1]);
+  });
+
+  test('rejects a level at or below an open scope', () => {
+    const outer = saveDC(hdc);
+
+    // Restored behind the scope's back, so the next SaveDC reuses level 1.
+    GDI32.RestoreDC(hdc, 1);
+
+    expect(() => saveDC(hdc)).toThrow('SaveDC returned level 1 for DC 0x1, but level 1 is still open; the DC was restored outside its scope.');
+    expect(savedLevels(hdc)).toEqual([outer.level]);
+    expect(depth).toBe(0);
+  });
+
+  test('throws when SaveDC or RestoreDC fails', () => {
+    GDI32.Use(createMockBackend({ RestoreDC: () => 0, SaveDC: () => 0 }));
+
+    expect(() => saveDC(hdc)).toThrow('SaveDC failed for DC 0x1.');
+
+    GDI32.Use(backend);
+
+    const state = saveDC(hdc);
+
+    failRestore = true;
+
+    expect(() => state.restore()).toThrow('RestoreDC(1) failed for DC 0x1.');
+    expect(savedDepth(hdc)).toBe(0);
+  });
+});
+
+describe('withSavedDC', () => {
+  test('restores on return and on throw', () => {
+    expect(withSavedDC(hdc, () => savedDepth(hdc))).toBe(1);
+    expect(() =>
+      withSavedDC(hdc, () => {
+        throw new Error('draw');
+      })
+    ).toThrow('draw');
+    expect(restores()).toEqual([1, 1]);
+    expect(savedDepth(hdc)).toBe(0);
+  });
+
+  test('rethrows the callback error when restoring fails too', async () => {
+    expect(() =>
+      withSavedDC(hdc, () => {
+        failRestore = true;
+
+        throw new Error('draw');
+      })
+    ).toThrow('draw');
+
+    failRestore = false;
+
+    await expect(
+      withSavedDC(hdc, async () => {
+        failRestore = true;
+
+        throw new Error('async draw');
+      })
+    ).rejects.toThrow('async draw');
+  });
+});
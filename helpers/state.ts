@@ -0,0 +1,144 @@
+import GDI32 from '../structs/GDI32';
+import type { HDC } from '../types/GDI32';
+import { type GDIHandle, toHandle } from './handles';
+import { scoped } from './scope';
+
+/**
+ * Levels returned by `SaveDC` for scopes that are still open, per HDC, innermost last.
+ */
+const Levels = new Map<bigint, number[]>();
+
+/**
+ * Returns how many `SavedDC` scopes are open on a DC.
+ *
+ * @param hdc DC to inspect.
+ * @returns The nesting depth (0 when none are open).
+ */
+export function savedDepth(hdc: HDC | GDIHandle): number {
+  return Levels.get(toHandle(hdc))?.length ?? 0;
+}
+
+/**
+ * Returns the `SaveDC` levels of the open scopes on a DC, outermost first.
+ *
+ * @param hdc DC to inspect.
+ * @returns A copy of the level stack.
+ */
+export function savedLevels(hdc: HDC | GDIHandle): number[] {
+  return [...(Levels.get(toHandle(hdc)) ?? [])];
+}
+
+/**
+ * Drops the level tracking for a DC, e.g. once it has been deleted.
+ *
+ * @param hdc Handle of the DC.
+ */
+export function forgetSavedLevels(hdc: HDC): void {
+  Levels.delete(hdc);
+}
+
+/**
+ * A `SaveDC` snapshot; disposing calls `RestoreDC` with exactly the level `SaveDC` returned.
+ *
+ * Scopes on one DC must close innermost first. Restoring an outer scope while an inner one is
+ * still open throws instead of silently discarding the inner state; the inner scope has to be
+ * restored (or disposed) first.
+ */
+export class SavedDC implements Disposable {
+  public readonly hdc: HDC;
+  /** Level returned by `SaveDC`. */
+  public readonly level: number;
+
+  private restored = false;
+
+  constructor(hdc: HDC | GDIHandle) {
+    this.hdc = toHandle(hdc);
+    this.level = GDI32.SaveDC(this.hdc);
+
+    if (this.level <= 0) {
+      throw new Error(`SaveDC failed for DC 0x${this.hdc.toString(16)}.`);
+    }
+
+    const levels = Levels.get(this.hdc) ?? [];
+
+    if (levels.length && levels.at(-1)! >= this.level) {
+      // Pop the level SaveDC just pushed, so the failed scope does not leak a state entry.
+      GDI32.RestoreDC(this.hdc, this.level);
+
+      throw new Error(`SaveDC returned level ${this.level} for DC 0x${this.hdc.toString(16)}, but level ${levels.at(-1)} is still open; the DC was restored outside its scope.`);
+    }
+
+    Levels.set(this.hdc, [...levels, this.level]);
+  }
+
+  /**
+   * Restores the saved state; later calls are no-ops.
+   */
+  public restore(): void {
+    if (this.restored) {
+      return;
+    }
+
+    const levels = Levels.get(this.hdc) ?? [];
+    const index = levels.lastIndexOf(this.level);
+
+    if (index >= 0 && index !== levels.length - 1) {
+      throw new Error(`Out-of-order RestoreDC on DC 0x${this.hdc.toString(16)}: level ${this.level} restored while level ${levels.at(-1)} is still open.`);
+    }
+
+    this.restored = true;
+
+    if (index >= 0) {
+      levels.length = index;
+      levels.length ? Levels.set(this.hdc, levels) : Levels.delete(this.hdc);
+    }
+
+    if (!GDI32.RestoreDC(this.hdc, this.level)) {
+      throw new Error(`RestoreDC(${this.level}) failed for DC 0x${this.hdc.toString(16)}.`);
+    }
+  }
+
+  public [Symbol.dispose](): void {
+    this.restore();
+  }
+}
+
+/**
+ * Saves the DC state until the returned scope is disposed.
+ *
+ * @param hdc DC whose state (selected objects, mapping, clip, colors, …) to save.
+ * @returns A scope for `using`.
+ * @example
+ * ```ts
+ * {
+ *   using state = saveDC(hdc);
+ *
+ *   GDI32.SetMapMode(hdc, MapMode.MM_LOMETRIC);
+ *   GDI32.IntersectClipRect(hdc, 0, 0, 500, -500);
+ * } // RestoreDC(hdc, state.level)
+ * ```
+ */
+export function saveDC(hdc: HDC | GDIHandle): SavedDC {
+  return new SavedDC(hdc);
+}
+
+/**
+ * Runs `callback` between `SaveDC` and `RestoreDC`, restoring also when it throws or, for async
+ * callbacks, when the promise settles.
+ *
+ * @param hdc DC whose state to save.
+ * @param callback Drawing code.
+ * @returns Whatever `callback` returns.
+ * @example
+ * ```ts
+ * const text = encodeWide('Hello');
+ *
+ * withSavedDC(hdc, () => {
+ *   GDI32.SetTextColor(hdc, 0x0000ff);
+ *   GDI32.TextOutW(hdc, 10, 10, text.ptr, text.length / 2 - 1);
+ * });
+ * ```
+ */
+export function withSavedDC<T>(hdc: HDC | GDIHandle, callback: () => T): T {
+  return scoped(new SavedDC(hdc), callback);
+}
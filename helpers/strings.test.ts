@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'bun:test';
+
+import { CodePage, decodeAnsi, decodeWide, encodeAnsi, encodeWide, expandDx } from './strings';
+
+describe('encodeWide / decodeWide', () => {
+  test('round-trip code units, including surrogate pairs and lone surrogates', () => {
+    for (const text of ['', 'Hello', 'Grüße €', '👋 hi 😀', 'a\ud800b']) {
+      const buffer = encodeWide(text);
+
+      expect(buffer.length).toBe((text.length + 1) * 2);
+      expect(buffer.readUInt16LE(text.length * 2)).toBe(0);
+      expect(decodeWide(buffer)).toBe(text);
+    }
+
+    expect([...encodeWide('😀')]).toEqual([0x3d, 0xd8, 0x00, 0xde, 0, 0]);
+  });
+
+  test('decodeWide stops at the first NUL or after length characters', () => {
+    const buffer = new Uint16Array([0x41, 0x42, 0, 0x43]);
+
+    expect(decodeWide(buffer)).toBe('AB');
+    expect(decodeWide(buffer.buffer, 1)).toBe('A');
+    expect(decodeWide(new Uint8Array([0x41, 0, 0x42]))).toBe('A');
+  });
+});
+
+describe('encodeAnsi / decodeAnsi', () => {
+  test('round-trip through single-byte code pages', () => {
+    expect([...encodeAnsi('Grüße €')]).toEqual([0x47, 0x72, 0xfc, 0xdf, 0x65, 0x20, 0x80, 0]);
+    expect(decodeAnsi(encodeAnsi('Grüße €'))).toBe('Grüße €');
+    expect(decodeAnsi(encodeAnsi('Привет', CodePage.CP_CYRILLIC), CodePage.CP_CYRILLIC)).toBe('Привет');
+    expect(decodeAnsi(encodeAnsi('café', CodePage.CP_LATIN1), CodePage.CP_LATIN1)).toBe('café');
+  });
+
+  test('round-trip through double-byte code pages', () => {
+    expect([...encodeAnsi('日本a', CodePage.CP_SHIFT_JIS)]).toEqual([0x93, 0xfa, 0x96, 0x7b, 0x61, 0]);
+    expect(decodeAnsi(encodeAnsi('日本a', CodePage.CP_SHIFT_JIS), CodePage.CP_SHIFT_JIS)).toBe('日本a');
+  });
+
+  test('round-trip non-BMP characters through UTF-8', () => {
+    expect(decodeAnsi(encodeAnsi('😀 ok', CodePage.CP_UTF8), CodePage.CP_UTF8)).toBe('😀 ok');
+  });
+
+  test('replace unmappable characters once per code point', () => {
+    expect(decodeAnsi(encodeAnsi('a日😀b'))).toBe('a??b');
+    expect(decodeAnsi(encodeAnsi('é', CodePage.CP_ASCII, '*'))).toBe('*');
+    expect(decodeAnsi(new Uint8Array([0x61, 0xe9]), CodePage.CP_ASCII)).toBe('a?');
+  });
+
+  test('decodeAnsi stops at the first NUL or after length bytes', () => {
+    expect(decodeAnsi(new Uint8Array([0x61, 0x62, 0, 0x63]))).toBe('ab');
+    expect(decodeAnsi(new Uint8Array([0x61, 0x62, 0x63]), CodePage.CP_WESTERN, 2)).toBe('ab');
+  });
+
+  test('reject unsupported code pages', () => {
+    expect(() => encodeAnsi('a', 437 as CodePage)).toThrow(new RangeError('Code page 437 is not supported.'));
+    expect(() => decodeAnsi(new Uint8Array([0x61]), 437 as CodePage)).toThrow(RangeError);
+  });
+});
+
+describe('expandDx', () => {
+  test('spreads per-code-point advances over surrogate pairs', () => {
+    expect(expandDx('a😀b', [5, 9, 6])).toEqual([5, 9, 0, 6]);
+    expect(expandDx('a😀', [5, 1, 9, 2], true)).toEqual([5, 1, 9, 2, 0, 0]);
+  });
+
+  test('keeps per-code-unit advances', () => {
+    expect(expandDx('a😀', [5, 9, 0])).toEqual([5, 9, 0]);
+  });
+
+  test('rejects other lengths', () => {
+    expect(() => expandDx('a😀', [5])).toThrow(new RangeError('lpDx needs 3 entries (per code unit) or 2 (per code point); got 1.'));
+  });
+});
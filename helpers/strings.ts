@@ -0,0 +1,445 @@
+import type { Pointer } from 'bun:ffi';
+
+import { RECT, SIZE } from '../codecs/GDI32';
+import { ExtTextOutOption, NULL } from '../constants/GDI32';
+import GDI32 from '../structs/GDI32';
+import type { DEVMODEW_, HDC, HENHMETAFILE } from '../types/GDI32';
+import { type GDIHandle, toHandle } from './handles';
+
+// https://learn.microsoft.com/en-us/windows/win32/intl/code-page-identifiers
+export const CodePage = {
+  CP_THAI: 874,
+  CP_SHIFT_JIS: 932,
+  CP_GBK: 936,
+  CP_KOREAN: 949,
+  CP_BIG5: 950,
+  CP_CYRILLIC_DOS: 866,
+  CP_CENTRAL_EUROPEAN: 1250,
+  CP_CYRILLIC: 1251,
+  CP_WESTERN: 1252,
+  CP_GREEK: 1253,
+  CP_TURKISH: 1254,
+  CP_HEBREW: 1255,
+  CP_ARABIC: 1256,
+  CP_BALTIC: 1257,
+  CP_VIETNAMESE: 1258,
+  CP_ASCII: 20127,
+  CP_LATIN1: 28591,
+  CP_UTF8: 65001,
+} as const;
+
+export type CodePage = (typeof CodePage)[keyof typeof CodePage];
+
+/** WHATWG encoding labels for the code pages `TextDecoder` handles. */
+const Labels: Partial<Record<CodePage, Bun.Encoding>> = {
+  866: 'ibm866',
+  874: 'windows-874',
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+  1250: 'windows-1250',
+  1251: 'windows-1251',
+  1252: 'windows-1252',
+  1253: 'windows-1253',
+  1254: 'windows-1254',
+  1255: 'windows-1255',
+  1256: 'windows-1256',
+  1257: 'windows-1257',
+  1258: 'windows-1258',
+};
+
+/** Code pages whose lead bytes introduce two-byte characters. */
+const DoubleByte = new Set<CodePage>([932, 936, 949, 950]);
+
+/** Lazily built Unicode → bytes tables, per code page. */
+const Reverse = new Map<CodePage, Map<number, number[]>>();
+
+/** Pointer to an optional buffer. Callers keep the buffer in a local so it outlives the call. */
+const pointer = (buffer: Buffer | false): Pointer => (buffer ? buffer.ptr : NULL);
+
+const bytesOf = (source: ArrayBuffer | ArrayBufferView): Uint8Array => (source instanceof ArrayBuffer ? new Uint8Array(source) : new Uint8Array(source.buffer, source.byteOffset, source.byteLength));
+
+/** `String.fromCharCode` in chunks, so long buffers do not overflow the argument limit. */
+const fromCodes = (codes: ArrayLike<number>): string => {
+  let text = '';
+
+  for (let index = 0; index < codes.length; index += 0x2000) {
+    text += String.fromCharCode(...Array.prototype.slice.call(codes, index, index + 0x2000));
+  }
+
+  return text;
+};
+
+const reverseTable = (codePage: CodePage): Map<number, number[]> => {
+  let table = Reverse.get(codePage);
+
+  if (table) {
+    return table;
+  }
+
+  const decoder = new TextDecoder(Labels[codePage], { fatal: true });
+  const add = (bytes: number[]): void => {
+    try {
+      const text = decoder.decode(new Uint8Array(bytes));
+      const code = text.codePointAt(0)!;
+
+      // Keep the first (canonical) byte sequence when several decode to the same character.
+      if (text.length && text.length === String.fromCodePoint(code).length && !table!.has(code)) {
+        table!.set(code, bytes);
+      }
+    } catch {
+      // Unassigned byte sequence.
+    }
+  };
+
+  table = new Map();
+
+  for (let byte = 0; byte < 0x100; byte++) {
+    add([byte]);
+  }
+
+  if (DoubleByte.has(codePage)) {
+    for (let lead = 0x81; lead < 0xff; lead++) {
+      for (let trail = 0x40; trail < 0xff; trail++) {
+        add([lead, trail]);
+      }
+    }
+  }
+
+  Reverse.set(codePage, table);
+
+  return table;
+};
+
+/**
+ * Encodes a string as a NUL-terminated UTF-16LE `WCHAR` buffer for `LPCWSTR` parameters.
+ *
+ * Code units are copied verbatim, so surrogate pairs (and even lone surrogates) survive
+ * unchanged; the character count GDI expects is `text.length`, not the number of code points.
+ *
+ * @param text String to encode.
+ * @returns A `Buffer` of `(text.length + 1) * 2` bytes.
+ * @example
+ * ```ts
+ * const text = encodeWide('Hello 👋');
+ * GDI32.TextOutW(hdc, 10, 10, text.ptr, text.length / 2 - 1);
+ * ```
+ */
+export function encodeWide(text: string): Buffer {
+  const buffer = Buffer.alloc((text.length + 1) * 2);
+
+  for (let index = 0; index < text.length; index++) {
+    buffer.writeUInt16LE(text.charCodeAt(index), index * 2);
+  }
+
+  return buffer;
+}
+
+/**
+ * Decodes a UTF-16LE `WCHAR` buffer filled by a `*W` export.
+ *
+ * @param source Output buffer.
+ * @param length Maximum number of characters to read; defaults to the whole buffer.
+ * @returns The characters before the first NUL (or `length`).
+ */
+export function decodeWide(source: ArrayBuffer | ArrayBufferView, length: number = Infinity): string {
+  const bytes = bytesOf(source);
+  const count = Math.min(length, bytes.length >> 1);
+  const codes = new Uint16Array(count);
+
+  for (let index = 0; index < count; index++) {
+    const code = bytes[index * 2]! | (bytes[index * 2 + 1]! << 8);
+
+    if (code === 0) {
+      return fromCodes(codes.subarray(0, index));
+    }
+
+    codes[index] = code;
+  }
+
+  return fromCodes(codes);
+}
+
+/**
+ * Encodes a string as a NUL-terminated ANSI (`CHAR`) buffer for the `*A` exports.
+ *
+ * Characters the code page cannot represent are replaced with `defaultChar`, as
+ * `WideCharToMultiByte` does. Double-byte code pages build their lookup table on first use.
+ *
+ * @param text String to encode.
+ * @param codePage Target code page; defaults to Windows-1252.
+ * @param defaultChar Replacement for unmappable characters.
+ * @returns A `Buffer` whose length minus one is the byte count (`c`) for the `*A` exports.
+ * @example
+ * ```ts
+ * const text = encodeAnsi('Grüße', CodePage.CP_WESTERN);
+ * GDI32.TextOutA(hdc, 10, 10, text.ptr, text.length - 1);
+ * ```
+ */
+export function encodeAnsi(text: string, codePage: CodePage = CodePage.CP_WESTERN, defaultChar: string = '?'): Buffer {
+  if (codePage === CodePage.CP_UTF8) {
+    return Buffer.from(`${text}\0`, 'utf8');
+  }
+
+  if (codePage !== CodePage.CP_ASCII && codePage !== CodePage.CP_LATIN1 && !Labels[codePage]) {
+    throw new RangeError(`Code page ${codePage} is not supported.`);
+  }
+
+  const limit = codePage === CodePage.CP_ASCII ? 0x80 : 0x100;
+  const table = limit === 0x100 && codePage !== CodePage.CP_LATIN1 ? reverseTable(codePage) : undefined;
+  const fallback = [defaultChar.charCodeAt(0) & 0xff];
+  const bytes: number[] = [];
+
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+
+    bytes.push(...(table ? table.get(code) ?? fallback : code < limit ? [code] : fallback));
+  }
+
+  bytes.push(0);
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decodes an ANSI (`CHAR`) buffer filled by an `*A` export.
+ *
+ * @param source Output buffer.
+ * @param codePage Code page the bytes are in; defaults to Windows-1252.
+ * @param length Maximum number of bytes to read; defaults to the whole buffer.
+ * @returns The characters before the first NUL byte (or `length`).
+ */
+export function decodeAnsi(source: ArrayBuffer | ArrayBufferView, codePage: CodePage = CodePage.CP_WESTERN, length: number = Infinity): string {
+  const bytes = bytesOf(source);
+  const end = bytes.subarray(0, Math.min(length, bytes.length)).indexOf(0);
+  const content = end < 0 ? bytes.subarray(0, Math.min(length, bytes.length)) : bytes.subarray(0, end);
+
+  if (codePage === CodePage.CP_ASCII || codePage === CodePage.CP_LATIN1) {
+    return fromCodes(codePage === CodePage.CP_ASCII ? content.map((byte) => (byte < 0x80 ? byte : 0x3f)) : content);
+  }
+
+  const label = codePage === CodePage.CP_UTF8 ? 'utf-8' : Labels[codePage];
+
+  if (!label) {
+    throw new RangeError(`Code page ${codePage} is not supported.`);
+  }
+
+  return new TextDecoder(label).decode(content);
+}
+
+/**
+ * Spreads per-code-point advances over UTF-16 code units, as `lpDx` requires one entry per
+ * `WCHAR`: the advance goes on the high surrogate and the low surrogate gets 0.
+ *
+ * Arrays that already have one entry per code unit are returned unchanged.
+ *
+ * @param text The string being drawn.
+ * @param dx Advances per code point (or per code unit); pairs of `x, y` when `pdy` is set.
+ * @param pdy `true` when `ETO_PDY` is in effect.
+ * @returns Advances with one entry (or pair) per code unit.
+ */
+export function expandDx(text: string, dx: readonly number[], pdy: boolean = false): number[] {
+  const stride = pdy ? 2 : 1;
+
+  if (dx.length === text.length * stride) {
+    return [...dx];
+  }
+
+  const points = [...text];
+
+  if (dx.length !== points.length * stride) {
+    throw new RangeError(`lpDx needs ${text.length * stride} entries (per code unit) or ${points.length * stride} (per code point); got ${dx.length}.`);
+  }
+
+  return points.flatMap((point, index) => {
+    const advance = dx.slice(index * stride, (index + 1) * stride);
+
+    return point.length === 2 ? [...advance, ...advance.map(() => 0)] : advance;
+  });
+}
+
+/**
+ * `TextOutW` for JS strings.
+ *
+ * @param hdc Target DC.
+ * @param x Reference point x, in logical units.
+ * @param y Reference point y, in logical units.
+ * @param text Text to draw; `c` is its length in UTF-16 code units.
+ * @returns `true` on success.
+ * @example
+ * ```ts
+ * textOut(hdc, 10, 10, 'Hello 👋'); // c = 8
+ * ```
+ */
+export function textOut(hdc: HDC | GDIHandle, x: number, y: number, text: string): boolean {
+  const string = encodeWide(text);
+
+  return !!GDI32.TextOutW(toHandle(hdc), x, y, string.ptr, text.length);
+}
+
+/**
+ * Options for `extTextOut`.
+ */
+export interface ExtTextOutOptions {
+  /** Per-character advances, per code point or per code unit (see `expandDx`). */
+  dx?: readonly number[];
+  /** `ETO_*` flags. */
+  options?: number;
+  /** Clipping/opaquing rectangle for `ETO_CLIPPED`/`ETO_OPAQUE`. */
+  rect?: RECT;
+}
+
+/**
+ * `ExtTextOutW` for JS strings.
+ *
+ * @param hdc Target DC.
+ * @param x Reference point x, in logical units.
+ * @param y Reference point y, in logical units.
+ * @param text Text to draw.
+ * @param init Flags, rectangle and advances.
+ * @returns `true` on success.
+ * @example
+ * ```ts
+ * extTextOut(hdc, 0, 0, 'A😀B', { options: ExtTextOutOption.ETO_OPAQUE, rect: { right: 100, bottom: 20 }, dx: [10, 20, 10] });
+ * ```
+ */
+export function extTextOut(hdc: HDC | GDIHandle, x: number, y: number, text: string, init: ExtTextOutOptions = {}): boolean {
+  const options = init.options ?? 0;
+  const string = encodeWide(text);
+  const rect = init.rect && RECT.encode(init.rect);
+  const dx = init.dx && Int32Array.from(expandDx(text, init.dx, !!(options & ExtTextOutOption.ETO_PDY)));
+
+  return !!GDI32.ExtTextOutW(toHandle(hdc), x, y, options, rect ? rect.ptr : NULL, string.ptr, text.length, dx ? dx.ptr : NULL);
+}
+
+/**
+ * `GetTextExtentPoint32W` for JS strings.
+ *
+ * @param hdc DC with the font selected.
+ * @param text Text to measure.
+ * @returns Width and height in logical units.
+ */
+export function getTextExtent(hdc: HDC | GDIHandle, text: string): SIZE {
+  const string = encodeWide(text);
+  const size = Buffer.alloc(SIZE.sizeof);
+
+  if (!GDI32.GetTextExtentPoint32W(toHandle(hdc), string.ptr, text.length, size.ptr)) {
+    throw new Error(`GetTextExtentPoint32W failed for DC 0x${toHandle(hdc).toString(16)}.`);
+  }
+
+  return SIZE.decode(size);
+}
+
+/**
+ * `GetTextFaceW`, sized to the face name.
+ *
+ * @param hdc DC with the font selected.
+ * @returns Typeface name of the selected font.
+ */
+export function getTextFace(hdc: HDC | GDIHandle): string {
+  const length = GDI32.GetTextFaceW(toHandle(hdc), 0, NULL);
+
+  if (length <= 0) {
+    throw new Error(`GetTextFaceW failed for DC 0x${toHandle(hdc).toString(16)}.`);
+  }
+
+  const buffer = Buffer.alloc(length * 2);
+  GDI32.GetTextFaceW(toHandle(hdc), length, buffer.ptr);
+
+  return decodeWide(buffer);
+}
+
+/**
+ * `CreateDCW` for JS strings.
+ *
+ * @param driver `'DISPLAY'` or a printer driver name; `null` when `device` names a printer.
+ * @param device Device (display or printer) name.
+ * @param devMode Optional `DEVMODEW` pointer.
+ * @returns The DC handle (0n on failure).
+ * @example
+ * ```ts
+ * using screen = new DeviceContext(createDC('DISPLAY'));
+ * ```
+ */
+export function createDC(driver: string | null, device: string | null = null, devMode: DEVMODEW_ = NULL): HDC {
+  const driverName = driver !== null && encodeWide(driver);
+  const deviceName = device !== null && encodeWide(device);
+
+  return GDI32.CreateDCW(pointer(driverName), pointer(deviceName), NULL, devMode);
+}
+
+/**
+ * `CreateEnhMetaFileW` for JS strings.
+ *
+ * @param hdc Reference DC, or 0n for the screen.
+ * @param filename File to record into, or `null` for a memory metafile.
+ * @param frame Picture frame in .01 mm units; `null` lets GDI compute it.
+ * @param description `"application\0title"`; the terminating double NUL is added.
+ * @returns The metafile DC (0n on failure).
+ */
+export function createEnhMetaFile(hdc: HDC | GDIHandle, filename: string | null, frame: RECT | null = null, description: string | null = null): HDC {
+  const file = filename !== null && encodeWide(filename);
+  const rect = frame !== null && RECT.encode(frame);
+  const desc = description !== null && encodeWide(description.endsWith('\0') ? description : `${description}\0`);
+
+  return GDI32.CreateEnhMetaFileW(toHandle(hdc), pointer(file), pointer(rect), pointer(desc));
+}
+
+/**
+ * `GetEnhMetaFileW` for JS strings.
+ *
+ * @param path Path of the `.emf` file.
+ * @returns The metafile handle (0n on failure).
+ */
+export function getEnhMetaFile(path: string): HENHMETAFILE {
+  const string = encodeWide(path);
+
+  return GDI32.GetEnhMetaFileW(string.ptr);
+}
+
+/**
+ * `GetEnhMetaFileDescriptionW`, sized to the description.
+ *
+ * @param hemf Metafile handle.
+ * @returns `"application\0title"` without the trailing NULs, or `''` when there is none.
+ */
+export function getEnhMetaFileDescription(hemf: HENHMETAFILE | GDIHandle): string {
+  const length = GDI32.GetEnhMetaFileDescriptionW(toHandle(hemf), 0, NULL);
+
+  // 0 = no description; GDI_ERROR (0xffffffff) = invalid handle.
+  if (length === 0 || length === 0xffffffff) {
+    return '';
+  }
+
+  const codes = new Uint16Array(length);
+  GDI32.GetEnhMetaFileDescriptionW(toHandle(hemf), length, codes.ptr);
+
+  return fromCodes(codes).replace(/\0+$/, '');
+}
+
+/**
+ * `AddFontResourceExW` for JS strings.
+ *
+ * @param path Font file (or `|`-separated list of files for Type 1 fonts).
+ * @param flags `FR_PRIVATE` (0x10) and/or `FR_NOT_ENUM` (0x20).
+ * @returns Number of fonts added.
+ */
+export function addFontResource(path: string, flags: number = 0): number {
+  const string = encodeWide(path);
+
+  return GDI32.AddFontResourceExW(string.ptr, flags, NULL);
+}
+
+/**
+ * `RemoveFontResourceExW` for JS strings.
+ *
+ * @param path The path passed to `addFontResource`.
+ * @param flags The flags passed to `addFontResource`.
+ * @returns `true` on success.
+ */
+export function removeFontResource(path: string, flags: number = 0): boolean {
+  const string = encodeWide(path);
+
+  return !!GDI32.RemoveFontResourceExW(string.ptr, flags, NULL);
+}
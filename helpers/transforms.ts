@@ -0,0 +1,53 @@
+import { XFORM } from '../codecs/GDI32';
+import { XForm } from '../codecs/xform';
+import type { WorldTransformMode } from '../constants/GDI32';
+import GDI32 from '../structs/GDI32';
+import type { HDC } from '../types/GDI32';
+import { type GDIHandle, toHandle } from './handles';
+
+/**
+ * `GetWorldTransform` as an `XForm`.
+ *
+ * @param hdc Device context.
+ * @returns The DC's current world transformation.
+ */
+export function getWorldTransform(hdc: HDC | GDIHandle): XForm {
+  const xform = Buffer.alloc(XFORM.sizeof);
+
+  if (!GDI32.GetWorldTransform(toHandle(hdc), xform.ptr)) {
+    throw new Error(`GetWorldTransform failed for DC 0x${toHandle(hdc).toString(16)}.`);
+  }
+
+  return XForm.decode(xform);
+}
+
+/**
+ * `SetWorldTransform` from an `XForm` (or any `XFORM`). The DC must be in `GM_ADVANCED` mode.
+ *
+ * @param hdc Device context.
+ * @param xform New world transformation.
+ * @returns `true` on success.
+ */
+export function setWorldTransform(hdc: HDC | GDIHandle, xform: XFORM): boolean {
+  const data = XFORM.encode(xform);
+
+  return !!GDI32.SetWorldTransform(toHandle(hdc), data.ptr);
+}
+
+/**
+ * `ModifyWorldTransform` from an `XForm` (or any `XFORM`). The DC must be in `GM_ADVANCED` mode.
+ *
+ * @param hdc Device context.
+ * @param xform Transformation to combine with the current one (ignored for `MWT_IDENTITY`).
+ * @param mode `MWT_*` mode; `XForm.modify` computes the same result in JS.
+ * @returns `true` on success.
+ * @example
+ * ```ts
+ * modifyWorldTransform(hdc, XForm.rotation(Math.PI / 6), WorldTransformMode.MWT_LEFTMULTIPLY);
+ * ```
+ */
+export function modifyWorldTransform(hdc: HDC | GDIHandle, xform: XFORM, mode: WorldTransformMode): boolean {
+  const data = XFORM.encode(xform);
+
+  return !!GDI32.ModifyWorldTransform(toHandle(hdc), data.ptr, mode);
+}
@@ -2,6 +2,38 @@ import './runtime/extensions';
 
 import GDI32 from './structs/GDI32';
 
+export * from './codecs/bmp';
+export * from './codecs/coordinates';
+export * from './codecs/emf';
+export * from './codecs/GDI32';
+export * from './codecs/glyph';
+export * from './codecs/path';
+export * from './codecs/region';
+export * from './codecs/sfnt';
+export * from './codecs/struct';
+export * from './codecs/svg';
+export * from './codecs/wmf';
+export * from './codecs/xform';
+export * from './constants/GDI32';
+export * from './helpers/callbacks';
+export * from './helpers/coordinates';
+export * from './helpers/fonts';
+export * from './helpers/glyphs';
+export * from './helpers/handles';
+export * from './helpers/layout';
+export * from './helpers/path';
+export * from './helpers/regions';
+export * from './helpers/selection';
+export * from './helpers/state';
+export * from './helpers/strings';
+export * from './helpers/transforms';
+export * from './runtime/backend';
+export * from './runtime/errors';
+export * from './runtime/raster';
+export * from './runtime/trace';
+export * from './runtime/tracker';
+export * from './runtime/validation';
+export type { GDI32Checked, GDI32Method } from './structs/GDI32';
 export * from './types/GDI32';
 
 export { GDI32 };
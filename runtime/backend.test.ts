@@ -0,0 +1,60 @@
+import { FFIType } from 'bun:ffi';
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import { NULL } from '../constants/GDI32';
+import GDI32 from '../structs/GDI32';
+import { createMockBackend, createRecordingBackend, defaultReturnValue } from './backend';
+
+afterEach(() => GDI32.Reset());
+
+describe('defaultReturnValue', () => {
+  test('matches the declared return type', () => {
+    expect(defaultReturnValue(FFIType.u64)).toBe(0n);
+    expect(defaultReturnValue(FFIType.ptr)).toBeNull();
+    expect(defaultReturnValue(FFIType.void)).toBeUndefined();
+    expect(defaultReturnValue(FFIType.i32)).toBe(0);
+  });
+});
+
+describe('createMockBackend', () => {
+  test('routes exports to the implementations', () => {
+    GDI32.Use(createMockBackend({ CreateCompatibleDC: () => 0x1234n, GetDeviceCaps: (_, index) => index * 2 }));
+
+    expect(GDI32.CreateCompatibleDC(0n)).toBe(0x1234n);
+    expect(GDI32.GetDeviceCaps(1n, 8)).toBe(16);
+  });
+
+  test('stubs exports without an implementation', () => {
+    GDI32.Use(createMockBackend());
+
+    expect(GDI32.CreatePen(0, 1, 0)).toBe(0n);
+    expect(GDI32.LineTo(1n, 2, 3)).toBe(0);
+  });
+
+  test('rebinds after Use', () => {
+    GDI32.Use(createMockBackend({ SaveDC: () => 1 }));
+    expect(GDI32.SaveDC(1n)).toBe(1);
+
+    GDI32.Use(createMockBackend({ SaveDC: () => 2 }));
+    expect(GDI32.SaveDC(1n)).toBe(2);
+  });
+});
+
+describe('createRecordingBackend', () => {
+  test('records calls in order and clears them', () => {
+    const backend = createRecordingBackend(createMockBackend({ DeleteDC: () => 1 }));
+
+    GDI32.Use(backend);
+    GDI32.DeleteDC(1n);
+    GDI32.MoveToEx(1n, 2, 3, NULL);
+
+    expect(backend.calls).toEqual([
+      { args: [1n], method: 'DeleteDC', result: 1 },
+      { args: [1n, 2, 3, NULL], method: 'MoveToEx', result: 0 },
+    ]);
+
+    backend.clear();
+
+    expect(backend.calls).toEqual([]);
+  });
+});
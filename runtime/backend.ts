@@ -0,0 +1,147 @@
+import { type FFIFunction, FFIType, dlopen } from 'bun:ffi';
+
+import type GDI32 from '../structs/GDI32';
+import type { GDI32Method } from '../structs/GDI32';
+
+/**
+ * A bound native (or simulated) export, as installed on the `GDI32` class.
+ */
+export type GDI32Symbol = (...args: unknown[]) => unknown;
+
+/**
+ * Symbol provider consulted by `GDI32.Load` and `GDI32.Preload`.
+ *
+ * Receives the subset of `Symbols` being bound (export name → `FFIFunction` signature)
+ * and returns a callable for every requested export. The default provider forwards to
+ * `dlopen('gdi32.dll', symbols)`; tests can swap in a JS implementation via `GDI32.Use`.
+ */
+export type GDI32Backend = (symbols: Record<string, FFIFunction>) => Record<string, GDI32Symbol>;
+
+/**
+ * Partial JS implementation of the GDI32 surface, keyed by export name.
+ */
+export type GDI32Implementations = {
+  [K in GDI32Method]?: (...args: Parameters<(typeof GDI32)[K]>) => ReturnType<(typeof GDI32)[K]>;
+};
+
+/**
+ * A single call observed by a recording backend.
+ */
+export interface GDI32Call {
+  args: unknown[];
+  method: string;
+  result: unknown;
+}
+
+/**
+ * Recording backend; `calls` accumulates every invocation in order.
+ */
+export type GDI32RecordingBackend = GDI32Backend & {
+  readonly calls: GDI32Call[];
+  clear(): void;
+};
+
+/**
+ * Returns the neutral value for an FFI return type: `0n` for 64-bit handles, `null` for
+ * pointers, `undefined` for `void` and `0` for everything else.
+ *
+ * @param returns Declared return type of the export.
+ * @returns The value a stubbed export returns when no implementation is provided.
+ */
+export function defaultReturnValue(returns: FFIFunction['returns']): unknown {
+  switch (returns) {
+    case FFIType.i64:
+    case FFIType.u64:
+    case FFIType.i64_fast:
+    case FFIType.u64_fast:
+      return 0n;
+    case FFIType.ptr:
+      return null;
+    case FFIType.void:
+    case undefined:
+      return undefined;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Creates the native backend that binds exports from a DLL via `bun:ffi`.
+ *
+ * @param path Library to open; defaults to `gdi32.dll`.
+ * @returns A backend suitable for `GDI32.Use`.
+ * @example
+ * ```ts
+ * GDI32.Use(createLibraryBackend('C:\\Windows\\System32\\gdi32.dll'));
+ * ```
+ */
+export function createLibraryBackend(path: string = 'gdi32.dll'): GDI32Backend {
+  // Bun types the bound symbols for a generic signature map as taking `never`.
+  return (symbols) => dlopen(path, symbols).symbols as unknown as Record<string, GDI32Symbol>;
+}
+
+/**
+ * Creates a backend backed by plain JS functions.
+ *
+ * Exports without an implementation become stubs that return the neutral value for their
+ * declared return type (see `defaultReturnValue`), so code under test can run end to end.
+ *
+ * @param implementations JS implementations keyed by export name.
+ * @returns A backend suitable for `GDI32.Use`.
+ * @example
+ * ```ts
+ * GDI32.Use(createMockBackend({ CreateCompatibleDC: () => 0x1234n }));
+ *
+ * GDI32.CreateCompatibleDC(0n); // 0x1234n
+ * GDI32.Reset();
+ * ```
+ */
+export function createMockBackend(implementations: GDI32Implementations = {}): GDI32Backend {
+  return (symbols) =>
+    Object.fromEntries(
+      Object.entries(symbols).map(([method, { returns }]) => {
+        const implementation = (implementations as Record<string, GDI32Symbol | undefined>)[method];
+
+        return [method, implementation ?? (() => defaultReturnValue(returns))];
+      })
+    );
+}
+
+/**
+ * Creates a backend that records every call before forwarding it to `inner`.
+ *
+ * @param inner Backend that services the calls; defaults to an empty mock backend.
+ * @returns A backend with a `calls` log and a `clear()` helper.
+ * @example
+ * ```ts
+ * const backend = createRecordingBackend();
+ * GDI32.Use(backend);
+ *
+ * GDI32.DeleteDC(1n);
+ * backend.calls; // [{ method: 'DeleteDC', args: [1n], result: 0 }]
+ * ```
+ */
+export function createRecordingBackend(inner: GDI32Backend = createMockBackend()): GDI32RecordingBackend {
+  const calls: GDI32Call[] = [];
+
+  const backend: GDI32Backend = (symbols) =>
+    Object.fromEntries(
+      Object.entries(inner(symbols)).map(([method, symbol]) => [
+        method,
+        (...args: unknown[]) => {
+          const result = symbol(...args);
+
+          calls.push({ args, method, result });
+
+          return result;
+        },
+      ])
+    );
+
+  return Object.assign(backend, {
+    calls,
+    clear(): void {
+      calls.length = 0;
+    },
+  });
+}
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, spyOn, test } from 'bun:test';
+
+import { GDI_ERROR, HGDI_ERROR, NULL } from '../constants/GDI32';
+import GDI32 from '../structs/GDI32';
+import { createMockBackend } from './backend';
+import * as errors from './errors';
+import { FailureSentinels, GdiError } from './errors';
+
+afterEach(() => GDI32.Reset());
+
+describe('GDI32.Failure', () => {
+  test('maps exports to their failure values', () => {
+    expect(GDI32.Failure('CreateCompatibleDC')).toBe(FailureSentinels.NULL);
+    expect(GDI32.Failure('BitBlt')).toBe(FailureSentinels.ZERO);
+    expect(GDI32.Failure('GetFontData')).toBe(FailureSentinels.GDI_ERROR);
+    expect(GDI32.Failure('SelectObject')).toBe(FailureSentinels.HGDI_ERROR);
+    expect(GDI32.Failure('GetPixel')).toBe(FailureSentinels.CLR_INVALID);
+    expect(GDI32.Failure('GetDeviceCaps')).toBeNull();
+  });
+
+  test('recognizes the signed and unsigned forms of each sentinel', () => {
+    expect(FailureSentinels.NULL.failed(0n)).toBe(true);
+    expect(FailureSentinels.NULL.failed(NULL)).toBe(true);
+    expect(FailureSentinels.NULL.failed(1n)).toBe(false);
+    expect(FailureSentinels.GDI_ERROR.failed(GDI_ERROR)).toBe(true);
+    expect(FailureSentinels.GDI_ERROR.failed(-1)).toBe(true);
+    expect(FailureSentinels.GDI_ERROR.failed(0)).toBe(false);
+    expect(FailureSentinels.HGDI_ERROR.failed(HGDI_ERROR)).toBe(true);
+    expect(FailureSentinels.HGDI_ERROR.failed(0n)).toBe(true);
+    expect(FailureSentinels.HGDI_ERROR.failed(1n)).toBe(false);
+    expect(FailureSentinels.CLR_INVALID.failed(0xffffffff)).toBe(true);
+    expect(FailureSentinels.CLR_INVALID.failed(0xffffff)).toBe(false);
+  });
+});
+
+describe('GDI32.checked', () => {
+  test('throws a GdiError on the failure value', () => {
+    GDI32.Use(createMockBackend({ CreateCompatibleDC: () => 0n, GetFontData: () => GDI_ERROR, GetPixel: () => 0xffffffff, SelectObject: () => HGDI_ERROR }));
+
+    const cases: [() => unknown, string, unknown[], unknown, errors.FailureSentinel][] = [
+      [() => GDI32.checked.CreateCompatibleDC(0n), 'CreateCompatibleDC', [0n], 0n, FailureSentinels.NULL],
+      [() => GDI32.checked.GetFontData(1n, 0, 0, NULL, 0), 'GetFontData', [1n, 0, 0, NULL, 0], GDI_ERROR, FailureSentinels.GDI_ERROR],
+      [() => GDI32.checked.SelectObject(1n, 2n), 'SelectObject', [1n, 2n], HGDI_ERROR, FailureSentinels.HGDI_ERROR],
+      [() => GDI32.checked.GetPixel(1n, 0, 0), 'GetPixel', [1n, 0, 0], 0xffffffff, FailureSentinels.CLR_INVALID],
+    ];
+
+    for (const [call, method, args, result, sentinel] of cases) {
+      try {
+        call();
+        throw new Error(`${method} did not throw`);
+      } catch (error) {
+        expect(error).toBeInstanceOf(GdiError);
+        expect(error).toMatchObject({ args, lastError: undefined, method, name: 'GdiError', result, sentinel });
+      }
+    }
+  });
+
+  test('formats the result and the sentinel in the message', () => {
+    GDI32.Use(createMockBackend({ SelectObject: () => 0n }));
+
+    expect(() => GDI32.checked.SelectObject(1n, 2n)).toThrow('SelectObject(0x1, 0x2) failed: returned 0x0 (NULL or HGDI_ERROR).');
+  });
+
+  test('passes other results through', () => {
+    GDI32.Use(createMockBackend({ BitBlt: () => 1, CreateCompatibleDC: () => 5n, GetDeviceCaps: () => 0 }));
+
+    expect(GDI32.checked.CreateCompatibleDC(0n)).toBe(5n);
+    expect(GDI32.checked.BitBlt(1n, 0, 0, 1, 1, 2n, 0, 0, 0)).toBe(1);
+    expect(GDI32.checked.GetDeviceCaps(1n, 0)).toBe(0);
+  });
+
+  test('clears the last-error code before each call', () => {
+    const clearLastError = spyOn(errors, 'clearLastError');
+    const seen: number[] = [];
+
+    GDI32.Use(createMockBackend({ BitBlt: () => (seen.push(clearLastError.mock.calls.length), 1) }));
+
+    try {
+      GDI32.checked.BitBlt(1n, 0, 0, 1, 1, 2n, 0, 0, 0);
+      GDI32.checked.BitBlt(1n, 0, 0, 1, 1, 2n, 0, 0, 0);
+
+      expect(seen).toEqual([1, 2]);
+    } finally {
+      clearLastError.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,200 @@
+import { type FFIFunction, FFIType, dlopen } from 'bun:ffi';
+
+import { GDI_ERROR, HGDI_ERROR } from '../constants/GDI32';
+import type { GDI32Method } from '../structs/GDI32';
+
+/**
+ * How an export signals failure through its return value.
+ */
+export interface FailureSentinel {
+  /** The documented failure value, as shown in `GdiError` messages (`NULL`, `GDI_ERROR`, …). */
+  readonly name: string;
+  /** `true` when `result` is the failure value. */
+  failed(result: unknown): boolean;
+}
+
+/**
+ * The failure values used by `gdi32.dll` exports.
+ *
+ * `i32` exports see `GDI_ERROR` and `CLR_INVALID` as -1, `u32` exports as `0xFFFFFFFF`.
+ */
+export const FailureSentinels = {
+  CLR_INVALID: { name: 'CLR_INVALID', failed: (result) => result === 0xffffffff || result === -1 },
+  GDI_ERROR: { name: 'GDI_ERROR', failed: (result) => result === GDI_ERROR || result === -1 },
+  HGDI_ERROR: { name: 'NULL or HGDI_ERROR', failed: (result) => !result || result === HGDI_ERROR },
+  INVALID_EXTRA: { name: '0x80000000', failed: (result) => result === -0x80000000 || result === 0x80000000 },
+  MINUS_ONE: { name: '-1', failed: (result) => result === -1 },
+  NULL: { name: 'NULL', failed: (result) => !result },
+  SP_ERROR: { name: 'SP_ERROR or 0', failed: (result) => typeof result === 'number' && result <= 0 },
+  ZERO: { name: '0', failed: (result) => result === 0 },
+  ZERO_OR_GDI_ERROR: { name: '0 or GDI_ERROR', failed: (result) => result === 0 || result === GDI_ERROR || result === -1 },
+} as const satisfies Record<string, FailureSentinel>;
+
+/**
+ * Failure values that differ from the default for the export's return type.
+ *
+ * By default handle-returning exports fail with `NULL` and `BOOL`/`int`/`DWORD` exports with 0.
+ * `null` marks exports whose every return value is a valid result (counts, callback results,
+ * yes/no answers), so no result can be told apart as a failure.
+ */
+export const Failures: { [K in GDI32Method]?: FailureSentinel | null } = {
+  AbortDoc: FailureSentinels.SP_ERROR,
+  DrawEscape: FailureSentinels.SP_ERROR,
+  EndDoc: FailureSentinels.SP_ERROR,
+  EndPage: FailureSentinels.SP_ERROR,
+  EnumEnhMetaFile: null,
+  EnumFontFamiliesA: null,
+  EnumFontFamiliesExA: null,
+  EnumFontFamiliesExW: null,
+  EnumFontFamiliesW: null,
+  EnumFontsA: null,
+  EnumFontsW: null,
+  EnumICMProfilesA: null,
+  EnumICMProfilesW: null,
+  EnumMetaFile: null,
+  EnumObjects: null,
+  EqualRgn: null,
+  Escape: FailureSentinels.SP_ERROR,
+  ExtEscape: FailureSentinels.SP_ERROR,
+  GetBkColor: FailureSentinels.CLR_INVALID,
+  GetClipRgn: FailureSentinels.MINUS_ONE,
+  GetDCBrushColor: FailureSentinels.CLR_INVALID,
+  GetDCPenColor: FailureSentinels.CLR_INVALID,
+  GetDeviceCaps: null,
+  GetEnhMetaFileDescriptionA: FailureSentinels.GDI_ERROR,
+  GetEnhMetaFileDescriptionW: FailureSentinels.GDI_ERROR,
+  GetEnhMetaFilePaletteEntries: FailureSentinels.GDI_ERROR,
+  GetEnhMetaFilePixelFormat: FailureSentinels.GDI_ERROR,
+  GetFontData: FailureSentinels.GDI_ERROR,
+  GetFontLanguageInfo: FailureSentinels.GDI_ERROR,
+  GetGlyphIndicesA: FailureSentinels.GDI_ERROR,
+  GetGlyphIndicesW: FailureSentinels.GDI_ERROR,
+  GetGlyphOutlineA: FailureSentinels.GDI_ERROR,
+  GetGlyphOutlineW: FailureSentinels.GDI_ERROR,
+  GetKerningPairsA: null,
+  GetKerningPairsW: null,
+  GetLayout: FailureSentinels.GDI_ERROR,
+  GetNearestColor: FailureSentinels.CLR_INVALID,
+  GetNearestPaletteIndex: FailureSentinels.CLR_INVALID,
+  GetPath: FailureSentinels.MINUS_ONE,
+  GetPixel: FailureSentinels.CLR_INVALID,
+  GetRandomRgn: FailureSentinels.MINUS_ONE,
+  GetTextAlign: FailureSentinels.GDI_ERROR,
+  GetTextCharacterExtra: FailureSentinels.INVALID_EXTRA,
+  GetTextCharset: null,
+  GetTextCharsetInfo: null,
+  GetTextColor: FailureSentinels.CLR_INVALID,
+  PtInRegion: null,
+  PtVisible: FailureSentinels.MINUS_ONE,
+  RealizePalette: FailureSentinels.GDI_ERROR,
+  RectInRegion: null,
+  RectVisible: null,
+  SelectObject: FailureSentinels.HGDI_ERROR,
+  SetAbortProc: FailureSentinels.SP_ERROR,
+  SetBkColor: FailureSentinels.CLR_INVALID,
+  SetDCBrushColor: FailureSentinels.CLR_INVALID,
+  SetDCPenColor: FailureSentinels.CLR_INVALID,
+  SetLayout: FailureSentinels.GDI_ERROR,
+  SetMapperFlags: FailureSentinels.GDI_ERROR,
+  SetPixel: FailureSentinels.CLR_INVALID,
+  SetTextAlign: FailureSentinels.GDI_ERROR,
+  SetTextCharacterExtra: FailureSentinels.INVALID_EXTRA,
+  SetTextColor: FailureSentinels.CLR_INVALID,
+  StartDocA: FailureSentinels.SP_ERROR,
+  StartDocW: FailureSentinels.SP_ERROR,
+  StartPage: FailureSentinels.SP_ERROR,
+  StretchDIBits: FailureSentinels.ZERO_OR_GDI_ERROR,
+};
+
+/**
+ * The failure value of an export with the given signature.
+ *
+ * @param method Export name.
+ * @param returns Declared return type of the export.
+ * @returns The sentinel from `Failures`, else `NULL` for handles and 0 for integers; `null` when no result signals failure.
+ */
+export function failureSentinel(method: GDI32Method, returns: FFIFunction['returns']): FailureSentinel | null {
+  const sentinel = Failures[method];
+
+  if (sentinel !== undefined) {
+    return sentinel;
+  }
+
+  switch (returns) {
+    case FFIType.ptr:
+    case FFIType.u64:
+      return FailureSentinels.NULL;
+    case FFIType.i32:
+    case FFIType.u32:
+      return FailureSentinels.ZERO;
+    default:
+      return null;
+  }
+}
+
+/** kernel32 `GetLastError`/`SetLastError`, bound on first use; `null` off Windows. */
+let kernel32: { GetLastError: () => number; SetLastError: (code: number) => void } | null | undefined;
+
+const bindKernel32 = (): typeof kernel32 =>
+  (kernel32 ??= process.platform === 'win32' ? dlopen('kernel32.dll', { GetLastError: { args: [], returns: FFIType.u32 }, SetLastError: { args: [FFIType.u32], returns: FFIType.void } }).symbols : null);
+
+/**
+ * Clears the calling thread's last-error code through kernel32 `SetLastError(0)`.
+ *
+ * Many exports fail without setting it, so call this before the export to keep `lastError`
+ * from reporting a stale code left by an earlier, unrelated failure.
+ */
+export function clearLastError(): void {
+  bindKernel32()?.SetLastError(0);
+
+  return;
+}
+
+/**
+ * Reads the calling thread's last-error code through kernel32 `GetLastError`.
+ *
+ * Only meaningful immediately after the failing call, and only for exports that set it; pair
+ * it with `clearLastError` before the call.
+ *
+ * @returns The code, or `undefined` when it is 0 or kernel32 is unavailable.
+ */
+export function lastError(): number | undefined {
+  return bindKernel32()?.GetLastError() || undefined;
+}
+
+const format = (value: unknown): string => {
+  switch (typeof value) {
+    case 'bigint':
+      return `0x${value.toString(16)}`;
+    case 'string':
+      return JSON.stringify(value);
+    case 'object':
+      return value === null ? 'NULL' : ArrayBuffer.isView(value) ? `<${value.constructor.name}>` : String(value);
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Thrown by `GDI32.checked` when an export returns its failure value.
+ */
+export class GdiError extends Error {
+  public override readonly name = 'GdiError';
+
+  /**
+   * @param method Export that failed.
+   * @param args Arguments it was called with.
+   * @param result The value it returned.
+   * @param sentinel The failure value `result` matched.
+   * @param lastError `GetLastError()` right after the call, when available.
+   */
+  constructor(public readonly method: GDI32Method, public readonly args: readonly unknown[], public readonly result: unknown, public readonly sentinel: FailureSentinel, public readonly lastError?: number) {
+    const returned = format(result);
+
+    super(
+      `${method}(${args.map(format).join(', ')}) failed: returned ${returned}${returned === sentinel.name ? '' : ` (${sentinel.name})`}${
+        lastError === undefined ? '' : `, GetLastError() = ${lastError} (0x${lastError.toString(16).padStart(8, '0')})`
+      }.`
+    );
+  }
+}
@@ -0,0 +1,209 @@
+import { ptr } from 'bun:ffi';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import { BITMAPINFOHEADER, POINT } from '../codecs/GDI32';
+import { BinaryRasterOperation, BitmapCompression, DIBUsage, NULL, PolyFillMode, RasterOperation, RegionCombineMode, StockObject } from '../constants/GDI32';
+import GDI32 from '../structs/GDI32';
+import { type GDI32RasterBackend, RasterSurface, createRasterBackend } from './raster';
+
+let backend: GDI32RasterBackend;
+
+beforeEach(() => GDI32.Use((backend = createRasterBackend())));
+
+afterEach(() => GDI32.Reset());
+
+/** A white `width`×`height` memory DC. */
+const canvas = (width: number, height: number): bigint => {
+  const hdc = GDI32.CreateCompatibleDC(0n);
+
+  GDI32.SelectObject(hdc, GDI32.CreateCompatibleBitmap(hdc, width, height));
+  GDI32.PatBlt(hdc, 0, 0, width, height, RasterOperation.WHITENESS);
+
+  return hdc;
+};
+
+/** The surface as text rows: `#` for black, `.` for white, `?` for anything else. */
+const rows = (hdc: bigint): string[] => {
+  const surface = backend.surface(hdc)!;
+
+  return Array.from({ length: surface.height }, (_, y) => Array.from({ length: surface.width }, (_, x) => ({ 0: '#', 0xffffff: '.' }[surface.getPixel(x, y)] ?? '?')).join(''));
+};
+
+const points = (...values: [number, number][]): Buffer => Buffer.concat(values.map(([x, y]) => POINT.encode({ x, y })));
+
+describe('RasterSurface', () => {
+  test('stores COLORREFs as 0x00RRGGBB in DIB row order', () => {
+    const surface = new RasterSurface(2, 2, { bottomUp: true });
+
+    expect(surface.setPixel(1, 0, 0x0000ff)).toBe(true);
+    expect(surface.pixels[3]).toBe(0xff0000);
+    expect(surface.getPixel(1, 0)).toBe(0x0000ff);
+    expect(surface.getPixel(2, 0)).toBe(0xffffffff);
+    expect(() => new RasterSurface(2, 2, { pixels: new Uint32Array(3) })).toThrow(RangeError);
+  });
+});
+
+describe('createRasterBackend', () => {
+  test('sets and reads pixels', () => {
+    const hdc = canvas(2, 1);
+
+    expect(GDI32.SetPixel(hdc, 1, 0, 0x123456)).toBe(0x123456);
+    expect(GDI32.GetPixel(hdc, 1, 0)).toBe(0x123456);
+    expect(GDI32.GetPixel(hdc, 5, 0)).toBe(0xffffffff);
+  });
+
+  test('draws lines without their end point', () => {
+    const hdc = canvas(4, 2);
+
+    GDI32.MoveToEx(hdc, 0, 0, NULL);
+    GDI32.LineTo(hdc, 3, 1);
+
+    expect(rows(hdc)).toEqual(['##..', '..#.']);
+  });
+
+  test('draws rectangles with the pen outside and the brush inside', () => {
+    const hdc = canvas(6, 5);
+
+    GDI32.SelectObject(hdc, GDI32.GetStockObject(StockObject.BLACK_BRUSH));
+    GDI32.SelectObject(hdc, GDI32.CreatePen(0, 1, 0x0000ff));
+    GDI32.Rectangle(hdc, 1, 1, 5, 4);
+
+    expect(rows(hdc)).toEqual(['......', '.????.', '.?##?.', '.????.', '......']);
+    expect(GDI32.GetPixel(hdc, 1, 1)).toBe(0x0000ff);
+  });
+
+  test('fills one pixel less without a pen', () => {
+    const hdc = canvas(4, 4);
+
+    GDI32.SelectObject(hdc, GDI32.GetStockObject(StockObject.NULL_PEN));
+    GDI32.SelectObject(hdc, GDI32.GetStockObject(StockObject.BLACK_BRUSH));
+    GDI32.Rectangle(hdc, 0, 0, 3, 3);
+
+    expect(rows(hdc)).toEqual(['##..', '##..', '....', '....']);
+  });
+
+  test('draws symmetric ellipses', () => {
+    const hdc = canvas(6, 6);
+
+    GDI32.SelectObject(hdc, GDI32.GetStockObject(StockObject.NULL_PEN));
+    GDI32.SelectObject(hdc, GDI32.GetStockObject(StockObject.BLACK_BRUSH));
+    GDI32.Ellipse(hdc, 0, 0, 6, 6);
+
+    expect(rows(hdc)).toEqual(['.####.', '######', '######', '######', '######', '.####.']);
+  });
+
+  test('fills polygons with the fill mode', () => {
+    const hdc = canvas(5, 5);
+    // The same square twice: winding number 2 inside.
+    const square = points([0, 0], [0, 4], [4, 4], [4, 0], [0, 0], [0, 4], [4, 4], [4, 0]);
+
+    GDI32.SelectObject(hdc, GDI32.GetStockObject(StockObject.NULL_PEN));
+    GDI32.SelectObject(hdc, GDI32.GetStockObject(StockObject.BLACK_BRUSH));
+
+    expect(GDI32.Polygon(hdc, ptr(square), 1)).toBe(0);
+    expect(GDI32.Polygon(hdc, ptr(square), 8)).toBe(1);
+    expect(rows(hdc)).toEqual(['.....', '.....', '.....', '.....', '.....']);
+
+    GDI32.SetPolyFillMode(hdc, PolyFillMode.WINDING);
+    GDI32.Polygon(hdc, ptr(square), 8);
+
+    expect(rows(hdc)).toEqual(['####.', '####.', '####.', '####.', '.....']);
+  });
+
+  test('mixes pens with SetROP2', () => {
+    const hdc = canvas(4, 1);
+
+    expect(GDI32.SetROP2(hdc, BinaryRasterOperation.R2_NOT)).toBe(BinaryRasterOperation.R2_COPYPEN);
+
+    GDI32.MoveToEx(hdc, 0, 0, NULL);
+    GDI32.LineTo(hdc, 3, 0);
+
+    expect(rows(hdc)).toEqual(['###.']);
+
+    GDI32.MoveToEx(hdc, 1, 0, NULL);
+    GDI32.LineTo(hdc, 4, 0);
+
+    expect(rows(hdc)).toEqual(['#..#']);
+  });
+
+  test('blits with ternary raster operations', () => {
+    const src = canvas(2, 2);
+    const dst = canvas(3, 2);
+
+    GDI32.SetPixel(src, 0, 0, 0);
+    GDI32.BitBlt(dst, 1, 0, 2, 2, src, 0, 0, RasterOperation.SRCCOPY);
+
+    expect(rows(dst)).toEqual(['.#.', '...']);
+
+    GDI32.BitBlt(dst, 0, 0, 3, 2, 0n, 0, 0, RasterOperation.DSTINVERT);
+
+    expect(rows(dst)).toEqual(['#.#', '###']);
+
+    GDI32.BitBlt(dst, 1, 0, 2, 2, src, 0, 0, RasterOperation.SRCINVERT);
+
+    expect(rows(dst)).toEqual(['#..', '#..']);
+    expect(GDI32.BitBlt(dst, 0, 0, 1, 1, 0n, 0, 0, RasterOperation.SRCCOPY)).toBe(0);
+  });
+
+  test('reads overlapping blits from a snapshot', () => {
+    const hdc = canvas(4, 1);
+
+    GDI32.SetPixel(hdc, 0, 0, 0);
+    GDI32.BitBlt(hdc, 1, 0, 3, 1, hdc, 0, 0, RasterOperation.SRCCOPY);
+
+    expect(rows(hdc)).toEqual(['##..']);
+  });
+
+  test('fills regions with a brush', () => {
+    const hdc = canvas(4, 3);
+    const a = GDI32.CreateRectRgn(0, 0, 2, 2);
+    const b = GDI32.CreateRectRgn(1, 1, 4, 3);
+
+    GDI32.CombineRgn(a, a, b, RegionCombineMode.RGN_OR);
+    GDI32.FillRgn(hdc, a, GDI32.GetStockObject(StockObject.BLACK_BRUSH));
+
+    expect(rows(hdc)).toEqual(['##..', '####', '.###']);
+    expect(GDI32.PtInRegion(a, 3, 2)).toBe(1);
+    expect(GDI32.PtInRegion(a, 3, 0)).toBe(0);
+  });
+
+  test('refuses to delete a selected pen or brush', () => {
+    const hdc = canvas(3, 3);
+    const pen = GDI32.CreatePen(0, 1, 0);
+    const brush = GDI32.CreateSolidBrush(0);
+
+    GDI32.SelectObject(hdc, pen);
+    GDI32.SelectObject(hdc, brush);
+
+    expect(GDI32.DeleteObject(pen)).toBe(0);
+    expect(GDI32.DeleteObject(brush)).toBe(0);
+
+    GDI32.MoveToEx(hdc, 0, 0, NULL);
+    GDI32.LineTo(hdc, 2, 0);
+    GDI32.Rectangle(hdc, 0, 1, 3, 3);
+
+    expect(rows(hdc)).toEqual(['##.', '###', '###']);
+
+    GDI32.SelectObject(hdc, GDI32.GetStockObject(StockObject.BLACK_PEN));
+    GDI32.SelectObject(hdc, GDI32.GetStockObject(StockObject.WHITE_BRUSH));
+
+    expect(GDI32.DeleteObject(pen)).toBe(1);
+    expect(GDI32.DeleteObject(brush)).toBe(1);
+  });
+
+  test('exposes DIB section pixels bottom-up', () => {
+    const hdc = GDI32.CreateCompatibleDC(0n);
+    const info = BITMAPINFOHEADER.encode({ biBitCount: 32, biCompression: BitmapCompression.BI_RGB, biHeight: 2, biPlanes: 1, biSize: BITMAPINFOHEADER.sizeof, biWidth: 2 });
+    const bits = new BigUint64Array(1);
+    const hbm = GDI32.CreateDIBSection(hdc, ptr(info), DIBUsage.DIB_RGB_COLORS, ptr(bits), 0n, 0);
+    const surface = backend.surface(hbm)!;
+
+    GDI32.SelectObject(hdc, hbm);
+    GDI32.SetPixel(hdc, 0, 0, 0x0000ff);
+
+    expect(bits[0]).toBe(BigInt(ptr(surface.pixels)));
+    expect(surface.bottomUp).toBe(true);
+    expect([...surface.pixels]).toEqual([0, 0, 0xff0000, 0]);
+    expect(GDI32.DeleteObject(hbm)).toBe(0);
+  });
+});
@@ -0,0 +1,816 @@
+import { type Pointer, ptr, toArrayBuffer } from 'bun:ffi';
+
+import { type DIB, createDIB } from '../codecs/bmp';
+import { BITMAPINFOHEADER, POINT, RECT } from '../codecs/GDI32';
+import { combineRegion, decodeRegionData, encodeRegionData, normalizeRegion, offsetRegion, polygonRegion, ptInRegion, regionBounds, regionType } from '../codecs/region';
+import { toDataView } from '../codecs/struct';
+import { XForm } from '../codecs/xform';
+import { BinaryRasterOperation, BitmapCompression, ObjectType, PenStyle, PolyFillMode, RegionCombineMode, RegionType, StockObject } from '../constants/GDI32';
+import type { COLORREF, HBITMAP, HDC } from '../types/GDI32';
+import { type GDI32Backend, type GDI32Implementations, createMockBackend } from './backend';
+
+/**
+ * A 32 bpp pixel buffer owned by the raster backend.
+ *
+ * `pixels` holds `0x00RRGGBB` values in DIB memory order: rows run bottom to top when `bottomUp`
+ * is set (a DIB section with a positive `biHeight`), top to bottom otherwise. The accessors take
+ * y counted from the top, like GDI.
+ */
+export class RasterSurface {
+  public readonly bottomUp: boolean;
+  public readonly height: number;
+  public readonly pixels: Uint32Array;
+  public readonly width: number;
+
+  constructor(width: number, height: number, options: { bottomUp?: boolean; pixels?: Uint32Array } = {}) {
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width < 0 || height < 0) {
+      throw new RangeError(`Invalid surface size ${width}×${height}.`);
+    }
+
+    const pixels = options.pixels ?? new Uint32Array(width * height);
+
+    if (pixels.length < width * height) {
+      throw new RangeError(`A ${width}×${height} surface needs ${width * height} pixels; got ${pixels.length}.`);
+    }
+
+    this.bottomUp = options.bottomUp ?? false;
+    this.height = height;
+    this.pixels = pixels;
+    this.width = width;
+  }
+
+  /**
+   * Index into `pixels` of (`x`, `y`), or -1 outside the surface.
+   */
+  public indexOf(x: number, y: number): number {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) {
+      return -1;
+    }
+
+    return (this.bottomUp ? this.height - 1 - y : y) * this.width + x;
+  }
+
+  /**
+   * The pixel as a `COLORREF`, or `CLR_INVALID` (0xffffffff) outside the surface.
+   */
+  public getPixel(x: number, y: number): COLORREF {
+    const index = this.indexOf(x, y);
+
+    return index < 0 ? CLR_INVALID : swapRB(this.pixels[index]!);
+  }
+
+  /**
+   * Stores a `COLORREF`; returns `false` outside the surface.
+   */
+  public setPixel(x: number, y: number, color: COLORREF): boolean {
+    const index = this.indexOf(x, y);
+
+    if (index >= 0) {
+      this.pixels[index] = swapRB(color);
+    }
+
+    return index >= 0;
+  }
+
+  /**
+   * A 32 bpp `BI_RGB` DIB sharing `pixels`, e.g. for `writeBMP` in golden-image tests.
+   */
+  public toDIB(): DIB {
+    return createDIB({ bitCount: 32, bits: this.pixels, height: this.height, topDown: !this.bottomUp, width: this.width });
+  }
+}
+
+/**
+ * Backend returned by `createRasterBackend`; `surface` exposes the pixels behind a handle.
+ */
+export type GDI32RasterBackend = GDI32Backend & {
+  /** The surface of a bitmap, or of the bitmap selected into a DC. */
+  surface(handle: HBITMAP | HDC): RasterSurface | undefined;
+};
+
+type Brush = { color: COLORREF | 'dc' | null; type: 'brush' };
+
+type Pen = { color: COLORREF | 'dc' | null; type: 'pen'; width: number };
+
+type DeviceContext = {
+  bitmap: bigint;
+  brush: bigint;
+  brushColor: COLORREF;
+  fillMode: PolyFillMode;
+  pen: bigint;
+  penColor: COLORREF;
+  position: POINT;
+  rop2: BinaryRasterOperation;
+  type: 'dc';
+};
+
+type RasterObject = Brush | DeviceContext | Pen | { surface: RasterSurface; type: 'bitmap' } | { rects: RECT[]; type: 'region' };
+
+const CLR_INVALID = 0xffffffff;
+
+/** `DEFAULT_BITMAP`, the 1×1 bitmap every new memory DC starts with (not a public stock index). */
+const DEFAULT_BITMAP = 21;
+
+/** Stock objects live outside the range `allocate` hands out, so they are easy to spot in traces. */
+const stock = (index: number): bigint => 0xf000n | BigInt(index);
+
+const isStock = (handle: bigint): boolean => (handle & ~0xffn) === 0xf000n;
+
+/** `COLORREF` (`0x00BBGGRR`) ⇄ DIB pixel (`0x00RRGGBB`). */
+const swapRB = (value: number): number => (((value & 0xff) << 16) | (value & 0xff00) | ((value >>> 16) & 0xff)) >>> 0;
+
+/**
+ * Evaluates a ternary raster operation (the `rop >> 16` index byte) bitwise over 24-bit pattern,
+ * source and destination values: bit `P << 2 | S << 1 | D` of `code` is the result for those inputs.
+ */
+const rop3 = (code: number, p: number, s: number, d: number): number => {
+  let result = 0;
+
+  for (let index = 0; index < 8; index++) {
+    if (code & (1 << index)) {
+      result |= (index & 4 ? p : ~p) & (index & 2 ? s : ~s) & (index & 1 ? d : ~d);
+    }
+  }
+
+  return (result & 0xffffff) >>> 0;
+};
+
+/** `R2_*` mix: bit `P << 1 | D` of `mode - 1` is the result for those inputs. */
+const rop2 = (mode: BinaryRasterOperation, p: number, d: number): number => rop3(((mode - 1) & 0xc) * 0x14 + ((mode - 1) & 0x3) * 0x05, p, 0, d);
+
+const usesPattern = (code: number): boolean => ((code >> 4) & 0x0f) !== (code & 0x0f);
+
+const usesSource = (code: number): boolean => ((code >> 2) & 0x33) !== (code & 0x33);
+
+const normalize = (left: number, top: number, right: number, bottom: number): RECT => ({ left: Math.min(left, right), top: Math.min(top, bottom), right: Math.max(left, right), bottom: Math.max(top, bottom) });
+
+/**
+ * Pixel rows of the ellipse inscribed in the rectangle: the pixels whose centers fall inside it.
+ */
+const ellipseSpans = ({ bottom, left, right, top }: RECT): RECT[] => {
+  const [rx, ry] = [(right - left) / 2, (bottom - top) / 2];
+  const [cx, cy] = [left + rx, top + ry];
+  const rows: RECT[] = [];
+
+  if (rx <= 0 || ry <= 0) {
+    return rows;
+  }
+
+  for (let y = top; y < bottom; y++) {
+    const dy = (y + 0.5 - cy) / ry;
+    const dx = rx * Math.sqrt(Math.max(0, 1 - dy * dy));
+    const from = Math.ceil(cx - dx - 0.5);
+    const to = Math.floor(cx + dx - 0.5) + 1;
+
+    if (from < to) {
+      rows.push({ left: from, top: y, right: to, bottom: y + 1 });
+    }
+  }
+
+  return normalizeRegion(rows);
+};
+
+/**
+ * Adds the pixels of a Bresenham line to `into`, excluding the end point as GDI does, with a
+ * square `width`×`width` stamp per step.
+ */
+const line = (surface: RasterSurface, into: Set<number>, from: POINT, to: POINT, width: number): void => {
+  const [dx, dy] = [Math.abs(to.x - from.x), -Math.abs(to.y - from.y)];
+  const [sx, sy] = [from.x < to.x ? 1 : -1, from.y < to.y ? 1 : -1];
+  const offset = (width - 1) >> 1;
+  let [x, y, error] = [from.x, from.y, dx + dy];
+
+  while (x !== to.x || y !== to.y) {
+    for (let j = 0; j < width; j++) {
+      for (let i = 0; i < width; i++) {
+        const index = surface.indexOf(x - offset + i, y - offset + j);
+
+        if (index >= 0) {
+          into.add(index);
+        }
+      }
+    }
+
+    const twice = 2 * error;
+
+    if (twice >= dy) {
+      error += dy;
+      x += sx;
+    }
+
+    if (twice <= dx) {
+      error += dx;
+      y += sy;
+    }
+  }
+};
+
+const regionPixels = (surface: RasterSurface, rects: readonly RECT[]): Set<number> => {
+  const into = new Set<number>();
+
+  for (const { bottom, left, right, top } of rects) {
+    for (let y = Math.max(0, top); y < Math.min(surface.height, bottom); y++) {
+      for (let x = Math.max(0, left); x < Math.min(surface.width, right); x++) {
+        into.add(surface.indexOf(x, y));
+      }
+    }
+  }
+
+  return into;
+};
+
+const readPoints = (apt: Pointer, count: number): POINT[] => (apt && count > 0 ? Array.from({ length: count }, (_, index) => POINT.decode(apt, index * POINT.sizeof)) : []);
+
+/**
+ * Creates a GDI32 backend that draws into JS pixel buffers, so rendering code can be checked
+ * pixel by pixel on any platform.
+ *
+ * Memory DCs (`CreateCompatibleDC`), compatible bitmaps and 32 bpp DIB sections are
+ * `RasterSurface`s; `CreateDIBSection` hands out a pointer to the surface's `Uint32Array`.
+ * Implemented: `PatBlt` and `BitBlt` (every ternary ROP), `SetPixel`/`SetPixelV`/`GetPixel`,
+ * `MoveToEx`/`LineTo`/`GetCurrentPositionEx`, `Polyline`, `Polygon`, `Rectangle`, `Ellipse`,
+ * `FillRgn`/`PaintRgn`, solid brushes and pens (`CreateSolidBrush`, `CreatePen`, stock and DC
+ * brushes/pens), `SelectObject`/`GetCurrentObject`/`GetObjectType`/`DeleteObject`/`DeleteDC`,
+ * `SetROP2`, `SetPolyFillMode`, and rectangle-list regions (`CreateRectRgn`, `CreateEllipticRgn`,
+ * `CreatePolygonRgn`, `ExtCreateRegion`, `CombineRgn`, `OffsetRgn`, `GetRgnBox`,
+ * `GetRegionData`, `PtInRegion`).
+ *
+ * Output is deterministic and close to GDI's, not identical: coordinates are device pixels (no
+ * mapping modes, world transforms or clipping), pen styles draw solid, and wide pens stamp
+ * squares. Every other export is a `createMockBackend` stub; `overrides` replace or add exports.
+ *
+ * @param overrides JS implementations that take precedence over the rasterizer's.
+ * @returns A backend suitable for `GDI32.Use`, with a `surface` accessor.
+ * @example
+ * ```ts
+ * const backend = createRasterBackend();
+ * GDI32.Use(backend);
+ *
+ * const hdc = GDI32.CreateCompatibleDC(0n);
+ * GDI32.SelectObject(hdc, GDI32.CreateCompatibleBitmap(hdc, 32, 32));
+ * GDI32.PatBlt(hdc, 0, 0, 32, 32, RasterOperation.WHITENESS);
+ * GDI32.Ellipse(hdc, 4, 4, 28, 28);
+ *
+ * await Bun.write('ellipse.bmp', writeBMP(backend.surface(hdc)!.toDIB()));
+ * ```
+ */
+export function createRasterBackend(overrides: GDI32Implementations = {}): GDI32RasterBackend {
+  const objects = new Map<bigint, RasterObject>([
+    [stock(StockObject.WHITE_BRUSH), { color: 0xffffff, type: 'brush' }],
+    [stock(StockObject.LTGRAY_BRUSH), { color: 0xc0c0c0, type: 'brush' }],
+    [stock(StockObject.GRAY_BRUSH), { color: 0x808080, type: 'brush' }],
+    [stock(StockObject.DKGRAY_BRUSH), { color: 0x404040, type: 'brush' }],
+    [stock(StockObject.BLACK_BRUSH), { color: 0x000000, type: 'brush' }],
+    [stock(StockObject.NULL_BRUSH), { color: null, type: 'brush' }],
+    [stock(StockObject.WHITE_PEN), { color: 0xffffff, type: 'pen', width: 1 }],
+    [stock(StockObject.BLACK_PEN), { color: 0x000000, type: 'pen', width: 1 }],
+    [stock(StockObject.NULL_PEN), { color: null, type: 'pen', width: 1 }],
+    [stock(StockObject.DC_BRUSH), { color: 'dc', type: 'brush' }],
+    [stock(StockObject.DC_PEN), { color: 'dc', type: 'pen', width: 1 }],
+    [stock(DEFAULT_BITMAP), { surface: new RasterSurface(1, 1), type: 'bitmap' }],
+  ]);
+  let next = 0x10000n;
+
+  const allocate = (object: RasterObject): bigint => {
+    const handle = (next += 4n);
+
+    objects.set(handle, object);
+
+    return handle;
+  };
+  const lookup = <T extends RasterObject['type']>(handle: bigint, type: T): Extract<RasterObject, { type: T }> | undefined => {
+    const object = objects.get(handle);
+
+    return object?.type === type ? (object as Extract<RasterObject, { type: T }>) : undefined;
+  };
+  const surfaceOf = (dc: DeviceContext): RasterSurface => lookup(dc.bitmap, 'bitmap')!.surface;
+  const brushColor = (dc: DeviceContext, handle: bigint = dc.brush): number | null => {
+    const color = lookup(handle, 'brush')?.color ?? null;
+
+    return color === null ? null : swapRB(color === 'dc' ? dc.brushColor : color);
+  };
+  const pen = (dc: DeviceContext): { color: number; width: number } | null => {
+    const selected = lookup(dc.pen, 'pen');
+
+    return !selected || selected.color === null ? null : { color: swapRB(selected.color === 'dc' ? dc.penColor : selected.color), width: selected.width };
+  };
+  const region = (handle: bigint, rects: RECT[]): number => {
+    const object = lookup(handle, 'region');
+
+    if (!object) {
+      return RegionType.ERROR;
+    }
+
+    object.rects = rects;
+
+    return regionType(rects);
+  };
+
+  /** Mixes `color` into every pixel once with the DC's `R2_*` mode. */
+  const mix = (dc: DeviceContext, pixels: Iterable<number>, color: number): void => {
+    const surface = surfaceOf(dc);
+
+    for (const index of pixels) {
+      surface.pixels[index] = rop2(dc.rop2, color, surface.pixels[index]!);
+    }
+  };
+  /** Fills `interior` with the brush and paints `outline` with the pen, each pixel once. */
+  const shape = (dc: DeviceContext, outline: Set<number>, interior: readonly RECT[]): boolean => {
+    const surface = surfaceOf(dc);
+    const stroke = pen(dc);
+    const fill = brushColor(dc);
+
+    if (fill !== null) {
+      const inside = regionPixels(surface, interior);
+
+      outline.forEach((index) => inside.delete(index));
+      mix(dc, inside, fill);
+    }
+
+    if (stroke) {
+      mix(dc, outline, stroke.color);
+    }
+
+    return true;
+  };
+  /** Applies a ternary ROP over a destination rectangle; `source` returns -1 to skip a pixel. */
+  const blt = (dc: DeviceContext, x: number, y: number, width: number, height: number, rop: number, source: (i: number, j: number) => number): boolean => {
+    const code = (rop >>> 16) & 0xff;
+    const pattern = brushColor(dc);
+    const surface = surfaceOf(dc);
+
+    if (usesPattern(code) && pattern === null) {
+      return true;
+    }
+
+    for (let j = 0; j < height; j++) {
+      for (let i = 0; i < width; i++) {
+        const index = surface.indexOf(x + i, y + j);
+        const value = source(i, j);
+
+        if (index >= 0 && value >= 0) {
+          surface.pixels[index] = rop3(code, pattern ?? 0, value, surface.pixels[index]!);
+        }
+      }
+    }
+
+    return true;
+  };
+
+  const implementations: GDI32Implementations = {
+    BitBlt(hdc, x, y, cx, cy, hdcSrc, x1, y1, rop) {
+      const dc = lookup(hdc, 'dc');
+      const code = (rop >>> 16) & 0xff;
+
+      if (!dc) {
+        return 0;
+      }
+
+      if (!usesSource(code)) {
+        return +blt(dc, x, y, cx, cy, rop, () => 0);
+      }
+
+      const src = lookup(hdcSrc, 'dc');
+
+      if (!src) {
+        return 0;
+      }
+
+      // Snapshot the source first so overlapping blits within one surface read unmodified pixels.
+      const from = surfaceOf(src);
+      const snapshot = Array.from({ length: Math.max(0, cx * cy) }, (_, offset) => {
+        const index = from.indexOf(x1 + (offset % cx), y1 + Math.floor(offset / cx));
+
+        return index < 0 ? -1 : from.pixels[index]!;
+      });
+
+      return +blt(dc, x, y, cx, cy, rop, (i, j) => snapshot[j * cx + i]!);
+    },
+    CombineRgn(hrgnDst, hrgnSrc1, hrgnSrc2, iMode) {
+      const a = lookup(hrgnSrc1, 'region');
+      const b = iMode === RegionCombineMode.RGN_COPY ? a : lookup(hrgnSrc2, 'region');
+
+      return a && b ? region(hrgnDst, combineRegion(a.rects, b.rects, iMode)) : RegionType.ERROR;
+    },
+    CreateCompatibleBitmap(_hdc, cx, cy) {
+      if (cx < 0 || cy < 0) {
+        return 0n;
+      }
+
+      return cx && cy ? allocate({ surface: new RasterSurface(cx, cy), type: 'bitmap' }) : stock(DEFAULT_BITMAP);
+    },
+    CreateCompatibleDC() {
+      return allocate({
+        bitmap: stock(DEFAULT_BITMAP),
+        brush: stock(StockObject.WHITE_BRUSH),
+        brushColor: 0xffffff,
+        fillMode: PolyFillMode.ALTERNATE,
+        pen: stock(StockObject.BLACK_PEN),
+        penColor: 0x000000,
+        position: { x: 0, y: 0 },
+        rop2: BinaryRasterOperation.R2_COPYPEN,
+        type: 'dc',
+      });
+    },
+    CreateDIBSection(_hdc, pbmi, _usage, ppvBits) {
+      if (!pbmi) {
+        return 0n;
+      }
+
+      const { biBitCount, biCompression, biHeight, biWidth } = BITMAPINFOHEADER.decode(pbmi);
+
+      if (biBitCount !== 32 || (biCompression !== BitmapCompression.BI_RGB && biCompression !== BitmapCompression.BI_BITFIELDS) || biWidth <= 0 || !biHeight) {
+        return 0n;
+      }
+
+      const surface = new RasterSurface(biWidth, Math.abs(biHeight), { bottomUp: biHeight > 0 });
+
+      if (ppvBits) {
+        toDataView(ppvBits, 0, 8).setBigUint64(0, BigInt(ptr(surface.pixels)), true);
+      }
+
+      return allocate({ surface, type: 'bitmap' });
+    },
+    CreateEllipticRgn(x1, y1, x2, y2) {
+      return allocate({ rects: ellipseSpans(normalize(x1, y1, x2, y2)), type: 'region' });
+    },
+    CreatePen(iStyle, cWidth, color) {
+      return allocate({ color: iStyle === PenStyle.PS_NULL ? null : color, type: 'pen', width: Math.max(1, Math.abs(cWidth)) });
+    },
+    CreatePolygonRgn(pptl, cPoint, iMode) {
+      return allocate({ rects: polygonRegion(readPoints(pptl, cPoint), iMode === PolyFillMode.WINDING ? PolyFillMode.WINDING : PolyFillMode.ALTERNATE), type: 'region' });
+    },
+    CreateRectRgn(x1, y1, x2, y2) {
+      return allocate({ rects: normalizeRegion([normalize(x1, y1, x2, y2)]), type: 'region' });
+    },
+    CreateRectRgnIndirect(lprect) {
+      const { bottom, left, right, top } = RECT.decode(lprect);
+
+      return allocate({ rects: normalizeRegion([normalize(left, top, right, bottom)]), type: 'region' });
+    },
+    CreateSolidBrush(color) {
+      return allocate({ color, type: 'brush' });
+    },
+    DeleteDC(hdc) {
+      return +(lookup(hdc, 'dc') !== undefined && objects.delete(hdc));
+    },
+    DeleteObject(ho) {
+      const object = objects.get(ho);
+
+      // Deleting a stock object is a harmless no-op.
+      if (object && isStock(ho)) {
+        return 1;
+      }
+
+      // Objects still selected into a DC cannot be deleted.
+      if (!object || object.type === 'dc' || [...objects.values()].some((dc) => dc.type === 'dc' && (dc.bitmap === ho || dc.brush === ho || dc.pen === ho))) {
+        return 0;
+      }
+
+      return +objects.delete(ho);
+    },
+    Ellipse(hdc, left, top, right, bottom) {
+      const dc = lookup(hdc, 'dc');
+
+      if (!dc) {
+        return 0;
+      }
+
+      const bounds = normalize(left, top, right, bottom);
+      const width = pen(dc)?.width ?? 0;
+      const outer = ellipseSpans(bounds);
+      const inner = ellipseSpans({ left: bounds.left + width, top: bounds.top + width, right: bounds.right - width, bottom: bounds.bottom - width });
+
+      return +shape(dc, regionPixels(surfaceOf(dc), combineRegion(outer, inner, RegionCombineMode.RGN_DIFF)), inner);
+    },
+    ExtCreateRegion(lpx, nCount, lpData) {
+      if (!lpData) {
+        return 0n;
+      }
+
+      const rects = decodeRegionData(new Uint8Array(toArrayBuffer(lpData, 0, nCount)));
+      const xform = lpx ? XForm.decode(toDataView(lpx, 0, 24)) : XForm.identity;
+
+      return allocate({ rects: normalizeRegion(xform.isIdentity ? rects : rects.map((rect) => xform.transformRect(rect))), type: 'region' });
+    },
+    FillRgn(hdc, hrgn, hbr) {
+      const dc = lookup(hdc, 'dc');
+      const rgn = lookup(hrgn, 'region');
+      const color = dc && brushColor(dc, hbr);
+
+      if (!dc || !rgn || color === undefined) {
+        return 0;
+      }
+
+      if (color !== null) {
+        mix(dc, regionPixels(surfaceOf(dc), rgn.rects), color);
+      }
+
+      return 1;
+    },
+    GetCurrentObject(hdc, type) {
+      const dc = lookup(hdc, 'dc');
+
+      if (!dc) {
+        return 0n;
+      }
+
+      switch (type) {
+        case ObjectType.OBJ_BITMAP:
+          return dc.bitmap;
+        case ObjectType.OBJ_BRUSH:
+          return dc.brush;
+        case ObjectType.OBJ_PEN:
+          return dc.pen;
+        default:
+          return 0n;
+      }
+    },
+    GetCurrentPositionEx(hdc, lppt) {
+      const dc = lookup(hdc, 'dc');
+
+      if (!dc || !lppt) {
+        return 0;
+      }
+
+      POINT.write(toDataView(lppt, 0, POINT.sizeof), 0, dc.position);
+
+      return 1;
+    },
+    GetDCBrushColor(hdc) {
+      return lookup(hdc, 'dc')?.brushColor ?? CLR_INVALID;
+    },
+    GetDCPenColor(hdc) {
+      return lookup(hdc, 'dc')?.penColor ?? CLR_INVALID;
+    },
+    GetObjectType(h) {
+      switch (objects.get(h)?.type) {
+        case 'bitmap':
+          return ObjectType.OBJ_BITMAP;
+        case 'brush':
+          return ObjectType.OBJ_BRUSH;
+        case 'dc':
+          return ObjectType.OBJ_MEMDC;
+        case 'pen':
+          return ObjectType.OBJ_PEN;
+        case 'region':
+          return ObjectType.OBJ_REGION;
+        default:
+          return 0;
+      }
+    },
+    GetPixel(hdc, x, y) {
+      const dc = lookup(hdc, 'dc');
+
+      return dc ? surfaceOf(dc).getPixel(x, y) : CLR_INVALID;
+    },
+    GetPolyFillMode(hdc) {
+      return lookup(hdc, 'dc')?.fillMode ?? 0;
+    },
+    GetROP2(hdc) {
+      return lookup(hdc, 'dc')?.rop2 ?? 0;
+    },
+    GetRegionData(hrgn, nCount, lpRgnData) {
+      const rgn = lookup(hrgn, 'region');
+
+      if (!rgn) {
+        return 0;
+      }
+
+      const data = encodeRegionData(rgn.rects);
+
+      if (!lpRgnData) {
+        return data.length;
+      }
+
+      if (nCount < data.length) {
+        return 0;
+      }
+
+      new Uint8Array(toArrayBuffer(lpRgnData, 0, data.length)).set(data);
+
+      return nCount;
+    },
+    GetRgnBox(hrgn, lprc) {
+      const rgn = lookup(hrgn, 'region');
+
+      if (!rgn || !lprc) {
+        return RegionType.ERROR;
+      }
+
+      RECT.write(toDataView(lprc, 0, RECT.sizeof), 0, regionBounds(rgn.rects));
+
+      return regionType(rgn.rects);
+    },
+    GetStockObject(i) {
+      return objects.has(stock(i)) ? stock(i) : 0n;
+    },
+    LineTo(hdc, x, y) {
+      const dc = lookup(hdc, 'dc');
+
+      if (!dc) {
+        return 0;
+      }
+
+      const stroke = pen(dc);
+
+      if (stroke) {
+        const pixels = new Set<number>();
+
+        line(surfaceOf(dc), pixels, dc.position, { x, y }, stroke.width);
+        mix(dc, pixels, stroke.color);
+      }
+
+      dc.position = { x, y };
+
+      return 1;
+    },
+    MoveToEx(hdc, x, y, lppt) {
+      const dc = lookup(hdc, 'dc');
+
+      if (!dc) {
+        return 0;
+      }
+
+      if (lppt) {
+        POINT.write(toDataView(lppt, 0, POINT.sizeof), 0, dc.position);
+      }
+
+      dc.position = { x, y };
+
+      return 1;
+    },
+    OffsetRgn(hrgn, x, y) {
+      const rgn = lookup(hrgn, 'region');
+
+      return rgn ? region(hrgn, offsetRegion(rgn.rects, x, y)) : RegionType.ERROR;
+    },
+    PaintRgn(hdc, hrgn) {
+      const dc = lookup(hdc, 'dc');
+
+      return dc ? implementations.FillRgn!(hdc, hrgn, dc.brush) : 0;
+    },
+    PatBlt(hdc, x, y, w, h, rop) {
+      const dc = lookup(hdc, 'dc');
+      const { bottom, left, right, top } = normalize(x, y, x + w, y + h);
+
+      return dc && !usesSource((rop >>> 16) & 0xff) ? +blt(dc, left, top, right - left, bottom - top, rop, () => 0) : 0;
+    },
+    Polygon(hdc, apt, cpt) {
+      const dc = lookup(hdc, 'dc');
+      const points = readPoints(apt, cpt);
+
+      if (!dc || points.length < 2) {
+        return 0;
+      }
+
+      const outline = new Set<number>();
+      const width = pen(dc)?.width ?? 1;
+
+      points.forEach((point, index) => line(surfaceOf(dc), outline, point, points[(index + 1) % points.length]!, width));
+
+      return +shape(dc, pen(dc) ? outline : new Set(), polygonRegion(points, dc.fillMode));
+    },
+    Polyline(hdc, apt, cpt) {
+      const dc = lookup(hdc, 'dc');
+      const points = readPoints(apt, cpt);
+
+      if (!dc || points.length < 2) {
+        return 0;
+      }
+
+      const stroke = pen(dc);
+
+      if (stroke) {
+        const pixels = new Set<number>();
+
+        points.slice(1).forEach((point, index) => line(surfaceOf(dc), pixels, points[index]!, point, stroke.width));
+        mix(dc, pixels, stroke.color);
+      }
+
+      return 1;
+    },
+    PtInRegion(hrgn, x, y) {
+      const rgn = lookup(hrgn, 'region');
+
+      return +(rgn !== undefined && ptInRegion(rgn.rects, x, y));
+    },
+    Rectangle(hdc, left, top, right, bottom) {
+      const dc = lookup(hdc, 'dc');
+
+      if (!dc) {
+        return 0;
+      }
+
+      const bounds = normalize(left, top, right, bottom);
+      const width = pen(dc)?.width;
+
+      // Without a pen GDI fills one pixel less in each direction.
+      if (width === undefined) {
+        return +shape(dc, new Set(), [{ ...bounds, right: bounds.right - 1, bottom: bounds.bottom - 1 }]);
+      }
+
+      const inner = normalizeRegion([{ left: bounds.left + width, top: bounds.top + width, right: bounds.right - width, bottom: bounds.bottom - width }]);
+
+      return +shape(dc, regionPixels(surfaceOf(dc), combineRegion([bounds], inner, RegionCombineMode.RGN_DIFF)), inner);
+    },
+    SelectObject(hdc, h) {
+      const dc = lookup(hdc, 'dc');
+      const object = objects.get(h);
+      let previous: bigint;
+
+      if (!dc || !object) {
+        return 0n;
+      }
+
+      switch (object.type) {
+        case 'bitmap':
+          // A bitmap can be selected into one DC at a time.
+          if (h !== stock(DEFAULT_BITMAP) && [...objects.values()].some((other) => other !== dc && other.type === 'dc' && other.bitmap === h)) {
+            return 0n;
+          }
+
+          [previous, dc.bitmap] = [dc.bitmap, h];
+          return previous;
+        case 'brush':
+          [previous, dc.brush] = [dc.brush, h];
+          return previous;
+        case 'pen':
+          [previous, dc.pen] = [dc.pen, h];
+          return previous;
+        default:
+          return 0n;
+      }
+    },
+    SetDCBrushColor(hdc, color) {
+      const dc = lookup(hdc, 'dc');
+
+      if (!dc) {
+        return CLR_INVALID;
+      }
+
+      const previous = dc.brushColor;
+
+      dc.brushColor = color;
+
+      return previous;
+    },
+    SetDCPenColor(hdc, color) {
+      const dc = lookup(hdc, 'dc');
+
+      if (!dc) {
+        return CLR_INVALID;
+      }
+
+      const previous = dc.penColor;
+
+      dc.penColor = color;
+
+      return previous;
+    },
+    SetPixel(hdc, x, y, color) {
+      const dc = lookup(hdc, 'dc');
+
+      return dc && surfaceOf(dc).setPixel(x, y, color) ? color : CLR_INVALID;
+    },
+    SetPixelV(hdc, x, y, color) {
+      const dc = lookup(hdc, 'dc');
+
+      return +(dc !== undefined && surfaceOf(dc).setPixel(x, y, color));
+    },
+    SetPolyFillMode(hdc, mode) {
+      const dc = lookup(hdc, 'dc');
+
+      if (!dc || (mode !== PolyFillMode.ALTERNATE && mode !== PolyFillMode.WINDING)) {
+        return 0;
+      }
+
+      const previous = dc.fillMode;
+
+      dc.fillMode = mode;
+
+      return previous;
+    },
+    SetROP2(hdc, rop2) {
+      const dc = lookup(hdc, 'dc');
+
+      if (!dc || rop2 < BinaryRasterOperation.R2_BLACK || rop2 > BinaryRasterOperation.R2_WHITE) {
+        return 0;
+      }
+
+      const previous = dc.rop2;
+
+      dc.rop2 = rop2;
+
+      return previous;
+    },
+  };
+
+  return Object.assign(createMockBackend({ ...implementations, ...overrides }), {
+    surface(handle: HBITMAP | HDC): RasterSurface | undefined {
+      const object = objects.get(handle);
+
+      return object?.type === 'dc' ? surfaceOf(object) : object?.type === 'bitmap' ? object.surface : undefined;
+    },
+  });
+}
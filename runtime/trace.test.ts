@@ -0,0 +1,83 @@
+import { type Pointer, ptr, read } from 'bun:ffi';
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import { ExtTextOutOption, NULL } from '../constants/GDI32';
+import { encodeWide } from '../helpers/strings';
+import GDI32 from '../structs/GDI32';
+import { createMockBackend } from './backend';
+import './extensions';
+import { createTraceBackend, parseTrace, replayTrace } from './trace';
+
+afterEach(() => GDI32.Reset());
+
+const ints = (pointer: Pointer, length: number): number[] => Array.from({ length }, (_, index) => read.i32(pointer, index * 4));
+
+/**
+ * A mock that logs what the pointer arguments point at. Handles count up from `base` and are
+ * logged relative to it, so a recording and its replay log the same calls.
+ */
+const logging = (log: unknown[], base: bigint) => {
+  let next = base;
+
+  return createMockBackend({
+    CreateCompatibleDC: () => next++,
+    DeleteDC: () => 1,
+    ExtTextOutW: (hdc, x, y, options, _rect, text, count, dx) => {
+      const length = count * (options & ExtTextOutOption.ETO_PDY ? 2 : 1);
+
+      log.push(['ExtTextOutW', hdc - base, x, y, options, String.fromCharCode(...Array.from({ length: count }, (_, index) => read.u16(text, index * 2))), ints(dx, length)]);
+
+      return 1;
+    },
+    Polyline: (hdc, points, count) => (log.push(['Polyline', hdc - base, ints(points, count * 2)]), 1),
+  });
+};
+
+describe('createTraceBackend', () => {
+  test('snapshots x,y advance pairs under ETO_PDY', () => {
+    const backend = createTraceBackend(createMockBackend());
+    const text = encodeWide('AV');
+
+    GDI32.Use(backend);
+    GDI32.ExtTextOutW(1n, 0, 0, 0, NULL, ptr(text), 2, ptr(new Int32Array([7, 9])));
+    GDI32.ExtTextOutW(1n, 0, 0, ExtTextOutOption.ETO_PDY, NULL, ptr(text), 2, ptr(new Int32Array([7, 1, 9, -1])));
+
+    expect(backend.trace.calls.map(({ args }) => args[7])).toEqual([
+      { $array: 'i32', length: 2, value: [7, 9] },
+      { $array: 'i32', length: 4, value: [7, 1, 9, -1] },
+    ]);
+  });
+});
+
+describe('replayTrace', () => {
+  test('replays a parsed recording with the same calls', () => {
+    const recorded: unknown[] = [];
+    const replayed: unknown[] = [];
+    const backend = createTraceBackend(logging(recorded, 0x100n));
+
+    GDI32.Use(backend);
+
+    const hdc = GDI32.CreateCompatibleDC(0n);
+
+    GDI32.Polyline(hdc, ptr(new Int32Array([0, 0, 10, 5, 20, 0])), 3);
+    GDI32.ExtTextOutW(hdc, 4, 8, ExtTextOutOption.ETO_PDY, NULL, ptr(encodeWide('Hi')), 2, ptr(new Int32Array([6, 0, 3, 2])));
+    GDI32.DeleteDC(hdc);
+
+    GDI32.Use(logging(replayed, 0x200n));
+
+    const { handles, mismatches, results } = replayTrace(parseTrace(JSON.stringify(backend)));
+
+    expect(replayed).toEqual(recorded);
+    expect(recorded).toEqual([
+      ['Polyline', 0n, [0, 0, 10, 5, 20, 0]],
+      ['ExtTextOutW', 0n, 4, 8, ExtTextOutOption.ETO_PDY, 'Hi', [6, 0, 3, 2]],
+    ]);
+    expect(handles).toEqual(new Map([[0x100n, 0x200n]]));
+    expect(mismatches).toEqual([]);
+    expect(results).toEqual([0x200n, 1, 1, 1]);
+  });
+
+  test('rejects other trace versions', () => {
+    expect(() => parseTrace('{"calls":[],"version":2}')).toThrow(new TypeError('Unsupported GDI32 trace (version 2).'));
+  });
+});
@@ -0,0 +1,482 @@
+import { type FFIFunction, FFIType, type Pointer, read, toArrayBuffer } from 'bun:ffi';
+
+import { dibStride } from '../codecs/bmp';
+import { ABC, BITMAPINFOHEADER, GLYPHMETRICS, KERNINGPAIR, LOGBRUSH, LOGFONTW, LOGPEN, MAT2, POINT, RECT, SIZE, TEXTMETRICW, XFORM } from '../codecs/GDI32';
+import type { Struct } from '../codecs/struct';
+import { BitmapCompression, ExtTextOutOption, NULL } from '../constants/GDI32';
+import { decodeWide, encodeWide } from '../helpers/strings';
+import GDI32, { type GDI32Method } from '../structs/GDI32';
+import { type GDI32Backend, type GDI32Symbol, createLibraryBackend } from './backend';
+
+const Structs = { ABC, BITMAPINFOHEADER, GLYPHMETRICS, KERNINGPAIR, LOGBRUSH, LOGFONTW, LOGPEN, MAT2, POINT, RECT, SIZE, TEXTMETRICW, XFORM } as const;
+
+/**
+ * Struct codecs a trace can snapshot pointer arguments with.
+ */
+export type TraceStruct = keyof typeof Structs;
+
+/**
+ * A JSON-safe argument or return value.
+ *
+ * Plain numbers, booleans and `null` (a `NULL` pointer) are stored as is. 64-bit values become
+ * `$bigint` strings; pointers whose layout the trace knows become `$struct` snapshots, `$string`s,
+ * `$array`s or base64 `$bytes`; any other pointer is kept as an opaque `$pointer` address.
+ * Snapshots of output-only buffers record their size but no `value`.
+ */
+export type TraceValue =
+  | boolean
+  | null
+  | number
+  | { $array: 'i32' | 'u16'; length: number; value?: number[] }
+  | { $bigint: string }
+  | { $bytes: string; length: number }
+  | { $pointer: string }
+  | { $string: string; length: number }
+  | { $struct: TraceStruct; count?: number; value?: unknown };
+
+/**
+ * One recorded `GDI32.*` call.
+ */
+export interface GDI32TraceEntry {
+  args: TraceValue[];
+  /** Milliseconds spent in the export. */
+  duration: number;
+  /** Message of the exception the export threw, if any. */
+  error?: string;
+  method: string;
+  /** Snapshots of output buffers after the call, keyed by argument index. */
+  outputs?: Record<number, TraceValue>;
+  result: TraceValue;
+  /** Milliseconds since the trace started. */
+  time: number;
+}
+
+/**
+ * A JSON trace as produced by `createTraceBackend` and consumed by `replayTrace`.
+ */
+export interface GDI32Trace {
+  calls: GDI32TraceEntry[];
+  version: 1;
+}
+
+/**
+ * Tracing backend; `trace` accumulates every call in order.
+ */
+export type GDI32TraceBackend = GDI32Backend & {
+  readonly trace: GDI32Trace;
+  clear(): void;
+  toJSON(): GDI32Trace;
+};
+
+/**
+ * A replayed call whose result differs from the recorded one (handles only compare as
+ * success/failure, since their values differ between backends).
+ */
+export interface TraceMismatch {
+  actual: unknown;
+  expected: TraceValue;
+  index: number;
+  method: string;
+}
+
+/**
+ * Outcome of `replayTrace`.
+ */
+export interface TraceReplay {
+  /** Recorded handle → handle returned by the replay backend. */
+  handles: Map<bigint, bigint>;
+  mismatches: TraceMismatch[];
+  results: unknown[];
+}
+
+type Direction = 'in' | 'inout' | 'out';
+
+/**
+ * How to snapshot a pointer argument; `count`, `length`, `bytes` and `bits` name other arguments by
+ * index. An array holds two values per item when argument `pairs.options` has `pairs.flag` set.
+ */
+type PointerSpec =
+  | { count?: number; direction?: Direction; struct: TraceStruct }
+  | { direction?: Direction; length?: number; string: true }
+  | { array: 'i32' | 'u16'; count: number; direction?: Direction; pairs?: { flag: number; options: number } }
+  | { bytes: number; direction?: Direction }
+  | { bitmapInfo: true }
+  | { bits: number };
+
+const points = (count: number): PointerSpec => ({ count, struct: 'POINT' });
+const out = (struct: TraceStruct): PointerSpec => ({ direction: 'out', struct });
+
+/** Pointer layouts of the exports whose arguments the trace dereferences. */
+const Pointers: { [K in GDI32Method]?: Record<number, PointerSpec> } = {
+  AddFontResourceW: { 0: { string: true } },
+  CombineTransform: { 0: out('XFORM'), 1: { struct: 'XFORM' }, 2: { struct: 'XFORM' } },
+  CreateBrushIndirect: { 0: { struct: 'LOGBRUSH' } },
+  CreateDCW: { 0: { string: true }, 1: { string: true }, 2: { string: true } },
+  CreateDIBSection: { 1: { bitmapInfo: true } },
+  CreateFontIndirectW: { 0: { struct: 'LOGFONTW' } },
+  CreatePenIndirect: { 0: { struct: 'LOGPEN' } },
+  CreatePolygonRgn: { 0: points(1) },
+  CreateRectRgnIndirect: { 0: { struct: 'RECT' } },
+  DPtoLP: { 1: { count: 2, direction: 'inout', struct: 'POINT' } },
+  ExtCreateRegion: { 0: { struct: 'XFORM' }, 2: { bytes: 1 } },
+  ExtTextOutW: { 4: { struct: 'RECT' }, 5: { length: 6, string: true }, 7: { array: 'i32', count: 6, pairs: { flag: ExtTextOutOption.ETO_PDY, options: 3 } } },
+  GetClipBox: { 1: out('RECT') },
+  GetCurrentPositionEx: { 1: out('POINT') },
+  GetEnhMetaFileW: { 0: { string: true } },
+  GetGlyphIndicesW: { 1: { length: 2, string: true }, 3: { array: 'u16', count: 2, direction: 'out' } },
+  GetKerningPairsW: { 2: { count: 1, direction: 'out', struct: 'KERNINGPAIR' } },
+  GetRegionData: { 2: { bytes: 1, direction: 'out' } },
+  GetRgnBox: { 1: out('RECT') },
+  GetTextExtentPoint32W: { 1: { length: 2, string: true }, 3: out('SIZE') },
+  GetTextFaceW: { 2: { direction: 'out', length: 1, string: true } },
+  GetTextMetricsW: { 1: out('TEXTMETRICW') },
+  GetViewportExtEx: { 1: out('SIZE') },
+  GetViewportOrgEx: { 1: out('POINT') },
+  GetWindowExtEx: { 1: out('SIZE') },
+  GetWindowOrgEx: { 1: out('POINT') },
+  GetWorldTransform: { 1: out('XFORM') },
+  LPtoDP: { 1: { count: 2, direction: 'inout', struct: 'POINT' } },
+  ModifyWorldTransform: { 1: { struct: 'XFORM' } },
+  MoveToEx: { 3: out('POINT') },
+  OffsetViewportOrgEx: { 3: out('POINT') },
+  OffsetWindowOrgEx: { 3: out('POINT') },
+  PolyBezier: { 1: points(2) },
+  PolyBezierTo: { 1: points(2) },
+  PolyDraw: { 1: points(3), 2: { bytes: 3 } },
+  Polygon: { 1: points(2) },
+  Polyline: { 1: points(2) },
+  PolylineTo: { 1: points(2) },
+  RectVisible: { 1: { struct: 'RECT' } },
+  RemoveFontResourceW: { 0: { string: true } },
+  ScaleViewportExtEx: { 5: out('SIZE') },
+  SetBrushOrgEx: { 3: out('POINT') },
+  SetDIBitsToDevice: { 9: { bits: 10 }, 10: { bitmapInfo: true } },
+  SetViewportExtEx: { 3: out('SIZE') },
+  SetViewportOrgEx: { 3: out('POINT') },
+  SetWindowExtEx: { 3: out('SIZE') },
+  SetWindowOrgEx: { 3: out('POINT') },
+  SetWorldTransform: { 1: { struct: 'XFORM' } },
+  StretchDIBits: { 9: { bits: 10 }, 10: { bitmapInfo: true } },
+  TextOutW: { 3: { length: 4, string: true } },
+};
+
+/** Upper bound for NUL-terminated strings, so a bad pointer cannot run away. */
+const MAX_STRING = 0x8000;
+
+/** Statics on `GDI32` that are not exports and must never be called from a trace. */
+const Infrastructure = new Set(['Failure', 'Install', 'Load', 'Preload', 'Reset', 'Unbind', 'Use']);
+
+const is64Bit = (type: FFIFunction['returns']): boolean => type === FFIType.i64 || type === FFIType.u64 || type === FFIType.i64_fast || type === FFIType.u64_fast;
+
+const toJSONValue = (value: unknown): unknown => {
+  if (typeof value === 'bigint') {
+    return { $bigint: value.toString() };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(toJSONValue);
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, toJSONValue(field)]));
+  }
+
+  return value;
+};
+
+const fromJSONValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(fromJSONValue);
+  }
+
+  if (value && typeof value === 'object') {
+    return '$bigint' in value ? BigInt((value as { $bigint: string }).$bigint) : Object.fromEntries(Object.entries(value).map(([key, field]) => [key, fromJSONValue(field)]));
+  }
+
+  return value;
+};
+
+const bytesAt = (pointer: Pointer, length: number): Uint8Array => (length > 0 ? new Uint8Array(toArrayBuffer(pointer, 0, length)) : new Uint8Array(0));
+
+/** Byte length of the `BITMAPINFO` (header, masks and color table) at `pointer`. */
+const bitmapInfoSize = (pointer: Pointer): number => {
+  const { biBitCount, biClrUsed, biCompression, biSize } = BITMAPINFOHEADER.decode(pointer);
+  const masks = biSize === BITMAPINFOHEADER.sizeof && biCompression === BitmapCompression.BI_BITFIELDS ? 12 : 0;
+
+  return biSize + masks + (biClrUsed || (biBitCount <= 8 ? 1 << biBitCount : 0)) * 4;
+};
+
+/** Byte length of the pixel data described by the `BITMAPINFOHEADER` at `pointer`. */
+const bitsSize = (pointer: Pointer): number => {
+  const { biBitCount, biCompression, biHeight, biSizeImage, biWidth } = BITMAPINFOHEADER.decode(pointer);
+
+  return biCompression === BitmapCompression.BI_RGB || biCompression === BitmapCompression.BI_BITFIELDS ? dibStride(biWidth, biBitCount) * Math.abs(biHeight) : biSizeImage;
+};
+
+const snapshot = (spec: PointerSpec, pointer: Pointer, args: readonly unknown[], after: boolean): TraceValue => {
+  const counted = (index: number): number => Math.max(0, Number(args[index]));
+  const withValue = after || !('direction' in spec) || spec.direction !== 'out';
+
+  if ('struct' in spec) {
+    const struct = Structs[spec.struct] as Struct<unknown>;
+
+    if (spec.count === undefined) {
+      return { $struct: spec.struct, ...(withValue && { value: toJSONValue(struct.decode(pointer)) }) };
+    }
+
+    const count = counted(spec.count);
+
+    return { $struct: spec.struct, count, ...(withValue && { value: Array.from({ length: count }, (_, index) => toJSONValue(struct.decode(pointer, index * struct.sizeof))) }) };
+  }
+
+  if ('string' in spec) {
+    let length = spec.length === undefined ? 0 : counted(spec.length);
+
+    if (spec.length === undefined) {
+      while (length < MAX_STRING && read.u16(pointer, length * 2)) {
+        length++;
+      }
+    }
+
+    return { $string: withValue ? decodeWide(bytesAt(pointer, length * 2), length) : '', length };
+  }
+
+  if ('array' in spec) {
+    const length = counted(spec.count) * (spec.pairs && Number(args[spec.pairs.options]) & spec.pairs.flag ? 2 : 1);
+    const view = spec.array === 'i32' ? new Int32Array(toArrayBuffer(pointer, 0, length * 4)) : new Uint16Array(toArrayBuffer(pointer, 0, length * 2));
+
+    return { $array: spec.array, length, ...(withValue && { value: Array.from(length ? view : []) }) };
+  }
+
+  const length = 'bitmapInfo' in spec ? bitmapInfoSize(pointer) : 'bits' in spec ? (args[spec.bits] ? bitsSize(args[spec.bits] as Pointer) : 0) : counted(spec.bytes);
+
+  return { $bytes: withValue ? Buffer.from(bytesAt(pointer, length)).toString('base64') : '', length };
+};
+
+const encodeValue = (value: unknown, type: FFIFunction['returns']): TraceValue => {
+  if (typeof value === 'bigint' || (is64Bit(type) && typeof value === 'number')) {
+    return { $bigint: BigInt(value as bigint | number).toString() };
+  }
+
+  if (type === FFIType.ptr) {
+    return value ? { $pointer: `0x${(value as number).toString(16)}` } : null;
+  }
+
+  return (value ?? null) as TraceValue;
+};
+
+/**
+ * Creates a backend that records every call, with timing, into a JSON-safe `GDI32Trace` before
+ * returning the result of `inner`.
+ *
+ * Arguments are captured according to their `Symbols` signature: 64-bit handles become `$bigint`s
+ * and pointers are dereferenced into struct, string, array or byte snapshots for the exports whose
+ * layout is known (points, rectangles, `XFORM`s, `LOGFONTW`, `BITMAPINFO` and DIB bits, counted
+ * and NUL-terminated `WCHAR` strings, …). Output buffers are snapshotted again after the call in
+ * `outputs`. Other pointers are recorded as opaque addresses.
+ *
+ * @param inner Backend that services the calls; defaults to `gdi32.dll`.
+ * @returns A backend with the `trace`, `clear()` and `toJSON()` (so `JSON.stringify(backend)` is the trace).
+ * @example
+ * ```ts
+ * const backend = createTraceBackend();
+ * GDI32.Use(backend);
+ *
+ * renderReport(hdc);
+ * await Bun.write('repro.json', JSON.stringify(backend));
+ * ```
+ */
+export function createTraceBackend(inner: GDI32Backend = createLibraryBackend()): GDI32TraceBackend {
+  const trace: GDI32Trace = { calls: [], version: 1 };
+  let origin = performance.now();
+
+  const backend: GDI32Backend = (symbols) =>
+    Object.fromEntries(
+      Object.entries(inner(symbols)).map(([method, symbol]) => {
+        const signature = symbols[method]!;
+        const specs = Pointers[method as GDI32Method] ?? {};
+        const capture = (args: unknown[], after: boolean): [TraceValue[], Record<number, TraceValue>] => {
+          const values: TraceValue[] = [];
+          const outputs: Record<number, TraceValue> = {};
+
+          args.forEach((arg, index) => {
+            const spec = specs[index];
+            const type = signature.args?.[index];
+
+            if (!spec || type !== FFIType.ptr || !arg) {
+              values.push(encodeValue(arg, type));
+            } else if (!after) {
+              values.push(snapshot(spec, arg as Pointer, args, false));
+            } else if ('direction' in spec && spec.direction && spec.direction !== 'in') {
+              outputs[index] = snapshot(spec, arg as Pointer, args, true);
+            }
+          });
+
+          return [values, outputs];
+        };
+
+        return [
+          method,
+          (...args: unknown[]) => {
+            const [values] = capture(args, false);
+            const time = performance.now();
+            const entry: GDI32TraceEntry = { args: values, duration: 0, method, result: null, time: time - origin };
+
+            trace.calls.push(entry);
+
+            try {
+              const result = symbol(...args);
+              const [, outputs] = capture(args, true);
+
+              entry.result = encodeValue(result, signature.returns);
+
+              if (Object.keys(outputs).length) {
+                entry.outputs = outputs;
+              }
+
+              return result;
+            } catch (error) {
+              entry.error = error instanceof Error ? error.message : String(error);
+
+              throw error;
+            } finally {
+              entry.duration = performance.now() - time;
+            }
+          },
+        ];
+      })
+    );
+
+  return Object.assign(backend, {
+    trace,
+    clear(): void {
+      trace.calls.length = 0;
+      origin = performance.now();
+    },
+    toJSON(): GDI32Trace {
+      return trace;
+    },
+  });
+}
+
+/**
+ * Parses and validates a trace written by `JSON.stringify(traceBackend)`.
+ *
+ * @param json Trace JSON.
+ * @returns The trace.
+ */
+export function parseTrace(json: string): GDI32Trace {
+  const trace = JSON.parse(json) as Partial<GDI32Trace>;
+
+  if (trace?.version !== 1 || !Array.isArray(trace.calls)) {
+    throw new TypeError(`Unsupported GDI32 trace (version ${trace?.version}).`);
+  }
+
+  return trace as GDI32Trace;
+}
+
+/**
+ * Replays a trace against the active backend (see `GDI32.Use`), e.g. a customer repro against
+ * `createMockBackend` or `createRasterBackend` in CI.
+ *
+ * Handles returned during the replay are substituted for the recorded ones in later arguments.
+ * Snapshotted pointers are rebuilt into fresh buffers; opaque `$pointer`s become zeroed scratch
+ * buffers of `scratchSize` bytes, so exports still get writable memory.
+ *
+ * @param trace Recorded trace.
+ * @param options `scratchSize` for opaque pointers (default 4096).
+ * @returns Results, the handle map and calls whose outcome differs from the recording.
+ * @example
+ * ```ts
+ * GDI32.Use(createRasterBackend());
+ * const { mismatches } = replayTrace(parseTrace(await Bun.file('repro.json').text()));
+ * ```
+ */
+export function replayTrace(trace: GDI32Trace, options: { scratchSize?: number } = {}): TraceReplay {
+  const { scratchSize = 4096 } = options;
+  const handles = new Map<bigint, bigint>();
+  const mismatches: TraceMismatch[] = [];
+  const results: unknown[] = [];
+  const exports = GDI32 as unknown as Record<string, GDI32Symbol | undefined>;
+
+  trace.calls.forEach(({ args, method, result: expected }, index) => {
+    const symbol = exports[method];
+
+    if (typeof symbol !== 'function' || Infrastructure.has(method)) {
+      throw new TypeError(`Unknown GDI32 export "${method}" at trace entry ${index}.`);
+    }
+
+    // Keep every rebuilt buffer referenced until the call returns.
+    const buffers: ArrayBufferView[] = [];
+    const pointer = (view: Buffer | Int32Array | Uint16Array): Pointer => (buffers.push(view), view.byteLength ? (view.ptr as Pointer) : NULL);
+    const values = args.map((arg): unknown => {
+      if (arg === null) {
+        return NULL;
+      }
+
+      if (typeof arg !== 'object') {
+        return arg;
+      }
+
+      if ('$bigint' in arg) {
+        const handle = BigInt(arg.$bigint);
+
+        return handles.get(handle) ?? handle;
+      }
+
+      if ('$pointer' in arg) {
+        return pointer(Buffer.alloc(scratchSize));
+      }
+
+      if ('$struct' in arg) {
+        const struct = Structs[arg.$struct] as Struct<unknown>;
+        const items = arg.count === undefined ? [arg.value ?? {}] : Array.from({ length: arg.count }, (_, item) => (arg.value as unknown[] | undefined)?.[item] ?? {});
+
+        return pointer(Buffer.concat(items.map((item) => struct.encode(fromJSONValue(item) as never))));
+      }
+
+      if ('$string' in arg) {
+        const text = encodeWide(arg.$string.padEnd(arg.length, '\0'));
+
+        return pointer(text);
+      }
+
+      if ('$array' in arg) {
+        const array = arg.$array === 'i32' ? new Int32Array(arg.length) : new Uint16Array(arg.length);
+
+        array.set(arg.value ?? []);
+
+        return pointer(array);
+      }
+
+      const bytes = Buffer.alloc(arg.length);
+
+      Buffer.from(arg.$bytes, 'base64').copy(bytes);
+
+      return pointer(bytes);
+    });
+    const actual = symbol(...values);
+
+    results.push(actual);
+
+    if (expected && typeof expected === 'object' && '$bigint' in expected) {
+      const recorded = BigInt(expected.$bigint);
+
+      if (recorded && typeof actual === 'bigint' && actual) {
+        handles.set(recorded, actual);
+      }
+
+      if (!recorded !== !actual) {
+        mismatches.push({ actual, expected, index, method });
+      }
+    } else if (expected && typeof expected === 'object') {
+      if (!actual) {
+        mismatches.push({ actual, expected, index, method });
+      }
+    } else if (expected !== (actual ?? null)) {
+      mismatches.push({ actual, expected, index, method });
+    }
+  });
+
+  return { handles, mismatches, results };
+}
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import { ObjectType, StockObject } from '../constants/GDI32';
+import GDI32 from '../structs/GDI32';
+import { createMockBackend } from './backend';
+import { type GDI32HandleTracker, createHandleTracker } from './tracker';
+
+let tracker: GDI32HandleTracker;
+let warnings: string[];
+
+beforeEach(() => {
+  let next = 0x100n;
+  const create = () => next++;
+
+  warnings = [];
+  tracker = createHandleTracker(
+    createMockBackend({
+      CreateCompatibleDC: create,
+      CreatePen: create,
+      CreateRectRgn: create,
+      CreateSolidBrush: create,
+      DeleteDC: () => 1,
+      DeleteObject: (handle) => Number(handle !== 0x999n),
+      GetStockObject: () => 0x80n,
+      PathToRegion: create,
+    }),
+    { quota: 10, stacks: false, threshold: 0.5, warn: (message) => warnings.push(message) }
+  );
+
+  GDI32.Use(tracker);
+});
+
+afterEach(() => GDI32.Reset());
+
+describe('createHandleTracker', () => {
+  test('counts live handles by type', () => {
+    const hdc = GDI32.CreateCompatibleDC(0n);
+    const brush = GDI32.CreateSolidBrush(0);
+
+    GDI32.CreatePen(0, 1, 0);
+    GDI32.PathToRegion(hdc);
+    GDI32.GetStockObject(StockObject.BLACK_BRUSH);
+
+    expect(tracker.census()).toEqual({ byType: { OBJ_BRUSH: 1, OBJ_MEMDC: 1, OBJ_PEN: 1, OBJ_REGION: 1 }, peak: 4, total: 4 });
+
+    GDI32.DeleteObject(brush);
+    GDI32.DeleteDC(hdc);
+
+    expect(tracker.census()).toEqual({ byType: { OBJ_PEN: 1, OBJ_REGION: 1 }, peak: 4, total: 2 });
+  });
+
+  test('keeps handles whose deletion fails', () => {
+    GDI32.CreateRectRgn(0, 0, 1, 1);
+
+    expect(GDI32.DeleteObject(0x999n)).toBe(0);
+    expect(tracker.census().total).toBe(1);
+  });
+
+  test('lists leaks in creation order', () => {
+    const hdc = GDI32.CreateCompatibleDC(0n);
+    const region = GDI32.PathToRegion(hdc);
+
+    GDI32.DeleteDC(hdc);
+
+    expect(tracker.leaks()).toEqual([{ creator: 'PathToRegion', handle: region, sequence: 1, stack: undefined, type: ObjectType.OBJ_REGION }]);
+    expect(tracker.report()).toBe('1 live GDI handle:\n  0x101 OBJ_REGION from PathToRegion');
+
+    tracker.reset();
+
+    expect(tracker.report()).toBe('No live GDI handles.');
+    expect(tracker.census()).toEqual({ byType: {}, peak: 0, total: 0 });
+  });
+
+  test('warns once at the quota threshold', () => {
+    for (let index = 0; index < 6; index++) {
+      GDI32.CreateSolidBrush(0);
+    }
+
+    expect(warnings).toEqual(['5 live GDI handles, approaching the per-process quota of 10 (OBJ_BRUSH ×5).']);
+  });
+});
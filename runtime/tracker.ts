@@ -0,0 +1,273 @@
+import { ObjectType } from '../constants/GDI32';
+import type { GDI32Method } from '../structs/GDI32';
+import { type GDI32Backend, createLibraryBackend } from './backend';
+
+/**
+ * A live handle known to a `createHandleTracker` backend.
+ */
+export interface TrackedHandle {
+  /** Export that created the handle. */
+  creator: string;
+  handle: bigint;
+  /** Creation order, for stable reports. */
+  sequence: number;
+  /** Stack of the creating call, when `stacks` is enabled. */
+  stack: string | undefined;
+  /** What `GetObjectType` reports for the handle. */
+  type: ObjectType;
+}
+
+/**
+ * Live handle counts.
+ */
+export interface HandleCensus {
+  byType: Partial<Record<keyof typeof ObjectType, number>>;
+  /** Highest `total` seen since the tracker was created or reset. */
+  peak: number;
+  total: number;
+}
+
+/**
+ * Options for `createHandleTracker`.
+ */
+export interface HandleTrackerOptions {
+  /** Per-process GDI handle quota (`GDIProcessHandleQuota`); 10,000 by default. */
+  quota?: number;
+  /** Report live handles through `warn` when the process exits; `false` by default. */
+  reportOnExit?: boolean;
+  /** Capture the creating stack of every handle; `true` by default. */
+  stacks?: boolean;
+  /** Fraction of `quota` at which to warn; 0.9 by default. */
+  threshold?: number;
+  /** Receives quota warnings and exit reports; defaults to `console.warn`. */
+  warn?: (message: string) => void;
+}
+
+/**
+ * Tracking backend returned by `createHandleTracker`.
+ */
+export type GDI32HandleTracker = GDI32Backend &
+  Disposable & {
+    /** Live handle counts by `OBJ_*` type. */
+    census(): HandleCensus;
+    /** Stops the exit report; tracking itself continues while the backend is in use. */
+    dispose(): void;
+    /** Live handles in creation order. */
+    leaks(): TrackedHandle[];
+    /** Human-readable list of live handles with their creation stacks. */
+    report(): string;
+    /** Forgets every tracked handle, e.g. between tests. */
+    reset(): void;
+  };
+
+/** The `GetObjectType` result for the handles each creator returns. */
+const Creators: { [K in GDI32Method]?: ObjectType } = {
+  CloseEnhMetaFile: ObjectType.OBJ_ENHMETAFILE,
+  CloseMetaFile: ObjectType.OBJ_METAFILE,
+  CopyEnhMetaFileA: ObjectType.OBJ_ENHMETAFILE,
+  CopyEnhMetaFileW: ObjectType.OBJ_ENHMETAFILE,
+  CopyMetaFileA: ObjectType.OBJ_METAFILE,
+  CopyMetaFileW: ObjectType.OBJ_METAFILE,
+  CreateBitmap: ObjectType.OBJ_BITMAP,
+  CreateBitmapIndirect: ObjectType.OBJ_BITMAP,
+  CreateBrushIndirect: ObjectType.OBJ_BRUSH,
+  CreateColorSpaceA: ObjectType.OBJ_COLORSPACE,
+  CreateColorSpaceW: ObjectType.OBJ_COLORSPACE,
+  CreateCompatibleBitmap: ObjectType.OBJ_BITMAP,
+  CreateCompatibleDC: ObjectType.OBJ_MEMDC,
+  CreateDCA: ObjectType.OBJ_DC,
+  CreateDCW: ObjectType.OBJ_DC,
+  CreateDIBitmap: ObjectType.OBJ_BITMAP,
+  CreateDIBPatternBrush: ObjectType.OBJ_BRUSH,
+  CreateDIBPatternBrushPt: ObjectType.OBJ_BRUSH,
+  CreateDIBSection: ObjectType.OBJ_BITMAP,
+  CreateDiscardableBitmap: ObjectType.OBJ_BITMAP,
+  CreateEllipticRgn: ObjectType.OBJ_REGION,
+  CreateEllipticRgnIndirect: ObjectType.OBJ_REGION,
+  CreateEnhMetaFileA: ObjectType.OBJ_ENHMETADC,
+  CreateEnhMetaFileW: ObjectType.OBJ_ENHMETADC,
+  CreateFontA: ObjectType.OBJ_FONT,
+  CreateFontIndirectA: ObjectType.OBJ_FONT,
+  CreateFontIndirectExA: ObjectType.OBJ_FONT,
+  CreateFontIndirectExW: ObjectType.OBJ_FONT,
+  CreateFontIndirectW: ObjectType.OBJ_FONT,
+  CreateFontW: ObjectType.OBJ_FONT,
+  CreateHalftonePalette: ObjectType.OBJ_PAL,
+  CreateHatchBrush: ObjectType.OBJ_BRUSH,
+  CreateICA: ObjectType.OBJ_DC,
+  CreateICW: ObjectType.OBJ_DC,
+  CreateMetaFileA: ObjectType.OBJ_METADC,
+  CreateMetaFileW: ObjectType.OBJ_METADC,
+  CreatePalette: ObjectType.OBJ_PAL,
+  CreatePatternBrush: ObjectType.OBJ_BRUSH,
+  CreatePen: ObjectType.OBJ_PEN,
+  CreatePenIndirect: ObjectType.OBJ_PEN,
+  CreatePolygonRgn: ObjectType.OBJ_REGION,
+  CreatePolyPolygonRgn: ObjectType.OBJ_REGION,
+  CreateRectRgn: ObjectType.OBJ_REGION,
+  CreateRectRgnIndirect: ObjectType.OBJ_REGION,
+  CreateRoundRectRgn: ObjectType.OBJ_REGION,
+  CreateSolidBrush: ObjectType.OBJ_BRUSH,
+  ExtCreatePen: ObjectType.OBJ_EXTPEN,
+  ExtCreateRegion: ObjectType.OBJ_REGION,
+  GetEnhMetaFileA: ObjectType.OBJ_ENHMETAFILE,
+  GetEnhMetaFileW: ObjectType.OBJ_ENHMETAFILE,
+  GetMetaFileA: ObjectType.OBJ_METAFILE,
+  GetMetaFileW: ObjectType.OBJ_METAFILE,
+  PathToRegion: ObjectType.OBJ_REGION,
+  SetEnhMetaFileBits: ObjectType.OBJ_ENHMETAFILE,
+  SetMetaFileBitsEx: ObjectType.OBJ_METAFILE,
+  SetWinMetaFileBits: ObjectType.OBJ_ENHMETAFILE,
+};
+
+/** Exports that destroy the handle in their first argument when they succeed. */
+const Destroyers = new Set<string>(['CloseEnhMetaFile', 'CloseMetaFile', 'DeleteColorSpace', 'DeleteDC', 'DeleteEnhMetaFile', 'DeleteMetaFile', 'DeleteObject'] satisfies GDI32Method[]);
+
+const TypeNames = Object.fromEntries(Object.entries(ObjectType).map(([name, value]) => [value, name])) as Record<ObjectType, keyof typeof ObjectType>;
+
+/** The stack above the tracking wrapper (drops `Error`, this helper, `track` and the wrapper). */
+const callerStack = (): string | undefined =>
+  new Error().stack
+    ?.split('\n')
+    .slice(4)
+    .map((line) => line.trim())
+    .join('\n');
+
+const hex = (handle: bigint): string => `0x${handle.toString(16)}`;
+
+/**
+ * Creates a backend that tracks every GDI handle created and destroyed through it.
+ *
+ * Handles returned by the `Create*`, `ExtCreate*`, `Copy*MetaFile*`, `Get*MetaFile*`,
+ * `Set*MetaFileBits*`, `Close*MetaFile` and `PathToRegion` exports are counted under the `OBJ_*` type
+ * `GetObjectType` would report, with the creating call's stack; `DeleteObject`, `DeleteDC`,
+ * `Delete*MetaFile`, `DeleteColorSpace` and `Close*MetaFile` release them when they succeed.
+ * Stock objects and `GetCurrentObject` results are not owned and never counted.
+ *
+ * A warning fires once each time the live total climbs to `threshold × quota`, because GDI
+ * starts failing every creation call at the quota.
+ *
+ * @param inner Backend that services the calls; defaults to `gdi32.dll`.
+ * @param options Quota, warning and stack-capture settings.
+ * @returns A backend with `census`, `leaks`, `report`, `reset` and `dispose`.
+ * @example
+ * ```ts
+ * const tracker = createHandleTracker(undefined, { reportOnExit: true });
+ * GDI32.Use(tracker);
+ *
+ * renderPage(hdc);
+ * tracker.census(); // { byType: { OBJ_BRUSH: 2 }, peak: 14, total: 2 }
+ * console.log(tracker.report());
+ * ```
+ */
+export function createHandleTracker(inner: GDI32Backend = createLibraryBackend(), options: HandleTrackerOptions = {}): GDI32HandleTracker {
+  const { quota = 10_000, reportOnExit = false, stacks = true, threshold = 0.9, warn = (message: string) => console.warn(message) } = options;
+  const live = new Map<bigint, TrackedHandle>();
+  const limit = Math.ceil(quota * threshold);
+  let peak = 0;
+  let sequence = 0;
+  let warned = false;
+
+  const census = (): HandleCensus => {
+    const byType: HandleCensus['byType'] = {};
+
+    live.forEach(({ type }) => (byType[TypeNames[type]] = (byType[TypeNames[type]] ?? 0) + 1));
+
+    return { byType, peak, total: live.size };
+  };
+  const track = (handle: bigint, type: ObjectType, creator: string): void => {
+    live.set(handle, {
+      creator,
+      handle,
+      sequence: sequence++,
+      stack: stacks ? callerStack() : undefined,
+      type,
+    });
+    peak = Math.max(peak, live.size);
+
+    if (!warned && live.size >= limit) {
+      const { byType } = census();
+
+      warned = true;
+      warn(
+        `${live.size} live GDI handles, approaching the per-process quota of ${quota} (${Object.entries(byType)
+          .sort(([, a], [, b]) => b - a)
+          .map(([name, count]) => `${name} ×${count}`)
+          .join(', ')}).`
+      );
+    }
+  };
+  const release = (handle: bigint): void => {
+    live.delete(handle);
+
+    // Re-arm once the count has dropped well below the threshold, so oscillation does not spam.
+    if (warned && live.size < limit * 0.9) {
+      warned = false;
+    }
+  };
+  const leaks = (): TrackedHandle[] => [...live.values()].sort((a, b) => a.sequence - b.sequence);
+  const report = (): string => {
+    const handles = leaks();
+
+    if (!handles.length) {
+      return 'No live GDI handles.';
+    }
+
+    return [
+      `${handles.length} live GDI handle${handles.length === 1 ? '' : 's'}:`,
+      ...handles.map(({ creator, handle, stack, type }) => `  ${hex(handle)} ${TypeNames[type]} from ${creator}${stack ? `\n${stack.replace(/^/gm, '    ')}` : ''}`),
+    ].join('\n');
+  };
+  const onExit = (): void => {
+    if (live.size) {
+      warn(report());
+    }
+  };
+
+  const backend: GDI32Backend = (symbols) =>
+    Object.fromEntries(
+      Object.entries(inner(symbols)).map(([method, symbol]) => {
+        const type = Creators[method as GDI32Method];
+        const destroys = Destroyers.has(method);
+
+        return [
+          method,
+          type === undefined && !destroys
+            ? symbol
+            : (...args: unknown[]) => {
+                const result = symbol(...args);
+
+                if (destroys && result) {
+                  release(args[0] as bigint);
+                }
+
+                if (type !== undefined && typeof result === 'bigint' && result) {
+                  track(result, type, method);
+                }
+
+                return result;
+              },
+        ];
+      })
+    );
+  const dispose = (): void => {
+    process.off('exit', onExit);
+  };
+
+  if (reportOnExit) {
+    process.on('exit', onExit);
+  }
+
+  return Object.assign(backend, {
+    census,
+    dispose,
+    leaks,
+    report,
+    reset(): void {
+      live.clear();
+      peak = 0;
+      warned = false;
+    },
+    [Symbol.dispose]: dispose,
+  });
+}
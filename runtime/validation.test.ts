@@ -0,0 +1,83 @@
+import { FFIType, type Pointer } from 'bun:ffi';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import { NULL, RasterOperation, RasterOperationFlag } from '../constants/GDI32';
+import GDI32 from '../structs/GDI32';
+import { createMockBackend } from './backend';
+import { createValidatingBackend } from './validation';
+
+beforeEach(() => GDI32.Use(createValidatingBackend(createMockBackend(), { enabled: true })));
+
+afterEach(() => GDI32.Reset());
+
+/** Passes a buffer as a view, the only form whose size can be checked. */
+const view = (buffer: ArrayBufferView): Pointer => buffer as unknown as Pointer;
+
+describe('createValidatingBackend', () => {
+  test('checks the argument count', () => {
+    const { SetBkMode } = createValidatingBackend(createMockBackend(), { enabled: true })({ SetBkMode: { args: [FFIType.u64, FFIType.i32], returns: FFIType.i32 } });
+
+    expect(() => SetBkMode!(1n, 1)).not.toThrow();
+    expect(() => SetBkMode!(1n)).toThrow(new TypeError('SetBkMode expects 2 arguments, got 1.'));
+  });
+
+  test('checks int arguments', () => {
+    expect(() => GDI32.SetTextCharacterExtra(1n, -0x80000000)).not.toThrow();
+    expect(() => GDI32.SetTextCharacterExtra(1n, 0x80000000)).toThrow(RangeError);
+    expect(() => GDI32.SetTextCharacterExtra(1n, 1.5)).toThrow(TypeError);
+  });
+
+  test('checks DWORD arguments, including their signed form', () => {
+    expect(() => GDI32.BitBlt(1n, 0, 0, 1, 1, 2n, 0, 0, RasterOperation.SRCCOPY)).not.toThrow();
+    expect(() => GDI32.BitBlt(1n, 0, 0, 1, 1, 2n, 0, 0, RasterOperationFlag.NOMIRRORBITMAP | RasterOperation.SRCCOPY)).not.toThrow();
+    expect(RasterOperationFlag.NOMIRRORBITMAP | RasterOperation.SRCCOPY).toBeLessThan(0);
+    expect(() => GDI32.BitBlt(1n, 0, 0, 1, 1, 2n, 0, 0, 0x100000000)).toThrow(RangeError);
+    expect(() => GDI32.BitBlt(1n, 0, 0, 1, 1, 2n, 0, 0, -0x80000001)).toThrow(RangeError);
+  });
+
+  test('checks handles', () => {
+    expect(() => GDI32.SetBkMode(0xffffffffffffffffn, 1)).not.toThrow();
+    expect(() => GDI32.SetBkMode(1n << 64n, 1)).toThrow(new RangeError('SetBkMode argument 1 is outside the 64-bit handle range: 18446744073709551616n.'));
+    expect(() => GDI32.SetBkMode(1 as unknown as bigint, 1)).toThrow(TypeError);
+  });
+
+  test('checks floats', () => {
+    expect(() => GDI32.SetMiterLimit(1n, 2.5, NULL)).not.toThrow();
+    expect(() => GDI32.SetMiterLimit(1n, Number.NaN, NULL)).toThrow(TypeError);
+  });
+
+  test('checks COLORREFs', () => {
+    for (const color of [0x00ff00, 0x01000005, 0x02123456, 0x10ff0003]) {
+      expect(() => GDI32.CreateSolidBrush(color)).not.toThrow();
+    }
+
+    expect(() => GDI32.CreateSolidBrush(0x1ff0000)).toThrow(new RangeError('CreateSolidBrush argument 1 is not a COLORREF (0x00bbggrr, PALETTEINDEX, PALETTERGB or DIBINDEX): 33488896 (0x1ff0000).'));
+  });
+
+  test('checks required and optional pointers', () => {
+    expect(() => GDI32.GetClipBox(1n, view(new Int32Array(4)))).not.toThrow();
+    expect(() => GDI32.GetClipBox(1n, NULL)).toThrow(new TypeError('GetClipBox argument 2 must not be NULL.'));
+    expect(() => GDI32.MoveToEx(1n, 0, 0, NULL)).not.toThrow();
+    expect(() => GDI32.MoveToEx(1n, 0, 0, -1 as Pointer)).toThrow(TypeError);
+  });
+
+  test('checks buffer sizes against counts', () => {
+    expect(() => GDI32.Polyline(1n, view(new Int32Array(6)), 3)).not.toThrow();
+    expect(() => GDI32.Polyline(1n, view(new Int32Array(4)), 3)).toThrow(new RangeError('Polyline argument 2 needs at least 24 bytes, got Int32Array(16 bytes).'));
+  });
+
+  test('passes problems to warn and makes the call anyway', () => {
+    const warnings: string[] = [];
+
+    GDI32.Use(createValidatingBackend(createMockBackend({ SetTextCharacterExtra: () => 2 }), { enabled: true, warn: (message) => warnings.push(message) }));
+
+    expect(GDI32.SetTextCharacterExtra(1n, 0x80000000)).toBe(2);
+    expect(warnings).toEqual(['SetTextCharacterExtra argument 2 is outside the int range -2147483648..2147483647: 2147483648 (0x80000000).']);
+  });
+
+  test('returns inner when disabled', () => {
+    const inner = createMockBackend();
+
+    expect(createValidatingBackend(inner, { enabled: false })).toBe(inner);
+  });
+});
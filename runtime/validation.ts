@@ -0,0 +1,357 @@
+import { type FFIFunction, FFIType } from 'bun:ffi';
+
+import {
+  ABC,
+  BITMAP,
+  BITMAPINFOHEADER,
+  CHARSETINFO,
+  DOCINFOW,
+  FONTSIGNATURE,
+  GCP_RESULTSW,
+  GLYPHMETRICS,
+  KERNINGPAIR,
+  LOGBRUSH,
+  LOGFONTA,
+  LOGFONTW,
+  LOGPEN,
+  MAT2,
+  PALETTEENTRY,
+  PIXELFORMATDESCRIPTOR,
+  POINT,
+  POLYTEXTW,
+  RECT,
+  RGBQUAD,
+  SIZE,
+  TEXTMETRICA,
+  TEXTMETRICW,
+  TRIVERTEX,
+  XFORM,
+} from '../codecs/GDI32';
+import type { GDI32Method } from '../structs/GDI32';
+import { type GDI32Backend, createLibraryBackend } from './backend';
+
+/**
+ * Options for `createValidatingBackend`.
+ */
+export interface ValidationOptions {
+  /** Validate at all; `process.env.NODE_ENV !== 'production'` by default, so release builds get `inner` back untouched. */
+  enabled?: boolean;
+  /** Receives each problem instead of it being thrown; the call then goes through anyway. */
+  warn?: (message: string) => void;
+}
+
+/** What a pointer argument must point at; `size` reads counts from the other arguments. */
+type PointerRule = { optional?: boolean; size?: (args: readonly unknown[]) => number };
+
+type ArgumentRule = 'colorref' | PointerRule;
+
+const count = (args: readonly unknown[], index: number): number => Math.max(0, Number(args[index]) || 0);
+
+const struct = ({ sizeof }: { sizeof: number }, optional = false): PointerRule => ({ optional, size: () => sizeof });
+const array = (sizeof: number, index: number, optional = false): PointerRule => ({ optional, size: (args) => sizeof * count(args, index) });
+const chars = (width: 1 | 2, index: number, optional = false): PointerRule => array(width, index, optional);
+const widths = (sizeof: number): PointerRule => ({ size: (args) => sizeof * Math.max(0, Number(args[2]) - Number(args[1]) + 1) });
+const required: PointerRule = {};
+const optional: PointerRule = { optional: true };
+
+/**
+ * Argument rules beyond the `Symbols` signature, keyed by argument index.
+ *
+ * `colorref` arguments must be a valid `COLORREF`. Listed pointer arguments must not be `NULL`
+ * unless `optional`, and buffers passed as views must hold at least `size` bytes.
+ */
+const Arguments: { [K in GDI32Method]?: Record<number, ArgumentRule> } = {
+  AnimatePalette: { 3: array(PALETTEENTRY.sizeof, 2) },
+  ChoosePixelFormat: { 1: struct(PIXELFORMATDESCRIPTOR) },
+  CombineTransform: { 0: struct(XFORM), 1: struct(XFORM), 2: struct(XFORM) },
+  CreateBitmapIndirect: { 0: struct(BITMAP) },
+  CreateBrushIndirect: { 0: struct(LOGBRUSH) },
+  CreateDIBitmap: { 1: struct(BITMAPINFOHEADER) },
+  CreateDIBPatternBrushPt: { 0: struct(BITMAPINFOHEADER) },
+  CreateDIBSection: { 1: struct(BITMAPINFOHEADER), 3: { optional: true, size: () => 8 } },
+  CreateEllipticRgnIndirect: { 0: struct(RECT) },
+  CreateFontIndirectA: { 0: struct(LOGFONTA) },
+  CreateFontIndirectExA: { 0: required },
+  CreateFontIndirectExW: { 0: required },
+  CreateFontIndirectW: { 0: struct(LOGFONTW) },
+  CreateHatchBrush: { 1: 'colorref' },
+  CreatePalette: { 0: required },
+  CreatePen: { 2: 'colorref' },
+  CreatePenIndirect: { 0: struct(LOGPEN) },
+  CreatePolygonRgn: { 0: array(POINT.sizeof, 1) },
+  CreatePolyPolygonRgn: { 0: required, 1: array(4, 2) },
+  CreateRectRgnIndirect: { 0: struct(RECT) },
+  CreateSolidBrush: { 0: 'colorref' },
+  DescribePixelFormat: { 3: array(1, 2, true) },
+  DPtoLP: { 1: array(POINT.sizeof, 2) },
+  ExtCreatePen: { 2: struct(LOGBRUSH), 4: array(4, 3, true) },
+  ExtCreateRegion: { 0: struct(XFORM, true), 2: array(1, 1) },
+  ExtFloodFill: { 3: 'colorref' },
+  ExtTextOutA: { 4: struct(RECT, true), 5: chars(1, 6, true), 7: array(4, 6, true) },
+  ExtTextOutW: { 4: struct(RECT, true), 5: chars(2, 6, true), 7: array(4, 6, true) },
+  FloodFill: { 3: 'colorref' },
+  GdiComment: { 2: array(1, 1) },
+  GdiGradientFill: { 1: array(TRIVERTEX.sizeof, 2), 3: required },
+  GdiTransparentBlt: { 10: 'colorref' },
+  GetAspectRatioFilterEx: { 1: struct(SIZE) },
+  GetBitmapBits: { 2: array(1, 1) },
+  GetBitmapDimensionEx: { 1: struct(SIZE) },
+  GetBoundsRect: { 1: struct(RECT) },
+  GetBrushOrgEx: { 1: struct(POINT) },
+  GetCharABCWidthsI: { 3: array(2, 2, true), 4: array(ABC.sizeof, 2) },
+  GetCharacterPlacementA: { 1: chars(1, 2), 4: required },
+  GetCharacterPlacementW: { 1: chars(2, 2), 4: struct(GCP_RESULTSW) },
+  GetCharWidth32A: { 3: widths(4) },
+  GetCharWidth32W: { 3: widths(4) },
+  GetCharWidthA: { 3: widths(4) },
+  GetCharWidthI: { 3: array(2, 2, true), 4: array(4, 2) },
+  GetCharWidthW: { 3: widths(4) },
+  GetClipBox: { 1: struct(RECT) },
+  GetCurrentPositionEx: { 1: struct(POINT) },
+  GetDCOrgEx: { 1: struct(POINT) },
+  GetDIBColorTable: { 3: array(RGBQUAD.sizeof, 2) },
+  GetDIBits: { 5: struct(BITMAPINFOHEADER) },
+  GetFontData: { 3: array(1, 4, true) },
+  GetGlyphIndicesA: { 1: chars(1, 2), 3: array(2, 2) },
+  GetGlyphIndicesW: { 1: chars(2, 2), 3: array(2, 2) },
+  GetGlyphOutlineA: { 3: struct(GLYPHMETRICS), 5: array(1, 4, true), 6: struct(MAT2) },
+  GetGlyphOutlineW: { 3: struct(GLYPHMETRICS), 5: array(1, 4, true), 6: struct(MAT2) },
+  GetKerningPairsA: { 2: array(KERNINGPAIR.sizeof, 1, true) },
+  GetKerningPairsW: { 2: array(KERNINGPAIR.sizeof, 1, true) },
+  GetNearestColor: { 1: 'colorref' },
+  GetNearestPaletteIndex: { 1: 'colorref' },
+  GetObjectA: { 2: array(1, 1, true) },
+  GetObjectW: { 2: array(1, 1, true) },
+  GetPaletteEntries: { 3: array(PALETTEENTRY.sizeof, 2, true) },
+  GetPath: { 1: array(POINT.sizeof, 3, true), 2: array(1, 3, true) },
+  GetRasterizerCaps: { 0: array(1, 1) },
+  GetRegionData: { 2: array(1, 1, true) },
+  GetRgnBox: { 1: struct(RECT) },
+  GetSystemPaletteEntries: { 3: array(PALETTEENTRY.sizeof, 2, true) },
+  GetTextCharsetInfo: { 1: struct(FONTSIGNATURE, true) },
+  GetTextExtentExPointA: { 1: chars(1, 2), 4: struct({ sizeof: 4 }, true), 5: array(4, 2, true), 6: struct(SIZE) },
+  GetTextExtentExPointI: { 1: array(2, 2), 4: struct({ sizeof: 4 }, true), 5: array(4, 2, true), 6: struct(SIZE) },
+  GetTextExtentExPointW: { 1: chars(2, 2), 4: struct({ sizeof: 4 }, true), 5: array(4, 2, true), 6: struct(SIZE) },
+  GetTextExtentPoint32A: { 1: chars(1, 2), 3: struct(SIZE) },
+  GetTextExtentPoint32W: { 1: chars(2, 2), 3: struct(SIZE) },
+  GetTextExtentPointA: { 1: chars(1, 2), 3: struct(SIZE) },
+  GetTextExtentPointI: { 1: array(2, 2), 3: struct(SIZE) },
+  GetTextExtentPointW: { 1: chars(2, 2), 3: struct(SIZE) },
+  GetTextFaceA: { 2: chars(1, 1, true) },
+  GetTextFaceW: { 2: chars(2, 1, true) },
+  GetTextMetricsA: { 1: struct(TEXTMETRICA) },
+  GetTextMetricsW: { 1: struct(TEXTMETRICW) },
+  GetViewportExtEx: { 1: struct(SIZE) },
+  GetViewportOrgEx: { 1: struct(POINT) },
+  GetWindowExtEx: { 1: struct(SIZE) },
+  GetWindowOrgEx: { 1: struct(POINT) },
+  GetWinMetaFileBits: { 2: array(1, 1, true) },
+  GetWorldTransform: { 1: struct(XFORM) },
+  LPtoDP: { 1: array(POINT.sizeof, 2) },
+  ModifyWorldTransform: { 1: struct(XFORM, true) },
+  MoveToEx: { 3: struct(POINT, true) },
+  OffsetViewportOrgEx: { 3: struct(POINT, true) },
+  OffsetWindowOrgEx: { 3: struct(POINT, true) },
+  PlayEnhMetaFile: { 2: struct(RECT) },
+  PlayEnhMetaFileRecord: { 1: required, 2: required },
+  PlayMetaFileRecord: { 1: required, 2: required },
+  PlgBlt: { 1: { size: () => 3 * POINT.sizeof } },
+  PolyBezier: { 1: array(POINT.sizeof, 2) },
+  PolyBezierTo: { 1: array(POINT.sizeof, 2) },
+  PolyDraw: { 1: array(POINT.sizeof, 3), 2: array(1, 3) },
+  Polygon: { 1: array(POINT.sizeof, 2) },
+  Polyline: { 1: array(POINT.sizeof, 2) },
+  PolylineTo: { 1: array(POINT.sizeof, 2) },
+  PolyPolygon: { 1: required, 2: array(4, 3) },
+  PolyPolyline: { 1: required, 2: array(4, 3) },
+  PolyTextOutA: { 1: required },
+  PolyTextOutW: { 1: array(POLYTEXTW.sizeof, 2) },
+  RectInRegion: { 1: struct(RECT) },
+  RectVisible: { 1: struct(RECT) },
+  ScaleViewportExtEx: { 5: struct(SIZE, true) },
+  ScaleWindowExtEx: { 5: struct(SIZE, true) },
+  SetBitmapBits: { 2: array(1, 1) },
+  SetBitmapDimensionEx: { 3: struct(SIZE, true) },
+  SetBkColor: { 1: 'colorref' },
+  SetBoundsRect: { 1: struct(RECT, true) },
+  SetBrushOrgEx: { 3: struct(POINT, true) },
+  SetDCBrushColor: { 1: 'colorref' },
+  SetDCPenColor: { 1: 'colorref' },
+  SetDIBColorTable: { 3: array(RGBQUAD.sizeof, 2) },
+  SetDIBits: { 4: required, 5: struct(BITMAPINFOHEADER) },
+  SetDIBitsToDevice: { 9: required, 10: struct(BITMAPINFOHEADER) },
+  SetPaletteEntries: { 3: array(PALETTEENTRY.sizeof, 2) },
+  SetPixel: { 3: 'colorref' },
+  SetPixelFormat: { 2: struct(PIXELFORMATDESCRIPTOR) },
+  SetPixelV: { 3: 'colorref' },
+  SetTextColor: { 1: 'colorref' },
+  SetViewportExtEx: { 3: struct(SIZE, true) },
+  SetViewportOrgEx: { 3: struct(POINT, true) },
+  SetWindowExtEx: { 3: struct(SIZE, true) },
+  SetWindowOrgEx: { 3: struct(POINT, true) },
+  SetWorldTransform: { 1: struct(XFORM) },
+  StartDocA: { 1: required },
+  StartDocW: { 1: struct(DOCINFOW) },
+  StretchDIBits: { 9: optional, 10: struct(BITMAPINFOHEADER) },
+  TextOutA: { 3: chars(1, 4) },
+  TextOutW: { 3: chars(2, 4) },
+  TranslateCharsetInfo: { 1: struct(CHARSETINFO) },
+};
+
+/** Accepted integer range and C name of each fixed-width FFI type. */
+const Integers = new Map<FFIType, readonly [name: string, min: number, max: number]>([
+  [FFIType.i8, ['int8', -0x80, 0x7f]],
+  [FFIType.i16, ['int16', -0x8000, 0x7fff]],
+  [FFIType.i32, ['int', -0x80000000, 0x7fffffff]],
+  [FFIType.u8, ['BYTE', 0, 0xff]],
+  [FFIType.u16, ['WORD', 0, 0xffff]],
+  // Flag combinations built with `|` come out as signed int32 when bit 31 is set; Bun passes the same bits.
+  [FFIType.u32, ['DWORD', -0x80000000, 0xffffffff]],
+]);
+
+const describe = (value: unknown): string => {
+  switch (typeof value) {
+    case 'bigint':
+      return `${value}n`;
+    case 'number':
+      return Number.isInteger(value) && Math.abs(value) > 0xffff ? `${value} (0x${(value >>> 0).toString(16)})` : String(value);
+    case 'object':
+      return value === null ? 'null' : `${value.constructor.name}(${(value as ArrayBufferLike).byteLength ?? '?'} bytes)`;
+    case 'string':
+      return JSON.stringify(value);
+    default:
+      return String(value);
+  }
+};
+
+/** `0x00bbggrr`, `PALETTEINDEX(i)` (`0x0100iiii`), `PALETTERGB` (`0x02bbggrr`) or `DIBINDEX(i)` (`0x10ffiiii`). */
+const isColorRef = (value: number): boolean => value <= 0xffffff || value >>> 16 === 0x0100 || value >>> 24 === 0x02 || value >>> 16 === 0x10ff;
+
+const checkPointer = (value: unknown, rule: PointerRule | undefined, args: readonly unknown[], fail: (error: ErrorConstructor, message: string) => never): void => {
+  if (value === null || value === 0) {
+    return rule && !rule.optional ? fail(TypeError, 'must not be NULL') : undefined;
+  }
+
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+    const size = rule?.size?.(args) ?? 0;
+
+    return value.byteLength < size ? fail(RangeError, `needs at least ${size} bytes, got ${describe(value)}`) : undefined;
+  }
+
+  if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 0) {
+    fail(TypeError, `must be a pointer (\`.ptr\`, a buffer or NULL), got ${describe(value)}`);
+  }
+};
+
+const checkArgument = (value: unknown, type: FFIFunction['returns'], rule: ArgumentRule | undefined, args: readonly unknown[], fail: (error: ErrorConstructor, message: string) => never): void => {
+  const integer = Integers.get(type as FFIType);
+
+  if (integer) {
+    const [name, min, max] = integer;
+
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      fail(TypeError, `must be an integer (${name}), got ${describe(value)}`);
+    }
+
+    if (value < min || value > max) {
+      fail(RangeError, `is outside the ${name} range ${min}..${max}: ${describe(value)}`);
+    }
+
+    if (rule === 'colorref' && !isColorRef(value >>> 0)) {
+      fail(RangeError, `is not a COLORREF (0x00bbggrr, PALETTEINDEX, PALETTERGB or DIBINDEX): ${describe(value)}`);
+    }
+
+    return;
+  }
+
+  switch (type) {
+    case FFIType.f32:
+    case FFIType.f64:
+      return typeof value === 'number' && Number.isFinite(value) ? undefined : fail(TypeError, `must be a finite number, got ${describe(value)}`);
+    case FFIType.i64:
+    case FFIType.u64:
+      if (typeof value !== 'bigint') {
+        fail(TypeError, `must be a bigint handle, got ${describe(value)}`);
+      }
+
+      return value < (type === FFIType.u64 ? 0n : -(1n << 63n)) || value >= (type === FFIType.u64 ? 1n << 64n : 1n << 63n) ? fail(RangeError, `is outside the 64-bit handle range: ${describe(value)}`) : undefined;
+    case FFIType.ptr:
+      return checkPointer(value, typeof rule === 'object' ? rule : undefined, args, fail);
+  }
+};
+
+/**
+ * Creates a backend that checks every call's arguments against its `Symbols` signature before it
+ * reaches `inner`, for debug builds and Linux test runs.
+ *
+ * Bun otherwise pads missing arguments, truncates out-of-range integers and passes any number as
+ * a pointer, which either crashes the process or silently does the wrong thing. Here:
+ *
+ * - the argument count must match the signature;
+ * - handles (`u64`) must be non-negative `bigint`s below 2⁶⁴;
+ * - `int`/`UINT`/`DWORD`… values must be integers within their C range (32-bit unsigned values
+ *   may also arrive in the signed form `|` produces), and `COLORREF`s within `0x00FFFFFF` or a
+ *   `PALETTEINDEX`/`PALETTERGB`/`DIBINDEX` form;
+ * - floats must be finite;
+ * - pointers must be `NULL`, a non-negative address or a buffer; known struct and array
+ *   arguments must not be `NULL` unless the export documents it as optional, and buffers passed
+ *   directly must hold the struct size or `count × element size` bytes.
+ *
+ * Addresses obtained through `.ptr` carry no length, so only buffers passed as views are
+ * size-checked. Problems throw a `TypeError` or `RangeError` naming the export and argument.
+ *
+ * @param inner Backend that services the calls; defaults to `gdi32.dll`.
+ * @param options `enabled` switch and an optional `warn` sink.
+ * @returns A validating backend, or `inner` itself when validation is disabled.
+ * @example
+ * ```ts
+ * GDI32.Use(createValidatingBackend(createRasterBackend()));
+ *
+ * GDI32.CreateSolidBrush(0x1ff0000); // RangeError: CreateSolidBrush argument 1 is not a COLORREF …
+ * GDI32.Polyline(hdc, new Int32Array(4), 3); // RangeError: Polyline argument 2 needs at least 24 bytes …
+ * ```
+ */
+export function createValidatingBackend(inner: GDI32Backend = createLibraryBackend(), options: ValidationOptions = {}): GDI32Backend {
+  const { enabled = process.env.NODE_ENV !== 'production', warn } = options;
+
+  if (!enabled) {
+    return inner;
+  }
+
+  return (symbols) =>
+    Object.fromEntries(
+      Object.entries(inner(symbols)).map(([method, symbol]) => {
+        const types = symbols[method]!.args ?? [];
+        const rules = Arguments[method as GDI32Method] ?? {};
+
+        const validate = (args: unknown[]): void => {
+          if (args.length !== types.length) {
+            throw new TypeError(`${method} expects ${types.length} argument${types.length === 1 ? '' : 's'}, got ${args.length}.`);
+          }
+
+          types.forEach((type, index) =>
+            checkArgument(args[index], type, rules[index], args, (error, message) => {
+              throw new error(`${method} argument ${index + 1} ${message}.`);
+            })
+          );
+        };
+
+        return [
+          method,
+          (...args: unknown[]) => {
+            try {
+              validate(args);
+            } catch (error) {
+              if (!warn) {
+                throw error;
+              }
+
+              warn((error as Error).message);
+            }
+
+            return symbol(...args);
+          },
+        ];
+      })
+    );
+}
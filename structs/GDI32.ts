@@ -1,11 +1,10 @@
-import { type FFIFunction, FFIType, dlopen } from 'bun:ffi';
+import { type FFIFunction, FFIType } from 'bun:ffi';
 
 import type {
   ABORTPROC,
   BITMAP_,
   BITMAPINFO_,
   BITMAPINFOHEADER_,
-  BLENDFUNCTION,
   BOOL,
   BYTE_,
   COLORADJUSTMENT_,
@@ -58,6 +57,8 @@ import type {
   LPDWORD,
   LPENHMETAHEADER,
   LPFONTSIGNATURE,
+  LPGCP_RESULTSA,
+  LPGCP_RESULTSW,
   LPGLYPHMETRICS,
   LPGLYPHSET,
   LPHANDLETABLE,
@@ -101,6 +102,31 @@ import type {
   XFORM_,
 } from '../types/GDI32';
 
+import type {
+  ArcDirection,
+  BackgroundMode,
+  BinaryRasterOperation,
+  CharSet,
+  DeviceCap,
+  DIBUsage,
+  FontQuality,
+  GraphicsMode,
+  HatchStyle,
+  MapMode,
+  ObjectType,
+  OutPrecision,
+  PenStyle,
+  PolyFillMode,
+  RasterOperation,
+  RegionCombineMode,
+  StockObject,
+  StretchMode,
+  WorldTransformMode,
+} from '../constants/GDI32';
+
+import { type GDI32Backend, createLibraryBackend } from '../runtime/backend';
+import { type FailureSentinel, GdiError, clearLastError, failureSentinel, lastError } from '../runtime/errors';
+
 /**
  * Thin, lazy-loaded FFI bindings for `gdi32.dll`.
  *
@@ -122,26 +148,108 @@ import type {
  * ```
  */
 class GDI32 {
+  /**
+   * Symbol provider consulted by `Load`/`Preload`; `dlopen('gdi32.dll')` unless replaced via `Use`.
+   */
+  private static Backend: GDI32Backend = createLibraryBackend();
+
+  /**
+   * Original (lazy) descriptors of every method bound so far, keyed by export name.
+   *
+   * `Reset` uses these to reinstall the lazy getters so the next call rebinds through
+   * the current backend.
+   */
+  private static readonly Bound = new Map<string, PropertyDescriptor>();
+
+  /**
+   * Memoized `checked` facade.
+   */
+  private static Checked: GDI32Checked | undefined;
+
+  /**
+   * Throwing counterparts of every export.
+   *
+   * Each function clears the last-error code, calls the raw static method (through the current
+   * backend) and throws a `GdiError` carrying the arguments, the result and any non-zero
+   * `GetLastError()` when the result is the export's failure value (see `Failure`). Exports
+   * without one pass their result through.
+   * The raw methods are untouched and stay zero-overhead.
+   *
+   * @example
+   * ```ts
+   * const hdc = GDI32.checked.CreateCompatibleDC(0n); // throws GdiError instead of returning 0n
+   * ```
+   */
+  public static get checked(): GDI32Checked {
+    GDI32.Checked ??= Object.fromEntries(
+      (Object.keys(GDI32.Symbols) as GDI32Method[]).map((method) => {
+        const sentinel = GDI32.Failure(method);
+
+        return [
+          method,
+          (...args: unknown[]) => {
+            clearLastError();
+
+            const result = (GDI32[method] as (...args: unknown[]) => unknown)(...args);
+
+            if (sentinel?.failed(result)) {
+              throw new GdiError(method, args, result, sentinel, lastError());
+            }
+
+            return result;
+          },
+        ];
+      })
+    ) as GDI32Checked;
+
+    return GDI32.Checked;
+  }
+
+  /**
+   * The value an export returns on failure.
+   *
+   * Handle-returning exports fail with `NULL`, `BOOL`/`int`/`DWORD` exports with 0, except for the
+   * documented `GDI_ERROR`, `CLR_INVALID`, `HGDI_ERROR`, `SP_ERROR` and -1 cases listed in `Failures`.
+   *
+   * @param method Export name.
+   * @returns The sentinel, or `null` when every result is valid (e.g. `GetDeviceCaps`, `PtInRegion`).
+   */
+  public static Failure(method: GDI32Method): FailureSentinel | null {
+    return failureSentinel(method, GDI32.Symbols[method].returns);
+  }
+
+  /**
+   * Installs bound symbols on the class, remembering the lazy descriptors they replace.
+   *
+   * @param symbols Bound functions keyed by export name.
+   */
+  private static Install(symbols: Record<string, unknown>): void {
+    for (const [method, value] of Object.entries(symbols)) {
+      GDI32.Bound.set(method, Object.getOwnPropertyDescriptor(GDI32, method)!);
+
+      Object.defineProperty(GDI32, method, { configurable: true, value, writable: false });
+    }
+
+    return;
+  }
+
   /**
    * Lazily binds a single `gdi32.dll` export and memoizes it on the class.
    *
-   * If the symbol has already been bound (property is non-configurable), this is a no-op.
+   * If the symbol has already been bound, this is a no-op.
    * Subsequent calls go directly through the memoized native function.
    *
    * @param method Exact export name from `Symbols`.
    * @returns The bound native function, typed to the corresponding static method.
    */
   private static Load<T extends keyof typeof GDI32.Symbols>(method: T): (typeof GDI32)[T] {
-    const skip = Object.getOwnPropertyDescriptor(GDI32, method)?.configurable === false;
+    const skip = GDI32.Bound.has(method);
 
     if (skip) {
       return GDI32[method];
     }
 
-    const library = dlopen('gdi32.dll', { [method]: GDI32.Symbols[method] });
-    const propertyDescriptor = { configurable: false, value: library.symbols[method] };
-
-    Object.defineProperty(GDI32, method, propertyDescriptor);
+    GDI32.Install(GDI32.Backend({ [method]: GDI32.Symbols[method] }));
 
     return GDI32[method];
   }
@@ -167,18 +275,63 @@ class GDI32 {
 
     const symbols = Object.fromEntries(
       methods
-        .filter((method) => Object.getOwnPropertyDescriptor(GDI32, method)?.configurable !== false) //
+        .filter((method) => !GDI32.Bound.has(method)) //
         .map((method) => [method, GDI32.Symbols[method]])
     );
 
-    const library = dlopen('gdi32.dll', symbols);
+    GDI32.Install(GDI32.Backend(symbols));
 
-    const propertyDescriptorMap = Object.fromEntries(
-      Object.entries(library.symbols) //
-        .map(([key, value]) => [key, { configurable: false, value }])
-    );
+    return;
+  }
 
-    Object.defineProperties(GDI32, propertyDescriptorMap);
+  /**
+   * Unbinds every memoized export and restores the default `gdi32.dll` backend.
+   *
+   * Intended for tests: call it after each case so the next one starts from a clean slate.
+   *
+   * @example
+   * ```ts
+   * afterEach(() => GDI32.Reset());
+   * ```
+   */
+  public static Reset(): void {
+    GDI32.Unbind();
+
+    GDI32.Backend = createLibraryBackend();
+
+    return;
+  }
+
+  /**
+   * Unbinds every memoized export, reinstalling the lazy getters.
+   */
+  private static Unbind(): void {
+    for (const [method, propertyDescriptor] of GDI32.Bound) {
+      Object.defineProperty(GDI32, method, propertyDescriptor);
+    }
+
+    GDI32.Bound.clear();
+
+    return;
+  }
+
+  /**
+   * Replaces the symbol provider consulted by `Load`/`Preload`.
+   *
+   * Already-bound exports are unbound first, so every subsequent call goes through `backend`.
+   * Use `createMockBackend`/`createRecordingBackend` from `runtime/backend` (or `createRasterBackend`
+   * from `runtime/raster` for real pixels) to run on Linux.
+   *
+   * @param backend Symbol provider to bind exports with.
+   * @example
+   * ```ts
+   * GDI32.Use(createMockBackend({ GetStockObject: () => 0x10n }));
+   * ```
+   */
+  public static Use(backend: GDI32Backend): void {
+    GDI32.Unbind();
+
+    GDI32.Backend = backend;
 
     return;
   }
@@ -187,7 +340,8 @@ class GDI32 {
    * Raw symbol map for `dlopen('gdi32.dll', Symbols)`.
    *
    * Keys match exported function names; values specify `args` and `returns`
-   * via `FFIType`. `Load`/`Preload` consume this map to install the native bindings.
+   * via `FFIType`. `Load`/`Preload` hand subsets of this map to the active backend
+   * to install the bindings.
    */
   private static readonly Symbols = {
     AbortDoc: { args: [FFIType.u64], returns: FFIType.i32 },
@@ -299,7 +453,7 @@ class GDI32 {
     FlattenPath: { args: [FFIType.u64], returns: FFIType.i32 },
     FloodFill: { args: [FFIType.u64, FFIType.i32, FFIType.i32, FFIType.u32], returns: FFIType.i32 },
     FrameRgn: { args: [FFIType.u64, FFIType.u64, FFIType.u64, FFIType.i32, FFIType.i32], returns: FFIType.i32 },
-    GdiAlphaBlend: { args: [FFIType.u64, FFIType.i32, FFIType.i32, FFIType.i32, FFIType.i32, FFIType.u64, FFIType.i32, FFIType.i32, FFIType.i32, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
+    GdiAlphaBlend: { args: [FFIType.u64, FFIType.i32, FFIType.i32, FFIType.i32, FFIType.i32, FFIType.u64, FFIType.i32, FFIType.i32, FFIType.i32, FFIType.i32, FFIType.u32], returns: FFIType.i32 },
     GdiComment: { args: [FFIType.u64, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     GdiFlush: { args: [], returns: FFIType.i32 },
     GdiGetBatchLimit: { args: [], returns: FFIType.u32 },
@@ -315,8 +469,8 @@ class GDI32 {
     GetBoundsRect: { args: [FFIType.u64, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetBrushOrgEx: { args: [FFIType.u64, FFIType.ptr], returns: FFIType.i32 },
     GetCharABCWidthsI: { args: [FFIType.u64, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GetCharacterPlacementA: { args: [FFIType.u64, FFIType.ptr, FFIType.i32, FFIType.i32, FFIType.u32], returns: FFIType.u32 },
-    GetCharacterPlacementW: { args: [FFIType.u64, FFIType.ptr, FFIType.i32, FFIType.i32, FFIType.u32], returns: FFIType.u32 },
+    GetCharacterPlacementA: { args: [FFIType.u64, FFIType.ptr, FFIType.i32, FFIType.i32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
+    GetCharacterPlacementW: { args: [FFIType.u64, FFIType.ptr, FFIType.i32, FFIType.i32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetCharWidth32A: { args: [FFIType.u64, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     GetCharWidth32W: { args: [FFIType.u64, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     GetCharWidthA: { args: [FFIType.u64, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
@@ -388,8 +542,14 @@ class GDI32 {
     GetTextCharset: { args: [FFIType.u64], returns: FFIType.i32 },
     GetTextCharsetInfo: { args: [FFIType.u64, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     GetTextColor: { args: [FFIType.u64], returns: FFIType.u32 },
+    GetTextExtentExPointA: { args: [FFIType.u64, FFIType.ptr, FFIType.i32, FFIType.i32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetTextExtentExPointI: { args: [FFIType.u64, FFIType.ptr, FFIType.i32, FFIType.i32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    GetTextExtentExPointW: { args: [FFIType.u64, FFIType.ptr, FFIType.i32, FFIType.i32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    GetTextExtentPoint32A: { args: [FFIType.u64, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
+    GetTextExtentPoint32W: { args: [FFIType.u64, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
+    GetTextExtentPointA: { args: [FFIType.u64, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
     GetTextExtentPointI: { args: [FFIType.u64, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
+    GetTextExtentPointW: { args: [FFIType.u64, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
     GetTextFaceA: { args: [FFIType.u64, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
     GetTextFaceW: { args: [FFIType.u64, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
     GetTextMetricsA: { args: [FFIType.u64, FFIType.ptr], returns: FFIType.i32 },
@@ -579,7 +739,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-bitblt
-  public static BitBlt(hdc: HDC, x: int, y: int, cx: int, cy: int, hdcSrc: HDC, x1: int, y1: int, rop: DWORD): BOOL {
+  public static BitBlt(hdc: HDC, x: int, y: int, cx: int, cy: int, hdcSrc: HDC, x1: int, y1: int, rop: RasterOperation | DWORD): BOOL {
     return GDI32.Load('BitBlt')(hdc, x, y, cx, cy, hdcSrc, x1, y1, rop);
   }
 
@@ -629,7 +789,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-combinergn
-  public static CombineRgn(hrgnDst: HRGN, hrgnSrc1: HRGN, hrgnSrc2: HRGN, iMode: int): int {
+  public static CombineRgn(hrgnDst: HRGN, hrgnSrc1: HRGN, hrgnSrc2: HRGN, iMode: RegionCombineMode): int {
     return GDI32.Load('CombineRgn')(hrgnDst, hrgnSrc1, hrgnSrc2, iMode);
   }
 
@@ -704,22 +864,22 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-createdibitmap
-  public static CreateDIBitmap(hdc: HDC, pbmih: BITMAPINFOHEADER_, flInit: DWORD, pjBits: LPVOID, pbmi: BITMAPINFO_, iUsage: UINT): HBITMAP {
+  public static CreateDIBitmap(hdc: HDC, pbmih: BITMAPINFOHEADER_, flInit: DWORD, pjBits: LPVOID, pbmi: BITMAPINFO_, iUsage: DIBUsage): HBITMAP {
     return GDI32.Load('CreateDIBitmap')(hdc, pbmih, flInit, pjBits, pbmi, iUsage);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-createdibpatternbrush
-  public static CreateDIBPatternBrush(h: HGLOBAL, iUsage: UINT): HBRUSH {
+  public static CreateDIBPatternBrush(h: HGLOBAL, iUsage: DIBUsage): HBRUSH {
     return GDI32.Load('CreateDIBPatternBrush')(h, iUsage);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-createdibpatternbrushpt
-  public static CreateDIBPatternBrushPt(lpPackedDIB: LPVOID, iUsage: UINT): HBRUSH {
+  public static CreateDIBPatternBrushPt(lpPackedDIB: LPVOID, iUsage: DIBUsage): HBRUSH {
     return GDI32.Load('CreateDIBPatternBrushPt')(lpPackedDIB, iUsage);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-createdibsection
-  public static CreateDIBSection(hdc: HDC, pbmi: BITMAPINFO_, usage: UINT, ppvBits: LPVOID, hSection: HANDLE, offset: DWORD): HBITMAP {
+  public static CreateDIBSection(hdc: HDC, pbmi: BITMAPINFO_, usage: DIBUsage, ppvBits: LPVOID, hSection: HANDLE, offset: DWORD): HBITMAP {
     return GDI32.Load('CreateDIBSection')(hdc, pbmi, usage, ppvBits, hSection, offset);
   }
 
@@ -758,10 +918,10 @@ class GDI32 {
     bItalic: DWORD,
     bUnderline: DWORD,
     bStrikeOut: DWORD,
-    iCharSet: DWORD,
-    iOutPrecision: DWORD,
+    iCharSet: CharSet,
+    iOutPrecision: OutPrecision,
     iClipPrecision: DWORD,
-    iQuality: DWORD,
+    iQuality: FontQuality,
     iPitchAndFamily: DWORD,
     pszFaceName: LPCSTR
   ): HFONT {
@@ -798,10 +958,10 @@ class GDI32 {
     bItalic: DWORD,
     bUnderline: DWORD,
     bStrikeOut: DWORD,
-    iCharSet: DWORD,
-    iOutPrecision: DWORD,
+    iCharSet: CharSet,
+    iOutPrecision: OutPrecision,
     iClipPrecision: DWORD,
-    iQuality: DWORD,
+    iQuality: FontQuality,
     iPitchAndFamily: DWORD,
     pszFaceName: LPCWSTR
   ): HFONT {
@@ -814,7 +974,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-createhatchbrush
-  public static CreateHatchBrush(iHatch: int, color: COLORREF): HBRUSH {
+  public static CreateHatchBrush(iHatch: HatchStyle, color: COLORREF): HBRUSH {
     return GDI32.Load('CreateHatchBrush')(iHatch, color);
   }
 
@@ -849,7 +1009,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-createpen
-  public static CreatePen(iStyle: int, cWidth: int, color: COLORREF): HPEN {
+  public static CreatePen(iStyle: PenStyle, cWidth: int, color: COLORREF): HPEN {
     return GDI32.Load('CreatePen')(iStyle, cWidth, color);
   }
 
@@ -1009,7 +1169,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-enumobjects
-  public static EnumObjects(hdc: HDC, nType: int, lpFunc: GOBJENUMPROC, lParam: LPVOID): int {
+  public static EnumObjects(hdc: HDC, nType: ObjectType, lpFunc: GOBJENUMPROC, lParam: LPVOID): int {
     return GDI32.Load('EnumObjects')(hdc, nType, lpFunc, lParam);
   }
 
@@ -1049,7 +1209,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-extselectcliprgn
-  public static ExtSelectClipRgn(hdc: HDC, hrgn: HRGN, mode: int): int {
+  public static ExtSelectClipRgn(hdc: HDC, hrgn: HRGN, mode: RegionCombineMode): int {
     return GDI32.Load('ExtSelectClipRgn')(hdc, hrgn, mode);
   }
 
@@ -1094,7 +1254,8 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-gdialphablend
-  public static GdiAlphaBlend(hdcDest: HDC, xoriginDest: int, yoriginDest: int, wDest: int, hDest: int, hdcSrc: HDC, xoriginSrc: int, yoriginSrc: int, wSrc: int, hSrc: int, ftn: BLENDFUNCTION): BOOL {
+  // `ftn` is the 4-byte BLENDFUNCTION passed by value: `BLEND_FUNCTION.encode({ ... }).readUInt32LE()`.
+  public static GdiAlphaBlend(hdcDest: HDC, xoriginDest: int, yoriginDest: int, wDest: int, hDest: int, hdcSrc: HDC, xoriginSrc: int, yoriginSrc: int, wSrc: int, hSrc: int, ftn: DWORD): BOOL {
     return GDI32.Load('GdiAlphaBlend')(hdcDest, xoriginDest, yoriginDest, wDest, hDest, hdcSrc, xoriginSrc, yoriginSrc, wSrc, hSrc, ftn);
   }
 
@@ -1174,13 +1335,13 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-getcharacterplacementa
-  public static GetCharacterPlacementA(hdc: HDC, lpString: LPCSTR, nCount: int, nMexExtent: int, dwFlags: DWORD): DWORD {
-    return GDI32.Load('GetCharacterPlacementA')(hdc, lpString, nCount, nMexExtent, dwFlags);
+  public static GetCharacterPlacementA(hdc: HDC, lpString: LPCSTR, nCount: int, nMexExtent: int, lpResults: LPGCP_RESULTSA, dwFlags: DWORD): DWORD {
+    return GDI32.Load('GetCharacterPlacementA')(hdc, lpString, nCount, nMexExtent, lpResults, dwFlags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-getcharacterplacementw
-  public static GetCharacterPlacementW(hdc: HDC, lpString: LPCWSTR, nCount: int, nMexExtent: int, dwFlags: DWORD): DWORD {
-    return GDI32.Load('GetCharacterPlacementW')(hdc, lpString, nCount, nMexExtent, dwFlags);
+  public static GetCharacterPlacementW(hdc: HDC, lpString: LPCWSTR, nCount: int, nMexExtent: int, lpResults: LPGCP_RESULTSW, dwFlags: DWORD): DWORD {
+    return GDI32.Load('GetCharacterPlacementW')(hdc, lpString, nCount, nMexExtent, lpResults, dwFlags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-getcharwidth32a
@@ -1229,7 +1390,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-getcurrentobject
-  public static GetCurrentObject(hdc: HDC, type: UINT): HGDIOBJ {
+  public static GetCurrentObject(hdc: HDC, type: ObjectType): HGDIOBJ {
     return GDI32.Load('GetCurrentObject')(hdc, type);
   }
 
@@ -1254,7 +1415,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-getdevicecaps
-  public static GetDeviceCaps(hdc: HDC, index: int): int {
+  public static GetDeviceCaps(hdc: HDC, index: DeviceCap): int {
     return GDI32.Load('GetDeviceCaps')(hdc, index);
   }
 
@@ -1269,7 +1430,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-getdibits
-  public static GetDIBits(hdc: HDC, hbm: HBITMAP, start: UINT, cLines: UINT, lpvBits: LPVOID, lpbmi: LPBITMAPINFO, usage: UINT): int {
+  public static GetDIBits(hdc: HDC, hbm: HBITMAP, start: UINT, cLines: UINT, lpvBits: LPVOID, lpbmi: LPBITMAPINFO, usage: DIBUsage): int {
     return GDI32.Load('GetDIBits')(hdc, hbm, start, cLines, lpvBits, lpbmi, usage);
   }
 
@@ -1494,7 +1655,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-getstockobject
-  public static GetStockObject(i: int): HGDIOBJ {
+  public static GetStockObject(i: StockObject): HGDIOBJ {
     return GDI32.Load('GetStockObject')(i);
   }
 
@@ -1538,16 +1699,46 @@ class GDI32 {
     return GDI32.Load('GetTextColor')(hdc);
   }
 
+  // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-gettextextentexpointa
+  public static GetTextExtentExPointA(hdc: HDC, lpszString: LPCSTR, cchString: int, nMaxExtent: int, lpnFit: LPINT, lpnDx: LPINT, lpSize: LPSIZE): BOOL {
+    return GDI32.Load('GetTextExtentExPointA')(hdc, lpszString, cchString, nMaxExtent, lpnFit, lpnDx, lpSize);
+  }
+
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-gettextextentexpointi
   public static GetTextExtentExPointI(hdc: HDC, lpwszString: LPWORD, cwchString: int, nMaxExtent: int, lpnFit: LPINT, lpnDx: LPINT, lpSize: LPSIZE): BOOL {
     return GDI32.Load('GetTextExtentExPointI')(hdc, lpwszString, cwchString, nMaxExtent, lpnFit, lpnDx, lpSize);
   }
 
+  // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-gettextextentexpointw
+  public static GetTextExtentExPointW(hdc: HDC, lpszString: LPCWSTR, cchString: int, nMaxExtent: int, lpnFit: LPINT, lpnDx: LPINT, lpSize: LPSIZE): BOOL {
+    return GDI32.Load('GetTextExtentExPointW')(hdc, lpszString, cchString, nMaxExtent, lpnFit, lpnDx, lpSize);
+  }
+
+  // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-gettextextentpoint32a
+  public static GetTextExtentPoint32A(hdc: HDC, lpString: LPCSTR, c: int, psizl: LPSIZE): BOOL {
+    return GDI32.Load('GetTextExtentPoint32A')(hdc, lpString, c, psizl);
+  }
+
+  // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-gettextextentpoint32w
+  public static GetTextExtentPoint32W(hdc: HDC, lpString: LPCWSTR, c: int, psizl: LPSIZE): BOOL {
+    return GDI32.Load('GetTextExtentPoint32W')(hdc, lpString, c, psizl);
+  }
+
+  // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-gettextextentpointa
+  public static GetTextExtentPointA(hdc: HDC, lpString: LPCSTR, c: int, lpsz: LPSIZE): BOOL {
+    return GDI32.Load('GetTextExtentPointA')(hdc, lpString, c, lpsz);
+  }
+
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-gettextextentpointi
   public static GetTextExtentPointI(hdc: HDC, pgiIn: LPWORD, cgi: int, psize: LPSIZE): BOOL {
     return GDI32.Load('GetTextExtentPointI')(hdc, pgiIn, cgi, psize);
   }
 
+  // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-gettextextentpointw
+  public static GetTextExtentPointW(hdc: HDC, lpString: LPCWSTR, c: int, lpsz: LPSIZE): BOOL {
+    return GDI32.Load('GetTextExtentPointW')(hdc, lpString, c, lpsz);
+  }
+
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-gettextfacea
   public static GetTextFaceA(hdc: HDC, c: int, lpName: LPSTR): int {
     return GDI32.Load('GetTextFaceA')(hdc, c, lpName);
@@ -1629,7 +1820,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-modifyworldtransform
-  public static ModifyWorldTransform(hdc: HDC, lpxf: XFORM_, mode: DWORD): BOOL {
+  public static ModifyWorldTransform(hdc: HDC, lpxf: XFORM_, mode: WorldTransformMode): BOOL {
     return GDI32.Load('ModifyWorldTransform')(hdc, lpxf, mode);
   }
 
@@ -1664,7 +1855,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-patblt
-  public static PatBlt(hdc: HDC, x: int, y: int, w: int, h: int, rop: DWORD): BOOL {
+  public static PatBlt(hdc: HDC, x: int, y: int, w: int, h: int, rop: RasterOperation | DWORD): BOOL {
     return GDI32.Load('PatBlt')(hdc, x, y, w, h, rop);
   }
 
@@ -1849,7 +2040,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-selectclippath
-  public static SelectClipPath(hdc: HDC, mode: int): BOOL {
+  public static SelectClipPath(hdc: HDC, mode: RegionCombineMode): BOOL {
     return GDI32.Load('SelectClipPath')(hdc, mode);
   }
 
@@ -1874,7 +2065,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-setarcdirection
-  public static SetArcDirection(hdc: HDC, dir: int): int {
+  public static SetArcDirection(hdc: HDC, dir: ArcDirection): int {
     return GDI32.Load('SetArcDirection')(hdc, dir);
   }
 
@@ -1894,7 +2085,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-setbkmode
-  public static SetBkMode(hdc: HDC, mode: int): int {
+  public static SetBkMode(hdc: HDC, mode: BackgroundMode): int {
     return GDI32.Load('SetBkMode')(hdc, mode);
   }
 
@@ -1939,12 +2130,12 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-setdibits
-  public static SetDIBits(hdc: HDC, hbm: HBITMAP, start: UINT, cLines: UINT, lpBits: LPVOID, lpbmi: BITMAPINFO_, ColorUse: UINT): int {
+  public static SetDIBits(hdc: HDC, hbm: HBITMAP, start: UINT, cLines: UINT, lpBits: LPVOID, lpbmi: BITMAPINFO_, ColorUse: DIBUsage): int {
     return GDI32.Load('SetDIBits')(hdc, hbm, start, cLines, lpBits, lpbmi, ColorUse);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-setdibitstodevice
-  public static SetDIBitsToDevice(hdc: HDC, xDest: int, yDest: int, w: DWORD, h: DWORD, xSrc: int, ySrc: int, StartScan: UINT, cLines: UINT, lpvBits: LPVOID, lpbmi: BITMAPINFO_, ColorUse: UINT): int {
+  public static SetDIBitsToDevice(hdc: HDC, xDest: int, yDest: int, w: DWORD, h: DWORD, xSrc: int, ySrc: int, StartScan: UINT, cLines: UINT, lpvBits: LPVOID, lpbmi: BITMAPINFO_, ColorUse: DIBUsage): int {
     return GDI32.Load('SetDIBitsToDevice')(hdc, xDest, yDest, w, h, xSrc, ySrc, StartScan, cLines, lpvBits, lpbmi, ColorUse);
   }
 
@@ -1954,7 +2145,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-setgraphicsmode
-  public static SetGraphicsMode(hdc: HDC, iMode: int): int {
+  public static SetGraphicsMode(hdc: HDC, iMode: GraphicsMode): int {
     return GDI32.Load('SetGraphicsMode')(hdc, iMode);
   }
 
@@ -1979,7 +2170,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-setmapmode
-  public static SetMapMode(hdc: HDC, iMode: int): int {
+  public static SetMapMode(hdc: HDC, iMode: MapMode): int {
     return GDI32.Load('SetMapMode')(hdc, iMode);
   }
 
@@ -2024,7 +2215,7 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-setpolyfillmode
-  public static SetPolyFillMode(hdc: HDC, mode: int): int {
+  public static SetPolyFillMode(hdc: HDC, mode: PolyFillMode): int {
     return GDI32.Load('SetPolyFillMode')(hdc, mode);
   }
 
@@ -2034,12 +2225,12 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-setrop2
-  public static SetROP2(hdc: HDC, rop2: int): int {
+  public static SetROP2(hdc: HDC, rop2: BinaryRasterOperation): int {
     return GDI32.Load('SetROP2')(hdc, rop2);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-setstretchbltmode
-  public static SetStretchBltMode(hdc: HDC, mode: int): int {
+  public static SetStretchBltMode(hdc: HDC, mode: StretchMode): int {
     return GDI32.Load('SetStretchBltMode')(hdc, mode);
   }
 
@@ -2114,12 +2305,12 @@ class GDI32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-stretchblt
-  public static StretchBlt(hdcDest: HDC, xDest: int, yDest: int, wDest: int, hDest: int, hdcSrc: HDC, xSrc: int, ySrc: int, wSrc: int, hSrc: int, rop: DWORD): BOOL {
+  public static StretchBlt(hdcDest: HDC, xDest: int, yDest: int, wDest: int, hDest: int, hdcSrc: HDC, xSrc: int, ySrc: int, wSrc: int, hSrc: int, rop: RasterOperation | DWORD): BOOL {
     return GDI32.Load('StretchBlt')(hdcDest, xDest, yDest, wDest, hDest, hdcSrc, xSrc, ySrc, wSrc, hSrc, rop);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/wingdi/nf-wingdi-stretchdibits
-  public static StretchDIBits(hdc: HDC, xDest: int, yDest: int, DestWidth: int, DestHeight: int, xSrc: int, ySrc: int, SrcWidth: int, SrcHeight: int, lpBits: LPVOID, lpbmi: BITMAPINFO_, iUsage: UINT, rop: DWORD): int {
+  public static StretchDIBits(hdc: HDC, xDest: int, yDest: int, DestWidth: int, DestHeight: int, xSrc: int, ySrc: int, SrcWidth: int, SrcHeight: int, lpBits: LPVOID, lpbmi: BITMAPINFO_, iUsage: DIBUsage, rop: RasterOperation | DWORD): int {
     return GDI32.Load('StretchDIBits')(hdc, xDest, yDest, DestWidth, DestHeight, xSrc, ySrc, SrcWidth, SrcHeight, lpBits, lpbmi, iUsage, rop);
   }
 
@@ -2179,4 +2370,14 @@ class GDI32 {
   }
 }
 
+/**
+ * Name of any `gdi32.dll` export declared in `Symbols`.
+ */
+export type GDI32Method = keyof (typeof GDI32)['Symbols'];
+
+/**
+ * The `GDI32.checked` facade: every export, throwing `GdiError` on failure.
+ */
+export type GDI32Checked = { readonly [K in GDI32Method]: (typeof GDI32)[K] };
+
 export default GDI32;
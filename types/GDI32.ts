@@ -4,6 +4,7 @@ export type ABORTPROC = Pointer;
 export type BITMAP_ = Pointer;
 export type BITMAPINFO_ = Pointer;
 export type BITMAPINFOHEADER_ = Pointer;
+/** @deprecated `GdiAlphaBlend` takes the blend function by value as a `DWORD`; pack it with `BLEND_FUNCTION.encode({ ... }).readUInt32LE()`. */
 export type BLENDFUNCTION = Pointer;
 export type BOOL = number;
 export type BYTE_ = Pointer;
@@ -59,6 +60,8 @@ export type LPCWSTR = Pointer;
 export type LPDWORD = Pointer;
 export type LPENHMETAHEADER = Pointer;
 export type LPFONTSIGNATURE = Pointer;
+export type LPGCP_RESULTSA = Pointer;
+export type LPGCP_RESULTSW = Pointer;
 export type LPGLYPHMETRICS = Pointer;
 export type LPGLYPHSET = Pointer;
 export type LPHANDLETABLE = Pointer;